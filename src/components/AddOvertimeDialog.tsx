@@ -1,5 +1,16 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useHolidays } from '@/hooks/useHolidays';
+import { useDayRecordedMinutes } from '@/hooks/useDayRecordedMinutes';
+import { useHourlyRate } from '@/hooks/useHourlyRate';
+import { useLocationCapture } from '@/hooks/useLocationCapture';
+import { useOvertimeLimitCheck } from '@/hooks/useOvertimeLimitCheck';
+import { uploadOvertimeAttachments } from '@/hooks/useOvertimeAttachments';
+import { addToOutbox } from '@/hooks/useOvertimeOutbox';
+import { usePayrollPeriods } from '@/hooks/usePayrollPeriods';
+import { usePayrollSettings } from '@/hooks/usePayrollSettings';
+import { useScheduledShift } from '@/hooks/useScheduledShift';
+import { useStations } from '@/hooks/useStations';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -12,78 +23,97 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
-import { Plus, Calculator, Clock } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, UserPlus } from 'lucide-react';
 import { toast } from 'sonner';
-import { Card, CardContent } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
+import { AttachmentInput } from '@/components/AttachmentInput';
+import { LocationConsentField } from '@/components/LocationConsentField';
+import { OvertimeCalculationCard } from '@/components/OvertimeCalculationCard';
+import { OvertimeLimitAlert } from '@/components/OvertimeLimitAlert';
+import { OvertimeReasonFields } from '@/components/OvertimeReasonFields';
+import { errorMessage } from '@/utils/errors';
 import { isValidDate, isValidTime, sanitizeInput } from '@/utils/security';
+import { MAX_ATTACHMENTS_PER_RECORD } from '@/utils/attachments';
+import { toRecordLocation } from '@/utils/geolocation';
+import { calculateOvertime, getShiftEndDate, timeToMinutes } from '@/utils/overtime';
+import { isNetworkError } from '@/utils/overtimeOutbox';
+import {
+  DEFAULT_TIME_ADJUSTMENT_POLICY,
+  isTimeAdjustmentPolicy,
+  TIME_ADJUSTMENT_POLICY_SETTING,
+} from '@/utils/timeAdjustment';
+import { formatShift, shiftTime } from '@/utils/workSchedules';
+
+// Sem posto escolhido, o banco usa a lotação do funcionário na data
+const ASSIGNED_STATION = 'assigned';
 
-const HOURLY_RATE = 15.57;
+interface AddOvertimeDialogEmployee {
+  id: string;
+  full_name: string;
+}
+
+interface AddOvertimeDialogProps {
+  onSuccess: () => void;
+  // Com a lista de funcionários o diálogo lança em nome deles (modo administrador)
+  employees?: AddOvertimeDialogEmployee[];
+  defaultEmployeeId?: string;
+}
 
-export function AddOvertimeDialog({ onSuccess }: { onSuccess: () => void }) {
+export function AddOvertimeDialog({ onSuccess, employees, defaultEmployeeId }: AddOvertimeDialogProps) {
   const { user } = useAuth();
+  const isAdminMode = employees !== undefined;
+  const { isHoliday } = useHolidays();
+  const { isDateLocked } = usePayrollPeriods();
+  const { getValue } = usePayrollSettings();
+  const { activeStations } = useStations();
+  const { consent: locationConsent, setConsent: setLocationConsent, capture: captureLocation } = useLocationCapture();
   const [open, setOpen] = useState(false);
+  const [employeeId, setEmployeeId] = useState(defaultEmployeeId ?? '');
   const [isLoading, setIsLoading] = useState(false);
-  const [lunchDiscount, setLunchDiscount] = useState(false);
-  const [calculation, setCalculation] = useState<{
-    totalHours: number;
-    lunchDiscount: boolean;
-    netHours: number;
-    totalValue: number;
-  } | null>(null);
-
-  const calculateOvertime = (startTime: string, endTime: string, hasLunch: boolean) => {
-    if (!startTime || !endTime) return null;
-
-    const [startHour, startMinute] = startTime.split(':').map(Number);
-    const [endHour, endMinute] = endTime.split(':').map(Number);
-
-    const startMinutes = startHour * 60 + startMinute;
-    const endMinutes = endHour * 60 + endMinute;
-    
-    let totalMinutes = endMinutes - startMinutes;
-    if (totalMinutes < 0) totalMinutes += 24 * 60; // Handle overnight shifts
-
-    const totalHours = totalMinutes / 60;
-    const lunchDiscount = hasLunch; // Use the checkbox value
-    const netHours = lunchDiscount ? totalHours - 1 : totalHours;
-    const totalValue = netHours * HOURLY_RATE;
-
-    return {
-      totalHours: Math.round(totalHours * 100) / 100,
-      lunchDiscount,
-      netHours: Math.round(netHours * 100) / 100,
-      totalValue: Math.round(totalValue * 100) / 100,
-    };
-  };
+  const [formData, setFormData] = useState({
+    date: '',
+    startTime: '',
+    endTime: '',
+    lunchDiscount: false,
+  });
+  const [stationId, setStationId] = useState(ASSIGNED_STATION);
+  const [reason, setReason] = useState({ reasonId: '', justification: '' });
+  const [attachmentFiles, setAttachmentFiles] = useState<File[]>([]);
+  const targetUserId = isAdminMode ? employeeId || undefined : user?.id;
+  const { hourlyRate, composition, isLoading: isRateLoading } = useHourlyRate(targetUserId, formData.date);
 
-  const handleTimeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const form = e.currentTarget.form;
-    if (!form) return;
+  const { otherMinutesOnDate, isLoading: isDayLoading } = useDayRecordedMinutes(targetUserId, formData.date);
 
-    const formData = new FormData(form);
-    const startTime = formData.get('startTime') as string;
-    const endTime = formData.get('endTime') as string;
+  // Horas extras costumam começar no fim do turno previsto na escala
+  const { shift: scheduledShift } = useScheduledShift(targetUserId, formData.date);
+  const scheduledEnd = scheduledShift ? shiftTime(scheduledShift.ends_at) : '';
 
-    if (startTime && endTime) {
-      const calc = calculateOvertime(startTime, endTime, lunchDiscount);
-      setCalculation(calc);
-    }
-  };
+  useEffect(() => {
+    if (!scheduledEnd) return;
+    setFormData((current) => (current.startTime ? current : { ...current, startTime: scheduledEnd }));
+  }, [scheduledEnd]);
 
-  const handleLunchChange = (checked: boolean) => {
-    setLunchDiscount(checked);
-    const form = document.querySelector('form');
-    if (!form) return;
+  // Novos lançamentos seguem a política de tolerância vigente
+  const configuredPolicy = getValue(TIME_ADJUSTMENT_POLICY_SETTING, DEFAULT_TIME_ADJUSTMENT_POLICY);
+  const timePolicy = isTimeAdjustmentPolicy(configuredPolicy) ? configuredPolicy : DEFAULT_TIME_ADJUSTMENT_POLICY;
 
-    const formData = new FormData(form);
-    const startTime = formData.get('startTime') as string;
-    const endTime = formData.get('endTime') as string;
+  const calculation = calculateOvertime({ ...formData, hourlyRate, isHoliday, timePolicy, otherMinutesOnDate });
+  const { excesses, isBlocked } = useOvertimeLimitCheck(
+    targetUserId,
+    calculation && { ...formData, endDate: calculation.endDate }
+  );
 
-    if (startTime && endTime) {
-      const calc = calculateOvertime(startTime, endTime, checked);
-      setCalculation(calc);
-    }
+  const handleOpenChange = (isOpen: boolean) => {
+    // Cada abertura começa no funcionário selecionado na tela
+    if (isOpen) setEmployeeId(defaultEmployeeId ?? '');
+    setOpen(isOpen);
   };
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
@@ -93,10 +123,11 @@ export function AddOvertimeDialog({ onSuccess }: { onSuccess: () => void }) {
     setIsLoading(true);
 
     try {
-      const formData = new FormData(e.currentTarget);
-      const date = formData.get('date') as string;
-      const startTime = formData.get('startTime') as string;
-      const endTime = formData.get('endTime') as string;
+      const { date, startTime, endTime } = formData;
+
+      if (!targetUserId) {
+        throw new Error('Selecione o funcionário');
+      }
 
       // Input validation and sanitization
       if (!date || !startTime || !endTime) {
@@ -124,57 +155,143 @@ export function AddOvertimeDialog({ onSuccess }: { onSuccess: () => void }) {
         throw new Error('Não é possível registrar horas extras para datas futuras');
       }
 
-      // Validate time range
-      const start = new Date(`2000-01-01T${sanitizedStartTime}`);
-      const end = new Date(`2000-01-01T${sanitizedEndTime}`);
-      
-      if (start >= end) {
-        throw new Error('Horário de fim deve ser posterior ao horário de início');
+      if (isDateLocked(sanitizedDate)) {
+        throw new Error('A data pertence a um período de folha fechado');
+      }
+
+      // Validate time range (an end before the start means the shift ends the next day)
+      if (timeToMinutes(sanitizedStartTime) === timeToMinutes(sanitizedEndTime)) {
+        throw new Error('Horário de fim deve ser diferente do horário de início');
+      }
+
+      if (calculation.netHours <= 0) {
+        throw new Error('Não há horas extras a lançar após tolerância e desconto de almoço');
+      }
+
+      const sanitizedJustification = sanitizeInput(reason.justification);
+
+      if (!reason.reasonId) {
+        throw new Error('Selecione o motivo das horas extras');
+      }
+
+      if (!sanitizedJustification) {
+        throw new Error('Informe a justificativa das horas extras');
       }
 
-      const { error } = await supabase.from('overtime_records').insert({
-        user_id: user.id,
+      // Lançamentos do próprio funcionário levam a localização para conferir a cerca do posto
+      const location = isAdminMode ? { point: null, error: null } : await captureLocation();
+      if (location.error) {
+        toast.warning(`${location.error}: o lançamento será salvo sem localização e ficará marcado para revisão`);
+      }
+
+      const newRecord = {
+        // Gerado no aparelho para que uma nova tentativa de sincronização não duplique o lançamento
+        id: crypto.randomUUID(),
+        user_id: targetUserId,
         date: sanitizedDate,
+        end_date: getShiftEndDate(sanitizedDate, sanitizedStartTime, sanitizedEndTime),
         start_time: sanitizedStartTime,
         end_time: sanitizedEndTime,
-        total_hours: calculation.totalHours,
-        lunch_discount: lunchDiscount,
-        net_hours: calculation.netHours,
-        hourly_rate: HOURLY_RATE,
-        total_value: calculation.totalValue,
-      });
+        lunch_discount: formData.lunchDiscount,
+        station_id: stationId === ASSIGNED_STATION ? null : stationId,
+        reason_id: reason.reasonId,
+        justification: sanitizedJustification,
+        ...toRecordLocation(location.point),
+      };
+
+      // Sem conexão, o lançamento do próprio funcionário fica no aparelho até sincronizar
+      const queueOffline = async () => {
+        await addToOutbox(targetUserId, newRecord, attachmentFiles);
+        toast.info('Sem conexão: lançamento salvo no aparelho e pendente de sincronização');
+      };
 
-      if (error) throw error;
+      if (!isAdminMode && !navigator.onLine) {
+        await queueOffline();
+      } else {
+        const { data: record, error } = await supabase
+          .from('overtime_records')
+          .insert(newRecord)
+          .select('id, geofence_status')
+          .single();
+
+        if (error) {
+          if (isAdminMode || !isNetworkError(error)) throw error;
+          await queueOffline();
+        } else {
+          // O lançamento já foi salvo: uma falha no envio não o desfaz
+          try {
+            await uploadOvertimeAttachments(targetUserId, record.id, attachmentFiles);
+            toast.success('Hora extra registrada com sucesso!');
+          } catch (uploadError: unknown) {
+            toast.warning(`Hora extra registrada, mas o anexo não foi enviado: ${errorMessage(uploadError, 'falha no envio')}`);
+          }
+          if (record.geofence_status === 'outside') {
+            toast.warning('Você está fora da área do posto: o lançamento ficará marcado para revisão');
+          }
+        }
+      }
 
-      toast.success('Hora extra registrada com sucesso!');
       setOpen(false);
-      setCalculation(null);
+      setFormData({ date: '', startTime: '', endTime: '', lunchDiscount: false });
+      setStationId(ASSIGNED_STATION);
+      setReason({ reasonId: '', justification: '' });
+      setAttachmentFiles([]);
       onSuccess();
-    } catch (error: any) {
-      toast.error(error.message || 'Erro ao registrar hora extra');
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao registrar hora extra'));
     } finally {
       setIsLoading(false);
     }
   };
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
-        <Button size="lg" className="gap-2 w-full sm:w-auto">
-          <Plus className="h-4 w-4 sm:h-5 sm:w-5" />
-          <span className="text-sm sm:text-base">Adicionar Hora Extra</span>
-        </Button>
+        {isAdminMode ? (
+          <Button size="sm" className="gap-2">
+            <UserPlus className="h-4 w-4" />
+            Lançar Hora Extra
+          </Button>
+        ) : (
+          <Button size="lg" className="gap-2 w-full sm:w-auto">
+            <Plus className="h-4 w-4 sm:h-5 sm:w-5" />
+            <span className="text-sm sm:text-base">Adicionar Hora Extra</span>
+          </Button>
+        )}
       </DialogTrigger>
       
       <DialogContent className="w-[95vw] max-w-sm mx-auto max-h-[90vh] overflow-y-auto">
         <DialogHeader className="pb-2">
-          <DialogTitle className="text-base">Registrar Hora Extra</DialogTitle>
+          <DialogTitle className="text-base">
+            {isAdminMode ? 'Lançar para Funcionário' : 'Registrar Hora Extra'}
+          </DialogTitle>
           <DialogDescription className="text-xs">
-            Valor: R$ {HOURLY_RATE}/hora
+            Valor: R$ {hourlyRate.toFixed(2)}/hora • +50% dias úteis • +100% domingos e feriados
           </DialogDescription>
         </DialogHeader>
         
         <form onSubmit={handleSubmit} className="space-y-3">
+          {isAdminMode && (
+            <div className="space-y-1">
+              <Label className="text-xs font-medium">Funcionário</Label>
+              <Select value={employeeId} onValueChange={setEmployeeId}>
+                <SelectTrigger className="w-full text-sm h-9">
+                  <SelectValue placeholder="Selecione o funcionário" />
+                </SelectTrigger>
+                <SelectContent>
+                  {employees.map((employee) => (
+                    <SelectItem key={employee.id} value={employee.id}>
+                      {employee.full_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                O lançamento fica registrado como alteração do administrador e já entra aprovado.
+              </p>
+            </div>
+          )}
+
           <div className="space-y-1">
             <Label htmlFor="date" className="text-xs font-medium">Data</Label>
             <Input
@@ -183,6 +300,8 @@ export function AddOvertimeDialog({ onSuccess }: { onSuccess: () => void }) {
               type="date"
               required
               max={new Date().toISOString().split('T')[0]}
+              value={formData.date}
+              onChange={(e) => setFormData({ ...formData, date: e.target.value })}
               className="w-full text-sm h-9"
             />
           </div>
@@ -195,7 +314,8 @@ export function AddOvertimeDialog({ onSuccess }: { onSuccess: () => void }) {
                 name="startTime"
                 type="time"
                 required
-                onChange={handleTimeChange}
+                value={formData.startTime}
+                onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
                 className="w-full text-sm h-9"
               />
             </div>
@@ -207,18 +327,77 @@ export function AddOvertimeDialog({ onSuccess }: { onSuccess: () => void }) {
                 name="endTime"
                 type="time"
                 required
-                onChange={handleTimeChange}
+                value={formData.endTime}
+                onChange={(e) => setFormData({ ...formData, endTime: e.target.value })}
                 className="w-full text-sm h-9"
               />
             </div>
           </div>
 
+          {scheduledShift && (
+            <p className="text-xs text-muted-foreground">
+              Turno previsto: {formatShift(shiftTime(scheduledShift.starts_at), scheduledEnd)}
+              {formData.startTime !== scheduledEnd && (
+                <Button
+                  type="button"
+                  variant="link"
+                  onClick={() => setFormData({ ...formData, startTime: scheduledEnd })}
+                  className="h-auto p-0 ml-1 text-xs"
+                >
+                  Iniciar no fim do turno
+                </Button>
+              )}
+            </p>
+          )}
+
+          {isAdminMode && activeStations.length > 0 && (
+            <div className="space-y-1">
+              <Label className="text-xs font-medium">Posto</Label>
+              <Select value={stationId} onValueChange={setStationId}>
+                <SelectTrigger className="w-full text-sm h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ASSIGNED_STATION}>Posto de lotação do funcionário</SelectItem>
+                  {activeStations.map((station) => (
+                    <SelectItem key={station.id} value={station.id}>
+                      {station.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <OvertimeReasonFields
+            idPrefix="add"
+            reasonId={reason.reasonId}
+            justification={reason.justification}
+            onReasonChange={(reasonId) => setReason({ ...reason, reasonId })}
+            onJustificationChange={(justification) => setReason({ ...reason, justification })}
+          />
+
+          <AttachmentInput
+            files={attachmentFiles}
+            onChange={setAttachmentFiles}
+            maxFiles={MAX_ATTACHMENTS_PER_RECORD}
+            disabled={isLoading}
+          />
+
+          {!isAdminMode && (
+            <LocationConsentField
+              idPrefix="add"
+              consent={locationConsent}
+              onConsentChange={setLocationConsent}
+            />
+          )}
+
           {/* Checkbox para horário de almoço */}
           <div className="flex items-center space-x-2 p-2 bg-muted/50 rounded-lg border">
             <Checkbox
               id="lunchDiscount"
-              checked={lunchDiscount}
-              onCheckedChange={handleLunchChange}
+              checked={formData.lunchDiscount}
+              onCheckedChange={(checked) => setFormData({ ...formData, lunchDiscount: !!checked })}
               className="h-4 w-4"
             />
             <Label htmlFor="lunchDiscount" className="text-xs font-medium cursor-pointer flex-1">
@@ -226,42 +405,9 @@ export function AddOvertimeDialog({ onSuccess }: { onSuccess: () => void }) {
             </Label>
           </div>
           
-          {calculation && (
-            <Card className="bg-muted/50">
-              <CardContent className="pt-2 space-y-1">
-                <div className="flex items-center gap-1 text-xs font-medium">
-                  <Calculator className="h-3 w-3 text-primary" />
-                  <span>Cálculo:</span>
-                </div>
-                
-                <div className="space-y-1 text-xs">
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Total:</span>
-                    <span className="font-medium">{calculation.totalHours.toFixed(2)}h</span>
-                  </div>
-                  
-                  {calculation.lunchDiscount && (
-                    <div className="flex justify-between text-amber-600">
-                      <span>Almoço:</span>
-                      <span className="font-medium">-1.00h</span>
-                    </div>
-                  )}
-                  
-                  <div className="flex justify-between border-t pt-1">
-                    <span className="text-muted-foreground">Líquido:</span>
-                    <span className="font-semibold">{calculation.netHours.toFixed(2)}h</span>
-                  </div>
-                  
-                  <div className="flex justify-between text-success border-t pt-1">
-                    <span className="font-medium">Valor:</span>
-                    <span className="font-bold text-sm">
-                      R$ {calculation.totalValue.toFixed(2)}
-                    </span>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          )}
+          {calculation && <OvertimeCalculationCard calculation={calculation} composition={composition} />}
+
+          <OvertimeLimitAlert excesses={excesses} isBlocked={isBlocked} />
           
           <div className="flex gap-2 pt-1">
             <Button
@@ -274,7 +420,7 @@ export function AddOvertimeDialog({ onSuccess }: { onSuccess: () => void }) {
             </Button>
             <Button
               type="submit"
-              disabled={isLoading || !calculation}
+              disabled={isLoading || !targetUserId || isRateLoading || isDayLoading || !calculation || calculation.netHours <= 0 || isBlocked || !reason.reasonId || !reason.justification.trim()}
               className="flex-1 text-xs h-8"
             >
               {isLoading ? 'Salvando...' : 'Salvar'}
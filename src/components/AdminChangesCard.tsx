@@ -0,0 +1,59 @@
+import { useAuth } from '@/contexts/AuthContext';
+import { useAdminOvertimeChanges } from '@/hooks/useAdminOvertimeChanges';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ShieldCheck } from 'lucide-react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ADMIN_CHANGE_LABELS, type AdminChangeSnapshot } from '@/utils/adminChanges';
+
+const formatSnapshot = (snapshot: AdminChangeSnapshot) =>
+  `${format(new Date(snapshot.date + 'T00:00:00'), 'dd/MM/yyyy', { locale: ptBR })} • ` +
+  `${snapshot.start_time.substring(0, 5)} - ${snapshot.end_time.substring(0, 5)} • ` +
+  `${snapshot.net_hours.toFixed(2)}h`;
+
+export function AdminChangesCard() {
+  const { user } = useAuth();
+  const { changes, isLoading } = useAdminOvertimeChanges(user?.id);
+
+  // Só aparece quando o administrador mexeu em algum lançamento do funcionário
+  if (isLoading || changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm sm:text-base flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4 text-primary" />
+          Alterações do Administrador
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Lançamentos criados, ajustados ou excluídos pelo administrador em seu nome
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {changes.map((change) => {
+          // Exclusões só têm a versão anterior do lançamento
+          const current = change.after ?? change.before;
+          return (
+            <div key={change.id} className="p-3 border rounded-lg text-xs space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <Badge variant={change.action === 'ADMIN_DELETE' ? 'destructive' : 'secondary'} className="text-xs">
+                  {ADMIN_CHANGE_LABELS[change.action]}
+                </Badge>
+                <span className="text-muted-foreground">
+                  {format(new Date(change.changedAt), 'dd/MM/yyyy HH:mm', { locale: ptBR })}
+                </span>
+              </div>
+              {change.before && change.action === 'ADMIN_UPDATE' && (
+                <p className="text-muted-foreground line-through">{formatSnapshot(change.before)}</p>
+              )}
+              {current && <p>{formatSnapshot(current)}</p>}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -86,6 +86,8 @@ function StatCard({ title, value, change, changeType, icon: Icon, chartData, des
 export default function AnalyticsDashboard({ 
   totalHours = 0, 
   totalValue = 0, 
+  pendingHours = 0,
+  pendingValue = 0,
   totalEmployees = 0, 
   averageHours = 0,
   employees = [],
@@ -93,6 +95,8 @@ export default function AnalyticsDashboard({
 }: {
   totalHours?: number;
   totalValue?: number;
+  pendingHours?: number;
+  pendingValue?: number;
   totalEmployees?: number;
   averageHours?: number;
   employees?: Array<{
@@ -102,6 +106,9 @@ export default function AnalyticsDashboard({
     cpf: string;
     totalHours: number;
     totalValue: number;
+    pendingHours: number;
+    pendingValue: number;
+    stationName?: string;
   }>;
   onGenerateReport?: () => void;
 }) {
@@ -114,17 +121,20 @@ export default function AnalyticsDashboard({
 
     // Cabeçalho do CSV
     const csvContent = [
-      ['Nome', 'Email', 'CPF', 'Total de Horas Extras', 'Valor Total (R$)', 'Data do Relatório'],
+      ['Nome', 'Email', 'CPF', 'Posto', 'Total de Horas Extras', 'Valor Total (R$)', 'Horas Pendentes', 'Valor Pendente (R$)', 'Data do Relatório'],
       ...employees.map(employee => [
         employee.full_name,
         employee.email,
         employee.cpf,
+        employee.stationName ?? '',
         employee.totalHours.toFixed(2),
         employee.totalValue.toFixed(2),
+        employee.pendingHours.toFixed(2),
+        employee.pendingValue.toFixed(2),
         new Date().toLocaleDateString('pt-BR')
       ]),
       // Linha de totais
-      ['', '', '', totalHours.toFixed(2), totalValue.toFixed(2), 'TOTAL GERAL']
+      ['', '', '', '', totalHours.toFixed(2), totalValue.toFixed(2), pendingHours.toFixed(2), pendingValue.toFixed(2), 'TOTAL GERAL']
     ].map(row => row.join(',')).join('\n');
 
     // Criar e baixar o arquivo
@@ -152,7 +162,9 @@ export default function AnalyticsDashboard({
       change: '+12.5%',
       changeType: 'positive' as const,
       icon: Clock,
-      description: 'Horas extras acumuladas',
+      description: pendingHours > 0
+        ? `Aprovadas • ${pendingHours.toFixed(2)}h pendentes`
+        : 'Horas extras aprovadas',
       chartData: [
         { name: 'Jan', uv: 120 },
         { name: 'Fev', uv: 150 },
@@ -169,7 +181,9 @@ export default function AnalyticsDashboard({
       change: '+18.2%',
       changeType: 'positive' as const,
       icon: DollarSign,
-      description: 'Valor acumulado em reais',
+      description: pendingValue > 0
+        ? `Aprovado • R$ ${pendingValue.toFixed(2)} pendentes`
+        : 'Valor aprovado em reais',
       chartData: [
         { name: 'Jan', uv: 4500 },
         { name: 'Fev', uv: 5200 },
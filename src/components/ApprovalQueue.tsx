@@ -0,0 +1,316 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Check, ClipboardCheck, X } from 'lucide-react';
+import { GeofenceBadge } from '@/components/GeofenceBadge';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { MAX_REJECTION_REASON_LENGTH, type OvertimeStatus } from '@/utils/approval';
+import { errorMessage } from '@/utils/errors';
+import { sumHours } from '@/utils/money';
+import { sanitizeInput } from '@/utils/security';
+import { needsLocationReview, type GeofenceStatus } from '@/utils/geolocation';
+import { ALL_STATIONS } from '@/utils/stations';
+
+interface PendingRecord {
+  id: string;
+  date: string;
+  end_date: string;
+  start_time: string;
+  end_time: string;
+  net_hours: number;
+  total_value: number;
+  compensation: 'payment' | 'hour_bank';
+  justification: string | null;
+  geofence_status: GeofenceStatus | null;
+  geofence_distance_m: number | null;
+  profiles: { full_name: string };
+  overtime_reasons: { name: string };
+  overtime_clock_sessions: { auto_closed: boolean } | null;
+}
+
+interface ApprovalQueueProps {
+  stationId?: string;
+  // Gerentes não revisam os próprios lançamentos nem veem valores
+  excludeUserId?: string;
+  showValues?: boolean;
+  onReviewed?: () => void;
+}
+
+export function ApprovalQueue({
+  stationId = ALL_STATIONS,
+  excludeUserId,
+  showValues = true,
+  onReviewed,
+}: ApprovalQueueProps) {
+  const [records, setRecords] = useState<PendingRecord[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [reason, setReason] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchPending = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      let query = supabase
+        .from('overtime_records')
+        .select(`
+          id,
+          date,
+          end_date,
+          start_time,
+          end_time,
+          net_hours,
+          total_value,
+          compensation,
+          justification,
+          geofence_status,
+          geofence_distance_m,
+          profiles!overtime_records_user_id_fkey!inner(full_name),
+          overtime_reasons(name),
+          overtime_clock_sessions(auto_closed)
+        `)
+        .eq('status', 'pending')
+        .order('date')
+        .order('start_time');
+
+      if (stationId !== ALL_STATIONS) {
+        query = query.eq('station_id', stationId);
+      }
+
+      if (excludeUserId) {
+        query = query.neq('user_id', excludeUserId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setRecords((data || []) as PendingRecord[]);
+      // Mantém só a seleção de registros que continuam pendentes
+      setSelected((current) => new Set((data || []).map((r) => r.id).filter((id) => current.has(id))));
+    } catch (error) {
+      console.error('Error fetching pending records:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [stationId, excludeUserId]);
+
+  useEffect(() => {
+    fetchPending();
+  }, [fetchPending]);
+
+  const toggleRecord = (id: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    setSelected(next);
+  };
+
+  // Lançamentos fora da cerca do posto ou sem localização são marcados um a um
+  const bulkRecords = records.filter((record) => !needsLocationReview(record.geofence_status));
+
+  const toggleAll = (checked: boolean) => {
+    setSelected(checked ? new Set(bulkRecords.map((record) => record.id)) : new Set());
+  };
+
+  const handleReview = async (status: Exclude<OvertimeStatus, 'pending'>) => {
+    const cleanReason = sanitizeInput(reason).substring(0, MAX_REJECTION_REASON_LENGTH);
+    if (status === 'rejected' && !cleanReason) {
+      toast.error('Informe o motivo da rejeição');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('review_overtime_records', {
+        _ids: [...selected],
+        _status: status,
+        _reason: status === 'rejected' ? cleanReason : null,
+      });
+
+      if (error) throw error;
+
+      toast.success(
+        status === 'approved'
+          ? `${data} registro(s) aprovado(s)`
+          : `${data} registro(s) rejeitado(s)`
+      );
+      setSelected(new Set());
+      setReason('');
+      await fetchPending();
+      onReviewed?.();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao revisar registros'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatPeriod = (record: PendingRecord) => {
+    const period = `${record.start_time.substring(0, 5)} - ${record.end_time.substring(0, 5)}`;
+    return record.end_date !== record.date ? `${period} (+1 dia)` : period;
+  };
+
+  const selectedHours = sumHours(records.filter((r) => selected.has(r.id)).map((r) => r.net_hours));
+  const allSelected = bulkRecords.length > 0 && bulkRecords.every((record) => selected.has(record.id));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5 text-primary" />
+          Aprovação de Horas Extras
+        </CardTitle>
+        <CardDescription>
+          Registros pendentes não são pagos nem creditados no banco de horas até serem aprovados
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-[1fr_auto] md:items-end">
+          <div className="space-y-1">
+            <Label htmlFor="rejection-reason" className="text-xs">Motivo da rejeição</Label>
+            <Textarea
+              id="rejection-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={MAX_REJECTION_REASON_LENGTH}
+              placeholder="Obrigatório para rejeitar"
+              className="min-h-[60px] text-sm"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={() => handleReview('approved')}
+              disabled={isSaving || selected.size === 0}
+              className="flex-1 md:flex-none"
+            >
+              <Check className="h-4 w-4 mr-2" />
+              Aprovar ({selected.size})
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => handleReview('rejected')}
+              disabled={isSaving || selected.size === 0 || !reason.trim()}
+              className="flex-1 md:flex-none"
+            >
+              <X className="h-4 w-4 mr-2" />
+              Rejeitar ({selected.size})
+            </Button>
+          </div>
+        </div>
+
+        {selected.size > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {selected.size} selecionado(s) • {selectedHours.toFixed(2)}h
+          </p>
+        )}
+
+        {bulkRecords.length < records.length && (
+          <p className="text-xs text-muted-foreground">
+            Registros fora do posto ou sem localização não entram em "Selecionar todos": confira e marque um a um.
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+        ) : records.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Nenhum registro aguardando aprovação
+          </div>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) => toggleAll(!!checked)}
+                      aria-label="Selecionar todos"
+                    />
+                  </TableHead>
+                  <TableHead>Funcionário</TableHead>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Período</TableHead>
+                  <TableHead>Motivo</TableHead>
+                  <TableHead className="text-right">Horas</TableHead>
+                  {showValues && <TableHead className="text-right">Valor</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {records.map((record) => (
+                  <TableRow key={record.id} data-state={selected.has(record.id) ? 'selected' : undefined}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.has(record.id)}
+                        onCheckedChange={(checked) => toggleRecord(record.id, !!checked)}
+                        aria-label={`Selecionar registro de ${record.profiles.full_name}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      {record.profiles.full_name}
+                      <GeofenceBadge
+                        status={record.geofence_status}
+                        distance={record.geofence_distance_m}
+                        className="ml-2"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {format(new Date(record.date + 'T00:00:00'), 'dd/MM/yyyy', { locale: ptBR })}
+                    </TableCell>
+                    <TableCell>
+                      {formatPeriod(record)}
+                      {/* Saída não marcada: o fim foi definido pelo encerramento automático */}
+                      {record.overtime_clock_sessions?.auto_closed && (
+                        <Badge variant="outline" className="ml-2 text-xs border-amber-500 text-amber-600">
+                          Encerrado automaticamente
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="max-w-[220px]">
+                      {record.overtime_reasons.name}
+                      {record.justification && (
+                        <span className="block text-xs text-muted-foreground truncate" title={record.justification}>
+                          {record.justification}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {Number(record.net_hours).toFixed(2)}h
+                    </TableCell>
+                    {showValues && (
+                      <TableCell className="text-right">
+                        {record.compensation === 'hour_bank' ? (
+                          <Badge variant="outline" className="text-xs">Banco de horas</Badge>
+                        ) : (
+                          `R$ ${Number(record.total_value).toFixed(2)}`
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,86 @@
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Paperclip, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { ALLOWED_ATTACHMENT_TYPES, formatFileSize, validateAttachmentFile } from '@/utils/attachments';
+
+interface AttachmentInputProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  // Vagas restantes no lançamento, descontando os anexos já enviados
+  maxFiles: number;
+  disabled?: boolean;
+}
+
+export function AttachmentInput({ files, onChange, maxFiles, disabled }: AttachmentInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleSelect = (selected: FileList | null) => {
+    const accepted: File[] = [];
+    for (const file of Array.from(selected ?? [])) {
+      const invalid = validateAttachmentFile(file);
+      if (invalid) {
+        toast.error(invalid);
+      } else {
+        accepted.push(file);
+      }
+    }
+
+    const next = [...files, ...accepted];
+    if (next.length > maxFiles) {
+      toast.error(`Limite de ${maxFiles} anexo(s) neste lançamento`);
+    }
+    onChange(next.slice(0, maxFiles));
+
+    // Permite escolher o mesmo arquivo de novo depois de removê-lo
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs font-medium">Comprovantes (opcional)</Label>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={ALLOWED_ATTACHMENT_TYPES.join(',')}
+        className="hidden"
+        onChange={(e) => handleSelect(e.target.files)}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || files.length >= maxFiles}
+        className="w-full text-xs h-8"
+      >
+        <Paperclip className="h-3 w-3 mr-1" />
+        Anexar foto ou PDF
+      </Button>
+      {files.length > 0 && (
+        <ul className="space-y-1">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center justify-between gap-2 text-xs bg-muted/50 rounded px-2 py-1">
+              <span className="truncate">{file.name}</span>
+              <span className="flex items-center gap-1 shrink-0 text-muted-foreground">
+                {formatFileSize(file.size)}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-5 w-5 p-0"
+                  onClick={() => onChange(files.filter((_, i) => i !== index))}
+                  aria-label={`Remover ${file.name}`}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { ExternalLink, Paperclip } from 'lucide-react';
+import { getAttachmentUrls, type OvertimeAttachment } from '@/hooks/useOvertimeAttachments';
+import { formatFileSize, isImageAttachment } from '@/utils/attachments';
+
+type PreviewAttachment = Pick<OvertimeAttachment, 'id' | 'file_name' | 'mime_type' | 'size_bytes' | 'storage_path'>;
+
+interface AttachmentPreviewDialogProps {
+  attachments: PreviewAttachment[];
+  title?: string;
+}
+
+export function AttachmentPreviewDialog({ attachments, title }: AttachmentPreviewDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [urls, setUrls] = useState<Map<string, string>>(new Map());
+  const [isLoading, setIsLoading] = useState(false);
+
+  // URLs assinadas expiram: são geradas a cada abertura
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchUrls = async () => {
+      setIsLoading(true);
+      try {
+        setUrls(await getAttachmentUrls(attachments.map((attachment) => attachment.storage_path)));
+      } catch (error) {
+        console.error('Error fetching attachment urls:', error);
+        setUrls(new Map());
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchUrls();
+  }, [open, attachments]);
+
+  if (attachments.length === 0) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-7 text-xs">
+          <Paperclip className="h-3 w-3 mr-1" />
+          {attachments.length}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="w-[95vw] max-w-3xl mx-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-base">Comprovantes</DialogTitle>
+          {title && <DialogDescription>{title}</DialogDescription>}
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+        ) : (
+          <div className="space-y-4">
+            {attachments.map((attachment) => {
+              const url = urls.get(attachment.storage_path);
+              return (
+                <div key={attachment.id} className="space-y-2 border rounded-lg p-2">
+                  <div className="flex items-center justify-between gap-2 text-xs">
+                    <span className="font-medium truncate">{attachment.file_name}</span>
+                    <span className="flex items-center gap-2 shrink-0 text-muted-foreground">
+                      {formatFileSize(attachment.size_bytes)}
+                      {url && (
+                        <a href={url} target="_blank" rel="noopener noreferrer" className="text-primary" aria-label="Abrir em nova aba">
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      )}
+                    </span>
+                  </div>
+                  {!url ? (
+                    <p className="text-xs text-muted-foreground">Arquivo indisponível</p>
+                  ) : isImageAttachment(attachment.mime_type) ? (
+                    <img src={url} alt={attachment.file_name} className="max-h-[60vh] w-auto mx-auto rounded" />
+                  ) : (
+                    <iframe src={url} title={attachment.file_name} className="w-full h-[60vh] rounded border-0" />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
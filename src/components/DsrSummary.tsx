@@ -0,0 +1,61 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Coins } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import type { DsrMonthSummary } from '@/utils/dsr';
+
+interface DsrSummaryProps {
+  summaries: DsrMonthSummary[];
+}
+
+export function DsrSummary({ summaries }: DsrSummaryProps) {
+  if (summaries.length === 0) return null;
+
+  return (
+    <div className="space-y-3 p-3 sm:p-4 border rounded-lg">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Coins className="h-4 w-4 text-primary" />
+        <span>Reflexo no DSR</span>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Valor das horas extras pagas ÷ dias úteis × domingos e feriados do mês
+      </p>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Mês</TableHead>
+              <TableHead className="text-right">Valor HE</TableHead>
+              <TableHead className="text-right">Dias úteis</TableHead>
+              <TableHead className="text-right">Dom./Feriados</TableHead>
+              <TableHead className="text-right">DSR</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {summaries.map((summary) => (
+              <TableRow key={summary.month}>
+                <TableCell className="font-medium capitalize">
+                  {format(parseISO(`${summary.month}-01`), 'MMMM yyyy', { locale: ptBR })}
+                </TableCell>
+                <TableCell className="text-right">R$ {summary.overtimeValue.toFixed(2)}</TableCell>
+                <TableCell className="text-right">{summary.workingDays}</TableCell>
+                <TableCell className="text-right">{summary.restDays}</TableCell>
+                <TableCell className="text-right font-bold text-success">
+                  R$ {summary.dsrValue.toFixed(2)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
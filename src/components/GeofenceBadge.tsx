@@ -0,0 +1,37 @@
+import { Badge } from '@/components/ui/badge';
+import { formatDistance, type GeofenceStatus } from '@/utils/geolocation';
+
+interface GeofenceBadgeProps {
+  status: GeofenceStatus | null;
+  distance: number | null;
+  className?: string;
+}
+
+// Só aparece quando o lançamento precisa de atenção do revisor
+export function GeofenceBadge({ status, distance, className }: GeofenceBadgeProps) {
+  if (status === 'outside') {
+    return (
+      <Badge
+        variant="outline"
+        className={`text-xs border-red-500 text-red-600 ${className ?? ''}`}
+        title={distance !== null ? `Registrado a ${formatDistance(distance)} do posto` : undefined}
+      >
+        Fora do posto
+      </Badge>
+    );
+  }
+
+  if (status === 'no_location') {
+    return (
+      <Badge
+        variant="outline"
+        className={`text-xs border-amber-500 text-amber-700 ${className ?? ''}`}
+        title="Registrado sem localização"
+      >
+        Sem localização
+      </Badge>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,292 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CalendarDays, Plus, Trash2, Wand2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { HOLIDAYS_QUERY_KEY, useHolidays } from '@/hooks/useHolidays';
+import { errorMessage } from '@/utils/errors';
+import {
+  generateHolidays,
+  HOLIDAY_CITY,
+  HOLIDAY_SCOPE_LABELS,
+  HOLIDAY_STATE,
+  type HolidayScope,
+} from '@/utils/holidays';
+import { isValidDate, sanitizeInput } from '@/utils/security';
+
+export function HolidaysManager() {
+  const queryClient = useQueryClient();
+  const { holidays, isLoading } = useHolidays();
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [isSaving, setIsSaving] = useState(false);
+  const [newHoliday, setNewHoliday] = useState({
+    date: '',
+    name: '',
+    scope: 'national' as HolidayScope,
+    stateCode: HOLIDAY_STATE,
+    city: HOLIDAY_CITY,
+  });
+
+  const yearHolidays = holidays.filter((holiday) => holiday.date.startsWith(`${year}-`));
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: HOLIDAYS_QUERY_KEY });
+
+  const handleGenerate = async () => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('holidays')
+        .upsert(generateHolidays(year), { onConflict: 'date,name', ignoreDuplicates: true });
+
+      if (error) throw error;
+
+      toast.success(`Feriados de ${year} gerados com sucesso!`);
+      refresh();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao gerar feriados'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    try {
+      const date = sanitizeInput(newHoliday.date);
+      const name = sanitizeInput(newHoliday.name);
+
+      if (!isValidDate(date)) {
+        throw new Error('Data inválida');
+      }
+
+      if (name.length < 2 || name.length > 100) {
+        throw new Error('Nome deve ter entre 2 e 100 caracteres');
+      }
+
+      const { error } = await supabase.from('holidays').insert({
+        date,
+        name,
+        scope: newHoliday.scope,
+        state_code: newHoliday.scope === 'national' ? null : sanitizeInput(newHoliday.stateCode).toUpperCase(),
+        city: newHoliday.scope === 'municipal' ? sanitizeInput(newHoliday.city) : null,
+      });
+
+      if (error) throw error;
+
+      toast.success('Feriado cadastrado com sucesso!');
+      setNewHoliday({ ...newHoliday, date: '', name: '' });
+      refresh();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao cadastrar feriado'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Pontos facultativos só valem como feriado depois de confirmados
+  const handleToggleActive = async (id: string, isActive: boolean) => {
+    try {
+      const { error } = await supabase.from('holidays').update({ is_active: isActive }).eq('id', id);
+      if (error) throw error;
+
+      toast.success(isActive ? 'Feriado confirmado' : 'Feriado desativado');
+      refresh();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao atualizar feriado'));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from('holidays').delete().eq('id', id);
+      if (error) throw error;
+
+      toast.success('Feriado removido com sucesso!');
+      refresh();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao remover feriado'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <CardTitle>Calendário de Feriados</CardTitle>
+            <CardDescription>
+              Horas extras em feriados ativos são pagas com adicional de 100%. Pontos facultativos só contam depois de ativados
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              value={year}
+              min={2000}
+              max={2100}
+              onChange={(e) => setYear(Number(e.target.value))}
+              className="w-24 text-sm"
+            />
+            <Button variant="outline" size="sm" onClick={handleGenerate} disabled={isSaving}>
+              <Wand2 className="h-4 w-4 mr-2" />
+              Gerar {year}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Cadastro manual */}
+        <div className="grid gap-2 grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 items-end p-3 border rounded-lg bg-muted/30">
+          <div className="space-y-1">
+            <Label htmlFor="holiday-date" className="text-xs">Data</Label>
+            <Input
+              id="holiday-date"
+              type="date"
+              value={newHoliday.date}
+              onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+              className="text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="holiday-name" className="text-xs">Nome</Label>
+            <Input
+              id="holiday-name"
+              value={newHoliday.name}
+              onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+              className="text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Abrangência</Label>
+            <Select
+              value={newHoliday.scope}
+              onValueChange={(value) => setNewHoliday({ ...newHoliday, scope: value as HolidayScope })}
+            >
+              <SelectTrigger className="text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(HOLIDAY_SCOPE_LABELS) as HolidayScope[]).map((scope) => (
+                  <SelectItem key={scope} value={scope}>
+                    {HOLIDAY_SCOPE_LABELS[scope]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="holiday-city" className="text-xs">Local</Label>
+            <Input
+              id="holiday-city"
+              value={newHoliday.scope === 'municipal' ? newHoliday.city : newHoliday.stateCode}
+              disabled={newHoliday.scope === 'national'}
+              onChange={(e) =>
+                newHoliday.scope === 'municipal'
+                  ? setNewHoliday({ ...newHoliday, city: e.target.value })
+                  : setNewHoliday({ ...newHoliday, stateCode: e.target.value })
+              }
+              className="text-sm"
+            />
+          </div>
+          <Button size="sm" onClick={handleAdd} disabled={isSaving || !newHoliday.date || !newHoliday.name}>
+            <Plus className="h-4 w-4 mr-2" />
+            Adicionar
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+        ) : yearHolidays.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <CalendarDays className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>Nenhum feriado cadastrado para {year}</p>
+            <p className="text-sm mt-1">Clique em "Gerar {year}" para criar o calendário</p>
+          </div>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Abrangência</TableHead>
+                  <TableHead className="hidden sm:table-cell">Local</TableHead>
+                  <TableHead className="text-center">Ativo</TableHead>
+                  <TableHead className="text-center">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {yearHolidays.map((holiday) => (
+                  <TableRow key={holiday.id}>
+                    <TableCell className="font-medium text-xs sm:text-sm">
+                      {format(new Date(holiday.date + 'T00:00:00'), "dd/MM/yyyy (EEE)", { locale: ptBR })}
+                    </TableCell>
+                    <TableCell className="text-xs sm:text-sm">
+                      {holiday.name}
+                      {holiday.is_movable && (
+                        <Badge variant="outline" className="ml-2 text-xs">Móvel</Badge>
+                      )}
+                      {!holiday.is_active && (
+                        <Badge variant="outline" className="ml-2 text-xs border-amber-500 text-amber-700">
+                          Ponto facultativo
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className="text-xs">
+                        {HOLIDAY_SCOPE_LABELS[holiday.scope]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="hidden sm:table-cell text-xs sm:text-sm">
+                      {[holiday.city, holiday.state_code].filter(Boolean).join(' - ') || 'Brasil'}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Switch
+                        checked={holiday.is_active}
+                        onCheckedChange={(checked) => handleToggleActive(holiday.id, checked)}
+                        aria-label={`Feriado ${holiday.name} ativo`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(holiday.id)}
+                        className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
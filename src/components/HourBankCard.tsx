@@ -0,0 +1,57 @@
+import { useAuth } from '@/contexts/AuthContext';
+import { useHourBank } from '@/hooks/useHourBank';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { HourBankStatement } from '@/components/HourBankStatement';
+import { PiggyBank } from 'lucide-react';
+import { HOUR_BANK_EXPIRY_WARNING_DAYS } from '@/utils/hourBank';
+import { formatMinutes } from '@/utils/overtime';
+
+export function HourBankCard() {
+  const { user } = useAuth();
+  const { compensationMode, validityMonths, entries, summary, isLoading } = useHourBank(user?.id);
+
+  // Só aparece para quem está no banco de horas ou ainda tem movimentações
+  if (isLoading || (compensationMode !== 'hour_bank' && entries.length === 0)) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm sm:text-base flex items-center gap-2">
+          <PiggyBank className="h-4 w-4 text-primary" />
+          Banco de Horas
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Horas extras compensadas com folga • créditos válidos por {validityMonths} meses
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 grid-cols-1 sm:grid-cols-3">
+          <div className="p-3 border rounded-lg">
+            <p className="text-xs text-muted-foreground">Saldo</p>
+            <p className={`text-lg sm:text-xl font-bold ${summary.balance < 0 ? 'text-red-600' : 'text-primary'}`}>
+              {formatMinutes(summary.balance)}
+            </p>
+          </div>
+          <div className="p-3 border rounded-lg">
+            <p className="text-xs text-muted-foreground">
+              Vence em {HOUR_BANK_EXPIRY_WARNING_DAYS} dias
+            </p>
+            <p className="text-lg sm:text-xl font-bold text-amber-600">
+              {formatMinutes(summary.expiringMinutes)}
+            </p>
+          </div>
+          <div className="p-3 border rounded-lg">
+            <p className="text-xs text-muted-foreground">Vencido (a receber)</p>
+            <p className="text-lg sm:text-xl font-bold text-red-600">
+              {formatMinutes(summary.expiredMinutes)}
+            </p>
+          </div>
+        </div>
+
+        <HourBankStatement entries={entries} />
+      </CardContent>
+    </Card>
+  );
+}
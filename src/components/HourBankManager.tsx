@@ -0,0 +1,299 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { HOUR_BANK_QUERY_KEY, useHourBank } from '@/hooks/useHourBank';
+import { useHourlyRate } from '@/hooks/useHourlyRate';
+import { usePayrollSettings } from '@/hooks/usePayrollSettings';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { HourBankStatement } from '@/components/HourBankStatement';
+import { PiggyBank } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { errorMessage } from '@/utils/errors';
+import {
+  COMPENSATION_MODE_LABELS,
+  DEFAULT_HOUR_BANK_PAYOUT_PREMIUM,
+  getHourBankExpiry,
+  HOUR_BANK_ENTRY_LABELS,
+  HOUR_BANK_EXPIRY_WARNING_DAYS,
+  HOUR_BANK_PAYOUT_PREMIUM_SETTING,
+  HOUR_BANK_VALIDITY_MONTHS,
+  type CompensationMode,
+} from '@/utils/hourBank';
+import { roundMoney } from '@/utils/money';
+import { formatMinutes } from '@/utils/overtime';
+import { isValidDate, isValidNumber, sanitizeInput } from '@/utils/security';
+
+type MovementType = 'debit' | 'adjustment';
+
+interface HourBankManagerProps {
+  userId: string;
+  onChanged: () => void;
+}
+
+export function HourBankManager({ userId, onChanged }: HourBankManagerProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const { compensationMode, validityMonths, entries, summary, isLoading } = useHourBank(userId);
+  const { hourlyRate } = useHourlyRate(userId, today);
+  const { getNumber } = usePayrollSettings();
+  const [isSaving, setIsSaving] = useState(false);
+  const [settings, setSettings] = useState({ compensationMode, validityMonths });
+  const [movement, setMovement] = useState({
+    type: 'debit' as MovementType,
+    date: today,
+    hours: '',
+    description: '',
+  });
+
+  useEffect(() => {
+    setSettings({ compensationMode, validityMonths });
+  }, [compensationMode, validityMonths]);
+
+  const payoutPremium = getNumber(HOUR_BANK_PAYOUT_PREMIUM_SETTING, DEFAULT_HOUR_BANK_PAYOUT_PREMIUM);
+  const payableMinutes = summary.expiredMinutes + summary.expiringMinutes;
+  const payoutPreview = roundMoney((payableMinutes / 60) * hourlyRate * (1 + payoutPremium));
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: HOUR_BANK_QUERY_KEY });
+  };
+
+  const handleSaveSettings = async () => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          compensation_mode: settings.compensationMode,
+          hour_bank_validity_months: settings.validityMonths,
+        })
+        .eq('id', userId);
+
+      if (error) throw error;
+
+      toast.success('Banco de horas atualizado com sucesso!');
+      refresh();
+      onChanged();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao atualizar banco de horas'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddMovement = async () => {
+    setIsSaving(true);
+    try {
+      const date = sanitizeInput(movement.date);
+      const hours = sanitizeInput(movement.hours).replace(',', '.');
+      const description = sanitizeInput(movement.description);
+
+      if (!isValidDate(date)) {
+        throw new Error('Data inválida');
+      }
+
+      // Folgas são sempre débito; ajustes aceitam horas negativas
+      const minLimit = movement.type === 'debit' ? 0.01 : -1000;
+      if (!isValidNumber(hours, minLimit, 1000) || Number(hours) === 0) {
+        throw new Error('Quantidade de horas inválida');
+      }
+
+      const minutes = Math.round(Number(hours) * 60) * (movement.type === 'debit' ? -1 : 1);
+
+      const { error } = await supabase.from('hour_bank_entries').insert({
+        user_id: userId,
+        entry_type: movement.type,
+        minutes,
+        entry_date: date,
+        expires_on: minutes > 0 ? getHourBankExpiry(date, validityMonths) : null,
+        description: description || null,
+        created_by: user?.id ?? null,
+      });
+
+      if (error) throw error;
+
+      toast.success('Movimentação registrada com sucesso!');
+      setMovement({ type: 'debit', date: today, hours: '', description: '' });
+      refresh();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao registrar movimentação'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePayout = async () => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.rpc('pay_out_hour_bank', {
+        _user_id: userId,
+        _minutes: payableMinutes,
+        _description: 'Saldo vencido ou a vencer',
+      });
+
+      if (error) throw error;
+
+      toast.success('Pagamento de saldo registrado com sucesso!');
+      refresh();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao pagar saldo'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-3 sm:p-4 border rounded-lg">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <PiggyBank className="h-4 w-4 text-primary" />
+        <span>Banco de Horas</span>
+      </div>
+
+      {/* Modalidade de compensação */}
+      <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Compensação</Label>
+          <Select
+            value={settings.compensationMode}
+            onValueChange={(value) => setSettings({ ...settings, compensationMode: value as CompensationMode })}
+          >
+            <SelectTrigger className="text-sm sm:w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(COMPENSATION_MODE_LABELS) as CompensationMode[]).map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {COMPENSATION_MODE_LABELS[mode]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Validade dos créditos</Label>
+          <Select
+            value={settings.validityMonths.toString()}
+            onValueChange={(value) => setSettings({ ...settings, validityMonths: Number(value) })}
+          >
+            <SelectTrigger className="text-sm sm:w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HOUR_BANK_VALIDITY_MONTHS.map((months) => (
+                <SelectItem key={months} value={months.toString()}>
+                  {months} meses
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button size="sm" onClick={handleSaveSettings} disabled={isSaving || isLoading}>
+          Salvar
+        </Button>
+      </div>
+
+      {/* Saldo e pagamento de saldos vencidos ou a vencer */}
+      <div className="grid gap-2 grid-cols-1 sm:grid-cols-3 p-3 border rounded-lg bg-muted/30">
+        <div>
+          <p className="text-xs text-muted-foreground">Saldo</p>
+          <p className={`font-bold text-sm sm:text-base ${summary.balance < 0 ? 'text-red-600' : 'text-primary'}`}>
+            {formatMinutes(summary.balance)}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Vence em {HOUR_BANK_EXPIRY_WARNING_DAYS} dias</p>
+          <p className="font-bold text-sm sm:text-base text-amber-600">
+            {formatMinutes(summary.expiringMinutes)}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Vencido</p>
+          <p className="font-bold text-sm sm:text-base text-red-600">
+            {formatMinutes(summary.expiredMinutes)}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          {payableMinutes > 0
+            ? `Pagar ${formatMinutes(payableMinutes)} a R$ ${hourlyRate.toFixed(2)}/h +${Math.round(payoutPremium * 100)}% = R$ ${payoutPreview.toFixed(2)}`
+            : 'Nenhum saldo vencido ou a vencer'}
+        </p>
+        <Button size="sm" variant="outline" onClick={handlePayout} disabled={isSaving || payableMinutes <= 0}>
+          Pagar saldo
+        </Button>
+      </div>
+
+      {/* Folgas e ajustes */}
+      <div className="grid gap-2 grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 items-end">
+        <div className="space-y-1">
+          <Label className="text-xs">Movimento</Label>
+          <Select
+            value={movement.type}
+            onValueChange={(value) => setMovement({ ...movement, type: value as MovementType })}
+          >
+            <SelectTrigger className="text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="debit">{HOUR_BANK_ENTRY_LABELS.debit}</SelectItem>
+              <SelectItem value="adjustment">{HOUR_BANK_ENTRY_LABELS.adjustment}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="hour-bank-date" className="text-xs">Data</Label>
+          <Input
+            id="hour-bank-date"
+            type="date"
+            value={movement.date}
+            onChange={(e) => setMovement({ ...movement, date: e.target.value })}
+            className="text-sm"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="hour-bank-hours" className="text-xs">
+            {movement.type === 'debit' ? 'Horas de folga' : 'Horas (negativo para débito)'}
+          </Label>
+          <Input
+            id="hour-bank-hours"
+            type="number"
+            step="0.25"
+            value={movement.hours}
+            onChange={(e) => setMovement({ ...movement, hours: e.target.value })}
+            className="text-sm"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="hour-bank-description" className="text-xs">Descrição</Label>
+          <Input
+            id="hour-bank-description"
+            maxLength={200}
+            value={movement.description}
+            onChange={(e) => setMovement({ ...movement, description: e.target.value })}
+            className="text-sm"
+          />
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <Button size="sm" onClick={handleAddMovement} disabled={isSaving || !movement.hours}>
+          Registrar movimento
+        </Button>
+      </div>
+
+      <HourBankStatement entries={entries} />
+    </div>
+  );
+}
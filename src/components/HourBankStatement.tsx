@@ -0,0 +1,71 @@
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import type { HourBankEntryRow } from '@/hooks/useHourBank';
+import { HOUR_BANK_ENTRY_LABELS } from '@/utils/hourBank';
+import { formatMinutes } from '@/utils/overtime';
+
+interface HourBankStatementProps {
+  entries: HourBankEntryRow[];
+}
+
+const formatDate = (date: string) =>
+  format(new Date(date + 'T00:00:00'), 'dd/MM/yyyy', { locale: ptBR });
+
+export function HourBankStatement({ entries }: HourBankStatementProps) {
+  if (entries.length === 0) {
+    return <p className="text-xs text-muted-foreground">Nenhuma movimentação no banco de horas.</p>;
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="text-xs">Data</TableHead>
+            <TableHead className="text-xs">Movimento</TableHead>
+            <TableHead className="text-xs hidden sm:table-cell">Validade</TableHead>
+            <TableHead className="text-xs text-right">Horas</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {entries.map((entry) => (
+            <TableRow key={entry.id}>
+              <TableCell className="text-xs">{formatDate(entry.entry_date)}</TableCell>
+              <TableCell className="text-xs">
+                <div className="flex items-center gap-2">
+                  <Badge variant={entry.minutes > 0 ? 'secondary' : 'outline'} className="text-xs">
+                    {HOUR_BANK_ENTRY_LABELS[entry.entry_type]}
+                  </Badge>
+                  {entry.payout_value !== null && (
+                    <span className="text-success">R$ {Number(entry.payout_value).toFixed(2)}</span>
+                  )}
+                </div>
+                {entry.description && (
+                  <p className="text-muted-foreground mt-1 truncate">{entry.description}</p>
+                )}
+              </TableCell>
+              <TableCell className="text-xs hidden sm:table-cell">
+                {entry.expires_on ? formatDate(entry.expires_on) : '-'}
+              </TableCell>
+              <TableCell
+                className={`text-xs text-right font-medium ${entry.minutes > 0 ? 'text-success' : 'text-red-600'}`}
+              >
+                {entry.minutes > 0 && '+'}
+                {formatMinutes(entry.minutes)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CalendarClock, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import type { Tables } from '@/integrations/supabase/types';
+import { errorMessage } from '@/utils/errors';
+import { DEFAULT_HOURLY_RATE } from '@/utils/overtime';
+import { isValidDate, isValidNumber, sanitizeInput } from '@/utils/security';
+
+type HourlyRate = Tables<'hourly_rates'>;
+
+interface HourlyRateHistoryProps {
+  userId: string;
+  refreshKey?: number;
+}
+
+export function HourlyRateHistory({ userId, refreshKey }: HourlyRateHistoryProps) {
+  const { user } = useAuth();
+  const [rates, setRates] = useState<HourlyRate[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newRate, setNewRate] = useState({ effectiveFrom: '', hourlyRate: '' });
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const fetchRates = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('hourly_rates')
+        .select('*')
+        .eq('user_id', userId)
+        .order('effective_from', { ascending: false });
+
+      if (error) throw error;
+      setRates(data || []);
+    } catch (error) {
+      console.error('Error fetching hourly rates:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates, refreshKey]);
+
+  // A taxa vigente é a mais recente com início até hoje
+  const currentRate = rates.find((rate) => rate.effective_from <= today);
+
+  const handleSchedule = async () => {
+    setIsSaving(true);
+    try {
+      const effectiveFrom = sanitizeInput(newRate.effectiveFrom);
+      const hourlyRate = sanitizeInput(newRate.hourlyRate).replace(',', '.');
+
+      if (!isValidDate(effectiveFrom)) {
+        throw new Error('Data de vigência inválida');
+      }
+
+      if (!isValidNumber(hourlyRate, 0.01, 10000)) {
+        throw new Error('Valor/hora inválido');
+      }
+
+      const { error } = await supabase.from('hourly_rates').insert({
+        user_id: userId,
+        effective_from: effectiveFrom,
+        hourly_rate: Number(hourlyRate),
+        created_by: user?.id ?? null,
+      });
+
+      if (error) throw error;
+
+      toast.success('Reajuste programado com sucesso!');
+      setNewRate({ effectiveFrom: '', hourlyRate: '' });
+      fetchRates();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao programar reajuste'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from('hourly_rates').delete().eq('id', id);
+      if (error) throw error;
+
+      toast.success('Reajuste cancelado com sucesso!');
+      fetchRates();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao cancelar reajuste'));
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-3 sm:p-4 border rounded-lg">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <CalendarClock className="h-4 w-4 text-primary" />
+          <span>Histórico de Valor/Hora</span>
+        </div>
+        {currentRate && (
+          <span className="text-xs text-muted-foreground">
+            Vigente: R$ {Number(currentRate.hourly_rate).toFixed(2)}
+          </span>
+        )}
+      </div>
+
+      {/* Programar reajuste */}
+      <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="rate-effective-from" className="text-xs">Vigência a partir de</Label>
+          <Input
+            id="rate-effective-from"
+            type="date"
+            value={newRate.effectiveFrom}
+            onChange={(e) => setNewRate({ ...newRate, effectiveFrom: e.target.value })}
+            className="text-sm sm:w-40"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="rate-value" className="text-xs">Valor/hora (R$)</Label>
+          <Input
+            id="rate-value"
+            type="number"
+            step="0.01"
+            min="0.01"
+            value={newRate.hourlyRate}
+            onChange={(e) => setNewRate({ ...newRate, hourlyRate: e.target.value })}
+            className="text-sm sm:w-32"
+          />
+        </div>
+        <Button
+          size="sm"
+          onClick={handleSchedule}
+          disabled={isSaving || !newRate.effectiveFrom || !newRate.hourlyRate}
+        >
+          Programar reajuste
+        </Button>
+      </div>
+
+      {rates.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Nenhum reajuste cadastrado. A base horária vem da composição salarial ou, na falta dela, do
+          valor padrão de R$ {DEFAULT_HOURLY_RATE.toFixed(2)}/hora.
+        </p>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Vigência</TableHead>
+                <TableHead className="text-xs">Valor/hora</TableHead>
+                <TableHead className="text-xs hidden sm:table-cell">Origem</TableHead>
+                <TableHead className="text-xs">Situação</TableHead>
+                <TableHead className="text-xs text-center">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.map((rate) => (
+                <TableRow key={rate.id}>
+                  <TableCell className="text-xs">
+                    {format(new Date(rate.effective_from + 'T00:00:00'), 'dd/MM/yyyy', { locale: ptBR })}
+                  </TableCell>
+                  <TableCell className="text-xs font-medium">
+                    R$ {Number(rate.hourly_rate).toFixed(2)}
+                  </TableCell>
+                  <TableCell className="text-xs hidden sm:table-cell">
+                    {rate.base_salary !== null
+                      ? `Salário R$ ${Number(rate.base_salary).toFixed(2)} ÷ ${rate.monthly_divisor}`
+                      : 'Manual'}
+                  </TableCell>
+                  <TableCell>
+                    {rate.effective_from > today ? (
+                      <Badge variant="outline" className="text-xs">Agendado</Badge>
+                    ) : rate.id === currentRate?.id ? (
+                      <Badge className="text-xs">Vigente</Badge>
+                    ) : (
+                      <Badge variant="secondary" className="text-xs">Anterior</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    {rate.effective_from > today && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(rate.id)}
+                        className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
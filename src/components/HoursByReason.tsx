@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Download, MessageSquareText } from 'lucide-react';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { useOvertimeReasons } from '@/hooks/useOvertimeReasons';
+import { sumHours } from '@/utils/money';
+import { summarizeByReason, type ReasonRecord } from '@/utils/overtimeReasons';
+import { ALL_STATIONS } from '@/utils/stations';
+import { isValidDate } from '@/utils/security';
+
+interface HoursByReasonProps {
+  stationId?: string;
+}
+
+export function HoursByReason({ stationId = ALL_STATIONS }: HoursByReasonProps) {
+  const { getReason } = useOvertimeReasons();
+  const [range, setRange] = useState({
+    from: format(startOfMonth(new Date()), 'yyyy-MM-dd'),
+    to: format(endOfMonth(new Date()), 'yyyy-MM-dd'),
+  });
+  const [records, setRecords] = useState<ReasonRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchRecords = useCallback(async () => {
+    if (!isValidDate(range.from) || !isValidDate(range.to) || range.from > range.to) return;
+
+    setIsLoading(true);
+    try {
+      let query = supabase
+        .from('overtime_records')
+        .select('reason_id, net_hours, total_value, compensation, status')
+        .gte('date', range.from)
+        .lte('date', range.to);
+
+      if (stationId !== ALL_STATIONS) {
+        query = query.eq('station_id', stationId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setRecords(data || []);
+    } catch (error) {
+      console.error('Error fetching hours by reason:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [range, stationId]);
+
+  useEffect(() => {
+    fetchRecords();
+  }, [fetchRecords]);
+
+  const summaries = useMemo(() => summarizeByReason(records), [records]);
+  const totalHours = sumHours(summaries.map((summary) => summary.approvedHours));
+
+  const reasonName = (reasonId: string) => getReason(reasonId)?.name ?? '—';
+  const share = (hours: number) => (totalHours > 0 ? (hours / totalHours) * 100 : 0);
+
+  const exportBreakdown = () => {
+    const csvContent = [
+      ['Motivo', 'Registros', 'Horas Aprovadas', '% das Horas', 'Valor Aprovado', 'Horas Pendentes', 'Valor Pendente'],
+      ...summaries.map(summary => [
+        `"${reasonName(summary.reasonId)}"`,
+        summary.recordCount.toString(),
+        summary.approvedHours.toFixed(2),
+        share(summary.approvedHours).toFixed(1),
+        summary.approvedValue.toFixed(2),
+        summary.pendingHours.toFixed(2),
+        summary.pendingValue.toFixed(2)
+      ])
+    ].map(row => row.join(',')).join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `horas_por_motivo_${range.from}_${range.to}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquareText className="h-5 w-5 text-primary" />
+              Horas por Motivo
+            </CardTitle>
+            <CardDescription>
+              Por que as horas extras foram trabalhadas
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={exportBreakdown} disabled={summaries.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Exportar CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="hours-by-reason-from" className="text-xs">De</Label>
+            <Input
+              id="hours-by-reason-from"
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              className="text-sm sm:w-40"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="hours-by-reason-to" className="text-xs">Até</Label>
+            <Input
+              id="hours-by-reason-to"
+              type="date"
+              value={range.to}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              className="text-sm sm:w-40"
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+        ) : summaries.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <p>Nenhum lançamento no período</p>
+          </div>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Motivo</TableHead>
+                  <TableHead className="text-right">Registros</TableHead>
+                  <TableHead className="text-right">Horas</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                  <TableHead className="text-right hidden sm:table-cell">Pendentes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summaries.map((summary) => (
+                  <TableRow key={summary.reasonId}>
+                    <TableCell className="font-medium">
+                      {reasonName(summary.reasonId)}
+                      {/* Barra com a participação nas horas aprovadas */}
+                      <div className="mt-1 h-1.5 rounded-full bg-muted">
+                        <div
+                          className="h-1.5 rounded-full bg-primary"
+                          style={{ width: `${share(summary.approvedHours)}%` }}
+                        />
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{summary.recordCount}</TableCell>
+                    <TableCell className="text-right font-semibold text-primary">
+                      {summary.approvedHours.toFixed(2)}h
+                      <span className="block text-xs font-normal text-muted-foreground">
+                        {share(summary.approvedHours).toFixed(1)}%
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right font-bold text-success">
+                      R$ {summary.approvedValue.toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-right hidden sm:table-cell text-muted-foreground">
+                      {summary.pendingHours.toFixed(2)}h
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
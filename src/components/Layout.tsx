@@ -1,7 +1,7 @@
 import { ReactNode } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
-import { LogOut, User, Settings, Moon, Sun } from 'lucide-react';
+import { LogOut, User, Settings, Moon, Sun, UsersRound, QrCode } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useTheme } from 'next-themes';
 import { Logo } from '@/components/Logo';
@@ -11,7 +11,7 @@ interface LayoutProps {
 }
 
 export function Layout({ children }: LayoutProps) {
-  const { user, signOut, isAdmin } = useAuth();
+  const { user, signOut, isAdmin, isManager } = useAuth();
   const navigate = useNavigate();
   const { theme, setTheme } = useTheme();
 
@@ -54,6 +54,28 @@ export function Layout({ children }: LayoutProps) {
                       Admin
                     </Button>
                   )}
+
+                  {isManager && !isAdmin && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => navigate('/team')}
+                    >
+                      <UsersRound className="h-4 w-4 mr-2" />
+                      Equipe
+                    </Button>
+                  )}
+                  
+                  {(isAdmin || isManager) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => navigate('/kiosk')}
+                    >
+                      <QrCode className="h-4 w-4 mr-2" />
+                      Quiosque
+                    </Button>
+                  )}
                   
                   <Button
                     variant="outline"
@@ -0,0 +1,31 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { MapPin } from 'lucide-react';
+
+interface LocationConsentFieldProps {
+  idPrefix: string;
+  consent: boolean;
+  onConsentChange: (consent: boolean) => void;
+}
+
+export function LocationConsentField({ idPrefix, consent, onConsentChange }: LocationConsentFieldProps) {
+  return (
+    <div className="p-2 bg-muted/50 rounded-lg border space-y-1">
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id={`${idPrefix}-location`}
+          checked={consent}
+          onCheckedChange={(checked) => onConsentChange(!!checked)}
+          className="h-4 w-4"
+        />
+        <Label htmlFor={`${idPrefix}-location`} className="text-xs font-medium cursor-pointer flex-1 flex items-center gap-1">
+          <MapPin className="h-3 w-3" />
+          Enviar minha localização
+        </Label>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Usada só para conferir se você está no posto ao salvar. Sem ela, o lançamento fica marcado para revisão.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { PAYROLL_SETTINGS_QUERY_KEY, usePayrollSettings } from '@/hooks/usePayrollSettings';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Landmark, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { errorMessage } from '@/utils/errors';
+import { MINIMUM_WAGE_SETTING } from '@/utils/salary';
+import { isValidDate, isValidNumber, sanitizeInput } from '@/utils/security';
+
+export function MinimumWageHistory() {
+  const queryClient = useQueryClient();
+  const { settings, isLoading } = usePayrollSettings();
+  const [isSaving, setIsSaving] = useState(false);
+  const [newWage, setNewWage] = useState({ effectiveFrom: '', value: '' });
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const wages = settings
+    .filter((setting) => setting.setting_name === MINIMUM_WAGE_SETTING && setting.effective_from !== null)
+    .sort((a, b) => (b.effective_from as string).localeCompare(a.effective_from as string));
+
+  // O vigente é o mais recente com início até hoje
+  const currentWage = wages.find((wage) => (wage.effective_from as string) <= today);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: PAYROLL_SETTINGS_QUERY_KEY });
+
+  const handleSchedule = async () => {
+    setIsSaving(true);
+    try {
+      const effectiveFrom = sanitizeInput(newWage.effectiveFrom);
+      const value = sanitizeInput(newWage.value).replace(',', '.');
+
+      if (!isValidDate(effectiveFrom)) {
+        throw new Error('Data de vigência inválida');
+      }
+
+      if (!isValidNumber(value, 1, 100000)) {
+        throw new Error('Valor do salário mínimo inválido');
+      }
+
+      const { error } = await supabase.from('payroll_settings').upsert(
+        {
+          setting_name: MINIMUM_WAGE_SETTING,
+          setting_value: Number(value).toFixed(2),
+          effective_from: effectiveFrom,
+          description: 'National minimum wage',
+        },
+        { onConflict: 'setting_name,effective_from' }
+      );
+
+      if (error) throw error;
+
+      toast.success('Salário mínimo cadastrado com sucesso!');
+      setNewWage({ effectiveFrom: '', value: '' });
+      refresh();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao cadastrar salário mínimo'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from('payroll_settings').delete().eq('id', id);
+      if (error) throw error;
+
+      toast.success('Reajuste cancelado com sucesso!');
+      refresh();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao cancelar reajuste'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Landmark className="h-5 w-5 text-primary" />
+            Salário Mínimo
+          </CardTitle>
+          {currentWage && (
+            <span className="text-xs text-muted-foreground">
+              Vigente: R$ {Number(currentWage.setting_value).toFixed(2)}
+            </span>
+          )}
+        </div>
+        <CardDescription>
+          Base da insalubridade. Cadastre o valor de cada decreto anual com a data em que passa a valer
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="minimum-wage-effective-from" className="text-xs">Vigência a partir de</Label>
+            <Input
+              id="minimum-wage-effective-from"
+              type="date"
+              value={newWage.effectiveFrom}
+              onChange={(e) => setNewWage({ ...newWage, effectiveFrom: e.target.value })}
+              className="text-sm sm:w-40"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="minimum-wage-value" className="text-xs">Valor (R$)</Label>
+            <Input
+              id="minimum-wage-value"
+              type="number"
+              step="0.01"
+              min="1"
+              value={newWage.value}
+              onChange={(e) => setNewWage({ ...newWage, value: e.target.value })}
+              className="text-sm sm:w-32"
+            />
+          </div>
+          <Button
+            size="sm"
+            onClick={handleSchedule}
+            disabled={isSaving || !newWage.effectiveFrom || !newWage.value}
+          >
+            Cadastrar
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+        ) : wages.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Nenhum salário mínimo cadastrado: a insalubridade não entra na base horária.
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs">Vigência</TableHead>
+                  <TableHead className="text-xs">Valor</TableHead>
+                  <TableHead className="text-xs">Situação</TableHead>
+                  <TableHead className="text-xs text-center">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {wages.map((wage) => (
+                  <TableRow key={wage.id}>
+                    <TableCell className="text-xs">
+                      {format(new Date(wage.effective_from + 'T00:00:00'), 'dd/MM/yyyy', { locale: ptBR })}
+                    </TableCell>
+                    <TableCell className="text-xs font-medium">
+                      R$ {Number(wage.setting_value).toFixed(2)}
+                    </TableCell>
+                    <TableCell>
+                      {(wage.effective_from as string) > today ? (
+                        <Badge variant="outline" className="text-xs">Agendado</Badge>
+                      ) : wage.id === currentWage?.id ? (
+                        <Badge className="text-xs">Vigente</Badge>
+                      ) : (
+                        <Badge variant="secondary" className="text-xs">Anterior</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      {(wage.effective_from as string) > today && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(wage.id)}
+                          className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,72 @@
+import { Button } from '@/components/ui/button';
+import { FileText, Image, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { getAttachmentUrls, removeOvertimeAttachment, type OvertimeAttachment } from '@/hooks/useOvertimeAttachments';
+import { formatFileSize, isImageAttachment } from '@/utils/attachments';
+import { errorMessage } from '@/utils/errors';
+
+interface OvertimeAttachmentListProps {
+  attachments: OvertimeAttachment[];
+  canRemove?: boolean;
+  onRemoved?: () => void;
+}
+
+export function OvertimeAttachmentList({ attachments, canRemove = false, onRemoved }: OvertimeAttachmentListProps) {
+  if (attachments.length === 0) return null;
+
+  const handleOpen = async (attachment: OvertimeAttachment) => {
+    try {
+      const urls = await getAttachmentUrls([attachment.storage_path]);
+      const url = urls.get(attachment.storage_path);
+      if (!url) throw new Error('Anexo não encontrado');
+      window.open(url, '_blank', 'noopener,noreferrer');
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao abrir anexo'));
+    }
+  };
+
+  const handleRemove = async (attachment: OvertimeAttachment) => {
+    try {
+      await removeOvertimeAttachment(attachment);
+      toast.success('Anexo removido');
+      onRemoved?.();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao remover anexo'));
+    }
+  };
+
+  return (
+    <ul className="space-y-1">
+      {attachments.map((attachment) => {
+        const Icon = isImageAttachment(attachment.mime_type) ? Image : FileText;
+        return (
+          <li key={attachment.id} className="flex items-center justify-between gap-2 text-xs bg-muted/50 rounded px-2 py-1">
+            <button
+              type="button"
+              onClick={() => handleOpen(attachment)}
+              className="flex items-center gap-1 truncate text-primary hover:underline"
+            >
+              <Icon className="h-3 w-3 shrink-0" />
+              <span className="truncate">{attachment.file_name}</span>
+            </button>
+            <span className="flex items-center gap-1 shrink-0 text-muted-foreground">
+              {formatFileSize(attachment.size_bytes)}
+              {canRemove && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-5 w-5 p-0 text-red-600 hover:text-red-700"
+                  onClick={() => handleRemove(attachment)}
+                  aria-label={`Remover ${attachment.file_name}`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              )}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
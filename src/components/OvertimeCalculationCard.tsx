@@ -0,0 +1,134 @@
+import { Calculator } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Card, CardContent } from '@/components/ui/card';
+import { formatMinutes, getBandLabel, NIGHT_PREMIUM, type OvertimeCalculation } from '@/utils/overtime';
+import { INSALUBRIDADE_LABELS, PERICULOSIDADE_RATE, type HourlyBaseComposition } from '@/utils/salary';
+import { TIME_ADJUSTMENT_POLICY_LABELS } from '@/utils/timeAdjustment';
+
+interface OvertimeCalculationCardProps {
+  calculation: OvertimeCalculation;
+  composition?: HourlyBaseComposition | null;
+}
+
+export function OvertimeCalculationCard({ calculation, composition }: OvertimeCalculationCardProps) {
+  return (
+    <Card className="bg-muted/50">
+      <CardContent className="pt-2 space-y-1">
+        <div className="flex items-center gap-1 text-xs font-medium">
+          <Calculator className="h-3 w-3 text-primary" />
+          <span>Cálculo:</span>
+        </div>
+
+        <div className="space-y-1 text-xs">
+          {/* Composição da base horária */}
+          {composition && (
+            <div className="space-y-1 border-b pb-1">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Salário base:</span>
+                <span className="font-medium">R$ {composition.baseSalary.toFixed(2)}</span>
+              </div>
+              {composition.periculosidadeValue > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Periculosidade ({PERICULOSIDADE_RATE * 100}%):</span>
+                  <span className="font-medium">+R$ {composition.periculosidadeValue.toFixed(2)}</span>
+                </div>
+              )}
+              {composition.insalubridadeValue > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">
+                    Insalubridade ({INSALUBRIDADE_LABELS[composition.insalubridadeGrade]}):
+                  </span>
+                  <span className="font-medium">+R$ {composition.insalubridadeValue.toFixed(2)}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">
+                  Base horária (R$ {composition.monthlyTotal.toFixed(2)} ÷ {composition.monthlyDivisor}):
+                </span>
+                <span className="font-semibold">R$ {calculation.hourlyRate.toFixed(2)}/h</span>
+              </div>
+            </div>
+          )}
+
+          {calculation.overnight && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Término:</span>
+              <span className="font-medium">
+                {format(parseISO(calculation.endDate), 'dd/MM/yyyy', { locale: ptBR })} (+1 dia)
+              </span>
+            </div>
+          )}
+
+          {/* Marcação bruta x tempo considerado pela política de tolerância */}
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Registrado:</span>
+            <span className="font-medium">{formatMinutes(calculation.rawMinutes)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">
+              Considerado ({TIME_ADJUSTMENT_POLICY_LABELS[calculation.timePolicy]}):
+            </span>
+            <span
+              className={`font-medium ${calculation.countedMinutes !== calculation.rawMinutes ? 'text-amber-600' : ''}`}
+            >
+              {formatMinutes(calculation.countedMinutes)}
+            </span>
+          </div>
+          {calculation.netHours <= 0 && (
+            <p className="text-amber-600">
+              {calculation.countedMinutes === 0
+                ? 'Variação dentro da tolerância: não há horas extras a lançar'
+                : 'Não há horas extras a lançar após o desconto'}
+            </p>
+          )}
+
+          <div className="flex justify-between border-t pt-1">
+            <span className="text-muted-foreground">Total:</span>
+            <span className="font-medium">{calculation.totalHours.toFixed(2)}h</span>
+          </div>
+
+          {calculation.lunchDiscount && (
+            <div className="flex justify-between text-amber-600">
+              <span>Almoço:</span>
+              <span className="font-medium">-1.00h</span>
+            </div>
+          )}
+
+          <div className="flex justify-between border-t pt-1">
+            <span className="text-muted-foreground">Líquido:</span>
+            <span className="font-semibold">{calculation.netHours.toFixed(2)}h</span>
+          </div>
+
+          {/* Detalhamento por faixa de adicional */}
+          <div className="border-t pt-1 space-y-1">
+            {calculation.bands.map((band) => (
+              <div key={`${band.kind}-${band.night}`} className="flex justify-between">
+                <span className="text-muted-foreground">
+                  {getBandLabel(band)} (+{band.premium * 100}%{band.night && ` +${NIGHT_PREMIUM * 100}%`}):
+                </span>
+                <span className="font-medium">
+                  {(band.minutes / 60).toFixed(2)}h • R$ {band.value.toFixed(2)}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {calculation.nightMinutes > 0 && (
+            <div className="flex justify-between text-indigo-600">
+              <span>Adicional noturno ({(calculation.nightMinutes / 60).toFixed(2)}h):</span>
+              <span className="font-medium">R$ {calculation.nightPremiumValue.toFixed(2)}</span>
+            </div>
+          )}
+
+          <div className="flex justify-between text-success border-t pt-1">
+            <span className="font-medium">Valor:</span>
+            <span className="font-bold text-sm">
+              R$ {calculation.totalValue.toFixed(2)}
+            </span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
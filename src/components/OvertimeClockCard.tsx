@@ -0,0 +1,344 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  cancelOvertimeClock,
+  closeStaleOvertimeClock,
+  startOvertimeClock,
+  stopOvertimeClock,
+  useOvertimeClock,
+} from '@/hooks/useOvertimeClock';
+import { useLocationCapture } from '@/hooks/useLocationCapture';
+import { usePayrollSettings } from '@/hooks/usePayrollSettings';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle, Play, Square, Timer } from 'lucide-react';
+import { addMinutes, differenceInDays, format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { LocationConsentField } from '@/components/LocationConsentField';
+import { OvertimeReasonFields } from '@/components/OvertimeReasonFields';
+import { errorMessage } from '@/utils/errors';
+import {
+  clockPhase,
+  DEFAULT_CLOCK_AUTO_CLOSE_MINUTES,
+  DEFAULT_CLOCK_REMINDER_MINUTES,
+  elapsedMs,
+  formatElapsed,
+  OVERTIME_CLOCK_SETTINGS,
+} from '@/utils/overtimeClock';
+import { sanitizeInput } from '@/utils/security';
+
+// Encerramentos automáticos ficam visíveis no cartão por alguns dias
+const AUTO_CLOSED_NOTICE_DAYS = 7;
+
+const formatDateTime = (date: Date) => format(date, "dd/MM 'às' HH:mm", { locale: ptBR });
+
+export function OvertimeClockCard({ onChanged }: { onChanged: () => void }) {
+  const { user } = useAuth();
+  const { getNumber } = usePayrollSettings();
+  const { consent: locationConsent, setConsent: setLocationConsent, capture: captureLocation } = useLocationCapture();
+  const { openSession, lastSession, isLoading, refetch } = useOvertimeClock(user?.id);
+  const [now, setNow] = useState(Date.now());
+  const [dialog, setDialog] = useState<'start' | 'stop' | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [reason, setReason] = useState({ reasonId: '', justification: '' });
+  const [lunchDiscount, setLunchDiscount] = useState(false);
+  const remindedSessionId = useRef<string | null>(null);
+  const closingSessionId = useRef<string | null>(null);
+
+  const reminderMinutes = getNumber(OVERTIME_CLOCK_SETTINGS.reminder, DEFAULT_CLOCK_REMINDER_MINUTES);
+  const autoCloseMinutes = getNumber(OVERTIME_CLOCK_SETTINGS.autoClose, DEFAULT_CLOCK_AUTO_CLOSE_MINUTES);
+
+  const elapsed = openSession ? elapsedMs(openSession.started_at, now) : 0;
+  const phase = clockPhase(elapsed, reminderMinutes, autoCloseMinutes);
+
+  // Cronômetro: o início vem do servidor, só a contagem é local
+  useEffect(() => {
+    if (!openSession) return;
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [openSession]);
+
+  // Lembrete único por sessão, também como notificação do navegador
+  useEffect(() => {
+    if (!openSession || phase !== 'reminder' || remindedSessionId.current === openSession.id) return;
+    remindedSessionId.current = openSession.id;
+
+    const message = `Hora extra em andamento há ${formatElapsed(elapsed).substring(0, 5)}. Não esqueça de encerrar.`;
+    toast.warning(message);
+    if ('Notification' in window && Notification.permission === 'granted') {
+      new Notification('Hora extra em andamento', { body: message, icon: '/logo.svg' });
+    }
+  }, [openSession, phase, elapsed]);
+
+  // Sessão esquecida além do limite: encerra para revisão
+  useEffect(() => {
+    if (!openSession || phase !== 'overdue' || closingSessionId.current === openSession.id) return;
+    closingSessionId.current = openSession.id;
+
+    closeStaleOvertimeClock()
+      .then(() => {
+        refetch();
+        onChanged();
+      })
+      .catch((error) => console.error('Error closing stale clock session:', error));
+  }, [openSession, phase, refetch, onChanged]);
+
+  const openStartDialog = () => {
+    setReason({ reasonId: '', justification: '' });
+    setDialog('start');
+  };
+
+  const openStopDialog = () => {
+    if (!openSession) return;
+    setReason({ reasonId: openSession.reason_id, justification: openSession.justification ?? '' });
+    setLunchDiscount(false);
+    setDialog('stop');
+  };
+
+  const handleStart = async () => {
+    setIsSaving(true);
+    try {
+      if (!reason.reasonId) {
+        throw new Error('Selecione o motivo das horas extras');
+      }
+
+      const location = await captureLocation();
+      if (location.error) {
+        toast.warning(`${location.error}: o início será marcado sem localização`);
+      }
+
+      await startOvertimeClock(
+        reason.reasonId,
+        sanitizeInput(reason.justification),
+        location.point
+      );
+
+      // O lembrete de sessão esquecida usa notificações do navegador quando permitido
+      if ('Notification' in window && Notification.permission === 'default') {
+        Notification.requestPermission();
+      }
+
+      toast.success('Hora extra iniciada');
+      setDialog(null);
+      refetch();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao iniciar hora extra'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStop = async () => {
+    setIsSaving(true);
+    try {
+      const sanitizedJustification = sanitizeInput(reason.justification);
+
+      if (!reason.reasonId) {
+        throw new Error('Selecione o motivo das horas extras');
+      }
+
+      if (!sanitizedJustification) {
+        throw new Error('Informe a justificativa das horas extras');
+      }
+
+      const location = await captureLocation();
+      if (location.error) {
+        toast.warning(`${location.error}: o fim será marcado sem localização`);
+      }
+
+      await stopOvertimeClock(lunchDiscount, reason.reasonId, sanitizedJustification, location.point);
+
+      toast.success('Hora extra registrada com sucesso!');
+      setDialog(null);
+      refetch();
+      onChanged();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao encerrar hora extra'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setIsSaving(true);
+    try {
+      await cancelOvertimeClock();
+
+      toast.success('Hora extra descartada');
+      setDialog(null);
+      refetch();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao descartar hora extra'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return null;
+  }
+
+  const autoClosedSession =
+    !openSession &&
+    lastSession?.auto_closed &&
+    lastSession.ended_at &&
+    differenceInDays(new Date(), new Date(lastSession.ended_at)) < AUTO_CLOSED_NOTICE_DAYS
+      ? { ...lastSession, ended_at: lastSession.ended_at }
+      : null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm sm:text-base flex items-center gap-2">
+          <Timer className="h-4 w-4 text-primary" />
+          Relógio de Hora Extra
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Marque o início e o fim na hora em que acontecem, com o horário do servidor
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {openSession ? (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div>
+              <p className="text-2xl sm:text-3xl font-bold tabular-nums text-primary">{formatElapsed(elapsed)}</p>
+              <p className="text-xs text-muted-foreground">
+                Iniciada em {formatDateTime(new Date(openSession.started_at))}
+              </p>
+            </div>
+            <Button onClick={openStopDialog} variant="destructive" className="gap-2 w-full sm:w-auto">
+              <Square className="h-4 w-4" />
+              Encerrar
+            </Button>
+          </div>
+        ) : (
+          <Button onClick={openStartDialog} className="gap-2 w-full sm:w-auto">
+            <Play className="h-4 w-4" />
+            Iniciar hora extra
+          </Button>
+        )}
+
+        {openSession && phase !== 'running' && (
+          <Alert className="p-3 border-amber-500/50">
+            <AlertTriangle className="h-4 w-4 text-amber-600" />
+            <AlertTitle className="text-xs">Esqueceu de encerrar?</AlertTitle>
+            <AlertDescription className="text-xs">
+              Sem encerramento, a hora extra termina automaticamente em{' '}
+              {formatDateTime(addMinutes(new Date(openSession.started_at), autoCloseMinutes))} e fica pendente de revisão.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {autoClosedSession && (
+          <Alert variant={autoClosedSession.record_id ? 'default' : 'destructive'} className="p-3">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle className="text-xs">Hora extra encerrada automaticamente</AlertTitle>
+            <AlertDescription className="text-xs">
+              {autoClosedSession.record_id
+                ? `A sessão iniciada em ${formatDateTime(new Date(autoClosedSession.started_at))} foi encerrada em ${formatDateTime(new Date(autoClosedSession.ended_at))}. Corrija o horário de saída no histórico antes da aprovação.`
+                : `A sessão iniciada em ${formatDateTime(new Date(autoClosedSession.started_at))} não pôde ser lançada (${autoClosedSession.close_error}). Registre as horas manualmente.`}
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+
+      <Dialog open={dialog !== null} onOpenChange={(isOpen) => !isOpen && setDialog(null)}>
+        <DialogContent className="w-[95vw] max-w-sm mx-auto max-h-[90vh] overflow-y-auto">
+          <DialogHeader className="pb-2">
+            <DialogTitle className="text-base">
+              {dialog === 'stop' ? 'Encerrar Hora Extra' : 'Iniciar Hora Extra'}
+            </DialogTitle>
+            <DialogDescription className="text-xs">
+              {dialog === 'stop'
+                ? 'O fim é marcado agora e o lançamento segue para aprovação.'
+                : 'O início é marcado agora pelo servidor.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <OvertimeReasonFields
+              idPrefix="clock"
+              reasonId={reason.reasonId}
+              justification={reason.justification}
+              onReasonChange={(reasonId) => setReason({ ...reason, reasonId })}
+              onJustificationChange={(justification) => setReason({ ...reason, justification })}
+            />
+
+            <LocationConsentField
+              idPrefix="clock"
+              consent={locationConsent}
+              onConsentChange={setLocationConsent}
+            />
+
+            {dialog === 'stop' && (
+              <div className="flex items-center space-x-2 p-2 bg-muted/50 rounded-lg border">
+                <Checkbox
+                  id="clock-lunch"
+                  checked={lunchDiscount}
+                  onCheckedChange={(checked) => setLunchDiscount(!!checked)}
+                  className="h-4 w-4"
+                />
+                <Label htmlFor="clock-lunch" className="text-xs font-medium cursor-pointer flex-1">
+                  Fez almoço (-1h)
+                </Label>
+              </div>
+            )}
+
+            <div className="flex gap-2 pt-1">
+              {dialog === 'stop' ? (
+                <>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleCancel}
+                    disabled={isSaving}
+                    className="flex-1 text-xs h-8 text-red-600 hover:text-red-700"
+                  >
+                    Descartar
+                  </Button>
+                  <Button
+                    onClick={handleStop}
+                    disabled={isSaving || !reason.reasonId || !reason.justification.trim()}
+                    className="flex-1 text-xs h-8"
+                  >
+                    {isSaving ? 'Salvando...' : 'Encerrar'}
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setDialog(null)}
+                    className="flex-1 text-xs h-8"
+                  >
+                    Cancelar
+                  </Button>
+                  <Button
+                    onClick={handleStart}
+                    disabled={isSaving || !reason.reasonId}
+                    className="flex-1 text-xs h-8"
+                  >
+                    {isSaving ? 'Iniciando...' : 'Iniciar'}
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,26 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle } from 'lucide-react';
+import { describeLimitExcess, type OvertimeLimitExcess } from '@/utils/overtimeLimits';
+
+interface OvertimeLimitAlertProps {
+  excesses: OvertimeLimitExcess[];
+  isBlocked: boolean;
+}
+
+export function OvertimeLimitAlert({ excesses, isBlocked }: OvertimeLimitAlertProps) {
+  if (excesses.length === 0) return null;
+
+  return (
+    <Alert variant={isBlocked ? 'destructive' : 'default'} className="p-3 border-amber-500/50">
+      <AlertTriangle className="h-4 w-4 text-amber-600" />
+      <AlertTitle className="text-xs">
+        {isBlocked ? 'Lançamento bloqueado' : 'Limite de horas extras excedido'}
+      </AlertTitle>
+      <AlertDescription className="text-xs space-y-1">
+        {excesses.map((excess) => (
+          <p key={`${excess.period}-${excess.period_start}`}>{describeLimitExcess(excess)}</p>
+        ))}
+      </AlertDescription>
+    </Alert>
+  );
+}
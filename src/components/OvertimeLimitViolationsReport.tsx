@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle } from 'lucide-react';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import type { Database } from '@/integrations/supabase/types';
+import { formatMinutes } from '@/utils/overtime';
+import { formatLimitPeriod, LIMIT_PERIOD_LABELS, type OvertimeLimitPeriod } from '@/utils/overtimeLimits';
+import { isValidDate } from '@/utils/security';
+
+type LimitViolation = Database['public']['Functions']['overtime_limit_violations']['Returns'][number];
+
+export function OvertimeLimitViolationsReport() {
+  const [range, setRange] = useState({
+    from: format(startOfMonth(new Date()), 'yyyy-MM-dd'),
+    to: format(endOfMonth(new Date()), 'yyyy-MM-dd'),
+  });
+  const [violations, setViolations] = useState<LimitViolation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchViolations = useCallback(async () => {
+    if (!isValidDate(range.from) || !isValidDate(range.to) || range.from > range.to) return;
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('overtime_limit_violations', {
+        _from: range.from,
+        _to: range.to,
+      });
+
+      if (error) throw error;
+      setViolations(data || []);
+    } catch (error) {
+      console.error('Error fetching limit violations:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [range]);
+
+  useEffect(() => {
+    fetchViolations();
+  }, [fetchViolations]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-amber-600" />
+          Violações de Limite
+        </CardTitle>
+        <CardDescription>Funcionários que ultrapassaram os limites diário, semanal ou mensal</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="violations-from" className="text-xs">De</Label>
+            <Input
+              id="violations-from"
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              className="text-sm sm:w-40"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="violations-to" className="text-xs">Até</Label>
+            <Input
+              id="violations-to"
+              type="date"
+              value={range.to}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              className="text-sm sm:w-40"
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+        ) : violations.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <p>Nenhuma violação de limite no período</p>
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Funcionário</TableHead>
+                  <TableHead>Limite</TableHead>
+                  <TableHead>Quando</TableHead>
+                  <TableHead className="text-right">Horas</TableHead>
+                  <TableHead className="text-right">Excesso</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {violations.map((violation) => (
+                  <TableRow key={`${violation.user_id}-${violation.period}-${violation.period_start}`}>
+                    <TableCell className="font-medium">{violation.full_name}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="capitalize">
+                        {LIMIT_PERIOD_LABELS[violation.period as OvertimeLimitPeriod] ?? violation.period}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{formatLimitPeriod(violation.period, violation.period_start)}</TableCell>
+                    <TableCell className="text-right">
+                      {formatMinutes(violation.minutes)} / {formatMinutes(violation.limit_minutes)}
+                    </TableCell>
+                    <TableCell className="text-right font-bold text-red-600">
+                      +{formatMinutes(violation.excess_minutes)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
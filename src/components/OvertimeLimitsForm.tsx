@@ -0,0 +1,203 @@
+import { useCallback, useEffect, useState } from 'react';
+import { usePayrollSettings } from '@/hooks/usePayrollSettings';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Gauge } from 'lucide-react';
+import { toast } from 'sonner';
+import { errorMessage } from '@/utils/errors';
+import {
+  DEFAULT_DAILY_LIMIT_MINUTES,
+  LIMIT_ENFORCEMENT_LABELS,
+  LIMIT_PERIOD_LABELS,
+  OVERTIME_LIMIT_SETTINGS,
+  type OvertimeLimitEnforcement,
+  type OvertimeLimitPeriod,
+} from '@/utils/overtimeLimits';
+import { isValidNumber, sanitizeInput } from '@/utils/security';
+
+const PERIOD_COLUMNS: Record<OvertimeLimitPeriod, 'daily_minutes' | 'weekly_minutes' | 'monthly_minutes'> = {
+  day: 'daily_minutes',
+  week: 'weekly_minutes',
+  month: 'monthly_minutes',
+};
+
+const PERIOD_MAX_HOURS: Record<OvertimeLimitPeriod, number> = {
+  day: 24,
+  week: 168,
+  month: 744,
+};
+
+const EMPTY_FORM = { day: '', week: '', month: '', enforcement: 'default' };
+
+interface OvertimeLimitsFormProps {
+  userId: string;
+}
+
+export function OvertimeLimitsForm({ userId }: OvertimeLimitsFormProps) {
+  const { getNumber, getValue } = usePayrollSettings();
+  const [isSaving, setIsSaving] = useState(false);
+  const [hasOverride, setHasOverride] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const fetchLimits = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('overtime_limits')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const toHours = (minutes: number | null) => (minutes === null ? '' : String(minutes / 60));
+      setHasOverride(!!data);
+      setFormData(
+        data
+          ? {
+              day: toHours(data.daily_minutes),
+              week: toHours(data.weekly_minutes),
+              month: toHours(data.monthly_minutes),
+              enforcement: data.enforcement ?? 'default',
+            }
+          : EMPTY_FORM
+      );
+    } catch (error) {
+      console.error('Error fetching overtime limits:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchLimits();
+  }, [fetchLimits]);
+
+  // Limite global exibido quando o campo fica em branco
+  const globalLimit = (period: OvertimeLimitPeriod) => {
+    const minutes = getNumber(OVERTIME_LIMIT_SETTINGS[period], period === 'day' ? DEFAULT_DAILY_LIMIT_MINUTES : 0);
+    return minutes > 0 ? `Padrão: ${minutes / 60}h` : 'Padrão: sem limite';
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const limits: Record<string, number | null> = {};
+      for (const period of Object.keys(PERIOD_COLUMNS) as OvertimeLimitPeriod[]) {
+        const value = sanitizeInput(formData[period]).replace(',', '.');
+        if (value && !isValidNumber(value, 0, PERIOD_MAX_HOURS[period])) {
+          throw new Error(`Limite ${LIMIT_PERIOD_LABELS[period]} inválido`);
+        }
+        limits[PERIOD_COLUMNS[period]] = value ? Math.round(Number(value) * 60) : null;
+      }
+
+      const { error } = await supabase.from('overtime_limits').upsert(
+        {
+          user_id: userId,
+          ...limits,
+          enforcement:
+            formData.enforcement === 'default' ? null : (formData.enforcement as OvertimeLimitEnforcement),
+        },
+        { onConflict: 'user_id' }
+      );
+
+      if (error) throw error;
+
+      toast.success('Limites atualizados com sucesso!');
+      fetchLimits();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao atualizar limites'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.from('overtime_limits').delete().eq('user_id', userId);
+      if (error) throw error;
+
+      toast.success('Limites padrão restaurados!');
+      fetchLimits();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao restaurar limites'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const globalEnforcement = getValue(OVERTIME_LIMIT_SETTINGS.enforcement, 'warn') as OvertimeLimitEnforcement;
+
+  return (
+    <div className="space-y-3 p-3 sm:p-4 border rounded-lg">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Gauge className="h-4 w-4 text-primary" />
+        <span>Limites de Horas Extras</span>
+      </div>
+
+      <div className="grid gap-2 grid-cols-1 sm:grid-cols-2 lg:grid-cols-4">
+        {(Object.keys(PERIOD_COLUMNS) as OvertimeLimitPeriod[]).map((period) => (
+          <div key={period} className="space-y-1">
+            <Label htmlFor={`limit-${period}`} className="text-xs capitalize">
+              {LIMIT_PERIOD_LABELS[period]} (h)
+            </Label>
+            <Input
+              id={`limit-${period}`}
+              type="number"
+              step="0.5"
+              min="0"
+              placeholder={globalLimit(period)}
+              value={formData[period]}
+              onChange={(e) => setFormData({ ...formData, [period]: e.target.value })}
+              className="text-sm"
+            />
+          </div>
+        ))}
+        <div className="space-y-1">
+          <Label className="text-xs">Ao exceder</Label>
+          <Select
+            value={formData.enforcement}
+            onValueChange={(value) => setFormData({ ...formData, enforcement: value })}
+          >
+            <SelectTrigger className="text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="default">
+                Padrão ({LIMIT_ENFORCEMENT_LABELS[globalEnforcement] ?? globalEnforcement})
+              </SelectItem>
+              {(Object.keys(LIMIT_ENFORCEMENT_LABELS) as OvertimeLimitEnforcement[]).map((enforcement) => (
+                <SelectItem key={enforcement} value={enforcement}>
+                  {LIMIT_ENFORCEMENT_LABELS[enforcement]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          Campos em branco seguem os limites definidos em Configurações
+        </p>
+        <div className="flex gap-2">
+          {hasOverride && (
+            <Button size="sm" variant="outline" onClick={handleReset} disabled={isSaving}>
+              Usar padrão
+            </Button>
+          )}
+          <Button size="sm" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Salvando...' : 'Salvar limites'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useOvertimeReasons } from '@/hooks/useOvertimeReasons';
+import { MAX_JUSTIFICATION_LENGTH } from '@/utils/overtimeReasons';
+
+interface OvertimeReasonFieldsProps {
+  idPrefix: string;
+  reasonId: string;
+  justification: string;
+  onReasonChange: (reasonId: string) => void;
+  onJustificationChange: (justification: string) => void;
+}
+
+export function OvertimeReasonFields({
+  idPrefix,
+  reasonId,
+  justification,
+  onReasonChange,
+  onJustificationChange,
+}: OvertimeReasonFieldsProps) {
+  const { activeReasons } = useOvertimeReasons();
+
+  // Motivos desativados (como o "Não informado" de registros antigos) não podem ser escolhidos
+  const value = activeReasons.some((reason) => reason.id === reasonId) ? reasonId : '';
+
+  return (
+    <>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-reason`} className="text-xs font-medium">Motivo</Label>
+        <Select value={value} onValueChange={onReasonChange}>
+          <SelectTrigger id={`${idPrefix}-reason`} className="w-full text-sm h-9">
+            <SelectValue placeholder="Selecione o motivo" />
+          </SelectTrigger>
+          <SelectContent>
+            {activeReasons.map((reason) => (
+              <SelectItem key={reason.id} value={reason.id}>
+                {reason.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-justification`} className="text-xs font-medium">Justificativa</Label>
+        <Textarea
+          id={`${idPrefix}-justification`}
+          value={justification}
+          maxLength={MAX_JUSTIFICATION_LENGTH}
+          placeholder="Descreva por que as horas extras foram necessárias"
+          onChange={(e) => onJustificationChange(e.target.value)}
+          className="text-sm min-h-[60px]"
+        />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,38 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { MessageSquareText } from 'lucide-react';
+import { useOvertimeReasons } from '@/hooks/useOvertimeReasons';
+import { ALL_REASONS } from '@/utils/overtimeReasons';
+
+interface OvertimeReasonFilterProps {
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+export function OvertimeReasonFilter({ value, onChange, className }: OvertimeReasonFilterProps) {
+  const { reasons } = useOvertimeReasons();
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className={`text-sm ${className ?? ''}`} aria-label="Filtrar por motivo">
+        <MessageSquareText className="h-4 w-4 mr-2 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_REASONS}>Todos os motivos</SelectItem>
+        {reasons.map((reason) => (
+          <SelectItem key={reason.id} value={reason.id}>
+            {reason.name}
+            {!reason.is_active && ' (inativo)'}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
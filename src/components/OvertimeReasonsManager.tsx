@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { MessageSquareText, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { OVERTIME_REASONS_QUERY_KEY, useOvertimeReasons } from '@/hooks/useOvertimeReasons';
+import { errorMessage } from '@/utils/errors';
+import { sanitizeInput } from '@/utils/security';
+
+export function OvertimeReasonsManager() {
+  const queryClient = useQueryClient();
+  const { reasons, isLoading } = useOvertimeReasons();
+  const [isSaving, setIsSaving] = useState(false);
+  const [newReason, setNewReason] = useState('');
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: OVERTIME_REASONS_QUERY_KEY });
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    try {
+      const name = sanitizeInput(newReason);
+
+      if (name.length < 2 || name.length > 100) {
+        throw new Error('Nome deve ter entre 2 e 100 caracteres');
+      }
+
+      const { error } = await supabase.from('overtime_reasons').insert({ name });
+      if (error) throw error;
+
+      toast.success('Motivo cadastrado com sucesso!');
+      setNewReason('');
+      refresh();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao cadastrar motivo'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (id: string, isActive: boolean) => {
+    try {
+      const { error } = await supabase.from('overtime_reasons').update({ is_active: isActive }).eq('id', id);
+      if (error) throw error;
+
+      toast.success(isActive ? 'Motivo reativado' : 'Motivo desativado');
+      refresh();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao atualizar motivo'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquareText className="h-5 w-5 text-primary" />
+          Motivos de Hora Extra
+        </CardTitle>
+        <CardDescription>
+          Opções escolhidas pelo funcionário ao lançar horas. Motivos desativados saem da lista, mas continuam nos lançamentos antigos
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Cadastro */}
+        <div className="flex flex-col sm:flex-row gap-2 sm:items-end p-3 border rounded-lg bg-muted/30">
+          <div className="space-y-1 flex-1">
+            <Label htmlFor="reason-name" className="text-xs">Nome</Label>
+            <Input
+              id="reason-name"
+              value={newReason}
+              maxLength={100}
+              onChange={(e) => setNewReason(e.target.value)}
+              className="text-sm"
+            />
+          </div>
+          <Button size="sm" onClick={handleAdd} disabled={isSaving || !newReason}>
+            <Plus className="h-4 w-4 mr-2" />
+            Adicionar
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Motivo</TableHead>
+                  <TableHead className="text-center">Ativo</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reasons.map((reason) => (
+                  <TableRow key={reason.id}>
+                    <TableCell className="font-medium text-xs sm:text-sm">
+                      {reason.name}
+                      {!reason.is_active && (
+                        <Badge variant="outline" className="ml-2 text-xs">Inativo</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Switch
+                        checked={reason.is_active}
+                        onCheckedChange={(checked) => handleToggleActive(reason.id, checked)}
+                        aria-label={`Motivo ${reason.name} ativo`}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
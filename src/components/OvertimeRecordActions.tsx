@@ -1,5 +1,11 @@
 import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useHolidays } from '@/hooks/useHolidays';
+import { useDayRecordedMinutes } from '@/hooks/useDayRecordedMinutes';
+import { useHourlyRate } from '@/hooks/useHourlyRate';
+import { useOvertimeLimitCheck } from '@/hooks/useOvertimeLimitCheck';
+import { uploadOvertimeAttachments, useOvertimeAttachments } from '@/hooks/useOvertimeAttachments';
+import { usePayrollPeriods } from '@/hooks/usePayrollPeriods';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { 
@@ -12,21 +18,35 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Edit, Trash2, Save, X } from 'lucide-react';
+import { Edit, Trash2, Save, X, Lock } from 'lucide-react';
 import { toast } from 'sonner';
+import { AttachmentInput } from '@/components/AttachmentInput';
+import { OvertimeAttachmentList } from '@/components/OvertimeAttachmentList';
+import { OvertimeCalculationCard } from '@/components/OvertimeCalculationCard';
+import { OvertimeLimitAlert } from '@/components/OvertimeLimitAlert';
+import { OvertimeReasonFields } from '@/components/OvertimeReasonFields';
 import { isValidDate, isValidTime, sanitizeInput } from '@/utils/security';
-
-const HOURLY_RATE = 15.57;
+import { ATTACHMENTS_BUCKET, MAX_ATTACHMENTS_PER_RECORD } from '@/utils/attachments';
+import { errorMessage } from '@/utils/errors';
+import { calculateOvertime, getShiftEndDate, timeToMinutes } from '@/utils/overtime';
+import type { OvertimeStatus } from '@/utils/approval';
+import type { TimeAdjustmentPolicy } from '@/utils/timeAdjustment';
 
 interface OvertimeRecord {
   id: string;
+  user_id: string;
   date: string;
+  end_date: string;
   start_time: string;
   end_time: string;
   total_hours: number;
   lunch_discount: boolean;
   net_hours: number;
   total_value: number;
+  time_policy: TimeAdjustmentPolicy;
+  status: OvertimeStatus;
+  reason_id: string;
+  justification: string | null;
 }
 
 interface OvertimeRecordActionsProps {
@@ -37,9 +57,14 @@ interface OvertimeRecordActionsProps {
 
 export function OvertimeRecordActions({ record, onUpdate, onDelete }: OvertimeRecordActionsProps) {
   const { user } = useAuth();
+  const { isHoliday } = useHolidays();
+  const { isDateLocked } = usePayrollPeriods();
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [isDeleteOpen, setIsDeleteOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+
+  // Alterações em registros de outro funcionário só chegam aqui pelo painel do administrador
+  const isAdminChange = !!user && record.user_id !== user.id;
   
   // Estados para edição
   const [editData, setEditData] = useState({
@@ -48,31 +73,45 @@ export function OvertimeRecordActions({ record, onUpdate, onDelete }: OvertimeRe
     endTime: record.end_time,
     lunchDiscount: record.lunch_discount,
   });
+  const [reason, setReason] = useState({
+    reasonId: record.reason_id,
+    justification: record.justification ?? '',
+  });
+  const [attachmentFiles, setAttachmentFiles] = useState<File[]>([]);
 
-  const calculateOvertime = (startTime: string, endTime: string, hasLunch: boolean) => {
-    if (!startTime || !endTime) return null;
-
-    const [startHour, startMinute] = startTime.split(':').map(Number);
-    const [endHour, endMinute] = endTime.split(':').map(Number);
-
-    const startMinutes = startHour * 60 + startMinute;
-    const endMinutes = endHour * 60 + endMinute;
-    
-    let totalMinutes = endMinutes - startMinutes;
-    if (totalMinutes < 0) totalMinutes += 24 * 60;
-
-    const totalHours = totalMinutes / 60;
-    const lunchDiscount = hasLunch;
-    const netHours = lunchDiscount ? totalHours - 1 : totalHours;
-    const totalValue = netHours * HOURLY_RATE;
-
-    return {
-      totalHours: Math.round(totalHours * 100) / 100,
-      lunchDiscount,
-      netHours: Math.round(netHours * 100) / 100,
-      totalValue: Math.round(totalValue * 100) / 100,
-    };
-  };
+  // Anexos já enviados (consultados apenas com o diálogo aberto)
+  const { attachments, refetch: refetchAttachments } = useOvertimeAttachments(isEditOpen ? record.id : undefined);
+
+  // Taxa vigente na data do registro (consultada apenas com o diálogo aberto)
+  const { hourlyRate, composition, isLoading: isRateLoading } = useHourlyRate(
+    isEditOpen ? record.user_id : undefined,
+    editData.date
+  );
+
+  const { otherMinutesOnDate, isLoading: isDayLoading } = useDayRecordedMinutes(
+    isEditOpen ? record.user_id : undefined,
+    editData.date,
+    record.id
+  );
+
+  // O registro mantém a política de tolerância com que foi criado
+  const calculation = calculateOvertime({
+    date: editData.date,
+    startTime: editData.startTime,
+    endTime: editData.endTime,
+    lunchDiscount: editData.lunchDiscount,
+    hourlyRate,
+    isHoliday,
+    timePolicy: record.time_policy,
+    otherMinutesOnDate,
+  });
+
+  // O próprio registro fica fora da soma para não contar em dobro
+  const { excesses, isBlocked } = useOvertimeLimitCheck(
+    isEditOpen ? record.user_id : undefined,
+    calculation && { ...editData, endDate: calculation.endDate },
+    record.id
+  );
 
   const handleEdit = async () => {
     if (!user) return;
@@ -92,37 +131,62 @@ export function OvertimeRecordActions({ record, onUpdate, onDelete }: OvertimeRe
         throw new Error('Data inválida');
       }
 
+      if (isDateLocked(sanitizedDate)) {
+        throw new Error('A data pertence a um período de folha fechado');
+      }
+
       if (!isValidTime(sanitizedStartTime) || !isValidTime(sanitizedEndTime)) {
         throw new Error('Horário inválido');
       }
 
-      // Calcular novos valores
-      const calculation = calculateOvertime(sanitizedStartTime, sanitizedEndTime, editData.lunchDiscount);
+      // Fim antes do início indica turno que termina no dia seguinte
+      if (timeToMinutes(sanitizedStartTime) === timeToMinutes(sanitizedEndTime)) {
+        throw new Error('Horário de fim deve ser diferente do horário de início');
+      }
+
+      // Os valores são recalculados pelo banco; a prévia só confirma que o período é válido
       if (!calculation) {
         throw new Error('Erro no cálculo');
       }
 
+      if (calculation.netHours <= 0) {
+        throw new Error('Não há horas extras a lançar após tolerância e desconto de almoço');
+      }
+
+      const sanitizedJustification = sanitizeInput(reason.justification);
+
+      if (!reason.reasonId) {
+        throw new Error('Selecione o motivo das horas extras');
+      }
+
+      if (!sanitizedJustification) {
+        throw new Error('Informe a justificativa das horas extras');
+      }
+
       const { error } = await supabase
         .from('overtime_records')
         .update({
           date: sanitizedDate,
+          end_date: getShiftEndDate(sanitizedDate, sanitizedStartTime, sanitizedEndTime),
           start_time: sanitizedStartTime,
           end_time: sanitizedEndTime,
-          total_hours: calculation.totalHours,
           lunch_discount: editData.lunchDiscount,
-          net_hours: calculation.netHours,
-          total_value: calculation.totalValue,
+          reason_id: reason.reasonId,
+          justification: sanitizedJustification,
         })
         .eq('id', record.id)
-        .eq('user_id', user.id);
+        .eq('user_id', record.user_id);
 
       if (error) throw error;
 
+      await uploadOvertimeAttachments(record.user_id, record.id, attachmentFiles);
+      setAttachmentFiles([]);
+
       toast.success('Registro atualizado com sucesso!');
       setIsEditOpen(false);
       onUpdate();
-    } catch (error: any) {
-      toast.error(error.message || 'Erro ao atualizar registro');
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao atualizar registro'));
     } finally {
       setIsLoading(false);
     }
@@ -133,30 +197,42 @@ export function OvertimeRecordActions({ record, onUpdate, onDelete }: OvertimeRe
 
     setIsLoading(true);
     try {
+      // Os arquivos não são apagados junto com o registro
+      const { data: attachmentPaths } = await supabase
+        .from('overtime_attachments')
+        .select('storage_path')
+        .eq('record_id', record.id);
+
       const { error } = await supabase
         .from('overtime_records')
         .delete()
         .eq('id', record.id)
-        .eq('user_id', user.id);
+        .eq('user_id', record.user_id);
 
       if (error) throw error;
 
+      if (attachmentPaths && attachmentPaths.length > 0) {
+        await supabase.storage.from(ATTACHMENTS_BUCKET).remove(attachmentPaths.map((attachment) => attachment.storage_path));
+      }
+
       toast.success('Registro excluído com sucesso!');
       setIsDeleteOpen(false);
       onDelete();
-    } catch (error: any) {
-      toast.error('Erro ao excluir registro');
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao excluir registro'));
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleTimeChange = () => {
-    if (editData.startTime && editData.endTime) {
-      const calc = calculateOvertime(editData.startTime, editData.endTime, editData.lunchDiscount);
-      // Atualizar os valores calculados se necessário
-    }
-  };
+  // Registros de períodos de folha fechados são bloqueados pelo banco
+  if (isDateLocked(record.date)) {
+    return (
+      <span className="inline-flex h-7 w-7 items-center justify-center text-muted-foreground" title="Período de folha fechado">
+        <Lock className="h-3 w-3" />
+      </span>
+    );
+  }
 
   return (
     <div className="flex gap-1">
@@ -191,10 +267,7 @@ export function OvertimeRecordActions({ record, onUpdate, onDelete }: OvertimeRe
                   id="edit-start"
                   type="time"
                   value={editData.startTime}
-                  onChange={(e) => {
-                    setEditData({...editData, startTime: e.target.value});
-                    handleTimeChange();
-                  }}
+                  onChange={(e) => setEditData({...editData, startTime: e.target.value})}
                   className="w-full text-sm h-9"
                 />
               </div>
@@ -205,29 +278,53 @@ export function OvertimeRecordActions({ record, onUpdate, onDelete }: OvertimeRe
                   id="edit-end"
                   type="time"
                   value={editData.endTime}
-                  onChange={(e) => {
-                    setEditData({...editData, endTime: e.target.value});
-                    handleTimeChange();
-                  }}
+                  onChange={(e) => setEditData({...editData, endTime: e.target.value})}
                   className="w-full text-sm h-9"
                 />
               </div>
             </div>
 
+            <OvertimeReasonFields
+              idPrefix="edit"
+              reasonId={reason.reasonId}
+              justification={reason.justification}
+              onReasonChange={(reasonId) => setReason({ ...reason, reasonId })}
+              onJustificationChange={(justification) => setReason({ ...reason, justification })}
+            />
+
+            <OvertimeAttachmentList attachments={attachments} canRemove onRemoved={refetchAttachments} />
+            <AttachmentInput
+              files={attachmentFiles}
+              onChange={setAttachmentFiles}
+              maxFiles={Math.max(0, MAX_ATTACHMENTS_PER_RECORD - attachments.length)}
+              disabled={isLoading}
+            />
+
             <div className="flex items-center space-x-2 p-2 bg-muted/50 rounded-lg border">
               <Checkbox
                 id="edit-lunch"
                 checked={editData.lunchDiscount}
-                onCheckedChange={(checked) => {
-                  setEditData({...editData, lunchDiscount: !!checked});
-                  handleTimeChange();
-                }}
+                onCheckedChange={(checked) => setEditData({...editData, lunchDiscount: !!checked})}
                 className="h-4 w-4"
               />
               <Label htmlFor="edit-lunch" className="text-xs font-medium cursor-pointer flex-1">
                 Fez almoço (-1h)
               </Label>
             </div>
+
+            {calculation && <OvertimeCalculationCard calculation={calculation} composition={composition} />}
+
+            <OvertimeLimitAlert excesses={excesses} isBlocked={isBlocked} />
+
+            {isAdminChange ? (
+              <p className="text-xs text-muted-foreground">
+                A alteração fica registrada como do administrador e o registro é aprovado.
+              </p>
+            ) : record.status !== 'pending' && (
+              <p className="text-xs text-muted-foreground">
+                Ao salvar, o registro volta para aprovação do administrador.
+              </p>
+            )}
             
             <div className="flex gap-2 pt-1">
               <Button
@@ -241,7 +338,7 @@ export function OvertimeRecordActions({ record, onUpdate, onDelete }: OvertimeRe
               </Button>
               <Button
                 onClick={handleEdit}
-                disabled={isLoading}
+                disabled={isLoading || isRateLoading || isDayLoading || !calculation || calculation.netHours <= 0 || isBlocked || !reason.justification.trim()}
                 className="flex-1 text-xs h-8"
               >
                 <Save className="h-3 w-3 mr-1" />
@@ -252,59 +349,70 @@ export function OvertimeRecordActions({ record, onUpdate, onDelete }: OvertimeRe
         </DialogContent>
       </Dialog>
 
-      {/* Botão Apagar */}
-      <Dialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
-        <DialogTrigger asChild>
-          <Button variant="outline" size="sm" className="h-7 w-7 p-0 text-red-600 hover:text-red-700">
-            <Trash2 className="h-3 w-3" />
-          </Button>
-        </DialogTrigger>
-        <DialogContent className="w-[95vw] max-w-sm mx-auto">
-          <DialogHeader>
-            <DialogTitle className="text-base">Confirmar Exclusão</DialogTitle>
-          </DialogHeader>
-          
-          <div className="space-y-4">
-            <p className="text-sm text-muted-foreground">
-              Tem certeza que deseja excluir este registro? Esta ação não pode ser desfeita.
-            </p>
+      {/* Botão Apagar: registros aprovados já foram pagos ou creditados e só o administrador os remove */}
+      {(record.status !== 'approved' || isAdminChange) && (
+        <Dialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm" className="h-7 w-7 p-0 text-red-600 hover:text-red-700">
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="w-[95vw] max-w-sm mx-auto">
+            <DialogHeader>
+              <DialogTitle className="text-base">Confirmar Exclusão</DialogTitle>
+            </DialogHeader>
             
-            <div className="bg-muted/50 p-3 rounded-lg text-xs">
-              <div className="flex justify-between">
-                <span>Data:</span>
-                <span>{new Date(record.date).toLocaleDateString('pt-BR')}</span>
-              </div>
-              <div className="flex justify-between">
-                <span>Horário:</span>
-                <span>{record.start_time} - {record.end_time}</span>
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Tem certeza que deseja excluir este registro? Esta ação não pode ser desfeita.
+              </p>
+
+              {isAdminChange && (
+                <p className="text-xs text-muted-foreground">
+                  A exclusão fica registrada como alteração do administrador e visível para o funcionário.
+                </p>
+              )}
+              
+              <div className="bg-muted/50 p-3 rounded-lg text-xs">
+                <div className="flex justify-between">
+                  <span>Data:</span>
+                  <span>{new Date(record.date).toLocaleDateString('pt-BR')}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Horário:</span>
+                  <span>
+                    {record.start_time} - {record.end_time}
+                    {record.end_date !== record.date && ' (+1 dia)'}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Valor:</span>
+                  <span>R$ {record.total_value.toFixed(2)}</span>
+                </div>
               </div>
-              <div className="flex justify-between">
-                <span>Valor:</span>
-                <span>R$ {record.total_value.toFixed(2)}</span>
+              
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsDeleteOpen(false)}
+                  className="flex-1 text-xs h-8"
+                >
+                  Cancelar
+                </Button>
+                <Button
+                  onClick={handleDelete}
+                  disabled={isLoading}
+                  variant="destructive"
+                  className="flex-1 text-xs h-8"
+                >
+                  {isLoading ? 'Excluindo...' : 'Excluir'}
+                </Button>
               </div>
             </div>
-            
-            <div className="flex gap-2">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => setIsDeleteOpen(false)}
-                className="flex-1 text-xs h-8"
-              >
-                Cancelar
-              </Button>
-              <Button
-                onClick={handleDelete}
-                disabled={isLoading}
-                variant="destructive"
-                className="flex-1 text-xs h-8"
-              >
-                {isLoading ? 'Excluindo...' : 'Excluir'}
-              </Button>
-            </div>
-          </div>
-        </DialogContent>
-      </Dialog>
+          </DialogContent>
+        </Dialog>
+      )}
     </div>
   );
 }
@@ -0,0 +1,26 @@
+import { Badge } from '@/components/ui/badge';
+import { OVERTIME_STATUS_LABELS, type OvertimeStatus } from '@/utils/approval';
+
+interface OvertimeStatusBadgeProps {
+  status: OvertimeStatus;
+  rejectionReason?: string | null;
+  className?: string;
+}
+
+const STATUS_CLASSES: Record<OvertimeStatus, string> = {
+  pending: 'border-blue-500 text-blue-700',
+  approved: 'border-green-600 text-green-700',
+  rejected: 'border-destructive text-destructive',
+};
+
+export function OvertimeStatusBadge({ status, rejectionReason, className }: OvertimeStatusBadgeProps) {
+  return (
+    <Badge
+      variant="outline"
+      className={`text-xs ${STATUS_CLASSES[status]} ${className ?? ''}`}
+      title={status === 'rejected' && rejectionReason ? `Motivo: ${rejectionReason}` : undefined}
+    >
+      {OVERTIME_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,426 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { format, endOfMonth, startOfMonth, subMonths } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Download, Eye, Lock, LockOpen, Plus, Wallet } from 'lucide-react';
+import { toast } from 'sonner';
+import { PAYROLL_PERIODS_QUERY_KEY, usePayrollPeriods, type PayrollPeriod } from '@/hooks/usePayrollPeriods';
+import { errorMessage } from '@/utils/errors';
+import {
+  MAX_REOPEN_REASON_LENGTH,
+  PAYROLL_PERIOD_STATUS_LABELS,
+  formatPeriod,
+  overlapsPeriod,
+  snapshotHours,
+} from '@/utils/payrollPeriods';
+import { sumMoney } from '@/utils/money';
+import { isValidDate, sanitizeInput } from '@/utils/security';
+
+type PayrollSnapshotRow = Tables<'payroll_period_snapshots'>;
+
+// Sugestão inicial: o mês anterior, normalmente o próximo a fechar
+const previousMonth = () => {
+  const month = subMonths(new Date(), 1);
+  return {
+    startsOn: format(startOfMonth(month), 'yyyy-MM-dd'),
+    endsOn: format(endOfMonth(month), 'yyyy-MM-dd'),
+  };
+};
+
+export function PayrollPeriodsManager() {
+  const queryClient = useQueryClient();
+  const { periods, isLoading } = usePayrollPeriods();
+  const [newPeriod, setNewPeriod] = useState(previousMonth);
+  const [isSaving, setIsSaving] = useState(false);
+  const [closingPeriod, setClosingPeriod] = useState<PayrollPeriod | null>(null);
+  const [reopeningPeriod, setReopeningPeriod] = useState<PayrollPeriod | null>(null);
+  const [reopenReason, setReopenReason] = useState('');
+  const [snapshotPeriod, setSnapshotPeriod] = useState<PayrollPeriod | null>(null);
+  const [snapshots, setSnapshots] = useState<PayrollSnapshotRow[]>([]);
+  const [isSnapshotLoading, setIsSnapshotLoading] = useState(false);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: PAYROLL_PERIODS_QUERY_KEY });
+
+  useEffect(() => {
+    if (!snapshotPeriod) return;
+
+    const fetchSnapshots = async () => {
+      setIsSnapshotLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('payroll_period_snapshots')
+          .select('*')
+          .eq('period_id', snapshotPeriod.id)
+          .order('full_name');
+
+        if (error) throw error;
+        setSnapshots(data || []);
+      } catch (error) {
+        console.error('Error fetching payroll snapshots:', error);
+        setSnapshots([]);
+      } finally {
+        setIsSnapshotLoading(false);
+      }
+    };
+
+    fetchSnapshots();
+  }, [snapshotPeriod]);
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    try {
+      const startsOn = sanitizeInput(newPeriod.startsOn);
+      const endsOn = sanitizeInput(newPeriod.endsOn);
+
+      if (!isValidDate(startsOn) || !isValidDate(endsOn)) {
+        throw new Error('Data inválida');
+      }
+
+      if (endsOn < startsOn) {
+        throw new Error('O fim do período deve ser igual ou posterior ao início');
+      }
+
+      if (overlapsPeriod(periods, { starts_on: startsOn, ends_on: endsOn })) {
+        throw new Error('O período sobrepõe outro período de folha');
+      }
+
+      const { error } = await supabase.from('payroll_periods').insert({ starts_on: startsOn, ends_on: endsOn });
+      if (error) throw error;
+
+      toast.success('Período cadastrado com sucesso!');
+      refresh();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao cadastrar período'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = async () => {
+    if (!closingPeriod) return;
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('close_payroll_period', { _period_id: closingPeriod.id });
+      if (error) throw error;
+
+      toast.success(`Período fechado: totais de ${data ?? 0} funcionário(s) registrados`);
+      setClosingPeriod(null);
+      refresh();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao fechar período'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReopen = async () => {
+    if (!reopeningPeriod) return;
+
+    setIsSaving(true);
+    try {
+      const reason = sanitizeInput(reopenReason);
+      if (!reason) {
+        throw new Error('Informe o motivo da reabertura');
+      }
+
+      const { error } = await supabase.rpc('reopen_payroll_period', {
+        _period_id: reopeningPeriod.id,
+        _reason: reason,
+      });
+      if (error) throw error;
+
+      toast.success('Período reaberto');
+      setReopeningPeriod(null);
+      setReopenReason('');
+      refresh();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao reabrir período'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const exportSnapshot = () => {
+    if (!snapshotPeriod) return;
+
+    const csvContent = [
+      ['Funcionário', 'Registros', 'Horas Aprovadas', 'Horas Noturnas', 'Horas em Banco', 'Adicional Noturno', 'Valor a Pagar'],
+      ...snapshots.map(snapshot => {
+        const hours = snapshotHours(snapshot);
+        return [
+          `"${snapshot.full_name}"`,
+          snapshot.record_count.toString(),
+          hours.overtimeHours.toFixed(2),
+          hours.nightHours.toFixed(2),
+          hours.hourBankHours.toFixed(2),
+          Number(snapshot.night_premium_value).toFixed(2),
+          Number(snapshot.total_value).toFixed(2)
+        ];
+      }),
+      ['TOTAL', '', '', '', '', '', sumMoney(snapshots.map(snapshot => snapshot.total_value)).toFixed(2)]
+    ].map(row => row.join(',')).join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `folha_${snapshotPeriod.starts_on}_${snapshotPeriod.ends_on}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const formatTimestamp = (value: string | null) =>
+    value ? format(new Date(value), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR }) : '—';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5 text-primary" />
+          Fechamento da Folha
+        </CardTitle>
+        <CardDescription>
+          Fechar um período bloqueia os lançamentos dele e registra os totais aprovados de cada funcionário
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Cadastro */}
+        <div className="grid gap-2 grid-cols-1 sm:grid-cols-3 items-end p-3 border rounded-lg bg-muted/30">
+          <div className="space-y-1">
+            <Label htmlFor="period-start" className="text-xs">Início</Label>
+            <Input
+              id="period-start"
+              type="date"
+              value={newPeriod.startsOn}
+              onChange={(e) => setNewPeriod({ ...newPeriod, startsOn: e.target.value })}
+              className="text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="period-end" className="text-xs">Fim</Label>
+            <Input
+              id="period-end"
+              type="date"
+              value={newPeriod.endsOn}
+              onChange={(e) => setNewPeriod({ ...newPeriod, endsOn: e.target.value })}
+              className="text-sm"
+            />
+          </div>
+          <Button size="sm" onClick={handleAdd} disabled={isSaving || !newPeriod.startsOn || !newPeriod.endsOn}>
+            <Plus className="h-4 w-4 mr-2" />
+            Adicionar período
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+        ) : periods.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Wallet className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>Nenhum período cadastrado</p>
+          </div>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Período</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="hidden md:table-cell">Última alteração</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {periods.map((period) => (
+                  <TableRow key={period.id}>
+                    <TableCell className="font-medium text-xs sm:text-sm">{formatPeriod(period)}</TableCell>
+                    <TableCell>
+                      <Badge variant={period.status === 'closed' ? 'secondary' : 'outline'} className="text-xs">
+                        {period.status === 'closed' && <Lock className="h-3 w-3 mr-1" />}
+                        {PAYROLL_PERIOD_STATUS_LABELS[period.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell text-xs text-muted-foreground">
+                      {period.status === 'closed'
+                        ? `Fechado em ${formatTimestamp(period.closed_at)}`
+                        : period.reopened_at
+                          ? `Reaberto em ${formatTimestamp(period.reopened_at)}: ${period.reopen_reason}`
+                          : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        {period.status === 'closed' ? (
+                          <>
+                            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setSnapshotPeriod(period)}>
+                              <Eye className="h-3 w-3 mr-1" />
+                              Totais
+                            </Button>
+                            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setReopeningPeriod(period)}>
+                              <LockOpen className="h-3 w-3 mr-1" />
+                              Reabrir
+                            </Button>
+                          </>
+                        ) : (
+                          <Button size="sm" className="h-7 text-xs" onClick={() => setClosingPeriod(period)}>
+                            <Lock className="h-3 w-3 mr-1" />
+                            Fechar
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {/* Fechamento */}
+        <Dialog open={!!closingPeriod} onOpenChange={(open) => !open && setClosingPeriod(null)}>
+          <DialogContent className="w-[95vw] max-w-sm mx-auto">
+            <DialogHeader>
+              <DialogTitle className="text-base">Fechar período</DialogTitle>
+              <DialogDescription>
+                {closingPeriod && formatPeriod(closingPeriod)}
+              </DialogDescription>
+            </DialogHeader>
+            <p className="text-sm text-muted-foreground">
+              Todos os lançamentos precisam estar aprovados ou rejeitados. Depois de fechado, nenhum registro do
+              período pode ser incluído, alterado ou excluído até que o período seja reaberto.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setClosingPeriod(null)} className="flex-1 text-xs h-8">
+                Cancelar
+              </Button>
+              <Button onClick={handleClose} disabled={isSaving} className="flex-1 text-xs h-8">
+                {isSaving ? 'Fechando...' : 'Fechar período'}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        {/* Reabertura */}
+        <Dialog
+          open={!!reopeningPeriod}
+          onOpenChange={(open) => {
+            if (!open) {
+              setReopeningPeriod(null);
+              setReopenReason('');
+            }
+          }}
+        >
+          <DialogContent className="w-[95vw] max-w-sm mx-auto">
+            <DialogHeader>
+              <DialogTitle className="text-base">Reabrir período</DialogTitle>
+              <DialogDescription>
+                {reopeningPeriod && formatPeriod(reopeningPeriod)}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-1">
+              <Label htmlFor="reopen-reason" className="text-xs">Motivo (registrado na auditoria)</Label>
+              <Textarea
+                id="reopen-reason"
+                value={reopenReason}
+                maxLength={MAX_REOPEN_REASON_LENGTH}
+                onChange={(e) => setReopenReason(e.target.value)}
+                className="text-sm"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setReopeningPeriod(null);
+                  setReopenReason('');
+                }}
+                className="flex-1 text-xs h-8"
+              >
+                Cancelar
+              </Button>
+              <Button onClick={handleReopen} disabled={isSaving || !reopenReason.trim()} className="flex-1 text-xs h-8">
+                {isSaving ? 'Reabrindo...' : 'Reabrir'}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        {/* Totais registrados no fechamento */}
+        <Dialog open={!!snapshotPeriod} onOpenChange={(open) => !open && setSnapshotPeriod(null)}>
+          <DialogContent className="w-[95vw] max-w-3xl mx-auto max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="text-base">Totais do fechamento</DialogTitle>
+              <DialogDescription>
+                {snapshotPeriod && `${formatPeriod(snapshotPeriod)} · fechado em ${formatTimestamp(snapshotPeriod.closed_at)}`}
+              </DialogDescription>
+            </DialogHeader>
+            {isSnapshotLoading ? (
+              <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+            ) : snapshots.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">Nenhum lançamento aprovado no período</div>
+            ) : (
+              <>
+                <div className="rounded-md border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Funcionário</TableHead>
+                        <TableHead className="text-right">Horas</TableHead>
+                        <TableHead className="text-right hidden sm:table-cell">Noturnas</TableHead>
+                        <TableHead className="text-right hidden sm:table-cell">Banco</TableHead>
+                        <TableHead className="text-right">Valor</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {snapshots.map((snapshot) => {
+                        const hours = snapshotHours(snapshot);
+                        return (
+                          <TableRow key={snapshot.id}>
+                            <TableCell className="text-xs sm:text-sm">{snapshot.full_name}</TableCell>
+                            <TableCell className="text-right text-xs sm:text-sm">{hours.overtimeHours.toFixed(2)}h</TableCell>
+                            <TableCell className="text-right text-xs sm:text-sm hidden sm:table-cell">{hours.nightHours.toFixed(2)}h</TableCell>
+                            <TableCell className="text-right text-xs sm:text-sm hidden sm:table-cell">{hours.hourBankHours.toFixed(2)}h</TableCell>
+                            <TableCell className="text-right text-xs sm:text-sm">R$ {Number(snapshot.total_value).toFixed(2)}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+                <Button variant="outline" size="sm" onClick={exportSnapshot}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Exportar CSV
+                </Button>
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
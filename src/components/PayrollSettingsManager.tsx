@@ -0,0 +1,260 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { PAYROLL_SETTINGS_QUERY_KEY, usePayrollSettings } from '@/hooks/usePayrollSettings';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Settings } from 'lucide-react';
+import { toast } from 'sonner';
+import { errorMessage } from '@/utils/errors';
+import { DEFAULT_HOUR_BANK_PAYOUT_PREMIUM, HOUR_BANK_PAYOUT_PREMIUM_SETTING } from '@/utils/hourBank';
+import {
+  DEFAULT_DAILY_LIMIT_MINUTES,
+  LIMIT_ENFORCEMENT_LABELS,
+  OVERTIME_LIMIT_SETTINGS,
+} from '@/utils/overtimeLimits';
+import {
+  DEFAULT_CLOCK_AUTO_CLOSE_MINUTES,
+  DEFAULT_CLOCK_REMINDER_MINUTES,
+  OVERTIME_CLOCK_SETTINGS,
+} from '@/utils/overtimeClock';
+import { isValidNumber, sanitizeInput } from '@/utils/security';
+import {
+  DEFAULT_TIME_ADJUSTMENT_POLICY,
+  TIME_ADJUSTMENT_POLICY_LABELS,
+  TIME_ADJUSTMENT_POLICY_SETTING,
+} from '@/utils/timeAdjustment';
+
+interface PayrollSettingField {
+  name: string;
+  label: string;
+  description: string;
+  defaultValue: string;
+  // Campos numéricos: conversão entre o valor exibido e o armazenado
+  unit?: string;
+  min?: number;
+  max?: number;
+  toDisplay?: (stored: number) => number;
+  toStored?: (display: number) => number;
+  // Campos de escolha: valores aceitos e seus rótulos
+  options?: Record<string, string>;
+}
+
+const percentage = {
+  unit: '%',
+  toDisplay: (stored: number) => Math.round(stored * 10000) / 100,
+  toStored: (display: number) => display / 100,
+};
+
+const hours = {
+  unit: 'horas, 0 = sem limite',
+  toDisplay: (stored: number) => Math.round((stored / 60) * 100) / 100,
+  toStored: (display: number) => Math.round(display * 60),
+};
+
+const clockHours = {
+  ...hours,
+  unit: 'horas',
+};
+
+const PAYROLL_SETTING_FIELDS: PayrollSettingField[] = [
+  {
+    name: HOUR_BANK_PAYOUT_PREMIUM_SETTING,
+    label: 'Adicional no pagamento do banco de horas',
+    description: 'Aplicado sobre a base horária ao pagar saldos vencidos ou a vencer',
+    defaultValue: String(DEFAULT_HOUR_BANK_PAYOUT_PREMIUM),
+    min: 0,
+    max: 200,
+    ...percentage,
+  },
+  {
+    name: OVERTIME_LIMIT_SETTINGS.day,
+    label: 'Limite diário de horas extras',
+    description: 'CLT art. 59: até 2 horas extras por dia',
+    defaultValue: String(DEFAULT_DAILY_LIMIT_MINUTES),
+    min: 0,
+    max: 24,
+    ...hours,
+  },
+  {
+    name: OVERTIME_LIMIT_SETTINGS.week,
+    label: 'Limite semanal de horas extras',
+    description: 'Semana de segunda a domingo',
+    defaultValue: '0',
+    min: 0,
+    max: 168,
+    ...hours,
+  },
+  {
+    name: OVERTIME_LIMIT_SETTINGS.month,
+    label: 'Limite mensal de horas extras',
+    description: 'Teto mensal definido pela gestão',
+    defaultValue: '0',
+    min: 0,
+    max: 744,
+    ...hours,
+  },
+  {
+    name: OVERTIME_LIMIT_SETTINGS.enforcement,
+    label: 'Ao exceder um limite',
+    description: 'Funcionários com limite próprio podem ter outra regra',
+    defaultValue: 'warn',
+    options: LIMIT_ENFORCEMENT_LABELS,
+  },
+  {
+    name: TIME_ADJUSTMENT_POLICY_SETTING,
+    label: 'Tolerância e arredondamento das marcações',
+    description: 'CLT art. 58 §1º: até 5 minutos por marcação e 10 por dia não são computados. Vale para novos lançamentos',
+    defaultValue: DEFAULT_TIME_ADJUSTMENT_POLICY,
+    options: TIME_ADJUSTMENT_POLICY_LABELS,
+  },
+  {
+    name: OVERTIME_CLOCK_SETTINGS.reminder,
+    label: 'Lembrete de hora extra em andamento',
+    description: 'Avisa o funcionário que esqueceu de encerrar o relógio',
+    defaultValue: String(DEFAULT_CLOCK_REMINDER_MINUTES),
+    min: 1,
+    max: 24,
+    ...clockHours,
+  },
+  {
+    name: OVERTIME_CLOCK_SETTINGS.autoClose,
+    label: 'Encerramento automático do relógio',
+    description: 'A hora extra esquecida é encerrada nesse limite e fica pendente de revisão',
+    defaultValue: String(DEFAULT_CLOCK_AUTO_CLOSE_MINUTES),
+    min: 1,
+    max: 48,
+    ...clockHours,
+  },
+];
+
+const toDisplayValue = (field: PayrollSettingField, stored: string) =>
+  field.options || !field.toDisplay ? stored : String(field.toDisplay(Number(stored)));
+
+export function PayrollSettingsManager() {
+  const queryClient = useQueryClient();
+  const { getValue, isLoading } = usePayrollSettings();
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [savingName, setSavingName] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isLoading) return;
+    setValues(
+      Object.fromEntries(
+        PAYROLL_SETTING_FIELDS.map((field) => [
+          field.name,
+          toDisplayValue(field, getValue(field.name, field.defaultValue)),
+        ])
+      )
+    );
+  }, [getValue, isLoading]);
+
+  const handleSave = async (field: PayrollSettingField) => {
+    setSavingName(field.name);
+    try {
+      const value = sanitizeInput(values[field.name] ?? '').replace(',', '.');
+      let storedValue = value;
+
+      if (field.options) {
+        if (!(value in field.options)) {
+          throw new Error('Opção inválida');
+        }
+      } else {
+        if (!isValidNumber(value, field.min, field.max)) {
+          throw new Error(`Informe um valor entre ${field.min} e ${field.max}`);
+        }
+        storedValue = String(field.toStored ? field.toStored(Number(value)) : Number(value));
+      }
+
+      const { error } = await supabase.from('payroll_settings').upsert(
+        {
+          setting_name: field.name,
+          setting_value: storedValue,
+          description: field.description,
+        },
+        { onConflict: 'setting_name,effective_from' }
+      );
+
+      if (error) throw error;
+
+      toast.success('Configuração salva com sucesso!');
+      queryClient.invalidateQueries({ queryKey: PAYROLL_SETTINGS_QUERY_KEY });
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao salvar configuração'));
+    } finally {
+      setSavingName(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Settings className="h-5 w-5 text-primary" />
+          Configurações da Folha
+        </CardTitle>
+        <CardDescription>Parâmetros aplicados a todos os funcionários</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {PAYROLL_SETTING_FIELDS.map((field) => (
+          <div
+            key={field.name}
+            className="flex flex-col sm:flex-row sm:items-end gap-2 p-3 border rounded-lg"
+          >
+            <div className="space-y-1 flex-1">
+              <Label htmlFor={`setting-${field.name}`} className="text-sm">
+                {field.label}
+                {field.unit && ` (${field.unit})`}
+              </Label>
+              <p className="text-xs text-muted-foreground">{field.description}</p>
+              {field.options ? (
+                <Select
+                  value={values[field.name] ?? ''}
+                  onValueChange={(value) => setValues({ ...values, [field.name]: value })}
+                >
+                  <SelectTrigger id={`setting-${field.name}`} className="text-sm sm:w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(field.options).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  id={`setting-${field.name}`}
+                  type="number"
+                  step="0.01"
+                  min={field.min}
+                  max={field.max}
+                  value={values[field.name] ?? ''}
+                  onChange={(e) => setValues({ ...values, [field.name]: e.target.value })}
+                  className="text-sm sm:w-40"
+                />
+              )}
+            </div>
+            <Button
+              size="sm"
+              onClick={() => handleSave(field)}
+              disabled={isLoading || savingName === field.name}
+            >
+              {savingName === field.name ? 'Salvando...' : 'Salvar'}
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { OVERTIME_OUTBOX_QUERY_KEY, removeFromOutbox, retryOutboxEntry } from '@/hooks/useOvertimeOutbox';
+import { useOvertimeReasons } from '@/hooks/useOvertimeReasons';
+import { useStations } from '@/hooks/useStations';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CloudOff, Paperclip, RotateCcw, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { errorMessage } from '@/utils/errors';
+import { OUTBOX_STATUS_LABELS, type OutboxEntry } from '@/utils/overtimeOutbox';
+
+interface PendingSyncListProps {
+  entries: OutboxEntry[];
+  // Runs the sync again after an entry is released for retry
+  onRetry: () => void;
+}
+
+export function PendingSyncList({ entries, onRetry }: PendingSyncListProps) {
+  const queryClient = useQueryClient();
+  const { getStation } = useStations();
+  const { getReason } = useOvertimeReasons();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  if (entries.length === 0) return null;
+
+  const handleRetry = async (entry: OutboxEntry) => {
+    setBusyId(entry.id);
+    try {
+      await retryOutboxEntry(entry);
+      queryClient.invalidateQueries({ queryKey: OVERTIME_OUTBOX_QUERY_KEY });
+      onRetry();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao reenviar lançamento'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = async (entry: OutboxEntry) => {
+    setBusyId(entry.id);
+    try {
+      await removeFromOutbox(entry.id);
+      queryClient.invalidateQueries({ queryKey: OVERTIME_OUTBOX_QUERY_KEY });
+      toast.success('Lançamento descartado');
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao descartar lançamento'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <>
+      {entries.map((entry) => {
+        const { id, record, files, status, error } = entry;
+        const period = `${record.start_time.substring(0, 5)} - ${record.end_time.substring(0, 5)}`;
+        const isConflict = status === 'conflict';
+
+        return (
+          <Card key={id} className={`p-3 border-dashed ${isConflict ? 'border-amber-500' : ''}`}>
+            <div className="flex justify-between items-start gap-2">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="text-sm font-medium">
+                    {format(new Date(`${record.date}T00:00:00`), 'dd/MM/yyyy')}
+                  </span>
+                  <Badge
+                    variant="outline"
+                    className={`text-xs gap-1 ${isConflict ? 'border-amber-500 text-amber-700' : 'text-muted-foreground'}`}
+                  >
+                    <CloudOff className="h-3 w-3" />
+                    {OUTBOX_STATUS_LABELS[status]}
+                  </Badge>
+                  {files.length > 0 && (
+                    <Badge variant="secondary" className="text-xs gap-1">
+                      <Paperclip className="h-3 w-3" />
+                      {files.length}
+                    </Badge>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground mb-1">
+                  {record.end_date !== record.date ? `${period} (+1 dia)` : period}
+                  {getStation(record.station_id) && ` • ${getStation(record.station_id)?.name}`}
+                </div>
+                <div className="text-xs text-muted-foreground" title={record.justification ?? undefined}>
+                  {getReason(record.reason_id)?.name}
+                  {record.justification && `: ${record.justification}`}
+                </div>
+                {error && (
+                  <div className="text-xs text-amber-700 mt-1">{error}</div>
+                )}
+              </div>
+              {isConflict && (
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    title="Tentar novamente"
+                    disabled={busyId === id}
+                    onClick={() => handleRetry(entry)}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                    title="Descartar"
+                    disabled={busyId === id}
+                    onClick={() => handleDiscard(entry)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          </Card>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CalendarClock } from 'lucide-react';
+import { toast } from 'sonner';
+import { errorMessage } from '@/utils/errors';
+import { formatMinutes } from '@/utils/overtime';
+import { MIN_REST_MINUTES, WEEKDAY_LABELS } from '@/utils/restPeriod';
+import { isValidTime, sanitizeInput } from '@/utils/security';
+
+interface RegularScheduleFormProps {
+  profile: {
+    id: string;
+    regular_shift_start: string | null;
+    regular_shift_end: string | null;
+    work_days: number[];
+  };
+  onSaved: () => void;
+}
+
+export function RegularScheduleForm({ profile, onSaved }: RegularScheduleFormProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    shiftStart: profile.regular_shift_start?.substring(0, 5) ?? '',
+    shiftEnd: profile.regular_shift_end?.substring(0, 5) ?? '',
+    workDays: profile.work_days,
+  });
+
+  useEffect(() => {
+    setFormData({
+      shiftStart: profile.regular_shift_start?.substring(0, 5) ?? '',
+      shiftEnd: profile.regular_shift_end?.substring(0, 5) ?? '',
+      workDays: profile.work_days,
+    });
+  }, [profile]);
+
+  const toggleWorkDay = (day: number, checked: boolean) => {
+    setFormData({
+      ...formData,
+      workDays: checked
+        ? [...formData.workDays, day].sort((a, b) => a - b)
+        : formData.workDays.filter((workDay) => workDay !== day),
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const shiftStart = sanitizeInput(formData.shiftStart);
+      const shiftEnd = sanitizeInput(formData.shiftEnd);
+
+      // Sem horário: a análise de interjornada considera apenas os lançamentos
+      if (!!shiftStart !== !!shiftEnd) {
+        throw new Error('Informe o início e o fim da jornada');
+      }
+
+      if (shiftStart && (!isValidTime(shiftStart) || !isValidTime(shiftEnd))) {
+        throw new Error('Horário inválido');
+      }
+
+      if (shiftStart && shiftStart === shiftEnd) {
+        throw new Error('Horário de fim deve ser diferente do horário de início');
+      }
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          regular_shift_start: shiftStart || null,
+          regular_shift_end: shiftEnd || null,
+          work_days: formData.workDays,
+        })
+        .eq('id', profile.id);
+
+      if (error) throw error;
+
+      toast.success('Jornada regular atualizada com sucesso!');
+      onSaved();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao atualizar jornada regular'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-3 sm:p-4 border rounded-lg">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <CalendarClock className="h-4 w-4 text-primary" />
+        <span>Jornada Regular</span>
+      </div>
+
+      <div className="grid gap-2 grid-cols-2 sm:w-80">
+        <div className="space-y-1">
+          <Label htmlFor="shift-start" className="text-xs">Entrada</Label>
+          <Input
+            id="shift-start"
+            type="time"
+            value={formData.shiftStart}
+            onChange={(e) => setFormData({ ...formData, shiftStart: e.target.value })}
+            className="text-sm"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="shift-end" className="text-xs">Saída</Label>
+          <Input
+            id="shift-end"
+            type="time"
+            value={formData.shiftEnd}
+            onChange={(e) => setFormData({ ...formData, shiftEnd: e.target.value })}
+            className="text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        {Object.entries(WEEKDAY_LABELS).map(([day, label]) => (
+          <div key={day} className="flex items-center space-x-1">
+            <Checkbox
+              id={`work-day-${day}`}
+              checked={formData.workDays.includes(Number(day))}
+              onCheckedChange={(checked) => toggleWorkDay(Number(day), !!checked)}
+              className="h-4 w-4"
+            />
+            <Label htmlFor={`work-day-${day}`} className="text-xs cursor-pointer">
+              {label}
+            </Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          Vale enquanto não houver escala atribuída e é usada para verificar o descanso mínimo de {formatMinutes(MIN_REST_MINUTES)} entre jornadas (CLT art. 66)
+        </p>
+        <Button size="sm" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Salvando...' : 'Salvar jornada'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { Badge } from '@/components/ui/badge';
+import { describeRestViolation, type RestViolation } from '@/utils/restPeriod';
+
+interface RestViolationBadgeProps {
+  violation?: RestViolation;
+  className?: string;
+}
+
+export function RestViolationBadge({ violation, className }: RestViolationBadgeProps) {
+  if (!violation) return null;
+
+  return (
+    <Badge
+      variant="outline"
+      className={`text-xs border-amber-500 text-amber-700 ${className ?? ''}`}
+      title={describeRestViolation(violation)}
+    >
+      Interjornada
+    </Badge>
+  );
+}
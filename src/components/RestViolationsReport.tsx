@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { BedDouble } from 'lucide-react';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import type { Database } from '@/integrations/supabase/types';
+import { formatMinutes } from '@/utils/overtime';
+import { formatRestBoundary, MIN_REST_MINUTES } from '@/utils/restPeriod';
+import { isValidDate } from '@/utils/security';
+
+type RestPeriodViolation = Database['public']['Functions']['rest_period_violations']['Returns'][number];
+
+export function RestViolationsReport() {
+  const [range, setRange] = useState({
+    from: format(startOfMonth(new Date()), 'yyyy-MM-dd'),
+    to: format(endOfMonth(new Date()), 'yyyy-MM-dd'),
+  });
+  const [violations, setViolations] = useState<RestPeriodViolation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchViolations = useCallback(async () => {
+    if (!isValidDate(range.from) || !isValidDate(range.to) || range.from > range.to) return;
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('rest_period_violations', {
+        _from: range.from,
+        _to: range.to,
+      });
+
+      if (error) throw error;
+      setViolations(data || []);
+    } catch (error) {
+      console.error('Error fetching rest violations:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [range]);
+
+  useEffect(() => {
+    fetchViolations();
+  }, [fetchViolations]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BedDouble className="h-5 w-5 text-amber-600" />
+          Violações de Interjornada
+        </CardTitle>
+        <CardDescription>
+          Descansos menores que {formatMinutes(MIN_REST_MINUTES)} entre jornadas causados por horas extras (CLT art. 66)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="rest-violations-from" className="text-xs">De</Label>
+            <Input
+              id="rest-violations-from"
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              className="text-sm sm:w-40"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rest-violations-to" className="text-xs">Até</Label>
+            <Input
+              id="rest-violations-to"
+              type="date"
+              value={range.to}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              className="text-sm sm:w-40"
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+        ) : violations.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <p>Nenhuma violação de interjornada no período</p>
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Funcionário</TableHead>
+                  <TableHead>Fim da jornada</TableHead>
+                  <TableHead>Início da seguinte</TableHead>
+                  <TableHead className="text-right">Descanso</TableHead>
+                  <TableHead className="text-right">Faltaram</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {violations.map((violation) => (
+                  <TableRow key={`${violation.user_id}-${violation.rest_start}`}>
+                    <TableCell className="font-medium">{violation.full_name}</TableCell>
+                    <TableCell>{formatRestBoundary(violation.rest_start)}</TableCell>
+                    <TableCell>{formatRestBoundary(violation.rest_end)}</TableCell>
+                    <TableCell className="text-right">{formatMinutes(violation.rest_minutes)}</TableCell>
+                    <TableCell className="text-right font-bold text-red-600">
+                      {formatMinutes(MIN_REST_MINUTES - violation.rest_minutes)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
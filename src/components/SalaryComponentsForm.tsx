@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePayrollSettings } from '@/hooks/usePayrollSettings';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Wallet } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { errorMessage } from '@/utils/errors';
+import {
+  calculateHourlyBase,
+  INSALUBRIDADE_LABELS,
+  minimumWageOn,
+  MONTHLY_DIVISORS,
+  PERICULOSIDADE_RATE,
+  type InsalubridadeGrade,
+} from '@/utils/salary';
+import { isValidDate, isValidNumber, sanitizeInput } from '@/utils/security';
+
+interface SalaryComponentsFormProps {
+  profile: {
+    id: string;
+    base_salary: number | null;
+    has_periculosidade: boolean;
+    insalubridade_grade: InsalubridadeGrade;
+    monthly_divisor: number;
+  };
+  onSaved: () => void;
+}
+
+export function SalaryComponentsForm({ profile, onSaved }: SalaryComponentsFormProps) {
+  const { user } = useAuth();
+  const { settings, isLoading: isSettingsLoading } = usePayrollSettings();
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    baseSalary: profile.base_salary?.toString() ?? '',
+    hasPericulosidade: profile.has_periculosidade,
+    insalubridadeGrade: profile.insalubridade_grade,
+    monthlyDivisor: profile.monthly_divisor,
+    effectiveFrom: format(new Date(), 'yyyy-MM-dd'),
+  });
+
+  useEffect(() => {
+    setFormData((current) => ({
+      ...current,
+      baseSalary: profile.base_salary?.toString() ?? '',
+      hasPericulosidade: profile.has_periculosidade,
+      insalubridadeGrade: profile.insalubridade_grade,
+      monthlyDivisor: profile.monthly_divisor,
+    }));
+  }, [profile]);
+
+  const baseSalary = Number(formData.baseSalary.replace(',', '.'));
+  // A insalubridade usa o salário mínimo vigente na data de início da composição
+  const preview = baseSalary > 0 && !isSettingsLoading
+    ? calculateHourlyBase(
+        {
+          baseSalary,
+          hasPericulosidade: formData.hasPericulosidade,
+          insalubridadeGrade: formData.insalubridadeGrade,
+          monthlyDivisor: formData.monthlyDivisor,
+        },
+        minimumWageOn(settings, formData.effectiveFrom)
+      )
+    : null;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const effectiveFrom = sanitizeInput(formData.effectiveFrom);
+
+      if (!preview || !isValidNumber(baseSalary, 0.01, 1000000)) {
+        throw new Error('Salário base inválido');
+      }
+
+      if (!isValidDate(effectiveFrom)) {
+        throw new Error('Data de vigência inválida');
+      }
+
+      const { error: profileError } = await supabase
+        .from('profiles')
+        .update({
+          base_salary: preview.baseSalary,
+          has_periculosidade: preview.hasPericulosidade,
+          insalubridade_grade: preview.insalubridadeGrade,
+          monthly_divisor: preview.monthlyDivisor,
+        })
+        .eq('id', profile.id);
+
+      if (profileError) throw profileError;
+
+      // Registra a base derivada no histórico para preservar os lançamentos anteriores
+      const { error: rateError } = await supabase.from('hourly_rates').upsert(
+        {
+          user_id: profile.id,
+          effective_from: effectiveFrom,
+          hourly_rate: preview.hourlyRate,
+          base_salary: preview.baseSalary,
+          has_periculosidade: preview.hasPericulosidade,
+          insalubridade_grade: preview.insalubridadeGrade,
+          monthly_divisor: preview.monthlyDivisor,
+          created_by: user?.id ?? null,
+        },
+        { onConflict: 'user_id,effective_from' }
+      );
+
+      if (rateError) throw rateError;
+
+      toast.success('Composição salarial atualizada com sucesso!');
+      onSaved();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao atualizar composição salarial'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-3 sm:p-4 border rounded-lg">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Wallet className="h-4 w-4 text-primary" />
+        <span>Composição Salarial</span>
+      </div>
+
+      <div className="grid gap-2 grid-cols-1 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="space-y-1">
+          <Label htmlFor="base-salary" className="text-xs">Salário base (R$)</Label>
+          <Input
+            id="base-salary"
+            type="number"
+            step="0.01"
+            min="0.01"
+            value={formData.baseSalary}
+            onChange={(e) => setFormData({ ...formData, baseSalary: e.target.value })}
+            className="text-sm"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Insalubridade</Label>
+          <Select
+            value={formData.insalubridadeGrade}
+            onValueChange={(value) => setFormData({ ...formData, insalubridadeGrade: value as InsalubridadeGrade })}
+          >
+            <SelectTrigger className="text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(INSALUBRIDADE_LABELS) as InsalubridadeGrade[]).map((grade) => (
+                <SelectItem key={grade} value={grade}>
+                  {INSALUBRIDADE_LABELS[grade]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Divisor mensal</Label>
+          <Select
+            value={formData.monthlyDivisor.toString()}
+            onValueChange={(value) => setFormData({ ...formData, monthlyDivisor: Number(value) })}
+          >
+            <SelectTrigger className="text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MONTHLY_DIVISORS.map((divisor) => (
+                <SelectItem key={divisor} value={divisor.toString()}>
+                  {divisor}h
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="salary-effective-from" className="text-xs">Vigência a partir de</Label>
+          <Input
+            id="salary-effective-from"
+            type="date"
+            value={formData.effectiveFrom}
+            onChange={(e) => setFormData({ ...formData, effectiveFrom: e.target.value })}
+            className="text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="has-periculosidade"
+          checked={formData.hasPericulosidade}
+          onCheckedChange={(checked) => setFormData({ ...formData, hasPericulosidade: !!checked })}
+          className="h-4 w-4"
+        />
+        <Label htmlFor="has-periculosidade" className="text-xs font-medium cursor-pointer">
+          Periculosidade ({PERICULOSIDADE_RATE * 100}% sobre o salário base)
+        </Label>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          {preview
+            ? `Base horária: R$ ${preview.monthlyTotal.toFixed(2)} ÷ ${preview.monthlyDivisor} = R$ ${preview.hourlyRate.toFixed(2)}/h`
+            : 'Informe o salário base para calcular a base horária'}
+        </p>
+        <Button size="sm" onClick={handleSave} disabled={isSaving || !preview}>
+          {isSaving ? 'Salvando...' : 'Salvar composição'}
+        </Button>
+      </div>
+    </div>
+  );
+}
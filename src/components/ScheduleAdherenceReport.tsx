@@ -0,0 +1,241 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CalendarRange, Download } from 'lucide-react';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import type { Database } from '@/integrations/supabase/types';
+import { useStations } from '@/hooks/useStations';
+import { useWorkSchedules } from '@/hooks/useWorkSchedules';
+import { formatMinutes } from '@/utils/overtime';
+import { ALL_STATIONS, matchesStation } from '@/utils/stations';
+import { isValidDate } from '@/utils/security';
+import { overtimeShare, summarizeAdherenceByStation } from '@/utils/workSchedules';
+
+type AdherenceRow = Database['public']['Functions']['schedule_adherence']['Returns'][number];
+
+interface ScheduleAdherenceReportProps {
+  stationId?: string;
+}
+
+export function ScheduleAdherenceReport({ stationId = ALL_STATIONS }: ScheduleAdherenceReportProps) {
+  const { getStation } = useStations();
+  const { getSchedule } = useWorkSchedules();
+  const [range, setRange] = useState({
+    from: format(startOfMonth(new Date()), 'yyyy-MM-dd'),
+    to: format(endOfMonth(new Date()), 'yyyy-MM-dd'),
+  });
+  const [rows, setRows] = useState<AdherenceRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchAdherence = useCallback(async () => {
+    if (!isValidDate(range.from) || !isValidDate(range.to) || range.from > range.to) return;
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('schedule_adherence', {
+        _from: range.from,
+        _to: range.to,
+      });
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error) {
+      console.error('Error fetching schedule adherence:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [range]);
+
+  useEffect(() => {
+    fetchAdherence();
+  }, [fetchAdherence]);
+
+  // O posto do funcionário é a lotação no fim do período
+  const employees = useMemo(
+    () => rows.filter((row) => matchesStation(row.station_id, stationId)),
+    [rows, stationId]
+  );
+  const stations = useMemo(() => summarizeAdherenceByStation(employees), [employees]);
+
+  const stationName = (id: string | null) => (id ? getStation(id)?.name ?? '—' : 'Sem posto');
+  const scheduleName = (id: string | null) => (id ? getSchedule(id)?.name ?? '—' : 'Jornada regular');
+  const formatShare = (planned: number, overtime: number) =>
+    planned > 0 ? `${overtimeShare(planned, overtime).toFixed(1)}%` : '—';
+
+  const exportAdherence = () => {
+    const csvContent = [
+      ['Funcionário', 'Posto', 'Escala', 'Turnos Previstos', 'Horas Previstas', 'Horas Extras', 'Horas Realizadas', '% Extra', 'Extras em Folga', 'Extras no Turno'],
+      ...employees.map(row => [
+        row.full_name,
+        stationName(row.station_id),
+        scheduleName(row.schedule_id),
+        row.scheduled_days.toString(),
+        (row.planned_minutes / 60).toFixed(2),
+        (row.overtime_minutes / 60).toFixed(2),
+        ((row.planned_minutes + row.overtime_minutes) / 60).toFixed(2),
+        row.planned_minutes > 0 ? overtimeShare(row.planned_minutes, row.overtime_minutes).toFixed(1) : '',
+        (row.day_off_overtime_minutes / 60).toFixed(2),
+        (row.overlapping_minutes / 60).toFixed(2)
+      ])
+    ].map(row => row.join(',')).join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `previsto_realizado_${range.from}_${range.to}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarRange className="h-5 w-5 text-primary" />
+              Previsto x Realizado
+            </CardTitle>
+            <CardDescription>
+              Horas da escala comparadas com as horas extras lançadas. Rejeitadas não contam
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={exportAdherence} disabled={employees.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Exportar CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="schedule-adherence-from" className="text-xs">De</Label>
+            <Input
+              id="schedule-adherence-from"
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              className="text-sm sm:w-40"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="schedule-adherence-to" className="text-xs">Até</Label>
+            <Input
+              id="schedule-adherence-to"
+              type="date"
+              value={range.to}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              className="text-sm sm:w-40"
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+        ) : employees.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <p>Nenhuma escala ou lançamento no período</p>
+          </div>
+        ) : (
+          <>
+            {/* Por posto */}
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Posto</TableHead>
+                    <TableHead className="text-right">Funcionários</TableHead>
+                    <TableHead className="text-right">Previsto</TableHead>
+                    <TableHead className="text-right">Extras</TableHead>
+                    <TableHead className="text-right">% Extra</TableHead>
+                    <TableHead className="text-right hidden sm:table-cell">Em folga</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stations.map((station) => (
+                    <TableRow key={station.stationId ?? 'none'}>
+                      <TableCell className="font-medium">{stationName(station.stationId)}</TableCell>
+                      <TableCell className="text-right">{station.employeeCount}</TableCell>
+                      <TableCell className="text-right">{formatMinutes(station.plannedMinutes)}</TableCell>
+                      <TableCell className="text-right font-semibold text-primary">
+                        {formatMinutes(station.overtimeMinutes)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatShare(station.plannedMinutes, station.overtimeMinutes)}
+                      </TableCell>
+                      <TableCell className="text-right hidden sm:table-cell text-muted-foreground">
+                        {formatMinutes(station.dayOffOvertimeMinutes)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {/* Por funcionário */}
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Funcionário</TableHead>
+                    <TableHead className="hidden md:table-cell">Escala</TableHead>
+                    <TableHead className="text-right">Turnos</TableHead>
+                    <TableHead className="text-right">Previsto</TableHead>
+                    <TableHead className="text-right">Realizado</TableHead>
+                    <TableHead className="text-right">% Extra</TableHead>
+                    <TableHead className="text-right hidden sm:table-cell">Em folga</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {employees.map((row) => (
+                    <TableRow key={row.user_id}>
+                      <TableCell className="font-medium">
+                        {row.full_name}
+                        {row.overlapping_minutes > 0 && (
+                          <Badge
+                            variant="outline"
+                            className="ml-2 text-xs border-amber-500 text-amber-700"
+                            title={`${formatMinutes(row.overlapping_minutes)} de horas extras lançadas dentro do turno previsto`}
+                          >
+                            Extra no turno
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell text-xs">{scheduleName(row.schedule_id)}</TableCell>
+                      <TableCell className="text-right">{row.scheduled_days}</TableCell>
+                      <TableCell className="text-right">{formatMinutes(row.planned_minutes)}</TableCell>
+                      <TableCell className="text-right font-semibold text-primary">
+                        {formatMinutes(row.planned_minutes + row.overtime_minutes)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatShare(row.planned_minutes, row.overtime_minutes)}
+                      </TableCell>
+                      <TableCell className="text-right hidden sm:table-cell text-muted-foreground">
+                        {formatMinutes(row.day_off_overtime_minutes)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,225 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Fuel, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import type { Tables } from '@/integrations/supabase/types';
+import { useStations } from '@/hooks/useStations';
+import { errorMessage } from '@/utils/errors';
+import { isValidDate, sanitizeInput } from '@/utils/security';
+
+type StationAssignment = Tables<'station_assignments'>;
+
+interface StationAssignmentHistoryProps {
+  userId: string;
+  onChanged?: () => void;
+}
+
+export function StationAssignmentHistory({ userId, onChanged }: StationAssignmentHistoryProps) {
+  const { user } = useAuth();
+  const { activeStations, getStation } = useStations();
+  const [assignments, setAssignments] = useState<StationAssignment[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newAssignment, setNewAssignment] = useState({
+    effectiveFrom: format(new Date(), 'yyyy-MM-dd'),
+    stationId: '',
+  });
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const fetchAssignments = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('station_assignments')
+        .select('*')
+        .eq('user_id', userId)
+        .order('effective_from', { ascending: false });
+
+      if (error) throw error;
+      setAssignments(data || []);
+    } catch (error) {
+      console.error('Error fetching station assignments:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchAssignments();
+  }, [fetchAssignments]);
+
+  // A lotação vigente é a mais recente com início até hoje
+  const currentAssignment = assignments.find((assignment) => assignment.effective_from <= today);
+
+  const handleTransfer = async () => {
+    setIsSaving(true);
+    try {
+      const effectiveFrom = sanitizeInput(newAssignment.effectiveFrom);
+
+      if (!isValidDate(effectiveFrom)) {
+        throw new Error('Data de início inválida');
+      }
+
+      if (!getStation(newAssignment.stationId)) {
+        throw new Error('Selecione um posto');
+      }
+
+      const { error } = await supabase.from('station_assignments').insert({
+        user_id: userId,
+        station_id: newAssignment.stationId,
+        effective_from: effectiveFrom,
+        created_by: user?.id ?? null,
+      });
+
+      if (error) throw error;
+
+      toast.success(currentAssignment ? 'Transferência registrada com sucesso!' : 'Lotação registrada com sucesso!');
+      setNewAssignment({ ...newAssignment, stationId: '' });
+      fetchAssignments();
+      onChanged?.();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao registrar transferência'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from('station_assignments').delete().eq('id', id);
+      if (error) throw error;
+
+      toast.success('Transferência cancelada com sucesso!');
+      fetchAssignments();
+      onChanged?.();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao cancelar transferência'));
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-3 sm:p-4 border rounded-lg">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Fuel className="h-4 w-4 text-primary" />
+          <span>Lotação</span>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {currentAssignment
+            ? `Atual: ${getStation(currentAssignment.station_id)?.name ?? '—'}`
+            : 'Sem posto atribuído'}
+        </span>
+      </div>
+
+      {/* Registrar transferência */}
+      <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="assignment-effective-from" className="text-xs">A partir de</Label>
+          <Input
+            id="assignment-effective-from"
+            type="date"
+            value={newAssignment.effectiveFrom}
+            onChange={(e) => setNewAssignment({ ...newAssignment, effectiveFrom: e.target.value })}
+            className="text-sm sm:w-40"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Posto</Label>
+          <Select
+            value={newAssignment.stationId}
+            onValueChange={(value) => setNewAssignment({ ...newAssignment, stationId: value })}
+          >
+            <SelectTrigger className="text-sm sm:w-48">
+              <SelectValue placeholder="Selecione" />
+            </SelectTrigger>
+            <SelectContent>
+              {activeStations.map((station) => (
+                <SelectItem key={station.id} value={station.id}>
+                  {station.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          size="sm"
+          onClick={handleTransfer}
+          disabled={isSaving || !newAssignment.effectiveFrom || !newAssignment.stationId}
+        >
+          {currentAssignment ? 'Transferir' : 'Atribuir'}
+        </Button>
+      </div>
+
+      {assignments.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Nenhuma lotação registrada. Os lançamentos ficam sem posto até a primeira atribuição.
+        </p>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Desde</TableHead>
+                <TableHead className="text-xs">Posto</TableHead>
+                <TableHead className="text-xs">Situação</TableHead>
+                <TableHead className="text-xs text-center">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {assignments.map((assignment) => (
+                <TableRow key={assignment.id}>
+                  <TableCell className="text-xs">
+                    {format(new Date(assignment.effective_from + 'T00:00:00'), 'dd/MM/yyyy', { locale: ptBR })}
+                  </TableCell>
+                  <TableCell className="text-xs font-medium">
+                    {getStation(assignment.station_id)?.name ?? '—'}
+                  </TableCell>
+                  <TableCell>
+                    {assignment.effective_from > today ? (
+                      <Badge variant="outline" className="text-xs">Agendada</Badge>
+                    ) : assignment.id === currentAssignment?.id ? (
+                      <Badge className="text-xs">Atual</Badge>
+                    ) : (
+                      <Badge variant="secondary" className="text-xs">Anterior</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    {assignment.effective_from > today && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(assignment.id)}
+                        className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Download, Fuel } from 'lucide-react';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { useStations } from '@/hooks/useStations';
+import { summarizeByStation, type StationRecord } from '@/utils/stations';
+import { isValidDate } from '@/utils/security';
+
+export function StationComparison() {
+  const { getStation } = useStations();
+  const [range, setRange] = useState({
+    from: format(startOfMonth(new Date()), 'yyyy-MM-dd'),
+    to: format(endOfMonth(new Date()), 'yyyy-MM-dd'),
+  });
+  const [records, setRecords] = useState<StationRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchRecords = useCallback(async () => {
+    if (!isValidDate(range.from) || !isValidDate(range.to) || range.from > range.to) return;
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('overtime_records')
+        .select('user_id, station_id, net_hours, total_value, compensation, status')
+        .gte('date', range.from)
+        .lte('date', range.to);
+
+      if (error) throw error;
+      setRecords(data || []);
+    } catch (error) {
+      console.error('Error fetching station comparison:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [range]);
+
+  useEffect(() => {
+    fetchRecords();
+  }, [fetchRecords]);
+
+  const summaries = useMemo(() => summarizeByStation(records), [records]);
+  const maxHours = Math.max(0, ...summaries.map((summary) => summary.approvedHours));
+
+  const stationName = (stationId: string | null) =>
+    stationId ? getStation(stationId)?.name ?? '—' : 'Sem posto';
+
+  const exportComparison = () => {
+    const csvContent = [
+      ['Posto', 'Funcionários', 'Registros', 'Horas Aprovadas', 'Valor Aprovado', 'Horas Pendentes', 'Valor Pendente', 'Horas por Funcionário'],
+      ...summaries.map(summary => [
+        stationName(summary.stationId),
+        summary.employeeCount.toString(),
+        summary.recordCount.toString(),
+        summary.approvedHours.toFixed(2),
+        summary.approvedValue.toFixed(2),
+        summary.pendingHours.toFixed(2),
+        summary.pendingValue.toFixed(2),
+        summary.hoursPerEmployee.toFixed(2)
+      ])
+    ].map(row => row.join(',')).join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `comparativo_postos_${range.from}_${range.to}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Fuel className="h-5 w-5 text-primary" />
+              Comparativo por Posto
+            </CardTitle>
+            <CardDescription>
+              Horas extras pelo posto onde foram trabalhadas
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={exportComparison} disabled={summaries.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Exportar CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="station-comparison-from" className="text-xs">De</Label>
+            <Input
+              id="station-comparison-from"
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              className="text-sm sm:w-40"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="station-comparison-to" className="text-xs">Até</Label>
+            <Input
+              id="station-comparison-to"
+              type="date"
+              value={range.to}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              className="text-sm sm:w-40"
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+        ) : summaries.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <p>Nenhum lançamento no período</p>
+          </div>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Posto</TableHead>
+                  <TableHead className="text-right">Funcionários</TableHead>
+                  <TableHead className="text-right">Horas</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                  <TableHead className="text-right hidden sm:table-cell">Pendentes</TableHead>
+                  <TableHead className="text-right hidden md:table-cell">h/Funcionário</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summaries.map((summary) => (
+                  <TableRow key={summary.stationId ?? 'none'}>
+                    <TableCell className="font-medium">
+                      {stationName(summary.stationId)}
+                      {/* Barra proporcional às horas aprovadas */}
+                      <div className="mt-1 h-1.5 rounded-full bg-muted">
+                        <div
+                          className="h-1.5 rounded-full bg-primary"
+                          style={{ width: `${maxHours > 0 ? (summary.approvedHours / maxHours) * 100 : 0}%` }}
+                        />
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{summary.employeeCount}</TableCell>
+                    <TableCell className="text-right font-semibold text-primary">
+                      {summary.approvedHours.toFixed(2)}h
+                    </TableCell>
+                    <TableCell className="text-right font-bold text-success">
+                      R$ {summary.approvedValue.toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-right hidden sm:table-cell text-muted-foreground">
+                      {summary.pendingHours.toFixed(2)}h
+                    </TableCell>
+                    <TableCell className="text-right hidden md:table-cell">
+                      {summary.hoursPerEmployee.toFixed(2)}h
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
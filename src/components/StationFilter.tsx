@@ -0,0 +1,41 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Fuel } from 'lucide-react';
+import { useStations } from '@/hooks/useStations';
+import { ALL_STATIONS } from '@/utils/stations';
+
+interface StationFilterProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Restringe as opções, por exemplo aos postos de um gerente
+  stationIds?: string[];
+  className?: string;
+}
+
+export function StationFilter({ value, onChange, stationIds, className }: StationFilterProps) {
+  const { stations: allStations } = useStations();
+  const stations = stationIds ? allStations.filter((station) => stationIds.includes(station.id)) : allStations;
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className={`text-sm ${className ?? ''}`} aria-label="Filtrar por posto">
+        <Fuel className="h-4 w-4 mr-2 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_STATIONS}>{stationIds ? 'Todos os meus postos' : 'Todos os postos'}</SelectItem>
+        {stations.map((station) => (
+          <SelectItem key={station.id} value={station.id}>
+            {station.name}
+            {!station.is_active && ' (inativo)'}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
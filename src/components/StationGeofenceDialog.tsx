@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useGeolocationProvider } from '@/hooks/useGeolocationProvider';
+import type { Station } from '@/hooks/useStations';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Crosshair, MapPin } from 'lucide-react';
+import { toast } from 'sonner';
+import { errorMessage } from '@/utils/errors';
+import {
+  DEFAULT_GEOFENCE_RADIUS_M,
+  MAX_GEOFENCE_RADIUS_M,
+  MIN_GEOFENCE_RADIUS_M,
+} from '@/utils/geolocation';
+
+interface StationGeofenceDialogProps {
+  station: Station;
+  onSaved: () => void;
+}
+
+export function StationGeofenceDialog({ station, onSaved }: StationGeofenceDialogProps) {
+  const geolocation = useGeolocationProvider();
+  const [open, setOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  const [fence, setFence] = useState({ latitude: '', longitude: '', radius: '' });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setFence({
+        latitude: station.latitude?.toString() ?? '',
+        longitude: station.longitude?.toString() ?? '',
+        radius: station.geofence_radius_m.toString(),
+      });
+    }
+    setOpen(isOpen);
+  };
+
+  // Quem cadastra pode estar no próprio posto e usar a posição do aparelho
+  const handleUseCurrentPosition = async () => {
+    setIsLocating(true);
+    try {
+      const point = await geolocation.getCurrentPosition();
+      setFence({ ...fence, latitude: point.latitude.toFixed(6), longitude: point.longitude.toFixed(6) });
+      toast.success(`Localização obtida (precisão de ${Math.round(point.accuracy)} m)`);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao obter localização'));
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const save = async (values: { latitude: number | null; longitude: number | null; geofence_radius_m: number }) => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.from('stations').update(values).eq('id', station.id);
+      if (error) throw error;
+
+      toast.success(values.latitude === null ? 'Cerca do posto removida' : 'Cerca do posto salva');
+      setOpen(false);
+      onSaved();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao salvar cerca do posto'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const latitude = Number(fence.latitude.replace(',', '.'));
+    const longitude = Number(fence.longitude.replace(',', '.'));
+    const radius = Number(fence.radius);
+
+    if (!fence.latitude.trim() || Number.isNaN(latitude) || latitude < -90 || latitude > 90) {
+      toast.error('Latitude deve estar entre -90 e 90');
+      return;
+    }
+
+    if (!fence.longitude.trim() || Number.isNaN(longitude) || longitude < -180 || longitude > 180) {
+      toast.error('Longitude deve estar entre -180 e 180');
+      return;
+    }
+
+    if (!Number.isInteger(radius) || radius < MIN_GEOFENCE_RADIUS_M || radius > MAX_GEOFENCE_RADIUS_M) {
+      toast.error(`Raio deve ser um número inteiro entre ${MIN_GEOFENCE_RADIUS_M} e ${MAX_GEOFENCE_RADIUS_M} metros`);
+      return;
+    }
+
+    save({ latitude, longitude, geofence_radius_m: radius });
+  };
+
+  const hasFence = station.latitude !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 px-2 text-xs gap-1">
+          <MapPin className={`h-3 w-3 ${hasFence ? 'text-primary' : 'text-muted-foreground'}`} />
+          {hasFence ? `${station.geofence_radius_m} m` : 'Definir'}
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="w-[95vw] max-w-sm mx-auto">
+        <DialogHeader className="pb-2">
+          <DialogTitle className="text-base">Cerca de {station.name}</DialogTitle>
+          <DialogDescription className="text-xs">
+            Lançamentos feitos fora do raio, ou sem localização, ficam marcados para revisão.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="fence-latitude" className="text-xs font-medium">Latitude</Label>
+              <Input
+                id="fence-latitude"
+                inputMode="decimal"
+                value={fence.latitude}
+                onChange={(e) => setFence({ ...fence, latitude: e.target.value })}
+                placeholder="-19.919100"
+                className="text-sm h-9"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="fence-longitude" className="text-xs font-medium">Longitude</Label>
+              <Input
+                id="fence-longitude"
+                inputMode="decimal"
+                value={fence.longitude}
+                onChange={(e) => setFence({ ...fence, longitude: e.target.value })}
+                placeholder="-43.938600"
+                className="text-sm h-9"
+              />
+            </div>
+          </div>
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleUseCurrentPosition}
+            disabled={isLocating}
+            className="w-full text-xs gap-2"
+          >
+            <Crosshair className="h-3 w-3" />
+            {isLocating ? 'Obtendo localização...' : 'Usar minha localização atual'}
+          </Button>
+
+          <div className="space-y-1">
+            <Label htmlFor="fence-radius" className="text-xs font-medium">Raio (metros)</Label>
+            <Input
+              id="fence-radius"
+              type="number"
+              min={MIN_GEOFENCE_RADIUS_M}
+              max={MAX_GEOFENCE_RADIUS_M}
+              value={fence.radius}
+              onChange={(e) => setFence({ ...fence, radius: e.target.value })}
+              placeholder={DEFAULT_GEOFENCE_RADIUS_M.toString()}
+              className="text-sm h-9"
+            />
+          </div>
+
+          <div className="flex gap-2 pt-1">
+            {hasFence && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => save({ latitude: null, longitude: null, geofence_radius_m: station.geofence_radius_m })}
+                disabled={isSaving}
+                className="flex-1 text-xs h-8 text-red-600 hover:text-red-700"
+              >
+                Remover
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={isSaving} className="flex-1 text-xs h-8">
+              {isSaving ? 'Salvando...' : 'Salvar'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
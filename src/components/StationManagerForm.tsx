@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { useStations } from '@/hooks/useStations';
+import { errorMessage } from '@/utils/errors';
+
+interface StationManagerFormProps {
+  userId: string;
+}
+
+export function StationManagerForm({ userId }: StationManagerFormProps) {
+  const { stations } = useStations();
+  const [stationIds, setStationIds] = useState<string[]>([]);
+  const [isManager, setIsManager] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchManagedStations = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('station_managers')
+        .select('station_id')
+        .eq('user_id', userId);
+
+      if (error) throw error;
+
+      const ids = (data || []).map(({ station_id }) => station_id);
+      setStationIds(ids);
+      setIsManager(ids.length > 0);
+    } catch (error) {
+      console.error('Error fetching managed stations:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchManagedStations();
+  }, [fetchManagedStations]);
+
+  const toggleStation = (stationId: string, checked: boolean) => {
+    setStationIds(checked ? [...stationIds, stationId] : stationIds.filter((id) => id !== stationId));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      // Sem postos selecionados o papel de gerente é removido
+      const { error } = await supabase.rpc('set_station_manager', {
+        _user_id: userId,
+        _station_ids: stationIds,
+      });
+
+      if (error) throw error;
+
+      toast.success(stationIds.length > 0 ? 'Gerência de postos atualizada!' : 'Papel de gerente removido');
+      fetchManagedStations();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao atualizar gerência'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-3 sm:p-4 border rounded-lg">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <ShieldCheck className="h-4 w-4 text-primary" />
+          <span>Gerente de Posto</span>
+        </div>
+        {isManager && <Badge variant="secondary" className="text-xs">Gerente</Badge>}
+      </div>
+
+      {stations.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Cadastre postos nas configurações para atribuir gerentes.</p>
+      ) : (
+        <div className="flex flex-wrap gap-3">
+          {stations.map((station) => (
+            <div key={station.id} className="flex items-center space-x-1">
+              <Checkbox
+                id={`managed-station-${station.id}`}
+                checked={stationIds.includes(station.id)}
+                onCheckedChange={(checked) => toggleStation(station.id, !!checked)}
+                className="h-4 w-4"
+              />
+              <Label htmlFor={`managed-station-${station.id}`} className="text-xs cursor-pointer">
+                {station.name}
+              </Label>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          Gerentes aprovam os lançamentos dos postos selecionados, sem acesso a salários e relatórios gerais
+        </p>
+        <Button size="sm" onClick={handleSave} disabled={isSaving || stations.length === 0}>
+          {isSaving ? 'Salvando...' : 'Salvar gerência'}
+        </Button>
+      </div>
+    </div>
+  );
+}
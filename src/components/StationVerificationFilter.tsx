@@ -0,0 +1,37 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { QrCode } from 'lucide-react';
+import {
+  isStationVerificationFilter,
+  STATION_VERIFICATION_LABELS,
+  StationVerificationFilter as VerificationFilter,
+} from '@/utils/stationKiosk';
+
+interface StationVerificationFilterProps {
+  value: VerificationFilter;
+  onChange: (value: VerificationFilter) => void;
+  className?: string;
+}
+
+export function StationVerificationFilter({ value, onChange, className }: StationVerificationFilterProps) {
+  return (
+    <Select value={value} onValueChange={(next) => isStationVerificationFilter(next) && onChange(next)}>
+      <SelectTrigger className={`text-sm ${className ?? ''}`} aria-label="Filtrar por verificação no posto">
+        <QrCode className="h-4 w-4 mr-2 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.entries(STATION_VERIFICATION_LABELS).map(([filter, label]) => (
+          <SelectItem key={filter} value={filter}>
+            {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Fuel, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { STATIONS_QUERY_KEY, useStations } from '@/hooks/useStations';
+import { StationGeofenceDialog } from '@/components/StationGeofenceDialog';
+import { errorMessage } from '@/utils/errors';
+import { sanitizeInput } from '@/utils/security';
+
+export function StationsManager() {
+  const queryClient = useQueryClient();
+  const { stations, isLoading } = useStations();
+  const [isSaving, setIsSaving] = useState(false);
+  const [newStation, setNewStation] = useState({ name: '', code: '', city: '' });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: STATIONS_QUERY_KEY });
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    try {
+      const name = sanitizeInput(newStation.name);
+      const code = sanitizeInput(newStation.code).toUpperCase();
+      const city = sanitizeInput(newStation.city);
+
+      if (name.length < 2 || name.length > 100) {
+        throw new Error('Nome deve ter entre 2 e 100 caracteres');
+      }
+
+      if (code && !/^[A-Z0-9-]{1,20}$/.test(code)) {
+        throw new Error('Código deve ter até 20 letras, números ou hífen');
+      }
+
+      const { error } = await supabase.from('stations').insert({
+        name,
+        code: code || null,
+        city: city || null,
+      });
+
+      if (error) throw error;
+
+      toast.success('Posto cadastrado com sucesso!');
+      setNewStation({ name: '', code: '', city: '' });
+      refresh();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao cadastrar posto'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (id: string, isActive: boolean) => {
+    try {
+      const { error } = await supabase.from('stations').update({ is_active: isActive }).eq('id', id);
+      if (error) throw error;
+
+      toast.success(isActive ? 'Posto reativado' : 'Posto desativado');
+      refresh();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao atualizar posto'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Fuel className="h-5 w-5 text-primary" />
+          Postos
+        </CardTitle>
+        <CardDescription>
+          Unidades da rede. Postos desativados deixam de receber lançamentos, mas mantêm o histórico. A cerca
+          marca para revisão os lançamentos feitos longe do posto
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Cadastro */}
+        <div className="grid gap-2 grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 items-end p-3 border rounded-lg bg-muted/30">
+          <div className="space-y-1">
+            <Label htmlFor="station-name" className="text-xs">Nome</Label>
+            <Input
+              id="station-name"
+              value={newStation.name}
+              onChange={(e) => setNewStation({ ...newStation, name: e.target.value })}
+              className="text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="station-code" className="text-xs">Código</Label>
+            <Input
+              id="station-code"
+              value={newStation.code}
+              maxLength={20}
+              onChange={(e) => setNewStation({ ...newStation, code: e.target.value })}
+              className="text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="station-city" className="text-xs">Cidade</Label>
+            <Input
+              id="station-city"
+              value={newStation.city}
+              maxLength={100}
+              onChange={(e) => setNewStation({ ...newStation, city: e.target.value })}
+              className="text-sm"
+            />
+          </div>
+          <Button size="sm" onClick={handleAdd} disabled={isSaving || !newStation.name}>
+            <Plus className="h-4 w-4 mr-2" />
+            Adicionar
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+        ) : stations.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Fuel className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>Nenhum posto cadastrado</p>
+          </div>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Código</TableHead>
+                  <TableHead className="hidden sm:table-cell">Cidade</TableHead>
+                  <TableHead>Cerca</TableHead>
+                  <TableHead className="text-center">Ativo</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stations.map((station) => (
+                  <TableRow key={station.id}>
+                    <TableCell className="font-medium text-xs sm:text-sm">
+                      {station.name}
+                      {!station.is_active && (
+                        <Badge variant="outline" className="ml-2 text-xs">Inativo</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs sm:text-sm">{station.code ?? '—'}</TableCell>
+                    <TableCell className="hidden sm:table-cell text-xs sm:text-sm">{station.city ?? '—'}</TableCell>
+                    <TableCell>
+                      <StationGeofenceDialog station={station} onSaved={refresh} />
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Switch
+                        checked={station.is_active}
+                        onCheckedChange={(checked) => handleToggleActive(station.id, checked)}
+                        aria-label={`Posto ${station.name} ativo`}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
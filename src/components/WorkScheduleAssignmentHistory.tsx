@@ -0,0 +1,243 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CalendarRange, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import type { Tables } from '@/integrations/supabase/types';
+import { useWorkSchedules } from '@/hooks/useWorkSchedules';
+import { errorMessage } from '@/utils/errors';
+import { isValidDate, sanitizeInput } from '@/utils/security';
+import { describeWorkSchedule, isRotatingPattern } from '@/utils/workSchedules';
+
+type WorkScheduleAssignment = Tables<'work_schedule_assignments'>;
+
+interface WorkScheduleAssignmentHistoryProps {
+  userId: string;
+  onChanged?: () => void;
+}
+
+export function WorkScheduleAssignmentHistory({ userId, onChanged }: WorkScheduleAssignmentHistoryProps) {
+  const { user } = useAuth();
+  const { activeSchedules, getSchedule } = useWorkSchedules();
+  const [assignments, setAssignments] = useState<WorkScheduleAssignment[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newAssignment, setNewAssignment] = useState({
+    effectiveFrom: format(new Date(), 'yyyy-MM-dd'),
+    scheduleId: '',
+  });
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const fetchAssignments = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('work_schedule_assignments')
+        .select('*')
+        .eq('user_id', userId)
+        .order('effective_from', { ascending: false });
+
+      if (error) throw error;
+      setAssignments(data || []);
+    } catch (error) {
+      console.error('Error fetching work schedule assignments:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchAssignments();
+  }, [fetchAssignments]);
+
+  // A escala vigente é a mais recente com início até hoje
+  const currentAssignment = assignments.find((assignment) => assignment.effective_from <= today);
+
+  const scheduleDescription = (scheduleId: string) => {
+    const schedule = getSchedule(scheduleId);
+    return schedule ? describeWorkSchedule(schedule) : '';
+  };
+
+  // Escalas de revezamento contam o ciclo a partir da data de início
+  const selectedSchedule = getSchedule(newAssignment.scheduleId);
+
+  const handleAssign = async () => {
+    setIsSaving(true);
+    try {
+      const effectiveFrom = sanitizeInput(newAssignment.effectiveFrom);
+
+      if (!isValidDate(effectiveFrom)) {
+        throw new Error('Data de início inválida');
+      }
+
+      if (!getSchedule(newAssignment.scheduleId)) {
+        throw new Error('Selecione uma escala');
+      }
+
+      const { error } = await supabase.from('work_schedule_assignments').insert({
+        user_id: userId,
+        schedule_id: newAssignment.scheduleId,
+        effective_from: effectiveFrom,
+        created_by: user?.id ?? null,
+      });
+
+      if (error) throw error;
+
+      toast.success(currentAssignment ? 'Troca de escala registrada com sucesso!' : 'Escala atribuída com sucesso!');
+      setNewAssignment({ ...newAssignment, scheduleId: '' });
+      fetchAssignments();
+      onChanged?.();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao atribuir escala'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from('work_schedule_assignments').delete().eq('id', id);
+      if (error) throw error;
+
+      toast.success('Troca de escala cancelada com sucesso!');
+      fetchAssignments();
+      onChanged?.();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao cancelar troca de escala'));
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-3 sm:p-4 border rounded-lg">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <CalendarRange className="h-4 w-4 text-primary" />
+          <span>Escala de Trabalho</span>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {currentAssignment
+            ? `Atual: ${getSchedule(currentAssignment.schedule_id)?.name ?? '—'}`
+            : 'Sem escala atribuída'}
+        </span>
+      </div>
+
+      {/* Registrar troca de escala */}
+      <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="schedule-assignment-effective-from" className="text-xs">A partir de</Label>
+          <Input
+            id="schedule-assignment-effective-from"
+            type="date"
+            value={newAssignment.effectiveFrom}
+            onChange={(e) => setNewAssignment({ ...newAssignment, effectiveFrom: e.target.value })}
+            className="text-sm sm:w-40"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Escala</Label>
+          <Select
+            value={newAssignment.scheduleId}
+            onValueChange={(value) => setNewAssignment({ ...newAssignment, scheduleId: value })}
+          >
+            <SelectTrigger className="text-sm sm:w-48">
+              <SelectValue placeholder="Selecione" />
+            </SelectTrigger>
+            <SelectContent>
+              {activeSchedules.map((schedule) => (
+                <SelectItem key={schedule.id} value={schedule.id}>
+                  {schedule.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          size="sm"
+          onClick={handleAssign}
+          disabled={isSaving || !newAssignment.effectiveFrom || !newAssignment.scheduleId}
+        >
+          {currentAssignment ? 'Trocar' : 'Atribuir'}
+        </Button>
+      </div>
+
+      {selectedSchedule && isRotatingPattern(selectedSchedule.pattern) && (
+        <p className="text-xs text-muted-foreground">
+          O ciclo da escala começa na data de início, que deve ser um dia de trabalho.
+        </p>
+      )}
+
+      {assignments.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Nenhuma escala atribuída. Vale a jornada regular abaixo.
+        </p>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Desde</TableHead>
+                <TableHead className="text-xs">Escala</TableHead>
+                <TableHead className="text-xs">Situação</TableHead>
+                <TableHead className="text-xs text-center">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {assignments.map((assignment) => (
+                <TableRow key={assignment.id}>
+                  <TableCell className="text-xs">
+                    {format(new Date(assignment.effective_from + 'T00:00:00'), 'dd/MM/yyyy', { locale: ptBR })}
+                  </TableCell>
+                  <TableCell className="text-xs font-medium">
+                    {getSchedule(assignment.schedule_id)?.name ?? '—'}
+                    <span className="block font-normal text-muted-foreground">
+                      {scheduleDescription(assignment.schedule_id)}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    {assignment.effective_from > today ? (
+                      <Badge variant="outline" className="text-xs">Agendada</Badge>
+                    ) : assignment.id === currentAssignment?.id ? (
+                      <Badge className="text-xs">Atual</Badge>
+                    ) : (
+                      <Badge variant="secondary" className="text-xs">Anterior</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    {assignment.effective_from > today && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(assignment.id)}
+                        className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CalendarRange, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { useWorkSchedules, WORK_SCHEDULES_QUERY_KEY } from '@/hooks/useWorkSchedules';
+import { errorMessage } from '@/utils/errors';
+import { formatMinutes } from '@/utils/overtime';
+import { WEEKDAY_LABELS } from '@/utils/restPeriod';
+import { isValidTime, sanitizeInput } from '@/utils/security';
+import {
+  describeWorkSchedule,
+  isRotatingPattern,
+  WORK_SCHEDULE_DEFAULTS,
+  WORK_SCHEDULE_PATTERN_DESCRIPTIONS,
+  WORK_SCHEDULE_PATTERN_LABELS,
+  type WorkSchedulePattern,
+} from '@/utils/workSchedules';
+
+const emptySchedule = (pattern: WorkSchedulePattern) => ({
+  name: '',
+  pattern,
+  ...WORK_SCHEDULE_DEFAULTS[pattern],
+});
+
+export function WorkSchedulesManager() {
+  const queryClient = useQueryClient();
+  const { schedules, isLoading } = useWorkSchedules();
+  const [isSaving, setIsSaving] = useState(false);
+  const [newSchedule, setNewSchedule] = useState(emptySchedule('6x1'));
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: WORK_SCHEDULES_QUERY_KEY });
+
+  // Cada padrão começa com o horário e os dias mais comuns
+  const handlePatternChange = (pattern: WorkSchedulePattern) => {
+    setNewSchedule({ ...emptySchedule(pattern), name: newSchedule.name });
+  };
+
+  const toggleWorkDay = (day: number, checked: boolean) => {
+    setNewSchedule({
+      ...newSchedule,
+      workDays: checked
+        ? [...newSchedule.workDays, day].sort((a, b) => a - b)
+        : newSchedule.workDays.filter((workDay) => workDay !== day),
+    });
+  };
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    try {
+      const name = sanitizeInput(newSchedule.name);
+      const shiftStart = sanitizeInput(newSchedule.shiftStart);
+      const shiftEnd = sanitizeInput(newSchedule.shiftEnd);
+
+      if (name.length < 2 || name.length > 100) {
+        throw new Error('Nome deve ter entre 2 e 100 caracteres');
+      }
+
+      if (!isValidTime(shiftStart) || !isValidTime(shiftEnd)) {
+        throw new Error('Horário inválido');
+      }
+
+      if (shiftStart === shiftEnd) {
+        throw new Error('Horário de saída deve ser diferente do horário de entrada');
+      }
+
+      if (!Number.isInteger(newSchedule.breakMinutes) || newSchedule.breakMinutes < 0 || newSchedule.breakMinutes > 240) {
+        throw new Error('Intervalo deve ser um número inteiro entre 0 e 240 minutos');
+      }
+
+      if (newSchedule.pattern === '5x2' && newSchedule.workDays.length !== 5) {
+        throw new Error('A escala 5x2 tem exatamente cinco dias de trabalho');
+      }
+
+      if (newSchedule.pattern === 'custom' && newSchedule.workDays.length === 0) {
+        throw new Error('Selecione ao menos um dia de trabalho');
+      }
+
+      const { error } = await supabase.from('work_schedules').insert({
+        name,
+        pattern: newSchedule.pattern,
+        shift_start: shiftStart,
+        shift_end: shiftEnd,
+        break_minutes: newSchedule.breakMinutes,
+        work_days: newSchedule.workDays,
+      });
+      if (error) throw error;
+
+      toast.success('Escala cadastrada com sucesso!');
+      setNewSchedule(emptySchedule(newSchedule.pattern));
+      refresh();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao cadastrar escala'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (id: string, isActive: boolean) => {
+    try {
+      const { error } = await supabase.from('work_schedules').update({ is_active: isActive }).eq('id', id);
+      if (error) throw error;
+
+      toast.success(isActive ? 'Escala reativada' : 'Escala desativada');
+      refresh();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao atualizar escala'));
+    }
+  };
+
+  const isRotating = isRotatingPattern(newSchedule.pattern);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarRange className="h-5 w-5 text-primary" />
+          Escalas de Trabalho
+        </CardTitle>
+        <CardDescription>
+          Turnos previstos atribuídos aos funcionários. Para mudar um horário, cadastre uma nova escala: as antigas continuam valendo para o histórico
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Cadastro */}
+        <div className="space-y-3 p-3 border rounded-lg bg-muted/30">
+          <div className="grid gap-2 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="schedule-name" className="text-xs">Nome</Label>
+              <Input
+                id="schedule-name"
+                value={newSchedule.name}
+                maxLength={100}
+                onChange={(e) => setNewSchedule({ ...newSchedule, name: e.target.value })}
+                placeholder="Ex.: Pista 6x1 manhã"
+                className="text-sm"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Padrão</Label>
+              <Select
+                value={newSchedule.pattern}
+                onValueChange={(value) => handlePatternChange(value as WorkSchedulePattern)}
+              >
+                <SelectTrigger className="text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(WORK_SCHEDULE_PATTERN_LABELS).map(([pattern, label]) => (
+                    <SelectItem key={pattern} value={pattern}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-2 grid-cols-3 sm:w-96">
+            <div className="space-y-1">
+              <Label htmlFor="schedule-start" className="text-xs">Entrada</Label>
+              <Input
+                id="schedule-start"
+                type="time"
+                value={newSchedule.shiftStart}
+                onChange={(e) => setNewSchedule({ ...newSchedule, shiftStart: e.target.value })}
+                className="text-sm"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="schedule-end" className="text-xs">Saída</Label>
+              <Input
+                id="schedule-end"
+                type="time"
+                value={newSchedule.shiftEnd}
+                onChange={(e) => setNewSchedule({ ...newSchedule, shiftEnd: e.target.value })}
+                className="text-sm"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="schedule-break" className="text-xs">Intervalo (min)</Label>
+              <Input
+                id="schedule-break"
+                type="number"
+                min={0}
+                max={240}
+                value={newSchedule.breakMinutes}
+                onChange={(e) => setNewSchedule({ ...newSchedule, breakMinutes: Number(e.target.value) })}
+                className="text-sm"
+              />
+            </div>
+          </div>
+
+          {isRotating ? (
+            <p className="text-xs text-muted-foreground">
+              {WORK_SCHEDULE_PATTERN_DESCRIPTIONS[newSchedule.pattern]}. O ciclo começa no primeiro dia da atribuição, que é de trabalho, e segue nos feriados.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex flex-wrap gap-3">
+                {Object.entries(WEEKDAY_LABELS).map(([day, label]) => (
+                  <div key={day} className="flex items-center space-x-1">
+                    <Checkbox
+                      id={`schedule-day-${day}`}
+                      checked={newSchedule.workDays.includes(Number(day))}
+                      onCheckedChange={(checked) => toggleWorkDay(Number(day), !!checked)}
+                      className="h-4 w-4"
+                    />
+                    <Label htmlFor={`schedule-day-${day}`} className="text-xs cursor-pointer">
+                      {label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {WORK_SCHEDULE_PATTERN_DESCRIPTIONS[newSchedule.pattern]}. Feriados ficam fora da escala.
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleAdd} disabled={isSaving || !newSchedule.name}>
+              <Plus className="h-4 w-4 mr-2" />
+              Adicionar
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+        ) : schedules.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Nenhuma escala cadastrada. Sem escala, vale a jornada regular do cadastro do funcionário.
+          </p>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Escala</TableHead>
+                  <TableHead>Turno</TableHead>
+                  <TableHead className="text-right">Intervalo</TableHead>
+                  <TableHead className="text-center">Ativa</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedules.map((schedule) => (
+                  <TableRow key={schedule.id}>
+                    <TableCell className="font-medium text-xs sm:text-sm">
+                      {schedule.name}
+                      {!schedule.is_active && (
+                        <Badge variant="outline" className="ml-2 text-xs">Inativa</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs">{describeWorkSchedule(schedule)}</TableCell>
+                    <TableCell className="text-xs text-right">{formatMinutes(schedule.break_minutes)}</TableCell>
+                    <TableCell className="text-center">
+                      <Switch
+                        checked={schedule.is_active}
+                        onCheckedChange={(checked) => handleToggleActive(schedule.id, checked)}
+                        aria-label={`Escala ${schedule.name} ativa`}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,6 +13,8 @@ interface AuthContextType {
   signOut: () => Promise<void>;
   isLoading: boolean;
   isAdmin: boolean;
+  isManager: boolean;
+  managedStationIds: string[];
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -22,6 +24,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [session, setSession] = useState<Session | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isAdmin, setIsAdmin] = useState(false);
+  const [isManager, setIsManager] = useState(false);
+  const [managedStationIds, setManagedStationIds] = useState<string[]>([]);
   const navigate = useNavigate();
   
   // Rate limiter for authentication attempts
@@ -34,23 +38,26 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setSession(session);
         setUser(session?.user ?? null);
         
-        // Check admin role after state is set
+        // Check roles after state is set
         if (session?.user) {
           setTimeout(() => {
-            checkAdminRole(session.user.id);
+            checkRoles(session.user.id);
           }, 0);
         } else {
           setIsAdmin(false);
+          setIsManager(false);
+          setManagedStationIds([]);
         }
       }
     );
 
     // THEN check for existing session
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    // Roles are loaded before the route guards run
+    supabase.auth.getSession().then(async ({ data: { session } }) => {
       setSession(session);
       setUser(session?.user ?? null);
       if (session?.user) {
-        checkAdminRole(session.user.id);
+        await checkRoles(session.user.id);
       }
       setIsLoading(false);
     });
@@ -58,20 +65,36 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
-  const checkAdminRole = async (userId: string) => {
+  const checkRoles = async (userId: string) => {
     try {
-      const { data, error } = await supabase
+      const { data: roles, error } = await supabase
         .from('user_roles')
         .select('role')
-        .eq('user_id', userId)
-        .eq('role', 'admin')
-        .maybeSingle();
+        .eq('user_id', userId);
 
       if (error) throw error;
-      setIsAdmin(!!data);
+
+      const hasManagerRole = (roles || []).some(({ role }) => role === 'manager');
+      setIsAdmin((roles || []).some(({ role }) => role === 'admin'));
+      setIsManager(hasManagerRole);
+
+      // Gerentes enxergam apenas os postos sob sua gestão
+      if (hasManagerRole) {
+        const { data: stations, error: stationsError } = await supabase
+          .from('station_managers')
+          .select('station_id')
+          .eq('user_id', userId);
+
+        if (stationsError) throw stationsError;
+        setManagedStationIds((stations || []).map(({ station_id }) => station_id));
+      } else {
+        setManagedStationIds([]);
+      }
     } catch (error) {
-      console.error('Error checking admin role:', error);
+      console.error('Error checking roles:', error);
       setIsAdmin(false);
+      setIsManager(false);
+      setManagedStationIds([]);
     }
   };
 
@@ -191,7 +214,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, signIn, signUp, signOut, isLoading, isAdmin }}>
+    <AuthContext.Provider value={{ user, session, signIn, signUp, signOut, isLoading, isAdmin, isManager, managedStationIds }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,14 @@
+import React from 'react';
+import { GeolocationContext } from '@/hooks/useGeolocationProvider';
+import type { GeolocationProvider } from '@/utils/geolocation';
+
+// Swaps the position source, e.g. for fixedGeolocationProvider() in tests
+export function GeolocationContextProvider({
+  provider,
+  children,
+}: {
+  provider: GeolocationProvider;
+  children: React.ReactNode;
+}) {
+  return <GeolocationContext.Provider value={provider}>{children}</GeolocationContext.Provider>;
+}
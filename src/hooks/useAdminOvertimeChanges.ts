@@ -0,0 +1,37 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { ADMIN_CHANGE_ACTIONS, parseAdminChanges } from '@/utils/adminChanges';
+
+export const ADMIN_OVERTIME_CHANGES_QUERY_KEY = ['admin-overtime-changes'];
+
+/**
+ * Changes made by admins to an employee's overtime records. Deletions only
+ * carry the old values, so the owner is matched on either side.
+ */
+export function useAdminOvertimeChanges(userId: string | undefined) {
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: [...ADMIN_OVERTIME_CHANGES_QUERY_KEY, userId],
+    enabled: !!userId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('audit_logs')
+        .select('id, action, created_at, record_id, old_values, new_values')
+        .eq('table_name', 'overtime_records')
+        .in('action', ADMIN_CHANGE_ACTIONS)
+        .or(`new_values->>user_id.eq.${userId},old_values->>user_id.eq.${userId}`)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const changes = useMemo(() => parseAdminChanges(data ?? []), [data]);
+
+  return {
+    changes,
+    isLoading: !!userId && isLoading,
+    refetch,
+  };
+}
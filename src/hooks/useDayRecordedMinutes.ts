@@ -0,0 +1,39 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { isValidDate } from '@/utils/security';
+
+export const DAY_RECORDED_MINUTES_QUERY_KEY = ['day-recorded-minutes'];
+
+/**
+ * Raw clock minutes of the employee's other records on a date, used by the
+ * legal tolerance's daily cap. excludeId leaves out the record being edited.
+ */
+export function useDayRecordedMinutes(userId: string | undefined, date: string, excludeId?: string) {
+  const enabled = !!userId && isValidDate(date);
+
+  const { data, isLoading } = useQuery({
+    queryKey: [...DAY_RECORDED_MINUTES_QUERY_KEY, userId, date, excludeId],
+    enabled,
+    queryFn: async () => {
+      let query = supabase
+        .from('overtime_records')
+        .select('raw_minutes')
+        .eq('user_id', userId as string)
+        .eq('date', date);
+
+      if (excludeId) {
+        query = query.neq('id', excludeId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return (data || []).reduce((sum, record) => sum + record.raw_minutes, 0);
+    },
+  });
+
+  return {
+    otherMinutesOnDate: data ?? 0,
+    isLoading: enabled && isLoading,
+  };
+}
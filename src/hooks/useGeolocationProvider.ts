@@ -0,0 +1,9 @@
+import { createContext, useContext } from 'react';
+import { browserGeolocationProvider, type GeolocationProvider } from '@/utils/geolocation';
+
+// Position source of the app, swapped by GeolocationContextProvider
+export const GeolocationContext = createContext<GeolocationProvider>(browserGeolocationProvider);
+
+export function useGeolocationProvider() {
+  return useContext(GeolocationContext);
+}
@@ -0,0 +1,45 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Holiday = Tables<'holidays'>;
+
+export const HOLIDAYS_QUERY_KEY = ['holidays'];
+
+/**
+ * Holiday calendar shared by every component that calculates or lists overtime
+ */
+export function useHolidays() {
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: HOLIDAYS_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('holidays')
+        .select('*')
+        .order('date');
+
+      if (error) throw error;
+      return data || [];
+    },
+    staleTime: 60 * 60 * 1000,
+  });
+
+  // Inactive entries (optional days off not confirmed by an admin) are not holidays
+  const holidaysByDate = useMemo(() => {
+    const map = new Map<string, Holiday>();
+    (data || []).filter((holiday) => holiday.is_active).forEach((holiday) => map.set(holiday.date, holiday));
+    return map;
+  }, [data]);
+
+  const getHoliday = useCallback((date: string) => holidaysByDate.get(date), [holidaysByDate]);
+  const isHoliday = useCallback((date: string) => holidaysByDate.has(date), [holidaysByDate]);
+
+  return {
+    holidays: data || [],
+    getHoliday,
+    isHoliday,
+    isLoading,
+    refetch,
+  };
+}
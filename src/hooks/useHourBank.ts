@@ -0,0 +1,55 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { summarizeHourBank } from '@/utils/hourBank';
+
+export type HourBankEntryRow = Tables<'hour_bank_entries'>;
+
+export const HOUR_BANK_QUERY_KEY = ['hour-bank'];
+
+/**
+ * Hour bank settings, ledger and balance summary of an employee
+ */
+export function useHourBank(userId: string | undefined) {
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: [...HOUR_BANK_QUERY_KEY, userId],
+    enabled: !!userId,
+    queryFn: async () => {
+      const [{ data: profile, error: profileError }, { data: entries, error: entriesError }] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select('compensation_mode, hour_bank_validity_months')
+          .eq('id', userId as string)
+          .single(),
+        supabase
+          .from('hour_bank_entries')
+          .select('*')
+          .eq('user_id', userId as string)
+          .order('entry_date', { ascending: false })
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (profileError) throw profileError;
+      if (entriesError) throw entriesError;
+
+      return { profile, entries: entries || [] };
+    },
+  });
+
+  const entries = useMemo(() => data?.entries ?? [], [data]);
+  const summary = useMemo(
+    () => summarizeHourBank(entries, format(new Date(), 'yyyy-MM-dd')),
+    [entries]
+  );
+
+  return {
+    compensationMode: data?.profile.compensation_mode ?? 'payment',
+    validityMonths: data?.profile.hour_bank_validity_months ?? 6,
+    entries,
+    summary,
+    isLoading: !!userId && isLoading,
+    refetch,
+  };
+}
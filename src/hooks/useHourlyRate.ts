@@ -0,0 +1,54 @@
+import { useQuery } from '@tanstack/react-query';
+import { usePayrollSettings } from '@/hooks/usePayrollSettings';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_HOURLY_RATE } from '@/utils/overtime';
+import { calculateHourlyBase, minimumWageOn, type HourlyBaseComposition } from '@/utils/salary';
+import { isValidDate } from '@/utils/security';
+
+export const HOURLY_RATE_QUERY_KEY = ['hourly-rate'];
+
+/**
+ * Hourly rate in force for an employee on the given date, with the salary
+ * components it was derived from when it was not entered manually
+ */
+export function useHourlyRate(userId: string | undefined, date: string) {
+  const { settings } = usePayrollSettings();
+  const { data, isLoading } = useQuery({
+    queryKey: [...HOURLY_RATE_QUERY_KEY, userId, date],
+    enabled: !!userId && isValidDate(date),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_hourly_base', {
+        _user_id: userId as string,
+        _date: date,
+      });
+
+      if (error) throw error;
+
+      const base = data?.[0];
+      if (!base) return null;
+
+      const components =
+        base.base_salary !== null && base.insalubridade_grade !== null && base.monthly_divisor !== null
+          ? {
+              baseSalary: Number(base.base_salary),
+              hasPericulosidade: !!base.has_periculosidade,
+              insalubridadeGrade: base.insalubridade_grade,
+              monthlyDivisor: base.monthly_divisor,
+            }
+          : null;
+
+      return { hourlyRate: Number(base.hourly_rate), components };
+    },
+  });
+
+  // The breakdown uses the minimum wage in force on the date, as the server does
+  const composition: HourlyBaseComposition | null = data?.components
+    ? calculateHourlyBase(data.components, minimumWageOn(settings, date))
+    : null;
+
+  return {
+    hourlyRate: data?.hourlyRate ?? DEFAULT_HOURLY_RATE,
+    composition,
+    isLoading: !!userId && isValidDate(date) && isLoading,
+  };
+}
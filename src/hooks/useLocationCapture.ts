@@ -0,0 +1,40 @@
+import { useCallback, useState } from 'react';
+import { useGeolocationProvider } from '@/hooks/useGeolocationProvider';
+import {
+  getStoredLocationConsent,
+  storeLocationConsent,
+  type GeoPoint,
+} from '@/utils/geolocation';
+
+export interface LocationCapture {
+  point: GeoPoint | null;
+  // Why there is no point even though the employee agreed to share it
+  error: string | null;
+}
+
+/**
+ * Reads the device position for geofenced entries, only after the employee
+ * agreed to share it. Failures do not block the entry: it is saved without a
+ * location and flagged for review.
+ */
+export function useLocationCapture() {
+  const provider = useGeolocationProvider();
+  const [consent, setConsentState] = useState(getStoredLocationConsent);
+
+  const setConsent = useCallback((granted: boolean) => {
+    storeLocationConsent(granted);
+    setConsentState(granted);
+  }, []);
+
+  const capture = useCallback(async (): Promise<LocationCapture> => {
+    if (!consent) return { point: null, error: null };
+
+    try {
+      return { point: await provider.getCurrentPosition(), error: null };
+    } catch (error) {
+      return { point: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [consent, provider]);
+
+  return { consent, setConsent, capture };
+}
@@ -0,0 +1,105 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  ATTACHMENTS_BUCKET,
+  ATTACHMENT_URL_TTL_SECONDS,
+  buildAttachmentPath,
+  validateAttachmentFile,
+} from '@/utils/attachments';
+
+export type OvertimeAttachment = Tables<'overtime_attachments'>;
+
+export const OVERTIME_ATTACHMENTS_QUERY_KEY = ['overtime-attachments'];
+
+/**
+ * Files attached to an overtime record, oldest first
+ */
+export function useOvertimeAttachments(recordId: string | undefined) {
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: [...OVERTIME_ATTACHMENTS_QUERY_KEY, recordId],
+    enabled: !!recordId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('overtime_attachments')
+        .select('*')
+        .eq('record_id', recordId as string)
+        .order('created_at');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  return {
+    attachments: data || [],
+    isLoading: !!recordId && isLoading,
+    refetch,
+  };
+}
+
+/**
+ * Uploads files to the record's folder and registers them. A file whose row
+ * is refused (limit reached, closed period) is removed from storage again.
+ */
+export async function uploadOvertimeAttachments(userId: string, recordId: string, files: File[]) {
+  for (const file of files) {
+    const invalid = validateAttachmentFile(file);
+    if (invalid) throw new Error(invalid);
+
+    const path = buildAttachmentPath(userId, recordId, file.name);
+    const { error: uploadError } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .upload(path, file, { contentType: file.type });
+
+    if (uploadError) throw uploadError;
+
+    const { error } = await supabase.from('overtime_attachments').insert({
+      record_id: recordId,
+      user_id: userId,
+      storage_path: path,
+      file_name: file.name.substring(0, 255),
+      mime_type: file.type,
+      size_bytes: file.size,
+    });
+
+    if (error) {
+      await supabase.storage.from(ATTACHMENTS_BUCKET).remove([path]);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Unregisters an attachment, then deletes the file. RLS refuses silently
+ * once the record is approved or its payroll period is closed, so an
+ * empty result means the proof has to stay
+ */
+export async function removeOvertimeAttachment(attachment: Pick<OvertimeAttachment, 'id' | 'storage_path'>) {
+  const { data, error } = await supabase
+    .from('overtime_attachments')
+    .delete()
+    .eq('id', attachment.id)
+    .select('id');
+  if (error) throw error;
+  if (!data || data.length === 0) throw new Error('Este anexo não pode mais ser removido');
+
+  const { error: storageError } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove([attachment.storage_path]);
+  if (storageError) throw storageError;
+}
+
+/**
+ * Short-lived URLs to open private attachments, keyed by storage path
+ */
+export async function getAttachmentUrls(paths: string[]): Promise<Map<string, string>> {
+  if (paths.length === 0) return new Map();
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrls(paths, ATTACHMENT_URL_TTL_SECONDS);
+
+  if (error) throw error;
+  return new Map(
+    (data || []).filter((entry) => entry.path && entry.signedUrl).map((entry) => [entry.path as string, entry.signedUrl])
+  );
+}
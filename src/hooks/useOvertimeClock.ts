@@ -0,0 +1,136 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { GeoPoint } from '@/utils/geolocation';
+
+export type OvertimeClockSession = Tables<'overtime_clock_sessions'>;
+
+export const OVERTIME_CLOCK_QUERY_KEY = ['overtime-clock'];
+
+/**
+ * The employee's latest clock session. It lives in the database, so an open
+ * session survives reloads and shows up on every device; polling picks up a
+ * session started or stopped elsewhere.
+ */
+export function useOvertimeClock(userId: string | undefined) {
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: [...OVERTIME_CLOCK_QUERY_KEY, userId],
+    enabled: !!userId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('overtime_clock_sessions')
+        .select('*')
+        .eq('user_id', userId as string)
+        .order('started_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    refetchInterval: 60 * 1000,
+  });
+
+  const lastSession = data ?? null;
+
+  return {
+    openSession: lastSession && !lastSession.ended_at ? lastSession : null,
+    lastSession,
+    isLoading: !!userId && isLoading,
+    refetch,
+  };
+}
+
+// Arguments of the clock functions holding the location of a mark
+function markLocationArgs(location: GeoPoint | null) {
+  return location
+    ? { _latitude: location.latitude, _longitude: location.longitude, _accuracy_m: Math.round(location.accuracy) }
+    : {};
+}
+
+export async function startOvertimeClock(
+  reasonId: string,
+  justification: string,
+  location: GeoPoint | null
+) {
+  const { error } = await supabase.rpc('start_overtime_clock', {
+    _reason_id: reasonId,
+    _justification: justification,
+    ...markLocationArgs(location),
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Stops the open session now and returns the overtime record created from it
+ */
+export async function stopOvertimeClock(
+  lunchDiscount: boolean,
+  reasonId: string,
+  justification: string,
+  location: GeoPoint | null
+) {
+  const { data, error } = await supabase.rpc('stop_overtime_clock', {
+    _lunch_discount: lunchDiscount,
+    _reason_id: reasonId,
+    _justification: justification,
+    ...markLocationArgs(location),
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Starts a session from a scanned kiosk code; the session is marked as
+ * verified at the station
+ */
+export async function startOvertimeClockAtStation(
+  stationId: string,
+  code: string,
+  reasonId: string,
+  justification: string
+) {
+  const { error } = await supabase.rpc('start_overtime_clock_at_station', {
+    _station_id: stationId,
+    _code: code,
+    _reason_id: reasonId,
+    _justification: justification,
+  });
+
+  if (error) throw error;
+}
+
+export async function stopOvertimeClockAtStation(
+  stationId: string,
+  code: string,
+  lunchDiscount: boolean,
+  reasonId: string,
+  justification: string
+) {
+  const { data, error } = await supabase.rpc('stop_overtime_clock_at_station', {
+    _station_id: stationId,
+    _code: code,
+    _lunch_discount: lunchDiscount,
+    _reason_id: reasonId,
+    _justification: justification,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function cancelOvertimeClock() {
+  const { error } = await supabase.rpc('cancel_overtime_clock');
+  if (error) throw error;
+}
+
+/**
+ * Closes the current user's session if it is past the auto-close time, for review
+ */
+export async function closeStaleOvertimeClock() {
+  const { data, error } = await supabase.rpc('close_stale_overtime_clock');
+  if (error) throw error;
+  return data;
+}
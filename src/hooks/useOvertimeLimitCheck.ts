@@ -0,0 +1,49 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export const OVERTIME_LIMIT_CHECK_QUERY_KEY = ['overtime-limit-check'];
+
+interface OvertimeLimitCheckInput {
+  date: string;
+  startTime: string;
+  endDate: string;
+  endTime: string;
+  lunchDiscount: boolean;
+}
+
+/**
+ * Limits an entry would exceed, checked by the database against the employee's
+ * other records. excludeId leaves out the record being edited.
+ */
+export function useOvertimeLimitCheck(
+  userId: string | undefined,
+  input: OvertimeLimitCheckInput | null,
+  excludeId?: string
+) {
+  const { data, isLoading } = useQuery({
+    queryKey: [...OVERTIME_LIMIT_CHECK_QUERY_KEY, userId, input, excludeId],
+    enabled: !!userId && !!input,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('check_overtime_limits', {
+        _user_id: userId as string,
+        _date: input!.date,
+        _start_time: input!.startTime,
+        _end_date: input!.endDate,
+        _end_time: input!.endTime,
+        _lunch_discount: input!.lunchDiscount,
+        _exclude_id: excludeId,
+      });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const excesses = data ?? [];
+
+  return {
+    excesses,
+    isBlocked: excesses.some((excess) => excess.enforcement === 'block'),
+    isLoading: !!userId && !!input && isLoading,
+  };
+}
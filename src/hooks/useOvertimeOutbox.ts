@@ -0,0 +1,182 @@
+import { useQuery } from '@tanstack/react-query';
+import { addDays, format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { uploadOvertimeAttachments } from '@/hooks/useOvertimeAttachments';
+import {
+  findOverlappingRecord,
+  isNetworkError,
+  type OutboxEntry,
+  type OutboxRecord,
+} from '@/utils/overtimeOutbox';
+
+export const OVERTIME_OUTBOX_QUERY_KEY = ['overtime-outbox'];
+
+const DB_NAME = 'hrextra-offline';
+const DB_VERSION = 1;
+const STORE = 'overtime-outbox';
+
+function openOutbox(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' }).createIndex('userId', 'userId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openOutbox();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = run(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+async function listOutbox(userId: string): Promise<OutboxEntry[]> {
+  const entries = await withStore<OutboxEntry[]>('readonly', (store) => store.index('userId').getAll(userId));
+  return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+function putOutboxEntry(entry: OutboxEntry) {
+  return withStore('readwrite', (store) => store.put(entry));
+}
+
+/**
+ * Overtime entries the employee saved on this device that have not reached
+ * the server yet, oldest first
+ */
+export function useOvertimeOutbox(userId: string | undefined) {
+  const { data, isLoading } = useQuery({
+    queryKey: [...OVERTIME_OUTBOX_QUERY_KEY, userId],
+    enabled: !!userId && typeof indexedDB !== 'undefined',
+    queryFn: () => listOutbox(userId as string),
+    // The device database answers offline too
+    networkMode: 'always',
+  });
+
+  return {
+    entries: data || [],
+    isLoading: !!userId && isLoading,
+  };
+}
+
+/**
+ * Keeps an entry on the device, with its files, to be sent once online
+ */
+export async function addToOutbox(userId: string, record: OutboxRecord, files: File[]) {
+  await putOutboxEntry({
+    id: record.id,
+    userId,
+    createdAt: new Date().toISOString(),
+    record,
+    files,
+    status: 'pending',
+    error: null,
+  });
+}
+
+export async function removeFromOutbox(id: string) {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Sends a conflicting entry again on the next sync
+ */
+export async function retryOutboxEntry(entry: OutboxEntry) {
+  await putOutboxEntry({ ...entry, status: 'pending', error: null });
+}
+
+export interface OutboxSyncResult {
+  synced: number;
+  conflicts: number;
+  // Entries saved without some of their files
+  attachmentErrors: number;
+}
+
+// Sends one entry; throws when the server could not be reached or queried
+async function syncEntry(entry: OutboxEntry, result: OutboxSyncResult) {
+  const { record } = entry;
+
+  // Records that may overlap: from the day before the start to the end date
+  const { data: existing, error: existingError } = await supabase
+    .from('overtime_records')
+    .select('id, date, end_date, start_time, end_time')
+    .eq('user_id', entry.userId)
+    .neq('status', 'rejected')
+    .gte('date', format(addDays(new Date(`${record.date}T00:00:00`), -1), 'yyyy-MM-dd'))
+    .lte('date', record.end_date);
+
+  if (existingError) throw existingError;
+
+  // A previous sync reached the server but the answer was lost
+  if ((existing || []).some((other) => other.id === record.id)) {
+    await removeFromOutbox(entry.id);
+    result.synced += 1;
+    return;
+  }
+
+  const overlapping = findOverlappingRecord(existing || [], record);
+  if (overlapping) {
+    await putOutboxEntry({
+      ...entry,
+      status: 'conflict',
+      error: `Conflita com o lançamento de ${format(new Date(`${overlapping.date}T00:00:00`), 'dd/MM')} das ${overlapping.start_time.substring(0, 5)} às ${overlapping.end_time.substring(0, 5)}`,
+    });
+    result.conflicts += 1;
+    return;
+  }
+
+  const { error } = await supabase.from('overtime_records').insert(record);
+  const alreadySent = error?.code === '23505' && error.message.includes('overtime_records_pkey');
+
+  if (error && !alreadySent) {
+    if (isNetworkError(error)) throw error;
+
+    // Refused by the server: closed payroll period, limits, inactive station...
+    await putOutboxEntry({ ...entry, status: 'conflict', error: error.message });
+    result.conflicts += 1;
+    return;
+  }
+
+  // The record is on the server: a failed upload does not bring it back to the outbox
+  try {
+    await uploadOvertimeAttachments(entry.userId, record.id, entry.files);
+  } catch (uploadError) {
+    console.error('Error uploading queued attachments:', uploadError);
+    result.attachmentErrors += 1;
+  }
+
+  await removeFromOutbox(entry.id);
+  result.synced += 1;
+}
+
+/**
+ * Sends the employee's pending entries in the order they were saved.
+ * Entries refused by the server or overlapping a record already there are
+ * kept as conflicts; the sync stops at the first network failure.
+ */
+export async function syncOvertimeOutbox(userId: string): Promise<OutboxSyncResult> {
+  const result: OutboxSyncResult = { synced: 0, conflicts: 0, attachmentErrors: 0 };
+
+  for (const entry of await listOutbox(userId)) {
+    if (entry.status !== 'pending') continue;
+
+    try {
+      await syncEntry(entry, result);
+    } catch (error) {
+      if (isNetworkError(error)) break;
+      throw error;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,48 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type OvertimeReason = Tables<'overtime_reasons'>;
+
+export const OVERTIME_REASONS_QUERY_KEY = ['overtime-reasons'];
+
+/**
+ * Reason codes chosen when registering overtime, managed by admins
+ */
+export function useOvertimeReasons() {
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: OVERTIME_REASONS_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('overtime_reasons')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    },
+    staleTime: 60 * 60 * 1000,
+  });
+
+  const reasonsById = useMemo(() => {
+    const map = new Map<string, OvertimeReason>();
+    (data || []).forEach((reason) => map.set(reason.id, reason));
+    return map;
+  }, [data]);
+
+  const activeReasons = useMemo(() => (data || []).filter((reason) => reason.is_active), [data]);
+
+  const getReason = useCallback(
+    (id: string | null | undefined) => (id ? reasonsById.get(id) : undefined),
+    [reasonsById]
+  );
+
+  return {
+    reasons: data || [],
+    activeReasons,
+    getReason,
+    isLoading,
+    refetch,
+  };
+}
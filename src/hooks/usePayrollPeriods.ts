@@ -0,0 +1,43 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { findPeriod } from '@/utils/payrollPeriods';
+
+export type PayrollPeriod = Tables<'payroll_periods'>;
+
+export const PAYROLL_PERIODS_QUERY_KEY = ['payroll-periods'];
+
+/**
+ * Payroll periods, newest first. Records dated in a closed period are locked
+ * by the database; isDateLocked lets the UI hide actions that would fail.
+ */
+export function usePayrollPeriods() {
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: PAYROLL_PERIODS_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('payroll_periods')
+        .select('*')
+        .order('starts_on', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const closedPeriods = useMemo(() => (data || []).filter((period) => period.status === 'closed'), [data]);
+
+  const isDateLocked = useCallback(
+    (date: string) => findPeriod(closedPeriods, date) !== undefined,
+    [closedPeriods]
+  );
+
+  return {
+    periods: data || [],
+    isDateLocked,
+    isLoading,
+    refetch,
+  };
+}
@@ -0,0 +1,55 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export const PAYROLL_SETTINGS_QUERY_KEY = ['payroll-settings'];
+
+/**
+ * Company-wide payroll parameters stored as name/value pairs, some of them
+ * with one value per effective date
+ */
+export function usePayrollSettings() {
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: PAYROLL_SETTINGS_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('payroll_settings')
+        .select('*')
+        .order('setting_name');
+
+      if (error) throw error;
+      return data || [];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Effective-dated settings (e.g. the minimum wage) are read by date instead
+  const valuesByName = useMemo(() => {
+    const map = new Map<string, string>();
+    (data || [])
+      .filter((setting) => setting.effective_from === null)
+      .forEach((setting) => map.set(setting.setting_name, setting.setting_value));
+    return map;
+  }, [data]);
+
+  const getValue = useCallback(
+    (name: string, fallback: string) => valuesByName.get(name) ?? fallback,
+    [valuesByName]
+  );
+
+  const getNumber = useCallback(
+    (name: string, fallback: number) => {
+      const value = Number(valuesByName.get(name));
+      return valuesByName.has(name) && !isNaN(value) ? value : fallback;
+    },
+    [valuesByName]
+  );
+
+  return {
+    settings: data || [],
+    getValue,
+    getNumber,
+    isLoading,
+    refetch,
+  };
+}
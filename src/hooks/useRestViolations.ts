@@ -0,0 +1,40 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { indexRestViolations } from '@/utils/restPeriod';
+import { isValidDate } from '@/utils/security';
+
+export const REST_VIOLATIONS_QUERY_KEY = ['rest-violations'];
+
+/**
+ * Interjornada violations of an employee between two dates, checked by the
+ * database against the regular schedule and every overtime record
+ */
+export function useRestViolations(userId: string | undefined, from: string, to: string) {
+  const enabled = !!userId && isValidDate(from) && isValidDate(to) && from <= to;
+
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: [...REST_VIOLATIONS_QUERY_KEY, userId, from, to],
+    enabled,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('rest_period_violations', {
+        _from: from,
+        _to: to,
+        _user_id: userId,
+      });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const violations = useMemo(() => data ?? [], [data]);
+  const byRecordId = useMemo(() => indexRestViolations(violations), [violations]);
+
+  return {
+    violations,
+    byRecordId,
+    isLoading: enabled && isLoading,
+    refetch,
+  };
+}
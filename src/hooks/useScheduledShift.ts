@@ -0,0 +1,36 @@
+import { useQuery } from '@tanstack/react-query';
+import { addDays, format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { isValidDate } from '@/utils/security';
+import { shiftEndingOn } from '@/utils/workSchedules';
+
+export const SCHEDULED_SHIFT_QUERY_KEY = ['scheduled-shift'];
+
+/**
+ * The employee's scheduled shift ending on a date, from the assigned work
+ * schedule or the regular shift. Night shifts started the day before count.
+ */
+export function useScheduledShift(userId: string | undefined, date: string) {
+  const enabled = !!userId && isValidDate(date);
+
+  const { data, isLoading } = useQuery({
+    queryKey: [...SCHEDULED_SHIFT_QUERY_KEY, userId, date],
+    enabled,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('work_schedule_shifts', {
+        _from: format(addDays(parseISO(date), -1), 'yyyy-MM-dd'),
+        _to: date,
+        _user_id: userId,
+      });
+
+      if (error) throw error;
+      return shiftEndingOn(data || [], date) ?? null;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return {
+    shift: data ?? null,
+    isLoading: enabled && isLoading,
+  };
+}
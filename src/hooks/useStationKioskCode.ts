@@ -0,0 +1,38 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { KIOSK_CODE_ROTATION_SECONDS } from '@/utils/stationKiosk';
+
+export const STATION_KIOSK_CODE_QUERY_KEY = ['station-kiosk-code'];
+
+/**
+ * Current kiosk code of a station, fetched again as soon as it expires
+ */
+export function useStationKioskCode(stationId: string | undefined) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [...STATION_KIOSK_CODE_QUERY_KEY, stationId],
+    enabled: !!stationId,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('station_kiosk_code', {
+        _station_id: stationId as string,
+      });
+
+      if (error) throw error;
+      return data?.[0] ?? null;
+    },
+    // Clamped so a skewed tablet clock can neither stall nor flood the rotation
+    refetchInterval: (query) => {
+      const expiresAt = query.state.data?.expires_at;
+      const untilExpiry = expiresAt ? new Date(expiresAt).getTime() - Date.now() : 0;
+      return Math.min(Math.max(untilExpiry, 1000), KIOSK_CODE_ROTATION_SECONDS * 1000);
+    },
+    refetchIntervalInBackground: true,
+    retry: false,
+  });
+
+  return {
+    code: data?.code ?? null,
+    expiresAt: data?.expires_at ?? null,
+    isLoading: !!stationId && isLoading,
+    error,
+  };
+}
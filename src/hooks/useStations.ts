@@ -0,0 +1,48 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Station = Tables<'stations'>;
+
+export const STATIONS_QUERY_KEY = ['stations'];
+
+/**
+ * Stations of the network, used to tag records and filter the admin views
+ */
+export function useStations() {
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: STATIONS_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stations')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    },
+    staleTime: 60 * 60 * 1000,
+  });
+
+  const stationsById = useMemo(() => {
+    const map = new Map<string, Station>();
+    (data || []).forEach((station) => map.set(station.id, station));
+    return map;
+  }, [data]);
+
+  const activeStations = useMemo(() => (data || []).filter((station) => station.is_active), [data]);
+
+  const getStation = useCallback(
+    (id: string | null | undefined) => (id ? stationsById.get(id) : undefined),
+    [stationsById]
+  );
+
+  return {
+    stations: data || [],
+    activeStations,
+    getStation,
+    isLoading,
+    refetch,
+  };
+}
@@ -0,0 +1,48 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type WorkSchedule = Tables<'work_schedules'>;
+
+export const WORK_SCHEDULES_QUERY_KEY = ['work-schedules'];
+
+/**
+ * Schedule templates (escalas) assigned to employees, managed by admins
+ */
+export function useWorkSchedules() {
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: WORK_SCHEDULES_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('work_schedules')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    },
+    staleTime: 60 * 60 * 1000,
+  });
+
+  const schedulesById = useMemo(() => {
+    const map = new Map<string, WorkSchedule>();
+    (data || []).forEach((schedule) => map.set(schedule.id, schedule));
+    return map;
+  }, [data]);
+
+  const activeSchedules = useMemo(() => (data || []).filter((schedule) => schedule.is_active), [data]);
+
+  const getSchedule = useCallback(
+    (id: string | null | undefined) => (id ? schedulesById.get(id) : undefined),
+    [schedulesById]
+  );
+
+  return {
+    schedules: data || [],
+    activeSchedules,
+    getSchedule,
+    isLoading,
+    refetch,
+  };
+}
@@ -14,52 +14,864 @@ export type Database = {
   }
   public: {
     Tables: {
+      audit_logs: {
+        Row: {
+          action: string
+          created_at: string
+          id: string
+          ip_address: unknown | null
+          new_values: Json | null
+          old_values: Json | null
+          record_id: string | null
+          table_name: string | null
+          user_agent: string | null
+          user_id: string | null
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          id?: string
+          ip_address?: unknown | null
+          new_values?: Json | null
+          old_values?: Json | null
+          record_id?: string | null
+          table_name?: string | null
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: string
+          ip_address?: unknown | null
+          new_values?: Json | null
+          old_values?: Json | null
+          record_id?: string | null
+          table_name?: string | null
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_logs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      holidays: {
+        Row: {
+          city: string | null
+          created_at: string
+          date: string
+          id: string
+          is_active: boolean
+          is_movable: boolean
+          name: string
+          scope: Database["public"]["Enums"]["holiday_scope"]
+          state_code: string | null
+          updated_at: string
+        }
+        Insert: {
+          city?: string | null
+          created_at?: string
+          date: string
+          id?: string
+          is_active?: boolean
+          is_movable?: boolean
+          name: string
+          scope: Database["public"]["Enums"]["holiday_scope"]
+          state_code?: string | null
+          updated_at?: string
+        }
+        Update: {
+          city?: string | null
+          created_at?: string
+          date?: string
+          id?: string
+          is_active?: boolean
+          is_movable?: boolean
+          name?: string
+          scope?: Database["public"]["Enums"]["holiday_scope"]
+          state_code?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      hour_bank_entries: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          entry_date: string
+          entry_type: Database["public"]["Enums"]["hour_bank_entry_type"]
+          expires_on: string | null
+          id: string
+          minutes: number
+          overtime_record_id: string | null
+          payout_value: number | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          entry_date: string
+          entry_type: Database["public"]["Enums"]["hour_bank_entry_type"]
+          expires_on?: string | null
+          id?: string
+          minutes: number
+          overtime_record_id?: string | null
+          payout_value?: number | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          entry_date?: string
+          entry_type?: Database["public"]["Enums"]["hour_bank_entry_type"]
+          expires_on?: string | null
+          id?: string
+          minutes?: number
+          overtime_record_id?: string | null
+          payout_value?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hour_bank_entries_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hour_bank_entries_overtime_record_id_fkey"
+            columns: ["overtime_record_id"]
+            isOneToOne: true
+            referencedRelation: "overtime_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hour_bank_entries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hourly_rates: {
+        Row: {
+          base_salary: number | null
+          created_at: string
+          created_by: string | null
+          effective_from: string
+          has_periculosidade: boolean | null
+          hourly_rate: number
+          id: string
+          insalubridade_grade: Database["public"]["Enums"]["insalubridade_grade"] | null
+          monthly_divisor: number | null
+          user_id: string
+        }
+        Insert: {
+          base_salary?: number | null
+          created_at?: string
+          created_by?: string | null
+          effective_from: string
+          has_periculosidade?: boolean | null
+          hourly_rate: number
+          id?: string
+          insalubridade_grade?: Database["public"]["Enums"]["insalubridade_grade"] | null
+          monthly_divisor?: number | null
+          user_id: string
+        }
+        Update: {
+          base_salary?: number | null
+          created_at?: string
+          created_by?: string | null
+          effective_from?: string
+          has_periculosidade?: boolean | null
+          hourly_rate?: number
+          id?: string
+          insalubridade_grade?: Database["public"]["Enums"]["insalubridade_grade"] | null
+          monthly_divisor?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hourly_rates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hourly_rates_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      overtime_attachments: {
+        Row: {
+          created_at: string
+          file_name: string
+          id: string
+          mime_type: string
+          record_id: string
+          size_bytes: number
+          storage_path: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          file_name: string
+          id?: string
+          mime_type: string
+          record_id: string
+          size_bytes: number
+          storage_path: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          file_name?: string
+          id?: string
+          mime_type?: string
+          record_id?: string
+          size_bytes?: number
+          storage_path?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "overtime_attachments_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "overtime_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "overtime_attachments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      overtime_clock_sessions: {
+        Row: {
+          auto_closed: boolean
+          close_error: string | null
+          created_at: string
+          end_accuracy_m: number | null
+          end_latitude: number | null
+          end_longitude: number | null
+          ended_at: string | null
+          id: string
+          justification: string | null
+          reason_id: string
+          record_id: string | null
+          start_accuracy_m: number | null
+          start_latitude: number | null
+          start_longitude: number | null
+          started_at: string
+          station_id: string | null
+          updated_at: string
+          user_id: string
+          verified_at_station: boolean
+        }
+        Insert: {
+          auto_closed?: boolean
+          close_error?: string | null
+          created_at?: string
+          end_accuracy_m?: number | null
+          end_latitude?: number | null
+          end_longitude?: number | null
+          ended_at?: string | null
+          id?: string
+          justification?: string | null
+          reason_id: string
+          record_id?: string | null
+          start_accuracy_m?: number | null
+          start_latitude?: number | null
+          start_longitude?: number | null
+          started_at?: string
+          station_id?: string | null
+          updated_at?: string
+          user_id: string
+          verified_at_station?: boolean
+        }
+        Update: {
+          auto_closed?: boolean
+          close_error?: string | null
+          created_at?: string
+          end_accuracy_m?: number | null
+          end_latitude?: number | null
+          end_longitude?: number | null
+          ended_at?: string | null
+          id?: string
+          justification?: string | null
+          reason_id?: string
+          record_id?: string | null
+          start_accuracy_m?: number | null
+          start_latitude?: number | null
+          start_longitude?: number | null
+          started_at?: string
+          station_id?: string | null
+          updated_at?: string
+          user_id?: string
+          verified_at_station?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "overtime_clock_sessions_reason_id_fkey"
+            columns: ["reason_id"]
+            isOneToOne: false
+            referencedRelation: "overtime_reasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "overtime_clock_sessions_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: true
+            referencedRelation: "overtime_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "overtime_clock_sessions_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "stations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "overtime_clock_sessions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      overtime_limits: {
+        Row: {
+          created_at: string
+          daily_minutes: number | null
+          enforcement: Database["public"]["Enums"]["overtime_limit_enforcement"] | null
+          id: string
+          monthly_minutes: number | null
+          updated_at: string
+          user_id: string
+          weekly_minutes: number | null
+        }
+        Insert: {
+          created_at?: string
+          daily_minutes?: number | null
+          enforcement?: Database["public"]["Enums"]["overtime_limit_enforcement"] | null
+          id?: string
+          monthly_minutes?: number | null
+          updated_at?: string
+          user_id: string
+          weekly_minutes?: number | null
+        }
+        Update: {
+          created_at?: string
+          daily_minutes?: number | null
+          enforcement?: Database["public"]["Enums"]["overtime_limit_enforcement"] | null
+          id?: string
+          monthly_minutes?: number | null
+          updated_at?: string
+          user_id?: string
+          weekly_minutes?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "overtime_limits_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      overtime_reasons: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       overtime_records: {
+        Row: {
+          admin_changed_at: string | null
+          admin_changed_by: string | null
+          compensation: Database["public"]["Enums"]["compensation_mode"]
+          created_at: string
+          date: string
+          end_date: string
+          end_time: string
+          geofence_distance_m: number | null
+          geofence_status: Database["public"]["Enums"]["geofence_status"] | null
+          hourly_rate: number
+          id: string
+          justification: string | null
+          latitude: number | null
+          location_accuracy_m: number | null
+          longitude: number | null
+          lunch_discount: boolean
+          net_hours: number
+          night_minutes: number
+          night_premium_value: number
+          raw_minutes: number
+          reason_id: string
+          rejection_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          start_time: string
+          station_id: string | null
+          status: Database["public"]["Enums"]["overtime_status"]
+          time_policy: Database["public"]["Enums"]["time_adjustment_policy"]
+          total_hours: number
+          total_value: number
+          updated_at: string
+          user_id: string
+          verified_at_station: boolean
+        }
+        Insert: {
+          admin_changed_at?: string | null
+          admin_changed_by?: string | null
+          compensation?: Database["public"]["Enums"]["compensation_mode"]
+          created_at?: string
+          date: string
+          end_date?: string
+          end_time: string
+          geofence_distance_m?: number | null
+          geofence_status?: Database["public"]["Enums"]["geofence_status"] | null
+          hourly_rate?: number
+          id?: string
+          justification?: string | null
+          latitude?: number | null
+          location_accuracy_m?: number | null
+          longitude?: number | null
+          lunch_discount?: boolean
+          net_hours?: number
+          night_minutes?: number
+          night_premium_value?: number
+          raw_minutes?: number
+          reason_id: string
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_time: string
+          station_id?: string | null
+          status?: Database["public"]["Enums"]["overtime_status"]
+          time_policy?: Database["public"]["Enums"]["time_adjustment_policy"]
+          total_hours?: number
+          total_value?: number
+          updated_at?: string
+          user_id: string
+          verified_at_station?: boolean
+        }
+        Update: {
+          admin_changed_at?: string | null
+          admin_changed_by?: string | null
+          compensation?: Database["public"]["Enums"]["compensation_mode"]
+          created_at?: string
+          date?: string
+          end_date?: string
+          end_time?: string
+          geofence_distance_m?: number | null
+          geofence_status?: Database["public"]["Enums"]["geofence_status"] | null
+          hourly_rate?: number
+          id?: string
+          justification?: string | null
+          latitude?: number | null
+          location_accuracy_m?: number | null
+          longitude?: number | null
+          lunch_discount?: boolean
+          net_hours?: number
+          night_minutes?: number
+          night_premium_value?: number
+          raw_minutes?: number
+          reason_id?: string
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_time?: string
+          station_id?: string | null
+          status?: Database["public"]["Enums"]["overtime_status"]
+          time_policy?: Database["public"]["Enums"]["time_adjustment_policy"]
+          total_hours?: number
+          total_value?: number
+          updated_at?: string
+          user_id?: string
+          verified_at_station?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "overtime_records_admin_changed_by_fkey"
+            columns: ["admin_changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "overtime_records_reason_id_fkey"
+            columns: ["reason_id"]
+            isOneToOne: false
+            referencedRelation: "overtime_reasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "overtime_records_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "overtime_records_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "stations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "overtime_records_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll_period_snapshots: {
+        Row: {
+          created_at: string
+          full_name: string
+          hour_bank_minutes: number
+          id: string
+          night_minutes: number
+          night_premium_value: number
+          overtime_minutes: number
+          period_id: string
+          record_count: number
+          total_value: number
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          full_name: string
+          hour_bank_minutes: number
+          id?: string
+          night_minutes: number
+          night_premium_value: number
+          overtime_minutes: number
+          period_id: string
+          record_count: number
+          total_value: number
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          full_name?: string
+          hour_bank_minutes?: number
+          id?: string
+          night_minutes?: number
+          night_premium_value?: number
+          overtime_minutes?: number
+          period_id?: string
+          record_count?: number
+          total_value?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_period_snapshots_period_id_fkey"
+            columns: ["period_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_periods"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_period_snapshots_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll_periods: {
+        Row: {
+          closed_at: string | null
+          closed_by: string | null
+          created_at: string
+          ends_on: string
+          id: string
+          reopen_reason: string | null
+          reopened_at: string | null
+          reopened_by: string | null
+          starts_on: string
+          status: Database["public"]["Enums"]["payroll_period_status"]
+          updated_at: string
+        }
+        Insert: {
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          ends_on: string
+          id?: string
+          reopen_reason?: string | null
+          reopened_at?: string | null
+          reopened_by?: string | null
+          starts_on: string
+          status?: Database["public"]["Enums"]["payroll_period_status"]
+          updated_at?: string
+        }
+        Update: {
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          ends_on?: string
+          id?: string
+          reopen_reason?: string | null
+          reopened_at?: string | null
+          reopened_by?: string | null
+          starts_on?: string
+          status?: Database["public"]["Enums"]["payroll_period_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_periods_closed_by_fkey"
+            columns: ["closed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_periods_reopened_by_fkey"
+            columns: ["reopened_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll_settings: {
+        Row: {
+          created_at: string
+          description: string | null
+          effective_from: string | null
+          id: string
+          setting_name: string
+          setting_value: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          effective_from?: string | null
+          id?: string
+          setting_name: string
+          setting_value: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          effective_from?: string | null
+          id?: string
+          setting_name?: string
+          setting_value?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          base_salary: number | null
+          compensation_mode: Database["public"]["Enums"]["compensation_mode"]
+          cpf: string
+          created_at: string
+          email: string
+          full_name: string
+          has_periculosidade: boolean
+          hour_bank_validity_months: number
+          id: string
+          insalubridade_grade: Database["public"]["Enums"]["insalubridade_grade"]
+          monthly_divisor: number
+          regular_shift_end: string | null
+          regular_shift_start: string | null
+          updated_at: string
+          work_days: number[]
+        }
+        Insert: {
+          base_salary?: number | null
+          compensation_mode?: Database["public"]["Enums"]["compensation_mode"]
+          cpf: string
+          created_at?: string
+          email: string
+          full_name: string
+          has_periculosidade?: boolean
+          hour_bank_validity_months?: number
+          id: string
+          insalubridade_grade?: Database["public"]["Enums"]["insalubridade_grade"]
+          monthly_divisor?: number
+          regular_shift_end?: string | null
+          regular_shift_start?: string | null
+          updated_at?: string
+          work_days?: number[]
+        }
+        Update: {
+          base_salary?: number | null
+          compensation_mode?: Database["public"]["Enums"]["compensation_mode"]
+          cpf?: string
+          created_at?: string
+          email?: string
+          full_name?: string
+          has_periculosidade?: boolean
+          hour_bank_validity_months?: number
+          id?: string
+          insalubridade_grade?: Database["public"]["Enums"]["insalubridade_grade"]
+          monthly_divisor?: number
+          regular_shift_end?: string | null
+          regular_shift_start?: string | null
+          updated_at?: string
+          work_days?: number[]
+        }
+        Relationships: []
+      }
+      station_assignments: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          effective_from: string
+          id: string
+          station_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          effective_from: string
+          id?: string
+          station_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          effective_from?: string
+          id?: string
+          station_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "station_assignments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "station_assignments_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "stations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "station_assignments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      station_kiosk_secrets: {
+        Row: {
+          created_at: string
+          secret: string
+          station_id: string
+        }
+        Insert: {
+          created_at?: string
+          secret?: string
+          station_id: string
+        }
+        Update: {
+          created_at?: string
+          secret?: string
+          station_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "station_kiosk_secrets_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: true
+            referencedRelation: "stations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      station_managers: {
         Row: {
           created_at: string
-          date: string
-          end_time: string
-          hourly_rate: number
           id: string
-          lunch_discount: boolean
-          net_hours: number
-          start_time: string
-          total_hours: number
-          total_value: number
-          updated_at: string
+          station_id: string
           user_id: string
         }
         Insert: {
           created_at?: string
-          date: string
-          end_time: string
-          hourly_rate?: number
           id?: string
-          lunch_discount?: boolean
-          net_hours: number
-          start_time: string
-          total_hours: number
-          total_value: number
-          updated_at?: string
+          station_id: string
           user_id: string
         }
         Update: {
           created_at?: string
-          date?: string
-          end_time?: string
-          hourly_rate?: number
           id?: string
-          lunch_discount?: boolean
-          net_hours?: number
-          start_time?: string
-          total_hours?: number
-          total_value?: number
-          updated_at?: string
+          station_id?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "overtime_records_user_id_fkey"
+            foreignKeyName: "station_managers_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "stations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "station_managers_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -67,29 +879,41 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      stations: {
         Row: {
-          cpf: string
+          city: string | null
+          code: string | null
           created_at: string
-          email: string
-          full_name: string
+          geofence_radius_m: number
           id: string
+          is_active: boolean
+          latitude: number | null
+          longitude: number | null
+          name: string
           updated_at: string
         }
         Insert: {
-          cpf: string
+          city?: string | null
+          code?: string | null
           created_at?: string
-          email: string
-          full_name: string
-          id: string
+          geofence_radius_m?: number
+          id?: string
+          is_active?: boolean
+          latitude?: number | null
+          longitude?: number | null
+          name: string
           updated_at?: string
         }
         Update: {
-          cpf?: string
+          city?: string | null
+          code?: string | null
           created_at?: string
-          email?: string
-          full_name?: string
+          geofence_radius_m?: number
           id?: string
+          is_active?: boolean
+          latitude?: number | null
+          longitude?: number | null
+          name?: string
           updated_at?: string
         }
         Relationships: []
@@ -123,11 +947,219 @@ export type Database = {
           },
         ]
       }
+      work_schedule_assignments: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          effective_from: string
+          id: string
+          schedule_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          effective_from: string
+          id?: string
+          schedule_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          effective_from?: string
+          id?: string
+          schedule_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_schedule_assignments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_schedule_assignments_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "work_schedules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_schedule_assignments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_schedules: {
+        Row: {
+          break_minutes: number
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          pattern: Database["public"]["Enums"]["work_schedule_pattern"]
+          shift_end: string
+          shift_start: string
+          updated_at: string
+          work_days: number[]
+        }
+        Insert: {
+          break_minutes?: number
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          pattern: Database["public"]["Enums"]["work_schedule_pattern"]
+          shift_end: string
+          shift_start: string
+          updated_at?: string
+          work_days?: number[]
+        }
+        Update: {
+          break_minutes?: number
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          pattern?: Database["public"]["Enums"]["work_schedule_pattern"]
+          shift_end?: string
+          shift_start?: string
+          updated_at?: string
+          work_days?: number[]
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      adjust_overtime_minutes: {
+        Args: {
+          _other_minutes?: number
+          _policy: Database["public"]["Enums"]["time_adjustment_policy"]
+          _raw_minutes: number
+        }
+        Returns: number
+      }
+      calculate_hourly_base: {
+        Args: {
+          _base_salary: number
+          _date: string
+          _has_periculosidade: boolean
+          _insalubridade_grade: Database["public"]["Enums"]["insalubridade_grade"]
+          _monthly_divisor: number
+        }
+        Returns: number
+      }
+      can_delete_overtime_attachment: {
+        Args: {
+          _storage_path: string
+        }
+        Returns: boolean
+      }
+      can_review_overtime: {
+        Args: {
+          _reviewer_id: string
+          _station_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      cancel_overtime_clock: {
+        Args: never
+        Returns: undefined
+      }
+      check_overtime_limits: {
+        Args: {
+          _date: string
+          _end_date: string
+          _end_time: string
+          _exclude_id?: string
+          _lunch_discount: boolean
+          _start_time: string
+          _user_id: string
+        }
+        Returns: {
+          enforcement: Database["public"]["Enums"]["overtime_limit_enforcement"]
+          excess_minutes: number
+          limit_minutes: number
+          minutes: number
+          period: string
+          period_start: string
+        }[]
+      }
+      close_payroll_period: {
+        Args: {
+          _period_id: string
+        }
+        Returns: number
+      }
+      close_stale_overtime_clock: {
+        Args: never
+        Returns: number
+      }
+      distance_in_meters: {
+        Args: {
+          _lat1: number
+          _lat2: number
+          _lng1: number
+          _lng2: number
+        }
+        Returns: number
+      }
+      effective_overtime_limits: {
+        Args: {
+          _user_id: string
+        }
+        Returns: {
+          daily_minutes: number
+          enforcement: Database["public"]["Enums"]["overtime_limit_enforcement"]
+          monthly_minutes: number
+          weekly_minutes: number
+        }[]
+      }
+      geofence_status_at: {
+        Args: {
+          _latitude: number
+          _longitude: number
+          _station_id: string
+        }
+        Returns: Record<string, unknown>
+      }
+      get_hourly_base: {
+        Args: {
+          _date: string
+          _user_id: string
+        }
+        Returns: {
+          base_salary: number | null
+          has_periculosidade: boolean | null
+          hourly_rate: number
+          insalubridade_grade: Database["public"]["Enums"]["insalubridade_grade"] | null
+          monthly_divisor: number | null
+        }[]
+      }
+      get_hourly_rate: {
+        Args: {
+          _date: string
+          _user_id: string
+        }
+        Returns: number
+      }
+      get_station: {
+        Args: {
+          _date: string
+          _user_id: string
+        }
+        Returns: string
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -135,9 +1167,218 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_admin_change: {
+        Args: {
+          _owner_id: string
+        }
+        Returns: boolean
+      }
+      is_payroll_period_closed: {
+        Args: {
+          _date: string
+        }
+        Returns: boolean
+      }
+      manages_station: {
+        Args: {
+          _station_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      manages_user: {
+        Args: {
+          _manager_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      minimum_wage_on: {
+        Args: {
+          _date: string
+        }
+        Returns: number
+      }
+      overtime_limit_violations: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: {
+          excess_minutes: number
+          full_name: string
+          limit_minutes: number
+          minutes: number
+          period: string
+          period_start: string
+          user_id: string
+        }[]
+      }
+      overtime_minutes_by_day: {
+        Args: {
+          _date: string
+          _end_date: string
+          _end_time: string
+          _lunch_discount: boolean
+          _start_time: string
+        }
+        Returns: {
+          day: string
+          minutes: number
+        }[]
+      }
+      pay_out_hour_bank: {
+        Args: {
+          _description?: string
+          _minutes: number
+          _user_id: string
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          entry_date: string
+          entry_type: Database["public"]["Enums"]["hour_bank_entry_type"]
+          expires_on: string | null
+          id: string
+          minutes: number
+          overtime_record_id: string | null
+          payout_value: number | null
+          user_id: string
+        }
+      }
+      reopen_payroll_period: {
+        Args: {
+          _period_id: string
+          _reason: string
+        }
+        Returns: undefined
+      }
+      rest_period_violations: {
+        Args: {
+          _from: string
+          _to: string
+          _user_id?: string
+        }
+        Returns: {
+          full_name: string
+          overtime_record_ids: string[]
+          rest_end: string
+          rest_minutes: number
+          rest_start: string
+          user_id: string
+        }[]
+      }
+      review_overtime_records: {
+        Args: {
+          _ids: string[]
+          _reason?: string
+          _status: Database["public"]["Enums"]["overtime_status"]
+        }
+        Returns: number
+      }
+      schedule_adherence: {
+        Args: {
+          _from: string
+          _to: string
+        }
+        Returns: {
+          day_off_overtime_minutes: number
+          full_name: string
+          overlapping_minutes: number
+          overtime_minutes: number
+          planned_minutes: number
+          record_count: number
+          schedule_id: string | null
+          scheduled_days: number
+          station_id: string | null
+          user_id: string
+        }[]
+      }
+      set_station_manager: {
+        Args: {
+          _station_ids: string[]
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      start_overtime_clock: {
+        Args: {
+          _accuracy_m?: number
+          _justification?: string
+          _latitude?: number
+          _longitude?: number
+          _reason_id: string
+          _station_id?: string
+        }
+        Returns: string
+      }
+      start_overtime_clock_at_station: {
+        Args: {
+          _code: string
+          _justification?: string
+          _reason_id: string
+          _station_id: string
+        }
+        Returns: string
+      }
+      station_kiosk_code: {
+        Args: {
+          _station_id: string
+        }
+        Returns: {
+          code: string
+          expires_at: string
+        }[]
+      }
+      stop_overtime_clock: {
+        Args: {
+          _accuracy_m?: number
+          _justification?: string
+          _latitude?: number
+          _longitude?: number
+          _lunch_discount?: boolean
+          _reason_id?: string
+        }
+        Returns: string
+      }
+      stop_overtime_clock_at_station: {
+        Args: {
+          _code: string
+          _justification?: string
+          _lunch_discount?: boolean
+          _reason_id?: string
+          _station_id: string
+        }
+        Returns: string
+      }
+      work_schedule_shifts: {
+        Args: {
+          _from: string
+          _to: string
+          _user_id?: string
+        }
+        Returns: {
+          day: string
+          ends_at: string
+          planned_minutes: number
+          schedule_id: string | null
+          starts_at: string
+        }[]
+      }
     }
     Enums: {
-      app_role: "admin" | "employee"
+      app_role: "admin" | "employee" | "manager"
+      compensation_mode: "payment" | "hour_bank"
+      geofence_status: "inside" | "outside" | "no_location"
+      holiday_scope: "national" | "state" | "municipal"
+      hour_bank_entry_type: "credit" | "debit" | "adjustment" | "payout"
+      insalubridade_grade: "none" | "minimum" | "medium" | "maximum"
+      overtime_limit_enforcement: "warn" | "block"
+      overtime_status: "pending" | "approved" | "rejected"
+      payroll_period_status: "open" | "closed"
+      time_adjustment_policy: "exact" | "legal_tolerance" | "round_5" | "round_10" | "round_15"
+      work_schedule_pattern: "6x1" | "5x2" | "12x36" | "custom"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -265,7 +1506,17 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "employee"],
+      app_role: ["admin", "employee", "manager"],
+      compensation_mode: ["payment", "hour_bank"],
+      geofence_status: ["inside", "outside", "no_location"],
+      holiday_scope: ["national", "state", "municipal"],
+      hour_bank_entry_type: ["credit", "debit", "adjustment", "payout"],
+      insalubridade_grade: ["none", "minimum", "medium", "maximum"],
+      overtime_limit_enforcement: ["warn", "block"],
+      overtime_status: ["pending", "approved", "rejected"],
+      payroll_period_status: ["open", "closed"],
+      time_adjustment_policy: ["exact", "legal_tolerance", "round_5", "round_10", "round_15"],
+      work_schedule_pattern: ["6x1", "5x2", "12x36", "custom"],
     },
   },
 } as const
@@ -1,4 +1,5 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Layout } from '@/components/Layout';
@@ -23,7 +24,45 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AddOvertimeDialog } from '@/components/AddOvertimeDialog';
 import AnalyticsDashboard from '@/components/AnalyticsDashboard';
+import { ApprovalQueue } from '@/components/ApprovalQueue';
+import { AttachmentPreviewDialog } from '@/components/AttachmentPreviewDialog';
+import { DsrSummary } from '@/components/DsrSummary';
+import { HolidaysManager } from '@/components/HolidaysManager';
+import { HourlyRateHistory } from '@/components/HourlyRateHistory';
+import { HourBankManager } from '@/components/HourBankManager';
+import { HoursByReason } from '@/components/HoursByReason';
+import { MinimumWageHistory } from '@/components/MinimumWageHistory';
+import { PayrollPeriodsManager } from '@/components/PayrollPeriodsManager';
+import { PayrollSettingsManager } from '@/components/PayrollSettingsManager';
+import { OvertimeRecordActions } from '@/components/OvertimeRecordActions';
+import { OvertimeStatusBadge } from '@/components/OvertimeStatusBadge';
+import { RegularScheduleForm } from '@/components/RegularScheduleForm';
+import { GeofenceBadge } from '@/components/GeofenceBadge';
+import { RestViolationBadge } from '@/components/RestViolationBadge';
+import { RestViolationsReport } from '@/components/RestViolationsReport';
+import { OvertimeLimitsForm } from '@/components/OvertimeLimitsForm';
+import { OvertimeLimitViolationsReport } from '@/components/OvertimeLimitViolationsReport';
+import { OvertimeReasonFilter } from '@/components/OvertimeReasonFilter';
+import { StationVerificationFilter } from '@/components/StationVerificationFilter';
+import { OvertimeReasonsManager } from '@/components/OvertimeReasonsManager';
+import { SalaryComponentsForm } from '@/components/SalaryComponentsForm';
+import { ScheduleAdherenceReport } from '@/components/ScheduleAdherenceReport';
+import { StationAssignmentHistory } from '@/components/StationAssignmentHistory';
+import { StationComparison } from '@/components/StationComparison';
+import { StationFilter } from '@/components/StationFilter';
+import { StationManagerForm } from '@/components/StationManagerForm';
+import { StationsManager } from '@/components/StationsManager';
+import { WorkScheduleAssignmentHistory } from '@/components/WorkScheduleAssignmentHistory';
+import { WorkSchedulesManager } from '@/components/WorkSchedulesManager';
+import { DAY_RECORDED_MINUTES_QUERY_KEY } from '@/hooks/useDayRecordedMinutes';
+import { HOUR_BANK_QUERY_KEY } from '@/hooks/useHourBank';
+import { useHolidays } from '@/hooks/useHolidays';
+import type { OvertimeAttachment } from '@/hooks/useOvertimeAttachments';
+import { useOvertimeReasons } from '@/hooks/useOvertimeReasons';
+import { REST_VIOLATIONS_QUERY_KEY, useRestViolations } from '@/hooks/useRestViolations';
+import { useStations } from '@/hooks/useStations';
 import { 
   Users, 
   Clock, 
@@ -32,36 +71,81 @@ import {
   Download, 
   Search,
   Calendar,
+  CalendarDays,
   User,
-  BarChart3
+  BarChart3,
+  Settings,
+  AlertTriangle,
+  ClipboardCheck,
+  Wallet
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { useNavigate } from 'react-router-dom';
+import type { InsalubridadeGrade } from '@/utils/salary';
+import { OVERTIME_STATUS_LABELS, summarizeByStatus, type ApprovalRecord, type OvertimeStatus } from '@/utils/approval';
+import { COMPENSATION_MODE_LABELS, type CompensationMode } from '@/utils/hourBank';
+import { allocateDsrByRecord, summarizeDsrByMonth } from '@/utils/dsr';
+import { hoursToMinutes, minutesToHours, sumHours, sumMoney } from '@/utils/money';
+import { formatMinutes } from '@/utils/overtime';
+import type { GeofenceStatus } from '@/utils/geolocation';
+import { ALL_REASONS } from '@/utils/overtimeReasons';
+import { ALL_VERIFICATIONS, StationVerificationFilter as VerificationFilter } from '@/utils/stationKiosk';
+import { ALL_STATIONS, matchesStation, stationsOnDate } from '@/utils/stations';
+import { TIME_ADJUSTMENT_POLICY_LABELS, type TimeAdjustmentPolicy } from '@/utils/timeAdjustment';
 
 interface Profile {
   id: string;
   full_name: string;
   email: string;
   cpf: string;
+  base_salary: number | null;
+  has_periculosidade: boolean;
+  insalubridade_grade: InsalubridadeGrade;
+  monthly_divisor: number;
+  compensation_mode: CompensationMode;
+  hour_bank_validity_months: number;
+  regular_shift_start: string | null;
+  regular_shift_end: string | null;
+  work_days: number[];
 }
 
 interface OvertimeRecord {
   id: string;
   date: string;
+  end_date: string;
   start_time: string;
   end_time: string;
   total_hours: number;
   lunch_discount: boolean;
   net_hours: number;
   total_value: number;
+  night_minutes: number;
+  night_premium_value: number;
+  compensation: CompensationMode;
+  time_policy: TimeAdjustmentPolicy;
+  raw_minutes: number;
+  status: OvertimeStatus;
+  rejection_reason: string | null;
+  station_id: string | null;
+  reason_id: string;
+  justification: string | null;
+  verified_at_station: boolean;
+  geofence_status: GeofenceStatus | null;
+  geofence_distance_m: number | null;
   user_id: string;
+  admin_changed_by: string | null;
+  admin_changed_at: string | null;
   created_at: string;
+  overtime_attachments: Pick<OvertimeAttachment, 'id' | 'file_name' | 'mime_type' | 'size_bytes' | 'storage_path'>[];
 }
 
 interface EmployeeWithStats extends Profile {
+  stationId: string | null;
   totalHours: number;
   totalValue: number;
+  pendingHours: number;
+  pendingValue: number;
   recordCount: number;
 }
 
@@ -70,24 +154,35 @@ interface TopEmployee {
   full_name: string;
   totalHours: number;
   totalValue: number;
+  pendingHours: number;
 }
 
 export default function Admin() {
   const { isAdmin } = useAuth();
+  const { getHoliday, isHoliday } = useHolidays();
+  const { getStation } = useStations();
+  const { getReason } = useOvertimeReasons();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const [employees, setEmployees] = useState<EmployeeWithStats[]>([]);
   const [selectedEmployee, setSelectedEmployee] = useState<string>('');
   const [records, setRecords] = useState<OvertimeRecord[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [dateFilter, setDateFilter] = useState('');
+  const [stationFilter, setStationFilter] = useState(ALL_STATIONS);
+  const [reasonFilter, setReasonFilter] = useState(ALL_REASONS);
+  const [verificationFilter, setVerificationFilter] = useState<VerificationFilter>(ALL_VERIFICATIONS);
   const [stats, setStats] = useState({
     totalEmployees: 0,
     totalHours: 0,
     totalValue: 0,
+    pendingHours: 0,
+    pendingValue: 0,
     averageHours: 0,
   });
   const [topEmployees, setTopEmployees] = useState<TopEmployee[]>([]);
+  const [ratesRefreshKey, setRatesRefreshKey] = useState(0);
 
   useEffect(() => {
     if (!isAdmin) {
@@ -112,7 +207,7 @@ export default function Admin() {
     }
   };
 
-  const fetchEmployees = async () => {
+  const fetchEmployees = async (station = stationFilter) => {
     try {
       const { data: profiles, error: profilesError } = await supabase
         .from('profiles')
@@ -123,64 +218,98 @@ export default function Admin() {
 
       const { data: records, error: recordsError } = await supabase
         .from('overtime_records')
-        .select('user_id, net_hours, total_value');
+        .select('user_id, station_id, net_hours, total_value, compensation, status');
 
       if (recordsError) throw recordsError;
 
+      const { data: assignments, error: assignmentsError } = await supabase
+        .from('station_assignments')
+        .select('user_id, station_id, effective_from');
+
+      if (assignmentsError) throw assignmentsError;
+
+      const currentStations = stationsOnDate(assignments || [], format(new Date(), 'yyyy-MM-dd'));
+      // Com filtro, só contam os lançamentos trabalhados no posto
+      const stationRecords = (records || []).filter(r => matchesStation(r.station_id, station));
+
       // Calcular estatísticas por funcionário
       const employeeStats = (profiles || []).map(profile => {
-        const employeeRecords = (records || []).filter(r => r.user_id === profile.id);
-        const totalHours = employeeRecords.reduce((sum, r) => sum + Number(r.net_hours), 0);
-        const totalValue = employeeRecords.reduce((sum, r) => sum + Number(r.total_value), 0);
+        const employeeRecords = stationRecords.filter(r => r.user_id === profile.id);
+        // Totais aprovados; pendentes à parte e rejeitados fora da conta
+        const totals = summarizeByStatus(employeeRecords);
         
         return {
           ...profile,
-          totalHours: Math.round(totalHours * 100) / 100,
-          totalValue: Math.round(totalValue * 100) / 100,
+          stationId: currentStations.get(profile.id) ?? null,
+          totalHours: totals.approvedHours,
+          totalValue: totals.approvedValue,
+          pendingHours: totals.pendingHours,
+          pendingValue: totals.pendingValue,
           recordCount: employeeRecords.length,
         };
       });
 
-      setEmployees(employeeStats);
+      // Funcionários lotados no posto ou que fizeram horas extras nele
+      setEmployees(employeeStats.filter(employee =>
+        matchesStation(employee.stationId, station) || employee.recordCount > 0
+      ));
     } catch (error) {
       console.error('Error fetching employees:', error);
     }
   };
 
-  const fetchGlobalStats = async () => {
+  const fetchGlobalStats = async (station = stationFilter) => {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('overtime_records')
-        .select('net_hours, total_value');
+        .select('net_hours, total_value, compensation, status');
+
+      if (station !== ALL_STATIONS) {
+        query = query.eq('station_id', station);
+      }
+
+      const { data, error } = await query;
 
       if (error) throw error;
 
-      const totalHours = (data || []).reduce((sum, r) => sum + Number(r.net_hours), 0);
-      const totalValue = (data || []).reduce((sum, r) => sum + Number(r.total_value), 0);
+      const totals = summarizeByStatus(data || []);
+      const totalHours = totals.approvedHours;
+      const totalValue = totals.approvedValue;
       const totalEmployees = employees.length;
-      const averageHours = totalEmployees > 0 ? totalHours / totalEmployees : 0;
+      const averageHours = totalEmployees > 0 ? minutesToHours((totalHours * 60) / totalEmployees) : 0;
 
       setStats({
         totalEmployees,
-        totalHours: Math.round(totalHours * 100) / 100,
-        totalValue: Math.round(totalValue * 100) / 100,
-        averageHours: Math.round(averageHours * 100) / 100,
+        totalHours,
+        totalValue,
+        pendingHours: totals.pendingHours,
+        pendingValue: totals.pendingValue,
+        averageHours,
       });
     } catch (error) {
       console.error('Error fetching stats:', error);
     }
   };
 
-  const fetchTopEmployees = async () => {
+  const fetchTopEmployees = async (station = stationFilter) => {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('overtime_records')
         .select(`
           user_id,
           net_hours,
           total_value,
-          profiles!inner(full_name)
-        `);
+          compensation,
+          status,
+          profiles!overtime_records_user_id_fkey!inner(full_name)
+        `)
+        .neq('status', 'rejected');
+
+      if (station !== ALL_STATIONS) {
+        query = query.eq('station_id', station);
+      }
+
+      const { data, error } = await query;
 
       if (error) throw error;
 
@@ -191,22 +320,24 @@ export default function Admin() {
           acc[userId] = {
             id: userId,
             full_name: record.profiles.full_name,
-            totalHours: 0,
-            totalValue: 0,
+            records: [],
           };
         }
-        acc[userId].totalHours += Number(record.net_hours);
-        acc[userId].totalValue += Number(record.total_value);
+        acc[userId].records.push(record);
         return acc;
       }, {});
 
       // Converter para array e ordenar por horas
-      const topEmployeesList = Object.values(employeeTotals)
-        .map((emp: any) => ({
-          ...emp,
-          totalHours: Math.round(emp.totalHours * 100) / 100,
-          totalValue: Math.round(emp.totalValue * 100) / 100,
-        }))
+      const topEmployeesList = Object.values<{ id: string; full_name: string; records: ApprovalRecord[] }>(employeeTotals)
+        .map(({ records, ...emp }) => {
+          const totals = summarizeByStatus(records);
+          return {
+            ...emp,
+            totalHours: totals.approvedHours,
+            totalValue: totals.approvedValue,
+            pendingHours: totals.pendingHours,
+          };
+        })
         .sort((a: any, b: any) => b.totalHours - a.totalHours)
         .slice(0, 5);
 
@@ -216,11 +347,17 @@ export default function Admin() {
     }
   };
 
-  const fetchEmployeeRecords = async (userId: string, dateFilter?: string) => {
+  const fetchEmployeeRecords = async (
+    userId: string,
+    dateFilter?: string,
+    station = stationFilter,
+    reason = reasonFilter,
+    verification = verificationFilter
+  ) => {
     try {
       let query = supabase
         .from('overtime_records')
-        .select('*')
+        .select('*, overtime_attachments(id, file_name, mime_type, size_bytes, storage_path)')
         .eq('user_id', userId)
         .order('date', { ascending: false });
 
@@ -231,6 +368,18 @@ export default function Admin() {
         query = query.gte('date', startDate).lte('date', endDate);
       }
 
+      if (station !== ALL_STATIONS) {
+        query = query.eq('station_id', station);
+      }
+
+      if (reason !== ALL_REASONS) {
+        query = query.eq('reason_id', reason);
+      }
+
+      if (verification !== ALL_VERIFICATIONS) {
+        query = query.eq('verified_at_station', verification === 'verified');
+      }
+
       const { data, error } = await query;
 
       if (error) throw error;
@@ -240,6 +389,17 @@ export default function Admin() {
     }
   };
 
+  // Lançamentos feitos pelo administrador mudam totais, banco de horas e interjornada
+  const refreshEmployeeRecords = () => {
+    fetchAllData();
+    if (selectedEmployee) {
+      fetchEmployeeRecords(selectedEmployee, dateFilter);
+    }
+    queryClient.invalidateQueries({ queryKey: HOUR_BANK_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: REST_VIOLATIONS_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: DAY_RECORDED_MINUTES_QUERY_KEY });
+  };
+
   const handleEmployeeChange = (value: string) => {
     setSelectedEmployee(value);
     if (value) {
@@ -256,19 +416,98 @@ export default function Admin() {
     }
   };
 
+  const handleReasonFilterChange = (value: string) => {
+    setReasonFilter(value);
+    if (selectedEmployee) {
+      fetchEmployeeRecords(selectedEmployee, dateFilter, stationFilter, value);
+    }
+  };
+
+  const handleVerificationFilterChange = (value: VerificationFilter) => {
+    setVerificationFilter(value);
+    if (selectedEmployee) {
+      fetchEmployeeRecords(selectedEmployee, dateFilter, stationFilter, reasonFilter, value);
+    }
+  };
+
+  const handleStationFilterChange = (value: string) => {
+    setStationFilter(value);
+    fetchEmployees(value);
+    fetchGlobalStats(value);
+    fetchTopEmployees(value);
+    if (selectedEmployee) {
+      fetchEmployeeRecords(selectedEmployee, dateFilter, value);
+    }
+  };
+
   const exportEmployeeData = () => {
     if (!selectedEmployeeData || records.length === 0) return;
 
+    // DSR repartido entre os lançamentos pagos e aprovados: a coluna soma exatamente o DSR do mês
+    const approvedRecords = records.filter(record => record.status === 'approved');
+    const pendingRecords = records.filter(record => record.status === 'pending');
+    const paidRecords = approvedRecords.filter(record => record.compensation === 'payment');
+    const dsrByRecord = allocateDsrByRecord(paidRecords, isHoliday);
+
     const csvContent = [
-      ['Data', 'Período', 'Total Horas', 'Desconto Almoço', 'Horas Válidas', 'Valor'],
+      ['Data', 'Posto', 'Verificado no Posto', 'Motivo', 'Justificativa', 'Período', 'Total Horas', 'Desconto Almoço', 'Horas Válidas', 'Horas Noturnas', 'Adicional Noturno', 'Compensação', 'Apuração', 'Status', 'Valor', 'DSR'],
       ...records.map(record => [
         formatDate(record.date),
-        `${formatTime(record.start_time)} - ${formatTime(record.end_time)}`,
+        getStation(record.station_id)?.name ?? '',
+        record.verified_at_station ? 'Sim' : 'Não',
+        getReason(record.reason_id)?.name ?? '',
+        `"${(record.justification ?? '').replace(/"/g, '""')}"`,
+        formatPeriod(record),
         record.total_hours.toString(),
         record.lunch_discount ? 'Sim' : 'Não',
         record.net_hours.toString(),
-        record.total_value.toString()
-      ])
+        (record.night_minutes / 60).toFixed(2),
+        record.night_premium_value.toString(),
+        COMPENSATION_MODE_LABELS[record.compensation],
+        TIME_ADJUSTMENT_POLICY_LABELS[record.time_policy],
+        OVERTIME_STATUS_LABELS[record.status],
+        record.total_value.toString(),
+        (dsrByRecord.get(record) ?? 0).toFixed(2)
+      ]),
+      // Linhas de totais: aprovados são devidos, pendentes aguardam revisão
+      [
+        'TOTAL APROVADO',
+        '',
+        '',
+        '',
+        '',
+        '',
+        sumHours(approvedRecords.map(record => record.total_hours)).toFixed(2),
+        '',
+        sumHours(approvedRecords.map(record => record.net_hours)).toFixed(2),
+        '',
+        sumMoney(approvedRecords.map(record => record.night_premium_value)).toFixed(2),
+        '',
+        '',
+        '',
+        sumMoney(paidRecords.map(record => record.total_value)).toFixed(2),
+        sumMoney([...dsrByRecord.values()]).toFixed(2)
+      ],
+      [
+        'TOTAL PENDENTE',
+        '',
+        '',
+        '',
+        '',
+        '',
+        sumHours(pendingRecords.map(record => record.total_hours)).toFixed(2),
+        '',
+        sumHours(pendingRecords.map(record => record.net_hours)).toFixed(2),
+        '',
+        sumMoney(pendingRecords.map(record => record.night_premium_value)).toFixed(2),
+        '',
+        '',
+        '',
+        sumMoney(
+          pendingRecords.filter(record => record.compensation === 'payment').map(record => record.total_value)
+        ).toFixed(2),
+        ''
+      ]
     ].map(row => row.join(',')).join('\n');
 
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
@@ -286,6 +525,12 @@ export default function Admin() {
     return time.substring(0, 5);
   };
 
+  const formatPeriod = (record: OvertimeRecord) => {
+    const period = `${formatTime(record.start_time)} - ${formatTime(record.end_time)}`;
+    // Turnos que atravessam a meia-noite terminam no dia seguinte
+    return record.end_date !== record.date ? `${period} (+1 dia)` : period;
+  };
+
   const formatDate = (dateString: string) => {
     return format(new Date(dateString + 'T00:00:00'), 'dd/MM/yyyy', { locale: ptBR });
   };
@@ -298,6 +543,27 @@ export default function Admin() {
 
   const selectedEmployeeData = employees.find(e => e.id === selectedEmployee);
 
+  const analyticsEmployees = useMemo(
+    () => employees.map(employee => ({ ...employee, stationName: getStation(employee.stationId)?.name ?? '' })),
+    [employees, getStation]
+  );
+
+  // Interjornada no intervalo dos lançamentos exibidos (ordenados do mais recente)
+  const { byRecordId: restViolations } = useRestViolations(
+    selectedEmployee || undefined,
+    records.length > 0 ? records[records.length - 1].date : '',
+    records.length > 0 ? records[0].date : ''
+  );
+
+  // Reflexo no DSR apenas sobre horas extras pagas e aprovadas
+  const dsrSummaries = useMemo(
+    () => summarizeDsrByMonth(
+      records.filter(r => r.compensation === 'payment' && r.status === 'approved'),
+      isHoliday
+    ),
+    [records, isHoliday]
+  );
+
   if (isLoading) {
     return (
       <Layout>
@@ -315,16 +581,20 @@ export default function Admin() {
     <Layout>
       <div className="space-y-6">
         {/* Header */}
-        <div>
-          <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold tracking-tight">Dashboard Administrativo</h2>
-          <p className="text-muted-foreground mt-1 text-sm">
-            Visão geral e gestão de dados de todos os funcionários
-          </p>
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+          <div>
+            <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold tracking-tight">Dashboard Administrativo</h2>
+            <p className="text-muted-foreground mt-1 text-sm">
+              Visão geral e gestão de dados de todos os funcionários
+            </p>
+          </div>
+          {/* Filtro de posto aplicado a todas as abas */}
+          <StationFilter value={stationFilter} onChange={handleStationFilterChange} className="sm:w-56" />
         </div>
 
         {/* Tabs Navigation */}
         <Tabs defaultValue="analytics" className="w-full">
-          <TabsList className="grid w-full grid-cols-3 h-auto">
+          <TabsList className="grid w-full grid-cols-8 h-auto">
             <TabsTrigger value="analytics" className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 py-2 px-2 text-xs sm:text-sm">
               <BarChart3 className="h-3 w-3 sm:h-4 sm:w-4" />
               <span className="hidden sm:inline">Analytics</span>
@@ -340,6 +610,31 @@ export default function Admin() {
               <span className="hidden sm:inline">Gerenciamento</span>
               <span className="sm:hidden">Gestão</span>
             </TabsTrigger>
+            <TabsTrigger value="approvals" className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 py-2 px-2 text-xs sm:text-sm">
+              <ClipboardCheck className="h-3 w-3 sm:h-4 sm:w-4" />
+              <span className="hidden sm:inline">Aprovações</span>
+              <span className="sm:hidden">Aprov.</span>
+            </TabsTrigger>
+            <TabsTrigger value="payroll" className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 py-2 px-2 text-xs sm:text-sm">
+              <Wallet className="h-3 w-3 sm:h-4 sm:w-4" />
+              <span className="hidden sm:inline">Folha</span>
+              <span className="sm:hidden">Folha</span>
+            </TabsTrigger>
+            <TabsTrigger value="holidays" className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 py-2 px-2 text-xs sm:text-sm">
+              <CalendarDays className="h-3 w-3 sm:h-4 sm:w-4" />
+              <span className="hidden sm:inline">Feriados</span>
+              <span className="sm:hidden">Feriados</span>
+            </TabsTrigger>
+            <TabsTrigger value="compliance" className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 py-2 px-2 text-xs sm:text-sm">
+              <AlertTriangle className="h-3 w-3 sm:h-4 sm:w-4" />
+              <span className="hidden sm:inline">Conformidade</span>
+              <span className="sm:hidden">Conform.</span>
+            </TabsTrigger>
+            <TabsTrigger value="settings" className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 py-2 px-2 text-xs sm:text-sm">
+              <Settings className="h-3 w-3 sm:h-4 sm:w-4" />
+              <span className="hidden sm:inline">Configurações</span>
+              <span className="sm:hidden">Config.</span>
+            </TabsTrigger>
           </TabsList>
 
           {/* Analytics Tab */}
@@ -347,13 +642,18 @@ export default function Admin() {
             <AnalyticsDashboard
               totalHours={stats.totalHours}
               totalValue={stats.totalValue}
+              pendingHours={stats.pendingHours}
+              pendingValue={stats.pendingValue}
               totalEmployees={stats.totalEmployees}
               averageHours={stats.averageHours}
-              employees={employees}
+              employees={analyticsEmployees}
               onGenerateReport={() => {
                 console.log('Relatório gerado com sucesso!');
               }}
             />
+            <StationComparison />
+            <ScheduleAdherenceReport stationId={stationFilter} />
+            <HoursByReason stationId={stationFilter} />
           </TabsContent>
 
           {/* Overview Tab */}
@@ -383,7 +683,9 @@ export default function Admin() {
                     {stats.totalHours.toFixed(2)}h
                   </div>
                   <p className="text-xs text-muted-foreground mt-1">
-                    Horas extras acumuladas
+                    {stats.pendingHours > 0
+                      ? `Aprovadas • ${stats.pendingHours.toFixed(2)}h pendentes`
+                      : 'Horas extras aprovadas'}
                   </p>
                 </CardContent>
           </Card>
@@ -398,7 +700,9 @@ export default function Admin() {
                     R$ {stats.totalValue.toFixed(2)}
                   </div>
                   <p className="text-xs text-muted-foreground mt-1">
-                    Valor acumulado geral
+                    {stats.pendingValue > 0
+                      ? `Aprovado • R$ ${stats.pendingValue.toFixed(2)} pendentes`
+                      : 'Valor aprovado geral'}
                   </p>
                 </CardContent>
           </Card>
@@ -444,6 +748,7 @@ export default function Admin() {
                             <p className="font-medium text-sm sm:text-base truncate">{employee.full_name}</p>
                             <p className="text-xs text-muted-foreground">
                               {employee.totalHours.toFixed(2)}h • R$ {employee.totalValue.toFixed(2)}
+                              {employee.pendingHours > 0 && ` • ${employee.pendingHours.toFixed(2)}h pendentes`}
                             </p>
                           </div>
                         </div>
@@ -491,6 +796,7 @@ export default function Admin() {
                           <TableHead className="text-xs sm:text-sm">Nome</TableHead>
                           <TableHead className="text-xs sm:text-sm hidden sm:table-cell">CPF</TableHead>
                           <TableHead className="text-xs sm:text-sm hidden md:table-cell">Email</TableHead>
+                          <TableHead className="text-xs sm:text-sm hidden lg:table-cell">Posto</TableHead>
                           <TableHead className="text-right text-xs sm:text-sm">Horas</TableHead>
                           <TableHead className="text-right text-xs sm:text-sm">Valor</TableHead>
                           <TableHead className="text-center text-xs sm:text-sm">Ações</TableHead>
@@ -507,8 +813,16 @@ export default function Admin() {
                             </TableCell>
                             <TableCell className="hidden sm:table-cell text-xs sm:text-sm">{employee.cpf}</TableCell>
                             <TableCell className="hidden md:table-cell text-xs sm:text-sm">{employee.email}</TableCell>
+                            <TableCell className="hidden lg:table-cell text-xs sm:text-sm">
+                              {getStation(employee.stationId)?.name ?? '—'}
+                            </TableCell>
                             <TableCell className="text-right font-semibold text-primary text-xs sm:text-sm">
                               {employee.totalHours.toFixed(2)}h
+                              {employee.pendingHours > 0 && (
+                                <span className="block text-xs font-normal text-muted-foreground">
+                                  +{employee.pendingHours.toFixed(2)}h pendentes
+                                </span>
+                              )}
                             </TableCell>
                             <TableCell className="text-right font-bold text-success text-xs sm:text-sm">
                               R$ {employee.totalValue.toFixed(2)}
@@ -546,6 +860,11 @@ export default function Admin() {
                       </CardDescription>
                     </div>
                     <div className="flex items-center space-x-2">
+                      <AddOvertimeDialog
+                        employees={employees}
+                        defaultEmployeeId={selectedEmployee}
+                        onSuccess={refreshEmployeeRecords}
+                      />
                       <Button
                         variant="outline"
                         size="sm"
@@ -572,16 +891,30 @@ export default function Admin() {
                           className="w-32 sm:w-40 text-xs sm:text-sm"
                         />
                       </div>
+                      <OvertimeReasonFilter
+                        value={reasonFilter}
+                        onChange={handleReasonFilterChange}
+                        className="sm:w-56"
+                      />
+                      <StationVerificationFilter
+                        value={verificationFilter}
+                        onChange={handleVerificationFilterChange}
+                        className="sm:w-56"
+                      />
                       <Button
                         variant="outline"
                         size="sm"
                         onClick={() => {
                           setDateFilter('');
-                          handleDateFilterChange('');
+                          setReasonFilter(ALL_REASONS);
+                          setVerificationFilter(ALL_VERIFICATIONS);
+                          if (selectedEmployee) {
+                            fetchEmployeeRecords(selectedEmployee, '', stationFilter, ALL_REASONS, ALL_VERIFICATIONS);
+                          }
                         }}
                         className="text-xs"
                       >
-                        Limpar Filtro
+                        Limpar Filtros
                       </Button>
                     </div>
 
@@ -605,13 +938,32 @@ export default function Admin() {
                       </div>
                     </div>
 
+                    {/* Composição salarial, valor/hora e reajustes */}
+                    <SalaryComponentsForm
+                      profile={selectedEmployeeData}
+                      onSaved={() => {
+                        fetchEmployees();
+                        setRatesRefreshKey((key) => key + 1);
+                      }}
+                    />
+                    <HourlyRateHistory userId={selectedEmployee} refreshKey={ratesRefreshKey} />
+                    <StationAssignmentHistory userId={selectedEmployee} onChanged={fetchEmployees} />
+                    <StationManagerForm userId={selectedEmployee} />
+                    <HourBankManager userId={selectedEmployee} onChanged={fetchEmployees} />
+                    <OvertimeLimitsForm userId={selectedEmployee} />
+                    <WorkScheduleAssignmentHistory userId={selectedEmployee} />
+                    <RegularScheduleForm profile={selectedEmployeeData} onSaved={fetchEmployees} />
+                    <DsrSummary summaries={dsrSummaries} />
+
                     {/* Tabela de Lançamentos */}
               {records.length === 0 ? (
                 <div className="text-center py-8 text-muted-foreground">
                         <Calendar className="h-12 w-12 mx-auto mb-3 opacity-50" />
                         <p>Nenhum registro encontrado</p>
                         <p className="text-sm mt-1">
-                          {dateFilter ? 'Tente alterar o filtro de data' : 'Este funcionário ainda não possui lançamentos'}
+                          {dateFilter || reasonFilter !== ALL_REASONS || verificationFilter !== ALL_VERIFICATIONS
+                            ? 'Tente alterar os filtros'
+                            : 'Este funcionário ainda não possui lançamentos'}
                         </p>
                 </div>
               ) : (
@@ -620,11 +972,18 @@ export default function Admin() {
                     <TableHeader>
                       <TableRow>
                         <TableHead>Data</TableHead>
+                        <TableHead>Posto</TableHead>
+                        <TableHead>Motivo</TableHead>
                         <TableHead>Período</TableHead>
                         <TableHead>Total Horas</TableHead>
                         <TableHead>Desconto Almoço</TableHead>
                         <TableHead>Horas Válidas</TableHead>
+                        <TableHead>Horas Noturnas</TableHead>
+                        <TableHead>Adic. Noturno</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Anexos</TableHead>
                         <TableHead className="text-right">Valor</TableHead>
+                        <TableHead className="text-center">Ações</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -632,12 +991,61 @@ export default function Admin() {
                         <TableRow key={record.id}>
                           <TableCell className="font-medium">
                             {formatDate(record.date)}
+                            {getHoliday(record.date) && (
+                              <Badge variant="destructive" className="ml-2 text-xs" title={getHoliday(record.date)?.name}>
+                                Feriado
+                              </Badge>
+                            )}
+                            <RestViolationBadge violation={restViolations.get(record.id)} className="ml-2" />
+                            <GeofenceBadge
+                              status={record.geofence_status}
+                              distance={record.geofence_distance_m}
+                              className="ml-2"
+                            />
+                            {record.admin_changed_at && (
+                              <Badge
+                                variant="outline"
+                                className="ml-2 text-xs"
+                                title={`Alterado pelo administrador em ${format(new Date(record.admin_changed_at), 'dd/MM/yyyy HH:mm', { locale: ptBR })}`}
+                              >
+                                Ajustado pelo admin
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {getStation(record.station_id)?.name ?? '—'}
+                            {record.verified_at_station && (
+                              <Badge
+                                variant="outline"
+                                className="ml-2 text-xs border-success text-success"
+                                title="Início e fim marcados com o QR code do posto"
+                              >
+                                Verificado no posto
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="max-w-[220px]">
+                            {getReason(record.reason_id)?.name ?? '—'}
+                            {record.justification && (
+                              <span className="block text-xs text-muted-foreground truncate" title={record.justification}>
+                                {record.justification}
+                              </span>
+                            )}
                           </TableCell>
                           <TableCell>
-                            {formatTime(record.start_time)} - {formatTime(record.end_time)}
+                            {formatPeriod(record)}
                           </TableCell>
                           <TableCell>
                             {Number(record.total_hours).toFixed(2)}h
+                            {/* Tolerância ou arredondamento alteraram o tempo marcado */}
+                            {record.raw_minutes !== hoursToMinutes(record.total_hours) && (
+                              <span
+                                className="block text-xs text-muted-foreground"
+                                title={TIME_ADJUSTMENT_POLICY_LABELS[record.time_policy]}
+                              >
+                                marcado {formatMinutes(record.raw_minutes)}
+                              </span>
+                            )}
                           </TableCell>
                           <TableCell>
                             {record.lunch_discount ? (
@@ -649,9 +1057,34 @@ export default function Admin() {
                           <TableCell className="font-semibold">
                             {Number(record.net_hours).toFixed(2)}h
                           </TableCell>
+                          <TableCell>
+                            {(record.night_minutes / 60).toFixed(2)}h
+                          </TableCell>
+                          <TableCell>
+                            R$ {Number(record.night_premium_value).toFixed(2)}
+                          </TableCell>
+                          <TableCell>
+                            <OvertimeStatusBadge status={record.status} rejectionReason={record.rejection_reason} />
+                          </TableCell>
+                          <TableCell>
+                            <AttachmentPreviewDialog
+                              attachments={record.overtime_attachments}
+                              title={`${formatDate(record.date)} • ${formatPeriod(record)}`}
+                            />
+                          </TableCell>
                           <TableCell className="text-right font-bold text-success">
+                            {record.compensation === 'hour_bank' && (
+                              <Badge variant="outline" className="mr-2 text-xs">Banco de horas</Badge>
+                            )}
                             R$ {Number(record.total_value).toFixed(2)}
                           </TableCell>
+                          <TableCell className="text-center">
+                            <OvertimeRecordActions
+                              record={record}
+                              onUpdate={refreshEmployeeRecords}
+                              onDelete={refreshEmployeeRecords}
+                            />
+                          </TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
@@ -663,6 +1096,36 @@ export default function Admin() {
           </Card>
         )}
           </TabsContent>
+
+          {/* Approvals Tab */}
+          <TabsContent value="approvals" className="space-y-4 sm:space-y-6">
+            <ApprovalQueue stationId={stationFilter} onReviewed={fetchAllData} />
+          </TabsContent>
+
+          {/* Payroll Tab */}
+          <TabsContent value="payroll" className="space-y-4 sm:space-y-6">
+            <PayrollPeriodsManager />
+          </TabsContent>
+
+          {/* Holidays Tab */}
+          <TabsContent value="holidays" className="space-y-4 sm:space-y-6">
+            <HolidaysManager />
+          </TabsContent>
+
+          {/* Compliance Tab */}
+          <TabsContent value="compliance" className="space-y-4 sm:space-y-6">
+            <OvertimeLimitViolationsReport />
+            <RestViolationsReport />
+          </TabsContent>
+
+          {/* Settings Tab */}
+          <TabsContent value="settings" className="space-y-4 sm:space-y-6">
+            <PayrollSettingsManager />
+            <MinimumWageHistory />
+            <StationsManager />
+            <OvertimeReasonsManager />
+            <WorkSchedulesManager />
+          </TabsContent>
         </Tabs>
       </div>
     </Layout>
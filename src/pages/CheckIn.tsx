@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  startOvertimeClockAtStation,
+  stopOvertimeClockAtStation,
+  useOvertimeClock,
+} from '@/hooks/useOvertimeClock';
+import { useStations } from '@/hooks/useStations';
+import { Layout } from '@/components/Layout';
+import { OvertimeReasonFields } from '@/components/OvertimeReasonFields';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, MapPin, Play, Square } from 'lucide-react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { errorMessage } from '@/utils/errors';
+import { isValidKioskCode } from '@/utils/stationKiosk';
+import { sanitizeInput } from '@/utils/security';
+
+export default function CheckIn() {
+  const { user } = useAuth();
+  const { getStation } = useStations();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { openSession, isLoading } = useOvertimeClock(user?.id);
+  const [reason, setReason] = useState({ reasonId: '', justification: '' });
+  const [lunchDiscount, setLunchDiscount] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const stationId = searchParams.get('station');
+  const code = searchParams.get('code');
+  const station = getStation(stationId);
+
+  // Ao encerrar, o motivo informado no início já vem preenchido
+  useEffect(() => {
+    if (openSession) {
+      setReason({ reasonId: openSession.reason_id, justification: openSession.justification ?? '' });
+    }
+  }, [openSession]);
+
+  const handleStart = async () => {
+    if (!stationId || !isValidKioskCode(code)) return;
+
+    setIsSaving(true);
+    try {
+      if (!reason.reasonId) {
+        throw new Error('Selecione o motivo das horas extras');
+      }
+
+      await startOvertimeClockAtStation(stationId, code, reason.reasonId, sanitizeInput(reason.justification));
+
+      toast.success('Hora extra iniciada no posto');
+      navigate('/');
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao iniciar hora extra'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStop = async () => {
+    if (!stationId || !isValidKioskCode(code)) return;
+
+    setIsSaving(true);
+    try {
+      const sanitizedJustification = sanitizeInput(reason.justification);
+
+      if (!reason.reasonId) {
+        throw new Error('Selecione o motivo das horas extras');
+      }
+
+      if (!sanitizedJustification) {
+        throw new Error('Informe a justificativa das horas extras');
+      }
+
+      await stopOvertimeClockAtStation(stationId, code, lunchDiscount, reason.reasonId, sanitizedJustification);
+
+      toast.success('Hora extra registrada com sucesso!');
+      navigate('/');
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao encerrar hora extra'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-md mx-auto">
+        {!stationId || !isValidKioskCode(code) ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>QR code inválido</AlertTitle>
+            <AlertDescription>
+              Leia novamente o QR code exibido no tablet do posto.
+            </AlertDescription>
+          </Alert>
+        ) : isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+                {openSession ? (
+                  <Square className="h-5 w-5 text-primary" />
+                ) : (
+                  <Play className="h-5 w-5 text-primary" />
+                )}
+                {openSession ? 'Encerrar Hora Extra' : 'Iniciar Hora Extra'}
+              </CardTitle>
+              <CardDescription className="flex items-center gap-1">
+                <MapPin className="h-3 w-3" />
+                {station?.name ?? 'Posto'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-xs text-muted-foreground">
+                {openSession
+                  ? `Iniciada em ${format(new Date(openSession.started_at), "dd/MM 'às' HH:mm", { locale: ptBR })}. O fim é marcado agora e o lançamento segue para aprovação.`
+                  : 'O início é marcado agora pelo servidor e fica registrado como verificado no posto.'}
+              </p>
+
+              <OvertimeReasonFields
+                idPrefix="checkin"
+                reasonId={reason.reasonId}
+                justification={reason.justification}
+                onReasonChange={(reasonId) => setReason({ ...reason, reasonId })}
+                onJustificationChange={(justification) => setReason({ ...reason, justification })}
+              />
+
+              {openSession && (
+                <div className="flex items-center space-x-2 p-2 bg-muted/50 rounded-lg border">
+                  <Checkbox
+                    id="checkin-lunch"
+                    checked={lunchDiscount}
+                    onCheckedChange={(checked) => setLunchDiscount(!!checked)}
+                    className="h-4 w-4"
+                  />
+                  <Label htmlFor="checkin-lunch" className="text-xs font-medium cursor-pointer flex-1">
+                    Fez almoço (-1h)
+                  </Label>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => navigate('/')} className="flex-1">
+                  Cancelar
+                </Button>
+                {openSession ? (
+                  <Button
+                    onClick={handleStop}
+                    disabled={isSaving || !reason.reasonId || !reason.justification.trim()}
+                    variant="destructive"
+                    className="flex-1"
+                  >
+                    {isSaving ? 'Salvando...' : 'Encerrar'}
+                  </Button>
+                ) : (
+                  <Button onClick={handleStart} disabled={isSaving || !reason.reasonId} className="flex-1">
+                    {isSaving ? 'Iniciando...' : 'Iniciar'}
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+}
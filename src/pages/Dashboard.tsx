@@ -1,9 +1,25 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
+import { useHolidays } from '@/hooks/useHolidays';
+import { ADMIN_OVERTIME_CHANGES_QUERY_KEY } from '@/hooks/useAdminOvertimeChanges';
+import { DAY_RECORDED_MINUTES_QUERY_KEY } from '@/hooks/useDayRecordedMinutes';
+import { HOUR_BANK_QUERY_KEY } from '@/hooks/useHourBank';
+import { REST_VIOLATIONS_QUERY_KEY, useRestViolations } from '@/hooks/useRestViolations';
+import { useOvertimeReasons } from '@/hooks/useOvertimeReasons';
+import { OVERTIME_OUTBOX_QUERY_KEY, syncOvertimeOutbox, useOvertimeOutbox } from '@/hooks/useOvertimeOutbox';
+import { useStations } from '@/hooks/useStations';
 import { supabase } from '@/integrations/supabase/client';
 import { Layout } from '@/components/Layout';
 import { AddOvertimeDialog } from '@/components/AddOvertimeDialog';
 import { OvertimeRecordActions } from '@/components/OvertimeRecordActions';
+import { AdminChangesCard } from '@/components/AdminChangesCard';
+import { HourBankCard } from '@/components/HourBankCard';
+import { OvertimeClockCard } from '@/components/OvertimeClockCard';
+import { OvertimeStatusBadge } from '@/components/OvertimeStatusBadge';
+import { PendingSyncList } from '@/components/PendingSyncList';
+import { GeofenceBadge } from '@/components/GeofenceBadge';
+import { RestViolationBadge } from '@/components/RestViolationBadge';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -14,29 +30,62 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { Clock, DollarSign, Calendar, TrendingUp } from 'lucide-react';
+import { Clock, DollarSign, Calendar, TrendingUp, Moon, Coins } from 'lucide-react';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { summarizeByStatus, type OvertimeStatus } from '@/utils/approval';
+import { summarizeDsrByMonth } from '@/utils/dsr';
+import { errorMessage } from '@/utils/errors';
+import type { GeofenceStatus } from '@/utils/geolocation';
+import { sumMoney } from '@/utils/money';
+import type { TimeAdjustmentPolicy } from '@/utils/timeAdjustment';
 
 interface OvertimeRecord {
   id: string;
+  user_id: string;
   date: string;
+  end_date: string;
   start_time: string;
   end_time: string;
   total_hours: number;
   lunch_discount: boolean;
   net_hours: number;
   total_value: number;
+  night_minutes: number;
+  night_premium_value: number;
+  compensation: 'payment' | 'hour_bank';
+  time_policy: TimeAdjustmentPolicy;
+  raw_minutes: number;
+  status: OvertimeStatus;
+  rejection_reason: string | null;
+  station_id: string | null;
+  reason_id: string;
+  justification: string | null;
+  verified_at_station: boolean;
+  geofence_status: GeofenceStatus | null;
+  geofence_distance_m: number | null;
+  admin_changed_by: string | null;
+  admin_changed_at: string | null;
   created_at: string;
+  overtime_clock_sessions: { auto_closed: boolean } | null;
 }
 
 export default function Dashboard() {
   const { user } = useAuth();
+  const { getHoliday, isHoliday } = useHolidays();
+  const { getStation } = useStations();
+  const { getReason } = useOvertimeReasons();
+  const queryClient = useQueryClient();
+  const { entries: outboxEntries } = useOvertimeOutbox(user?.id);
+  const isSyncing = useRef(false);
   const [records, setRecords] = useState<OvertimeRecord[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [stats, setStats] = useState({
     totalHours: 0,
     totalValue: 0,
+    pendingHours: 0,
+    pendingValue: 0,
     recordCount: 0,
   });
 
@@ -46,7 +95,7 @@ export default function Dashboard() {
     try {
       const { data, error } = await supabase
         .from('overtime_records')
-        .select('*')
+        .select('*, overtime_clock_sessions(auto_closed)')
         .eq('user_id', user.id)
         .order('date', { ascending: false });
 
@@ -54,12 +103,14 @@ export default function Dashboard() {
 
       setRecords(data || []);
       
-      const totalHours = (data || []).reduce((sum, r) => sum + Number(r.net_hours), 0);
-      const totalValue = (data || []).reduce((sum, r) => sum + Number(r.total_value), 0);
+      // Somas exatas em minutos e centavos; só lançamentos aprovados são devidos
+      const totals = summarizeByStatus(data || []);
       
       setStats({
-        totalHours: Math.round(totalHours * 100) / 100,
-        totalValue: Math.round(totalValue * 100) / 100,
+        totalHours: totals.approvedHours,
+        totalValue: totals.approvedValue,
+        pendingHours: totals.pendingHours,
+        pendingValue: totals.pendingValue,
         recordCount: (data || []).length,
       });
     } catch (error) {
@@ -73,10 +124,81 @@ export default function Dashboard() {
     fetchRecords();
   }, [user]);
 
+  // Interjornada no intervalo dos lançamentos (ordenados do mais recente)
+  const { byRecordId: restViolations } = useRestViolations(
+    user?.id,
+    records.length > 0 ? records[records.length - 1].date : '',
+    records.length > 0 ? records[0].date : ''
+  );
+
+  // Reflexo no DSR apenas sobre horas extras pagas e aprovadas
+  const dsrSummaries = useMemo(
+    () => summarizeDsrByMonth(
+      records.filter((r) => r.compensation === 'payment' && r.status === 'approved'),
+      isHoliday
+    ),
+    [records, isHoliday]
+  );
+  const currentMonthDsr = dsrSummaries.find((summary) => summary.month === format(new Date(), 'yyyy-MM'));
+  const totalDsr = sumMoney(dsrSummaries.map((summary) => summary.dsrValue));
+
+  // Lançamentos alteram os créditos do banco de horas
+  const refreshRecords = () => {
+    fetchRecords();
+    queryClient.invalidateQueries({ queryKey: HOUR_BANK_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: REST_VIOLATIONS_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: DAY_RECORDED_MINUTES_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ADMIN_OVERTIME_CHANGES_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: OVERTIME_OUTBOX_QUERY_KEY });
+  };
+
+  // Lançamentos feitos sem conexão seguem para o servidor quando ela volta
+  const syncOutbox = async () => {
+    if (!user || !navigator.onLine || isSyncing.current) return;
+
+    isSyncing.current = true;
+    try {
+      const result = await syncOvertimeOutbox(user.id);
+
+      if (result.synced > 0) {
+        toast.success(`${result.synced} lançamento(s) pendente(s) sincronizado(s)`);
+        refreshRecords();
+      }
+      if (result.conflicts > 0) {
+        toast.warning(`${result.conflicts} lançamento(s) com conflito na sincronização: confira o histórico`);
+      }
+      if (result.attachmentErrors > 0) {
+        toast.warning(`${result.attachmentErrors} lançamento(s) sincronizado(s) sem todos os anexos`);
+      }
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, 'Erro ao sincronizar lançamentos pendentes'));
+    } finally {
+      isSyncing.current = false;
+      queryClient.invalidateQueries({ queryKey: OVERTIME_OUTBOX_QUERY_KEY });
+    }
+  };
+
+  // O evento 'online' sempre chama a versão mais recente da sincronização
+  const syncOutboxRef = useRef(syncOutbox);
+  syncOutboxRef.current = syncOutbox;
+
+  useEffect(() => {
+    const sync = () => syncOutboxRef.current();
+    sync();
+    window.addEventListener('online', sync);
+    return () => window.removeEventListener('online', sync);
+  }, [user]);
+
   const formatTime = (time: string) => {
     return time.substring(0, 5);
   };
 
+  const formatPeriod = (record: OvertimeRecord) => {
+    const period = `${formatTime(record.start_time)} - ${formatTime(record.end_time)}`;
+    // Turnos que atravessam a meia-noite terminam no dia seguinte
+    return record.end_date !== record.date ? `${period} (+1 dia)` : period;
+  };
+
   const formatDate = (dateString: string) => {
     return format(new Date(dateString + 'T00:00:00'), 'dd/MM/yyyy', { locale: ptBR });
   };
@@ -91,10 +213,12 @@ export default function Dashboard() {
               Acompanhe suas horas extras
             </p>
           </div>
-          <AddOvertimeDialog onSuccess={fetchRecords} />
+          <AddOvertimeDialog onSuccess={refreshRecords} />
         </div>
 
-        <div className="grid gap-3 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+        <OvertimeClockCard onChanged={refreshRecords} />
+
+        <div className="grid gap-3 grid-cols-1 sm:grid-cols-2 lg:grid-cols-4">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-xs font-medium">Total de Horas</CardTitle>
@@ -105,7 +229,9 @@ export default function Dashboard() {
                 {stats.totalHours.toFixed(2)}h
               </div>
               <p className="text-xs text-muted-foreground mt-1">
-                Horas extras acumuladas
+                {stats.pendingHours > 0
+                  ? `Aprovadas • ${stats.pendingHours.toFixed(2)}h aguardando aprovação`
+                  : 'Horas extras aprovadas'}
               </p>
             </CardContent>
           </Card>
@@ -120,7 +246,9 @@ export default function Dashboard() {
                 R$ {stats.totalValue.toFixed(2)}
               </div>
               <p className="text-xs text-muted-foreground mt-1">
-                Valor acumulado
+                {stats.pendingValue > 0
+                  ? `A receber • R$ ${stats.pendingValue.toFixed(2)} aguardando aprovação`
+                  : 'Valor aprovado a receber'}
               </p>
             </CardContent>
           </Card>
@@ -139,8 +267,29 @@ export default function Dashboard() {
               </p>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-xs font-medium">Reflexo DSR</CardTitle>
+              <Coins className="h-3 w-3 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-lg sm:text-2xl font-bold text-success">
+                R$ {totalDsr.toFixed(2)}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {currentMonthDsr
+                  ? `Mês atual: R$ ${currentMonthDsr.dsrValue.toFixed(2)} (${currentMonthDsr.restDays} dom./feriados ÷ ${currentMonthDsr.workingDays} dias úteis)`
+                  : 'Descanso semanal remunerado'}
+              </p>
+            </CardContent>
+          </Card>
         </div>
 
+        <HourBankCard />
+
+        <AdminChangesCard />
+
         <Card>
           <CardHeader className="pb-3">
             <CardTitle className="text-sm sm:text-base">Histórico de Lançamentos</CardTitle>
@@ -153,7 +302,7 @@ export default function Dashboard() {
               <div className="text-center py-8 text-muted-foreground">
                 Carregando...
               </div>
-            ) : records.length === 0 ? (
+            ) : records.length === 0 && outboxEntries.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
                 <Calendar className="h-12 w-12 mx-auto mb-3 opacity-50" />
                 <p>Nenhum registro encontrado</p>
@@ -161,6 +310,7 @@ export default function Dashboard() {
               </div>
             ) : (
               <div className="space-y-2">
+                <PendingSyncList entries={outboxEntries} onRetry={syncOutbox} />
                 {records.map((record) => (
                   <Card key={record.id} className="p-3">
                     <div className="flex justify-between items-start">
@@ -169,26 +319,78 @@ export default function Dashboard() {
                           <span className="text-sm font-medium">
                             {formatDate(record.date)}
                           </span>
+                          <OvertimeStatusBadge status={record.status} rejectionReason={record.rejection_reason} />
+                          {getHoliday(record.date) && (
+                            <Badge variant="destructive" className="text-xs" title={getHoliday(record.date)?.name}>
+                              Feriado
+                            </Badge>
+                          )}
                           {record.lunch_discount && (
                             <Badge variant="secondary" className="text-xs">Almoço</Badge>
                           )}
+                          <RestViolationBadge violation={restViolations.get(record.id)} />
+                          {record.overtime_clock_sessions?.auto_closed && (
+                            <Badge variant="outline" className="text-xs border-amber-500 text-amber-600">
+                              Encerrado automaticamente
+                            </Badge>
+                          )}
+                          <GeofenceBadge status={record.geofence_status} distance={record.geofence_distance_m} />
+                          {record.verified_at_station && (
+                            <Badge variant="outline" className="text-xs border-success text-success">
+                              Verificado no posto
+                            </Badge>
+                          )}
+                          {record.admin_changed_at && (
+                            <Badge
+                              variant="outline"
+                              className="text-xs"
+                              title={`Alterado pelo administrador em ${format(new Date(record.admin_changed_at), 'dd/MM/yyyy HH:mm', { locale: ptBR })}`}
+                            >
+                              Ajustado pelo admin
+                            </Badge>
+                          )}
                         </div>
                         <div className="text-xs text-muted-foreground mb-1">
-                          {formatTime(record.start_time)} - {formatTime(record.end_time)}
+                          {formatPeriod(record)}
+                          {getStation(record.station_id) && ` • ${getStation(record.station_id)?.name}`}
+                        </div>
+                        <div className="text-xs text-muted-foreground mb-1" title={record.justification ?? undefined}>
+                          {getReason(record.reason_id)?.name}
+                          {record.justification && `: ${record.justification}`}
                         </div>
+                        {record.status === 'rejected' && record.rejection_reason && (
+                          <div className="text-xs text-destructive mb-1">
+                            Motivo da rejeição: {record.rejection_reason}
+                          </div>
+                        )}
                         <div className="flex items-center gap-3 text-xs">
                           <span className="font-medium">
                             {Number(record.net_hours).toFixed(2)}h
                           </span>
-                          <span className="font-bold text-success">
-                            R$ {Number(record.total_value).toFixed(2)}
-                          </span>
+                          {record.night_minutes > 0 && (
+                            <>
+                              <span className="flex items-center gap-1 text-indigo-600">
+                                <Moon className="h-3 w-3" />
+                                {(record.night_minutes / 60).toFixed(2)}h
+                              </span>
+                              <span className="text-indigo-600">
+                                +R$ {Number(record.night_premium_value).toFixed(2)}
+                              </span>
+                            </>
+                          )}
+                          {record.compensation === 'hour_bank' ? (
+                            <Badge variant="outline" className="text-xs">Banco de horas</Badge>
+                          ) : (
+                            <span className="font-bold text-success">
+                              R$ {Number(record.total_value).toFixed(2)}
+                            </span>
+                          )}
                         </div>
                       </div>
                       <OvertimeRecordActions 
                         record={record} 
-                        onUpdate={fetchRecords}
-                        onDelete={fetchRecords}
+                        onUpdate={refreshRecords}
+                        onDelete={refreshRecords}
                       />
                     </div>
                   </Card>
@@ -0,0 +1,128 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { QRCodeSVG } from 'qrcode.react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useStationKioskCode } from '@/hooks/useStationKioskCode';
+import { useStations } from '@/hooks/useStations';
+import { Logo } from '@/components/Logo';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, QrCode } from 'lucide-react';
+import { buildCheckInUrl, KIOSK_CODE_ROTATION_SECONDS } from '@/utils/stationKiosk';
+
+export default function Kiosk() {
+  const { isAdmin, managedStationIds } = useAuth();
+  const { activeStations, getStation } = useStations();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [now, setNow] = useState(Date.now());
+
+  // O posto fica na URL para o tablet voltar a ele após recarregar
+  const stationId = searchParams.get('station') ?? undefined;
+  const station = getStation(stationId ?? null);
+  const { code, expiresAt, isLoading, error } = useStationKioskCode(station ? stationId : undefined);
+
+  // Gerentes só exibem o código dos postos que gerenciam
+  const kioskStations = useMemo(
+    () => (isAdmin ? activeStations : activeStations.filter((s) => managedStationIds.includes(s.id))),
+    [isAdmin, activeStations, managedStationIds]
+  );
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const secondsLeft = expiresAt
+    ? Math.min(KIOSK_CODE_ROTATION_SECONDS, Math.max(0, Math.ceil((new Date(expiresAt).getTime() - now) / 1000)))
+    : 0;
+
+  if (!station) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <QrCode className="h-5 w-5 text-primary" />
+              Quiosque do Posto
+            </CardTitle>
+            <CardDescription>
+              Escolha o posto deste tablet. Os frentistas leem o QR code com o celular para marcar a hora extra.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {kioskStations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhum posto ativo disponível para você.</p>
+            ) : (
+              <div className="space-y-1">
+                <Label className="text-sm">Posto</Label>
+                <Select value="" onValueChange={(value) => setSearchParams({ station: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione o posto" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {kioskStations.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <Button variant="outline" className="w-full" onClick={() => navigate('/')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Voltar
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-6 p-6 text-center">
+      <Logo size="lg" />
+
+      <div>
+        <h1 className="text-2xl sm:text-4xl font-bold tracking-tight">{station.name}</h1>
+        <p className="text-sm sm:text-base text-muted-foreground mt-2">
+          Leia o código com o celular para iniciar ou encerrar a hora extra
+        </p>
+      </div>
+
+      <div className="bg-white p-4 sm:p-6 rounded-xl shadow-lg">
+        {code ? (
+          <QRCodeSVG
+            value={buildCheckInUrl(window.location.origin, station.id, code)}
+            size={320}
+            level="M"
+            className="h-64 w-64 sm:h-80 sm:w-80"
+          />
+        ) : (
+          <div className="h-64 w-64 sm:h-80 sm:w-80 flex items-center justify-center text-sm text-muted-foreground">
+            {isLoading ? 'Gerando código...' : error?.message || 'Código indisponível'}
+          </div>
+        )}
+      </div>
+
+      <div className="w-64 sm:w-80 space-y-1">
+        <Progress value={(secondsLeft / KIOSK_CODE_ROTATION_SECONDS) * 100} className="h-2" />
+        <p className="text-xs text-muted-foreground">Novo código em {secondsLeft}s</p>
+      </div>
+
+      <Button variant="ghost" size="sm" onClick={() => setSearchParams({})}>
+        Trocar posto
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useStations } from '@/hooks/useStations';
+import { supabase } from '@/integrations/supabase/client';
+import { Layout } from '@/components/Layout';
+import { ApprovalQueue } from '@/components/ApprovalQueue';
+import { OvertimeStatusBadge } from '@/components/OvertimeStatusBadge';
+import { StationFilter } from '@/components/StationFilter';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Clock, Hourglass, User } from 'lucide-react';
+import { endOfMonth, format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { summarizeByStatus, type OvertimeStatus } from '@/utils/approval';
+import { ALL_STATIONS } from '@/utils/stations';
+
+interface TeamRecord {
+  id: string;
+  user_id: string;
+  date: string;
+  end_date: string;
+  start_time: string;
+  end_time: string;
+  net_hours: number;
+  total_value: number;
+  compensation: string;
+  status: OvertimeStatus;
+  rejection_reason: string | null;
+  station_id: string | null;
+  profiles: { full_name: string };
+}
+
+export default function Team() {
+  const { user, managedStationIds } = useAuth();
+  const { getStation } = useStations();
+  const navigate = useNavigate();
+  const [stationFilter, setStationFilter] = useState(ALL_STATIONS);
+  const [monthFilter, setMonthFilter] = useState(format(new Date(), 'yyyy-MM'));
+  const [records, setRecords] = useState<TeamRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Lançamentos da equipe no mês, sem os do próprio gerente
+  const fetchRecords = useCallback(async () => {
+    if (!user || !/^\d{4}-\d{2}$/.test(monthFilter)) return;
+
+    setIsLoading(true);
+    try {
+      const monthStart = `${monthFilter}-01`;
+      let query = supabase
+        .from('overtime_records')
+        .select(`
+          id,
+          user_id,
+          date,
+          end_date,
+          start_time,
+          end_time,
+          net_hours,
+          total_value,
+          compensation,
+          status,
+          rejection_reason,
+          station_id,
+          profiles!overtime_records_user_id_fkey!inner(full_name)
+        `)
+        .in('station_id', managedStationIds)
+        .neq('user_id', user.id)
+        .gte('date', monthStart)
+        .lte('date', format(endOfMonth(parseISO(monthStart)), 'yyyy-MM-dd'))
+        .order('date', { ascending: false });
+
+      if (stationFilter !== ALL_STATIONS) {
+        query = query.eq('station_id', stationFilter);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setRecords((data || []) as TeamRecord[]);
+    } catch (error) {
+      console.error('Error fetching team records:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, managedStationIds, monthFilter, stationFilter]);
+
+  useEffect(() => {
+    fetchRecords();
+  }, [fetchRecords]);
+
+  const totals = summarizeByStatus(records);
+  const employeeCount = new Set(records.map((record) => record.user_id)).size;
+
+  const formatPeriod = (record: TeamRecord) => {
+    const period = `${record.start_time.substring(0, 5)} - ${record.end_time.substring(0, 5)}`;
+    // Turnos que atravessam a meia-noite terminam no dia seguinte
+    return record.end_date !== record.date ? `${period} (+1 dia)` : period;
+  };
+
+  const formatDate = (dateString: string) => {
+    return format(new Date(dateString + 'T00:00:00'), 'dd/MM/yyyy', { locale: ptBR });
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+          <div>
+            <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold tracking-tight">Minha Equipe</h2>
+            <p className="text-muted-foreground mt-1 text-sm">
+              Horas extras dos postos sob sua gestão
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <StationFilter
+              value={stationFilter}
+              onChange={setStationFilter}
+              stationIds={managedStationIds}
+              className="sm:w-56"
+            />
+            <Button variant="outline" size="sm" onClick={() => navigate('/')}>
+              <User className="h-4 w-4 mr-2" />
+              Minhas horas
+            </Button>
+          </div>
+        </div>
+
+        <ApprovalQueue
+          stationId={stationFilter}
+          excludeUserId={user?.id}
+          showValues={false}
+          onReviewed={fetchRecords}
+        />
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+              <div>
+                <CardTitle>Lançamentos da Equipe</CardTitle>
+                <CardDescription>
+                  {employeeCount} funcionário(s) com horas extras no mês
+                </CardDescription>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="team-month" className="text-xs">Mês</Label>
+                <Input
+                  id="team-month"
+                  type="month"
+                  value={monthFilter}
+                  onChange={(e) => setMonthFilter(e.target.value)}
+                  className="text-sm sm:w-44"
+                />
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-3 grid-cols-1 sm:grid-cols-2">
+              <div className="flex items-center gap-3 p-3 border rounded-lg">
+                <Clock className="h-4 w-4 text-primary" />
+                <div>
+                  <p className="text-xs text-muted-foreground">Horas aprovadas</p>
+                  <p className="text-lg font-bold text-primary">{totals.approvedHours.toFixed(2)}h</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-3 p-3 border rounded-lg">
+                <Hourglass className="h-4 w-4 text-blue-600" />
+                <div>
+                  <p className="text-xs text-muted-foreground">Aguardando aprovação</p>
+                  <p className="text-lg font-bold text-blue-600">{totals.pendingHours.toFixed(2)}h</p>
+                </div>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+            ) : records.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Nenhum lançamento da equipe no mês
+              </div>
+            ) : (
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Funcionário</TableHead>
+                      <TableHead>Data</TableHead>
+                      <TableHead className="hidden sm:table-cell">Posto</TableHead>
+                      <TableHead>Período</TableHead>
+                      <TableHead className="text-right">Horas</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {records.map((record) => (
+                      <TableRow key={record.id}>
+                        <TableCell className="font-medium">{record.profiles.full_name}</TableCell>
+                        <TableCell>{formatDate(record.date)}</TableCell>
+                        <TableCell className="hidden sm:table-cell">
+                          {getStation(record.station_id)?.name ?? '—'}
+                        </TableCell>
+                        <TableCell>{formatPeriod(record)}</TableCell>
+                        <TableCell className="text-right font-semibold">
+                          {Number(record.net_hours).toFixed(2)}h
+                        </TableCell>
+                        <TableCell>
+                          <OvertimeStatusBadge status={record.status} rejectionReason={record.rejection_reason} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,72 @@
+// Changes made by an admin to an employee's overtime records, as logged by public.log_overtime_admin_change()
+
+import type { Json } from '@/integrations/supabase/types';
+
+export type AdminChangeAction = 'ADMIN_INSERT' | 'ADMIN_UPDATE' | 'ADMIN_DELETE';
+
+export const ADMIN_CHANGE_ACTIONS: AdminChangeAction[] = ['ADMIN_INSERT', 'ADMIN_UPDATE', 'ADMIN_DELETE'];
+
+export const ADMIN_CHANGE_LABELS: Record<AdminChangeAction, string> = {
+  ADMIN_INSERT: 'Lançado pelo administrador',
+  ADMIN_UPDATE: 'Ajustado pelo administrador',
+  ADMIN_DELETE: 'Excluído pelo administrador',
+};
+
+export interface AdminChangeLogEntry {
+  id: string;
+  action: string;
+  created_at: string;
+  record_id: string | null;
+  old_values: Json | null;
+  new_values: Json | null;
+}
+
+export interface AdminChangeSnapshot {
+  date: string;
+  start_time: string;
+  end_time: string;
+  net_hours: number;
+}
+
+export interface AdminChange {
+  id: string;
+  action: AdminChangeAction;
+  changedAt: string;
+  recordId: string | null;
+  before: AdminChangeSnapshot | null;
+  after: AdminChangeSnapshot | null;
+}
+
+export function isAdminChangeAction(value: string): value is AdminChangeAction {
+  return value in ADMIN_CHANGE_LABELS;
+}
+
+function toSnapshot(values: Json | null): AdminChangeSnapshot | null {
+  if (!values || typeof values !== 'object' || Array.isArray(values)) return null;
+
+  const { date, start_time, end_time, net_hours } = values;
+  if (typeof date !== 'string' || typeof start_time !== 'string' || typeof end_time !== 'string') return null;
+
+  return { date, start_time, end_time, net_hours: Number(net_hours ?? 0) };
+}
+
+/**
+ * Log entries as before/after snapshots of the record, newest first.
+ * Entries of other actions are dropped.
+ */
+export function parseAdminChanges(entries: AdminChangeLogEntry[]): AdminChange[] {
+  return entries
+    .flatMap((entry) =>
+      isAdminChangeAction(entry.action)
+        ? [{
+            id: entry.id,
+            action: entry.action,
+            changedAt: entry.created_at,
+            recordId: entry.record_id,
+            before: toSnapshot(entry.old_values),
+            after: toSnapshot(entry.new_values),
+          }]
+        : []
+    )
+    .sort((a, b) => b.changedAt.localeCompare(a.changedAt));
+}
@@ -0,0 +1,55 @@
+// Approval workflow of overtime records: only approved records are paid or credited
+
+import { sumHours, sumMoney } from '@/utils/money';
+
+export type OvertimeStatus = 'pending' | 'approved' | 'rejected';
+
+export const OVERTIME_STATUS_LABELS: Record<OvertimeStatus, string> = {
+  pending: 'Pendente',
+  approved: 'Aprovado',
+  rejected: 'Rejeitado',
+};
+
+/**
+ * Mirrors the overtime_records_rejection_reason_length constraint
+ */
+export const MAX_REJECTION_REASON_LENGTH = 500;
+
+export interface ApprovalRecord {
+  status: OvertimeStatus;
+  net_hours: number | string;
+  total_value: number | string;
+  compensation: string;
+}
+
+export interface ApprovalTotals {
+  approvedHours: number;
+  approvedValue: number;
+  pendingHours: number;
+  pendingValue: number;
+}
+
+/**
+ * Approved and pending totals. Values only include records paid in money;
+ * rejected records are left out of both.
+ */
+export function summarizeByStatus(records: ApprovalRecord[]): ApprovalTotals {
+  const totalsOf = (status: OvertimeStatus) => {
+    const withStatus = records.filter((record) => record.status === status);
+    return {
+      hours: sumHours(withStatus.map((record) => record.net_hours)),
+      value: sumMoney(
+        withStatus.filter((record) => record.compensation === 'payment').map((record) => record.total_value)
+      ),
+    };
+  };
+
+  const approved = totalsOf('approved');
+  const pending = totalsOf('pending');
+  return {
+    approvedHours: approved.hours,
+    approvedValue: approved.value,
+    pendingHours: pending.hours,
+    pendingValue: pending.value,
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_ATTACHMENT_SIZE_BYTES,
+  buildAttachmentPath,
+  formatFileSize,
+  isImageAttachment,
+  validateAttachmentFile,
+} from '@/utils/attachments';
+
+describe('validateAttachmentFile', () => {
+  it('accepts images and PDFs within the size limit', () => {
+    expect(validateAttachmentFile({ name: 'ponto.jpg', type: 'image/jpeg', size: 2048 })).toBeNull();
+    expect(validateAttachmentFile({ name: 'livro.pdf', type: 'application/pdf', size: MAX_ATTACHMENT_SIZE_BYTES })).toBeNull();
+  });
+
+  it('rejects other file types', () => {
+    expect(validateAttachmentFile({ name: 'planilha.xlsx', type: 'application/vnd.ms-excel', size: 2048 })).toBe(
+      'planilha.xlsx: envie imagens JPG, PNG, WebP ou arquivos PDF'
+    );
+  });
+
+  it('rejects empty files and files over 10 MB', () => {
+    expect(validateAttachmentFile({ name: 'vazio.png', type: 'image/png', size: 0 })).toBe(
+      'vazio.png: o arquivo deve ter no máximo 10.0 MB'
+    );
+    expect(validateAttachmentFile({ name: 'grande.pdf', type: 'application/pdf', size: MAX_ATTACHMENT_SIZE_BYTES + 1 })).toBe(
+      'grande.pdf: o arquivo deve ter no máximo 10.0 MB'
+    );
+  });
+});
+
+describe('buildAttachmentPath', () => {
+  it('places the file under the user and record folders with a random name', () => {
+    const path = buildAttachmentPath('user-1', 'record-1', 'Comprovante.PDF');
+
+    expect(path).toMatch(/^user-1\/record-1\/[0-9a-f-]{36}\.pdf$/);
+    expect(buildAttachmentPath('user-1', 'record-1', 'Comprovante.PDF')).not.toBe(path);
+  });
+
+  it('drops missing or unsafe extensions', () => {
+    expect(buildAttachmentPath('user-1', 'record-1', 'foto')).toMatch(/^user-1\/record-1\/[0-9a-f-]{36}$/);
+    expect(buildAttachmentPath('user-1', 'record-1', 'foto.php%00.jpg')).toMatch(/\.jpg$/);
+    expect(buildAttachmentPath('user-1', 'record-1', 'nota.j/p')).toMatch(/^user-1\/record-1\/[0-9a-f-]{36}$/);
+  });
+});
+
+describe('isImageAttachment', () => {
+  it('previews images only', () => {
+    expect(isImageAttachment('image/webp')).toBe(true);
+    expect(isImageAttachment('application/pdf')).toBe(false);
+  });
+});
+
+describe('formatFileSize', () => {
+  it('picks bytes, kilobytes or megabytes', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(2048)).toBe('2 KB');
+    expect(formatFileSize(3.5 * 1024 * 1024)).toBe('3.5 MB');
+  });
+});
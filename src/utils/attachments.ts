@@ -0,0 +1,56 @@
+// Proof files attached to overtime records, stored in a private storage bucket
+
+export const ATTACHMENTS_BUCKET = 'overtime-attachments';
+
+/**
+ * Mirror the bucket limits and the overtime_attachments constraints
+ */
+export const ALLOWED_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+export const MAX_ATTACHMENT_SIZE_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_RECORD = 5;
+
+/**
+ * Lifetime of the signed URLs used to open or preview a file
+ */
+export const ATTACHMENT_URL_TTL_SECONDS = 5 * 60;
+
+export interface AttachmentFile {
+  name: string;
+  type: string;
+  size: number;
+}
+
+/**
+ * Why a file cannot be attached, or null when it is acceptable
+ */
+export function validateAttachmentFile(file: AttachmentFile): string | null {
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `${file.name}: envie imagens JPG, PNG, WebP ou arquivos PDF`;
+  }
+
+  if (file.size <= 0 || file.size > MAX_ATTACHMENT_SIZE_BYTES) {
+    return `${file.name}: o arquivo deve ter no máximo ${formatFileSize(MAX_ATTACHMENT_SIZE_BYTES)}`;
+  }
+
+  return null;
+}
+
+/**
+ * Object path <user_id>/<record_id>/<random>.<ext>. The storage policies
+ * check the first two folders; the original name is kept in the table.
+ */
+export function buildAttachmentPath(userId: string, recordId: string, fileName: string): string {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+  const safeExtension = /^[a-z0-9]{1,5}$/.test(extension) ? `.${extension}` : '';
+  return `${userId}/${recordId}/${crypto.randomUUID()}${safeExtension}`;
+}
+
+export function isImageAttachment(mimeType: string): boolean {
+  return mimeType.startsWith('image/');
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
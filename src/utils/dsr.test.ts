@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { summarizeDsrByMonth } from '@/utils/dsr';
+
+// October 2025 has 27 working days and 4 Sundays; November 2025 has 25 and 5
+describe('summarizeDsrByMonth', () => {
+  it('reflects the month total over its rest days, newest month first', () => {
+    const summaries = summarizeDsrByMonth([
+      { date: '2025-10-03', total_value: 120 },
+      { date: '2025-11-10', total_value: '100.00' },
+      { date: '2025-10-21', total_value: '150.00' },
+    ]);
+
+    expect(summaries).toEqual([
+      { month: '2025-11', workingDays: 25, restDays: 5, overtimeValue: 100, dsrValue: 20 },
+      { month: '2025-10', workingDays: 27, restDays: 4, overtimeValue: 270, dsrValue: 40 },
+    ]);
+  });
+
+  it('counts weekday holidays as rest days', () => {
+    const [october] = summarizeDsrByMonth(
+      [{ date: '2025-10-21', total_value: 270 }],
+      (date) => date === '2025-10-15' || date === '2025-10-12'
+    );
+
+    expect(october.workingDays).toBe(26);
+    expect(october.restDays).toBe(5);
+    expect(october.dsrValue).toBe(51.92);
+  });
+});
@@ -0,0 +1,94 @@
+// DSR (descanso semanal remunerado) reflex of habitual overtime (Lei 605/49, art. 7º)
+
+import { eachDayOfInterval, endOfMonth, format, isSunday, parseISO } from 'date-fns';
+import { allocateCents, fromCents, multiplyCents, toCents } from '@/utils/money';
+
+export interface DsrMonthDays {
+  workingDays: number;
+  restDays: number;
+}
+
+export interface DsrRecord {
+  date: string;
+  total_value: number | string;
+}
+
+export interface DsrMonthSummary extends DsrMonthDays {
+  month: string;
+  overtimeValue: number;
+  dsrValue: number;
+}
+
+/**
+ * Working days and rest days (Sundays plus holidays) of a yyyy-MM month
+ */
+export function countMonthDays(month: string, isHoliday: (date: string) => boolean = () => false): DsrMonthDays {
+  const start = parseISO(`${month}-01`);
+  const days = eachDayOfInterval({ start, end: endOfMonth(start) });
+  const restDays = days.filter((day) => isSunday(day) || isHoliday(format(day, 'yyyy-MM-dd'))).length;
+
+  return { workingDays: days.length - restDays, restDays };
+}
+
+/**
+ * DSR reflex of a month's overtime value: value ÷ working days × rest days
+ */
+export function calculateMonthDsrCents(valueCents: number, days: DsrMonthDays): number {
+  if (days.workingDays === 0) return 0;
+  return multiplyCents(valueCents, days.restDays / days.workingDays);
+}
+
+function groupByMonth<T extends DsrRecord>(records: T[]): Map<string, T[]> {
+  const byMonth = new Map<string, T[]>();
+  for (const record of records) {
+    const month = record.date.substring(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), record]);
+  }
+  return byMonth;
+}
+
+/**
+ * Monthly DSR summaries, newest month first. The reflex is computed once over
+ * the month's total, in centavos.
+ */
+export function summarizeDsrByMonth(
+  records: DsrRecord[],
+  isHoliday: (date: string) => boolean = () => false
+): DsrMonthSummary[] {
+  return [...groupByMonth(records)]
+    .map(([month, monthRecords]) => {
+      const days = countMonthDays(month, isHoliday);
+      const valueCents = monthRecords.reduce((sum, record) => sum + toCents(record.total_value), 0);
+      return {
+        month,
+        ...days,
+        overtimeValue: fromCents(valueCents),
+        dsrValue: fromCents(calculateMonthDsrCents(valueCents, days)),
+      };
+    })
+    .sort((a, b) => b.month.localeCompare(a.month));
+}
+
+/**
+ * Share of the monthly DSR attributed to each record, in input order. Shares
+ * are allocated proportionally to the record values, so they add up exactly
+ * to the month's DSR in summarizeDsrByMonth().
+ */
+export function allocateDsrByRecord<T extends DsrRecord>(
+  records: T[],
+  isHoliday: (date: string) => boolean = () => false
+): Map<T, number> {
+  const shares = new Map<T, number>();
+
+  for (const [month, monthRecords] of groupByMonth(records)) {
+    const recordCents = monthRecords.map((record) => toCents(record.total_value));
+    const totalCents = recordCents.reduce((sum, cents) => sum + cents, 0);
+    const dsrCents = calculateMonthDsrCents(totalCents, countMonthDays(month, isHoliday));
+
+    allocateCents(dsrCents, recordCents).forEach((cents, index) => {
+      shares.set(monthRecords[index], fromCents(cents));
+    });
+  }
+
+  return shares;
+}
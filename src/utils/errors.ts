@@ -0,0 +1,15 @@
+// Messages of caught errors
+
+/**
+ * Message of a caught error, or the fallback when it has none. Supabase
+ * returns its errors as plain objects, so they are not instances of Error.
+ */
+export function errorMessage(error: unknown, fallback: string): string {
+  if (error instanceof Error) return error.message || fallback;
+
+  if (typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string') {
+    return error.message || fallback;
+  }
+
+  return fallback;
+}
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  browserGeolocationProvider,
+  fixedGeolocationProvider,
+  formatDistance,
+  needsLocationReview,
+  toRecordLocation,
+} from '@/utils/geolocation';
+
+// Praça Sete, Belo Horizonte
+const station = { latitude: -19.9191382, longitude: -43.9386527, accuracy: 12.6 };
+
+const PERMISSION_DENIED = 1;
+const POSITION_UNAVAILABLE = 2;
+
+function stubGeolocation(
+  getCurrentPosition: (
+    success: (position: { coords: typeof station }) => void,
+    failure: (error: { code: number; PERMISSION_DENIED: number }) => void
+  ) => void
+) {
+  vi.stubGlobal('navigator', { geolocation: { getCurrentPosition } });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fixedGeolocationProvider', () => {
+  it('always reports the injected coordinates', async () => {
+    const provider = fixedGeolocationProvider(station);
+
+    await expect(provider.getCurrentPosition()).resolves.toEqual(station);
+    await expect(provider.getCurrentPosition()).resolves.toEqual(station);
+  });
+});
+
+describe('browserGeolocationProvider', () => {
+  it('reads the coordinates reported by the browser', async () => {
+    stubGeolocation((success) => success({ coords: station }));
+
+    await expect(browserGeolocationProvider.getCurrentPosition()).resolves.toEqual(station);
+  });
+
+  it('explains a denied permission', async () => {
+    stubGeolocation((_, failure) => failure({ code: PERMISSION_DENIED, PERMISSION_DENIED }));
+
+    await expect(browserGeolocationProvider.getCurrentPosition()).rejects.toThrow(
+      'Permissão de localização negada no navegador'
+    );
+  });
+
+  it('reports any other failure as unavailable', async () => {
+    stubGeolocation((_, failure) => failure({ code: POSITION_UNAVAILABLE, PERMISSION_DENIED }));
+
+    await expect(browserGeolocationProvider.getCurrentPosition()).rejects.toThrow(
+      'Não foi possível obter a localização'
+    );
+  });
+
+  it('refuses browsers without geolocation', async () => {
+    vi.stubGlobal('navigator', {});
+
+    await expect(browserGeolocationProvider.getCurrentPosition()).rejects.toThrow(
+      'Este navegador não informa a localização'
+    );
+  });
+});
+
+describe('toRecordLocation', () => {
+  it('rounds a reading to the record columns', async () => {
+    const point = await fixedGeolocationProvider(station).getCurrentPosition();
+
+    expect(toRecordLocation(point)).toEqual({
+      latitude: -19.919138,
+      longitude: -43.938653,
+      location_accuracy_m: 13,
+    });
+  });
+
+  it('leaves the columns empty without a reading', () => {
+    expect(toRecordLocation(null)).toEqual({ latitude: null, longitude: null, location_accuracy_m: null });
+  });
+});
+
+describe('formatDistance', () => {
+  it('switches to kilometers from 1000 m', () => {
+    expect(formatDistance(149.6)).toBe('150 m');
+    expect(formatDistance(2350)).toBe('2,4 km');
+  });
+});
+
+describe('needsLocationReview', () => {
+  it('flags entries outside the geofence or without a location', () => {
+    expect(needsLocationReview('outside')).toBe(true);
+    expect(needsLocationReview('no_location')).toBe(true);
+    expect(needsLocationReview('inside')).toBe(false);
+    expect(needsLocationReview(null)).toBe(false);
+  });
+});
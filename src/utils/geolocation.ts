@@ -0,0 +1,105 @@
+// Station geofence: where overtime is registered from
+
+import type { Database } from '@/integrations/supabase/types';
+
+export type GeofenceStatus = Database['public']['Enums']['geofence_status'];
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+  // Radius of the reading's uncertainty, in meters
+  accuracy: number;
+}
+
+/**
+ * Source of the device's position. The app uses the browser's; tests and
+ * demos can inject one that returns fixed coordinates.
+ */
+export interface GeolocationProvider {
+  getCurrentPosition: () => Promise<GeoPoint>;
+}
+
+const POSITION_TIMEOUT_MS = 15 * 1000;
+
+// A reading up to a minute old is still from the same place
+const POSITION_MAX_AGE_MS = 60 * 1000;
+
+export const browserGeolocationProvider: GeolocationProvider = {
+  getCurrentPosition: () =>
+    new Promise((resolve, reject) => {
+      if (!('geolocation' in navigator)) {
+        reject(new Error('Este navegador não informa a localização'));
+        return;
+      }
+
+      navigator.geolocation.getCurrentPosition(
+        (position) =>
+          resolve({
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            accuracy: position.coords.accuracy,
+          }),
+        (error) =>
+          reject(
+            new Error(
+              error.code === error.PERMISSION_DENIED
+                ? 'Permissão de localização negada no navegador'
+                : 'Não foi possível obter a localização'
+            )
+          ),
+        { enableHighAccuracy: true, timeout: POSITION_TIMEOUT_MS, maximumAge: POSITION_MAX_AGE_MS }
+      );
+    }),
+};
+
+/**
+ * Provider that always reports the same position
+ */
+export function fixedGeolocationProvider(point: GeoPoint): GeolocationProvider {
+  return { getCurrentPosition: async () => point };
+}
+
+/**
+ * Columns of an overtime record (or clock mark) holding a reading
+ */
+export function toRecordLocation(point: GeoPoint | null) {
+  return {
+    latitude: point ? Number(point.latitude.toFixed(6)) : null,
+    longitude: point ? Number(point.longitude.toFixed(6)) : null,
+    location_accuracy_m: point ? Math.round(point.accuracy) : null,
+  };
+}
+
+export function formatDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1).replace('.', ',')} km`;
+}
+
+/**
+ * Records the reviewer has to look at before approving
+ */
+export function needsLocationReview(status: GeofenceStatus | null): boolean {
+  return status === 'outside' || status === 'no_location';
+}
+
+export const DEFAULT_GEOFENCE_RADIUS_M = 150;
+export const MIN_GEOFENCE_RADIUS_M = 20;
+export const MAX_GEOFENCE_RADIUS_M = 5000;
+
+// The employee's choice is remembered on the device
+const CONSENT_STORAGE_KEY = 'geolocation-consent';
+
+export function getStoredLocationConsent(): boolean {
+  try {
+    return localStorage.getItem(CONSENT_STORAGE_KEY) === 'granted';
+  } catch {
+    return false;
+  }
+}
+
+export function storeLocationConsent(granted: boolean) {
+  try {
+    localStorage.setItem(CONSENT_STORAGE_KEY, granted ? 'granted' : 'denied');
+  } catch {
+    // Private mode: the choice lasts only for this page
+  }
+}
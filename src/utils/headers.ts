@@ -10,7 +10,7 @@ export const CSP_POLICY = {
   'img-src': ["'self'", 'data:', 'https:'],
   'font-src': ["'self'", 'data:'],
   'connect-src': ["'self'", 'https://*.supabase.co', 'https://*.supabase.in'],
-  'frame-src': ["'none'"],
+  'frame-src': ['https://*.supabase.co', 'https://*.supabase.in'], // PDF attachments previewed from storage
   'object-src': ["'none'"],
   'base-uri': ["'self'"],
   'form-action': ["'self'"],
@@ -26,7 +26,7 @@ export const SECURITY_HEADERS = {
   'X-Frame-Options': 'DENY',
   'X-XSS-Protection': '1; mode=block',
   'Referrer-Policy': 'strict-origin-when-cross-origin',
-  'Permissions-Policy': 'camera=(), microphone=(), geolocation=()',
+  'Permissions-Policy': 'camera=(), microphone=(), geolocation=(self)',
   'Strict-Transport-Security': 'max-age=31536000; includeSubDomains',
 };
 
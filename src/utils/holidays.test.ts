@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import { generateHolidays, generateMovableHolidays, getEasterSunday } from '@/utils/holidays';
+
+describe('getEasterSunday', () => {
+  it.each([
+    [2024, '2024-03-31'],
+    [2025, '2025-04-20'],
+    [2026, '2026-04-05'],
+    [2038, '2038-04-25'],
+  ])('finds Easter of %i', (year, easter) => {
+    expect(format(getEasterSunday(year), 'yyyy-MM-dd')).toBe(easter);
+  });
+});
+
+describe('generateMovableHolidays', () => {
+  it('places the movable feasts relative to Easter', () => {
+    expect(generateMovableHolidays(2025).map((holiday) => [holiday.date, holiday.name])).toEqual([
+      ['2025-03-03', 'Carnaval (segunda-feira)'],
+      ['2025-03-04', 'Carnaval (terça-feira)'],
+      ['2025-04-18', 'Sexta-feira Santa'],
+      ['2025-06-19', 'Corpus Christi'],
+    ]);
+  });
+
+  it('generates Carnaval inactive, as a ponto facultativo', () => {
+    const active = generateMovableHolidays(2025)
+      .filter((holiday) => holiday.is_active)
+      .map((holiday) => holiday.name);
+
+    expect(active).toEqual(['Sexta-feira Santa', 'Corpus Christi']);
+  });
+});
+
+describe('generateHolidays', () => {
+  it('returns the whole calendar sorted by date with its location', () => {
+    const holidays = generateHolidays(2025);
+    const dates = holidays.map((holiday) => holiday.date);
+
+    expect(holidays).toHaveLength(15);
+    expect(dates).toEqual([...dates].sort());
+    expect(holidays.find((holiday) => holiday.date === '2025-11-20')).toMatchObject({
+      scope: 'national',
+      state_code: null,
+      city: null,
+      is_movable: false,
+    });
+    expect(holidays.find((holiday) => holiday.date === '2025-08-15')).toMatchObject({
+      scope: 'municipal',
+      state_code: 'MG',
+      city: 'Belo Horizonte',
+    });
+  });
+});
@@ -0,0 +1,119 @@
+// Brazilian holiday calendar: fixed dates and movable feasts derived from Easter
+
+import { addDays, format } from 'date-fns';
+
+export type HolidayScope = 'national' | 'state' | 'municipal';
+
+export const HOLIDAY_SCOPE_LABELS: Record<HolidayScope, string> = {
+  national: 'Nacional',
+  state: 'Estadual',
+  municipal: 'Municipal',
+};
+
+/**
+ * Location whose state and municipal holidays are generated
+ */
+export const HOLIDAY_STATE = 'MG';
+export const HOLIDAY_CITY = 'Belo Horizonte';
+
+export interface GeneratedHoliday {
+  date: string;
+  name: string;
+  scope: HolidayScope;
+  state_code: string | null;
+  city: string | null;
+  is_movable: boolean;
+  is_active: boolean;
+}
+
+const NATIONAL_HOLIDAYS: Array<[string, string]> = [
+  ['01-01', 'Confraternização Universal'],
+  ['04-21', 'Tiradentes'],
+  ['05-01', 'Dia do Trabalho'],
+  ['09-07', 'Independência do Brasil'],
+  ['10-12', 'Nossa Senhora Aparecida'],
+  ['11-02', 'Finados'],
+  ['11-15', 'Proclamação da República'],
+  ['11-20', 'Dia Nacional de Zumbi e da Consciência Negra'],
+  ['12-25', 'Natal'],
+];
+
+const MUNICIPAL_HOLIDAYS: Array<[string, string]> = [
+  ['08-15', 'Assunção de Nossa Senhora'],
+  ['12-08', 'Imaculada Conceição'],
+];
+
+/**
+ * Easter Sunday for a given year (anonymous Gregorian algorithm)
+ */
+export function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Movable feasts of a year, relative to Easter Sunday. Carnaval is only an
+ * optional day off (ponto facultativo) in Belo Horizonte, so it is generated
+ * inactive and only counts as a holiday once an admin confirms it.
+ */
+export function generateMovableHolidays(year: number): GeneratedHoliday[] {
+  const easter = getEasterSunday(year);
+  const movable: Array<[number, string, HolidayScope, boolean]> = [
+    [-48, 'Carnaval (segunda-feira)', 'municipal', false],
+    [-47, 'Carnaval (terça-feira)', 'municipal', false],
+    [-2, 'Sexta-feira Santa', 'national', true],
+    [60, 'Corpus Christi', 'municipal', true],
+  ];
+
+  return movable.map(([offset, name, scope, isActive]) => ({
+    date: format(addDays(easter, offset), 'yyyy-MM-dd'),
+    name,
+    scope,
+    state_code: scope === 'national' ? null : HOLIDAY_STATE,
+    city: scope === 'municipal' ? HOLIDAY_CITY : null,
+    is_movable: true,
+    is_active: isActive,
+  }));
+}
+
+/**
+ * Full holiday calendar of a year: national, municipal and movable feasts
+ */
+export function generateHolidays(year: number): GeneratedHoliday[] {
+  const fixed = [
+    ...NATIONAL_HOLIDAYS.map(([monthDay, name]) => ({
+      date: `${year}-${monthDay}`,
+      name,
+      scope: 'national' as const,
+      state_code: null,
+      city: null,
+      is_movable: false,
+      is_active: true,
+    })),
+    ...MUNICIPAL_HOLIDAYS.map(([monthDay, name]) => ({
+      date: `${year}-${monthDay}`,
+      name,
+      scope: 'municipal' as const,
+      state_code: HOLIDAY_STATE,
+      city: HOLIDAY_CITY,
+      is_movable: false,
+      is_active: true,
+    })),
+  ];
+
+  return [...fixed, ...generateMovableHolidays(year)].sort((a, b) => a.date.localeCompare(b.date));
+}
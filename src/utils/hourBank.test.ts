@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { getHourBankExpiry, summarizeHourBank, type HourBankEntry } from '@/utils/hourBank';
+
+let sequence = 0;
+const entry = (
+  entry_type: HourBankEntry['entry_type'],
+  minutes: number,
+  entry_date: string,
+  expires_on: string | null = null
+): HourBankEntry => ({
+  id: `entry-${++sequence}`,
+  entry_type,
+  minutes,
+  entry_date,
+  expires_on,
+  created_at: `${entry_date}T12:00:00Z`,
+});
+
+describe('getHourBankExpiry', () => {
+  it('adds the validity window to the credit date', () => {
+    expect(getHourBankExpiry('2025-01-31', 6)).toBe('2025-07-31');
+    expect(getHourBankExpiry('2025-08-31', 6)).toBe('2026-02-28');
+    expect(getHourBankExpiry('2025-03-01', 12)).toBe('2026-03-01');
+  });
+});
+
+describe('summarizeHourBank', () => {
+  it('consumes the oldest credits first', () => {
+    const summary = summarizeHourBank(
+      [
+        entry('credit', 90, '2025-03-01', '2025-09-01'),
+        entry('credit', 120, '2025-02-01', '2025-08-01'),
+        entry('debit', -100, '2025-04-01'),
+      ],
+      '2025-05-01'
+    );
+
+    expect(summary.balance).toBe(110);
+    expect(summary.lots.map((lot) => [lot.entryDate, lot.remaining])).toEqual([
+      ['2025-02-01', 20],
+      ['2025-03-01', 90],
+    ]);
+  });
+
+  it('splits open credits into expired and expiring within the warning window', () => {
+    const summary = summarizeHourBank(
+      [
+        entry('credit', 60, '2025-01-01', '2025-07-01'),
+        entry('credit', 45, '2025-02-15', '2025-08-15'),
+        entry('credit', 30, '2025-06-01', '2025-12-01'),
+      ],
+      '2025-07-20'
+    );
+
+    expect(summary.expiredMinutes).toBe(60);
+    expect(summary.expiringMinutes).toBe(45);
+    expect(summary.balance).toBe(135);
+  });
+
+  it('keeps expired credits for payout when time off is taken after they expire', () => {
+    const summary = summarizeHourBank(
+      [
+        entry('credit', 60, '2025-01-01', '2025-07-01'),
+        entry('credit', 30, '2025-06-01', '2025-12-01'),
+        entry('debit', -30, '2025-07-01'),
+      ],
+      '2025-07-20'
+    );
+
+    expect(summary.expiredMinutes).toBe(60);
+    expect(summary.lots.map((lot) => [lot.entryDate, lot.remaining])).toEqual([['2025-01-01', 60]]);
+  });
+
+  it('lets payouts take expired credits', () => {
+    const summary = summarizeHourBank(
+      [
+        entry('credit', 60, '2025-01-01', '2025-07-01'),
+        entry('credit', 30, '2025-06-01', '2025-12-01'),
+        entry('payout', -60, '2025-07-10'),
+      ],
+      '2025-07-20'
+    );
+
+    expect(summary.expiredMinutes).toBe(0);
+    expect(summary.lots.map((lot) => [lot.entryDate, lot.remaining])).toEqual([['2025-06-01', 30]]);
+  });
+
+  it('lets negative adjustments skip expired credits like time off', () => {
+    const summary = summarizeHourBank(
+      [
+        entry('credit', 60, '2025-01-01', '2025-07-01'),
+        entry('adjustment', 20, '2025-06-01', '2025-12-01'),
+        entry('adjustment', -20, '2025-07-15'),
+      ],
+      '2025-07-20'
+    );
+
+    expect(summary.balance).toBe(60);
+    expect(summary.expiredMinutes).toBe(60);
+  });
+});
@@ -0,0 +1,121 @@
+// Hour bank (banco de horas) ledger: balance, FIFO consumption and expirations
+
+import { addDays, addMonths, format, parseISO } from 'date-fns';
+
+export type CompensationMode = 'payment' | 'hour_bank';
+export type HourBankEntryType = 'credit' | 'debit' | 'adjustment' | 'payout';
+
+export const COMPENSATION_MODE_LABELS: Record<CompensationMode, string> = {
+  payment: 'Pagamento',
+  hour_bank: 'Banco de horas',
+};
+
+export const HOUR_BANK_ENTRY_LABELS: Record<HourBankEntryType, string> = {
+  credit: 'Crédito',
+  debit: 'Folga compensatória',
+  adjustment: 'Ajuste',
+  payout: 'Pagamento de saldo',
+};
+
+/**
+ * Validity windows agreed for hour bank credits (CLT art. 59 §§2º and 5º)
+ */
+export const HOUR_BANK_VALIDITY_MONTHS = [6, 12] as const;
+
+/**
+ * Payroll setting holding the premium paid on hour bank payouts (0.5 = +50%)
+ */
+export const HOUR_BANK_PAYOUT_PREMIUM_SETTING = 'hour_bank_payout_premium';
+export const DEFAULT_HOUR_BANK_PAYOUT_PREMIUM = 0.5;
+
+/**
+ * Credits expiring within this many days are flagged for payout
+ */
+export const HOUR_BANK_EXPIRY_WARNING_DAYS = 30;
+
+export interface HourBankEntry {
+  id: string;
+  entry_type: HourBankEntryType;
+  minutes: number;
+  entry_date: string;
+  expires_on: string | null;
+  created_at: string;
+}
+
+export interface HourBankLot {
+  entryId: string;
+  entryDate: string;
+  expiresOn: string;
+  minutes: number;
+  remaining: number;
+}
+
+export interface HourBankSummary {
+  balance: number;
+  lots: HourBankLot[];
+  expiredMinutes: number;
+  expiringMinutes: number;
+}
+
+/**
+ * Date a credit made on the given day stops being usable
+ */
+export function getHourBankExpiry(date: string, validityMonths: number): string {
+  return format(addMonths(parseISO(date), validityMonths), 'yyyy-MM-dd');
+}
+
+/**
+ * Replays the ledger in date order. Negative entries consume the oldest open
+ * credits first, so whatever is left on a credit past its expiry date is the
+ * balance that has to be paid out. Time off and negative adjustments cannot
+ * use credits already expired on their date; only payouts take those.
+ */
+export function summarizeHourBank(
+  entries: HourBankEntry[],
+  today: string,
+  warningDays = HOUR_BANK_EXPIRY_WARNING_DAYS
+): HourBankSummary {
+  const ordered = [...entries].sort(
+    (a, b) => a.entry_date.localeCompare(b.entry_date) || a.created_at.localeCompare(b.created_at)
+  );
+
+  const lots: HourBankLot[] = [];
+  let balance = 0;
+  for (const entry of ordered) {
+    balance += entry.minutes;
+
+    if (entry.minutes > 0) {
+      lots.push({
+        entryId: entry.id,
+        entryDate: entry.entry_date,
+        expiresOn: entry.expires_on ?? entry.entry_date,
+        minutes: entry.minutes,
+        remaining: entry.minutes,
+      });
+      continue;
+    }
+
+    let toConsume = -entry.minutes;
+    for (const lot of lots) {
+      if (toConsume === 0) break;
+      if (entry.entry_type !== 'payout' && lot.expiresOn <= entry.entry_date) continue;
+      const consumed = Math.min(lot.remaining, toConsume);
+      lot.remaining -= consumed;
+      toConsume -= consumed;
+    }
+  }
+
+  const warningLimit = format(addDays(parseISO(today), warningDays), 'yyyy-MM-dd');
+  const openLots = lots.filter((lot) => lot.remaining > 0);
+
+  return {
+    balance,
+    lots: openLots,
+    expiredMinutes: openLots
+      .filter((lot) => lot.expiresOn <= today)
+      .reduce((sum, lot) => sum + lot.remaining, 0),
+    expiringMinutes: openLots
+      .filter((lot) => lot.expiresOn > today && lot.expiresOn <= warningLimit)
+      .reduce((sum, lot) => sum + lot.remaining, 0),
+  };
+}
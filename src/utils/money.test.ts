@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { allocateCents } from '@/utils/money';
+
+describe('allocateCents', () => {
+  it('gives the leftover centavos to the largest remainders', () => {
+    expect(allocateCents(1001, [3, 7])).toEqual([300, 701]);
+  });
+
+  it('breaks remainder ties by position', () => {
+    expect(allocateCents(100, [1, 1, 1])).toEqual([34, 33, 33]);
+  });
+
+  it('splits negative totals symmetrically', () => {
+    expect(allocateCents(-100, [1, 1, 1])).toEqual([-34, -33, -33]);
+  });
+
+  it('always adds up to the total', () => {
+    const parts = allocateCents(4373, [1299, 4671, 15, 880]);
+    expect(parts.reduce((sum, part) => sum + part, 0)).toBe(4373);
+  });
+
+  it('handles empty and zero weights', () => {
+    expect(allocateCents(10, [])).toEqual([]);
+    expect(allocateCents(10, [0, 0])).toEqual([0, 0]);
+  });
+});
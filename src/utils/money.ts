@@ -0,0 +1,129 @@
+// Exact money and duration arithmetic: amounts in integer centavos, durations in integer minutes
+
+/**
+ * How a fractional amount becomes an integer.
+ * half_up rounds ties away from zero, like PostgreSQL ROUND() on numeric,
+ * and is the rule used for every stored value.
+ */
+export type RoundingMode = 'half_up' | 'half_even' | 'down' | 'up';
+
+/**
+ * Rounds to an integer with an explicit rule. Binary floating point noise
+ * (e.g. 1.005 * 100 = 100.49999…) is removed before rounding.
+ */
+export function roundInteger(value: number, mode: RoundingMode = 'half_up'): number {
+  const clean = Number(value.toPrecision(12));
+  const sign = clean < 0 ? -1 : 1;
+  const absolute = Math.abs(clean);
+  const floor = Math.floor(absolute);
+  const fraction = absolute - floor;
+
+  let rounded: number;
+  switch (mode) {
+    case 'down':
+      rounded = floor;
+      break;
+    case 'up':
+      rounded = fraction > 0 ? floor + 1 : floor;
+      break;
+    case 'half_even':
+      rounded = fraction > 0.5 || (fraction === 0.5 && floor % 2 === 1) ? floor + 1 : floor;
+      break;
+    default:
+      rounded = fraction >= 0.5 ? floor + 1 : floor;
+  }
+
+  return rounded === 0 ? 0 : sign * rounded;
+}
+
+/**
+ * Converts a reais amount (number or numeric string from the database) to centavos
+ */
+export function toCents(value: number | string, mode: RoundingMode = 'half_up'): number {
+  return roundInteger(Number(value) * 100, mode);
+}
+
+/**
+ * Converts centavos back to reais for display and storage
+ */
+export function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * Rounds a reais amount to whole centavos
+ */
+export function roundMoney(value: number, mode: RoundingMode = 'half_up'): number {
+  return fromCents(toCents(value, mode));
+}
+
+/**
+ * Multiplies centavos by a rate or ratio, rounding the product once
+ */
+export function multiplyCents(cents: number, factor: number, mode: RoundingMode = 'half_up'): number {
+  return roundInteger(cents * factor, mode);
+}
+
+/**
+ * Sums reais amounts exactly by adding their centavos
+ */
+export function sumMoney(values: Array<number | string>): number {
+  return fromCents(values.reduce<number>((sum, value) => sum + toCents(value), 0));
+}
+
+/**
+ * Splits centavos proportionally to the weights using the largest remainder
+ * method, so the parts always add up to the total
+ */
+export function allocateCents(total: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weights.length === 0) return [];
+  if (weightSum === 0) return weights.map(() => 0);
+
+  const sign = total < 0 ? -1 : 1;
+  const absolute = Math.abs(total);
+  const exact = weights.map((weight) => (absolute * weight) / weightSum);
+  const parts = exact.map((share) => Math.floor(share));
+
+  let remaining = absolute - parts.reduce((sum, part) => sum + part, 0);
+  const byRemainder = exact
+    .map((share, index) => ({ index, remainder: share - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (remaining <= 0) break;
+    parts[index]++;
+    remaining--;
+  }
+
+  return parts.map((part) => (part === 0 ? 0 : sign * part));
+}
+
+/**
+ * Formats centavos as a plain decimal string, e.g. 123456 → "1234.56"
+ */
+export function formatCents(cents: number): string {
+  const sign = cents < 0 ? '-' : '';
+  const absolute = Math.abs(cents);
+  return `${sign}${Math.floor(absolute / 100)}.${String(absolute % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Converts decimal hours (e.g. net_hours from the database) to whole minutes
+ */
+export function hoursToMinutes(hours: number | string, mode: RoundingMode = 'half_up'): number {
+  return roundInteger(Number(hours) * 60, mode);
+}
+
+/**
+ * Converts minutes to decimal hours rounded to two places, like the stored hour columns
+ */
+export function minutesToHours(minutes: number): number {
+  return fromCents(roundInteger((minutes * 100) / 60));
+}
+
+/**
+ * Sums decimal hours exactly by adding their minutes
+ */
+export function sumHours(values: Array<number | string>): number {
+  return minutesToHours(values.reduce<number>((sum, value) => sum + hoursToMinutes(value), 0));
+}
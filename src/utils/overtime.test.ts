@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { calculateOvertime } from '@/utils/overtime';
+
+// 2025-10-18 is a Saturday, 2025-10-19 a Sunday and 2025-10-21 a Tuesday
+describe('calculateOvertime', () => {
+  it('returns null for incomplete input', () => {
+    expect(calculateOvertime({ date: '2025-10-21', startTime: '', endTime: '20:00', lunchDiscount: false })).toBeNull();
+    expect(calculateOvertime({ date: 'invalid', startTime: '18:00', endTime: '20:00', lunchDiscount: false })).toBeNull();
+  });
+
+  it('pays weekday daytime minutes at 50%', () => {
+    const result = calculateOvertime({ date: '2025-10-21', startTime: '18:00', endTime: '20:00', lunchDiscount: false });
+
+    expect(result?.totalValue).toBe(46.71);
+    expect(result?.netHours).toBe(2);
+    expect(result?.nightMinutes).toBe(0);
+    expect(result?.overnight).toBe(false);
+  });
+
+  it('pays night minutes as reduced hours plus the night premium', () => {
+    const result = calculateOvertime({ date: '2025-10-21', startTime: '18:00', endTime: '23:00', lunchDiscount: false });
+
+    expect(result?.bands.map((band) => [band.kind, band.night, band.minutes, band.value])).toEqual([
+      ['regular', false, 240, 93.42],
+      ['regular', true, 60, 32.03],
+    ]);
+    expect(result?.totalValue).toBe(125.45);
+    expect(result?.nightMinutes).toBe(60);
+    expect(result?.nightPremiumValue).toBe(5.34);
+  });
+
+  it('ends overnight shifts on the next day and splits minutes by calendar day', () => {
+    const result = calculateOvertime({ date: '2025-10-21', startTime: '22:00', endTime: '06:00', lunchDiscount: false });
+
+    expect(result?.endDate).toBe('2025-10-22');
+    expect(result?.overnight).toBe(true);
+    expect(result?.rawMinutes).toBe(480);
+    expect(result?.nightMinutes).toBe(420);
+    expect(result?.totalValue).toBe(247.57);
+    expect(result?.minutesByDate).toEqual({ '2025-10-21': 120, '2025-10-22': 360 });
+  });
+
+  it('pays Sundays and holidays at 100%', () => {
+    const sunday = calculateOvertime({ date: '2025-10-19', startTime: '08:00', endTime: '10:00', lunchDiscount: false });
+    const holiday = calculateOvertime({
+      date: '2025-11-20',
+      startTime: '08:00',
+      endTime: '10:00',
+      lunchDiscount: false,
+      isHoliday: (date) => date === '2025-11-20',
+    });
+
+    expect(sunday?.bands.map((band) => band.kind)).toEqual(['rest_day']);
+    expect(sunday?.totalValue).toBe(62.28);
+    expect(holiday?.totalValue).toBe(62.28);
+  });
+
+  it('prices each minute by its own day when a shift crosses into a Sunday', () => {
+    const result = calculateOvertime({ date: '2025-10-18', startTime: '22:00', endTime: '02:00', lunchDiscount: false });
+
+    expect(result?.bands.map((band) => [band.kind, band.night, band.minutes, band.value])).toEqual([
+      ['regular', true, 120, 64.06],
+      ['rest_day', true, 120, 85.41],
+    ]);
+    expect(result?.totalValue).toBe(149.47);
+  });
+
+  it('deducts the lunch break from the cheapest band first', () => {
+    const result = calculateOvertime({ date: '2025-10-18', startTime: '20:00', endTime: '02:00', lunchDiscount: true });
+
+    expect(result?.totalHours).toBe(6);
+    expect(result?.netHours).toBe(5);
+    expect(result?.bands.map((band) => [band.kind, band.night, band.minutes])).toEqual([
+      ['regular', false, 60],
+      ['regular', true, 120],
+      ['rest_day', true, 120],
+    ]);
+    expect(result?.totalValue).toBe(172.83);
+    // Per day, the break counts against the day the shift starts on
+    expect(result?.minutesByDate).toEqual({ '2025-10-18': 180, '2025-10-19': 120 });
+  });
+
+  it('counts the minutes left by the time adjustment policy', () => {
+    const result = calculateOvertime({
+      date: '2025-10-21',
+      startTime: '18:00',
+      endTime: '19:07',
+      lunchDiscount: false,
+      timePolicy: 'round_15',
+    });
+
+    expect(result?.rawMinutes).toBe(67);
+    expect(result?.countedMinutes).toBe(60);
+    expect(result?.totalValue).toBe(23.36);
+  });
+});
@@ -0,0 +1,236 @@
+// Overtime calculation engine shared by every screen that registers or edits records
+
+import { addDays, format, isSunday, parseISO } from 'date-fns';
+import { fromCents, minutesToHours, toCents } from '@/utils/money';
+import { adjustWorkedMinutes, type TimeAdjustmentPolicy } from '@/utils/timeAdjustment';
+
+/**
+ * Default hourly rate used when no other rate applies
+ */
+export const DEFAULT_HOURLY_RATE = 15.57;
+
+/**
+ * Legal overtime premiums (CF art. 7º, XVI and Lei 605/49)
+ */
+export const OVERTIME_PREMIUMS = {
+  regular: 0.5,
+  rest_day: 1,
+} as const;
+
+export type OvertimeBandKind = keyof typeof OVERTIME_PREMIUMS;
+
+export const OVERTIME_BAND_LABELS: Record<OvertimeBandKind, string> = {
+  regular: 'Dia útil',
+  rest_day: 'Domingo/feriado',
+};
+
+/**
+ * Night work (CLT art. 73): 22:00–05:00, 20% premium and a reduced 52m30s hour
+ */
+export const NIGHT_START_MINUTES = 22 * 60;
+export const NIGHT_END_MINUTES = 5 * 60;
+export const NIGHT_PREMIUM = 0.2;
+export const NIGHT_HOUR_MINUTES = 52.5;
+
+const LUNCH_MINUTES = 60;
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface OvertimeBand {
+  kind: OvertimeBandKind;
+  night: boolean;
+  minutes: number;
+  paidMinutes: number;
+  premium: number;
+  valueCents: number;
+  nightPremiumCents: number;
+  value: number;
+  nightPremiumValue: number;
+}
+
+export interface OvertimeCalculation {
+  endDate: string;
+  overnight: boolean;
+  timePolicy: TimeAdjustmentPolicy;
+  rawMinutes: number;
+  countedMinutes: number;
+  totalHours: number;
+  lunchDiscount: boolean;
+  netHours: number;
+  hourlyRate: number;
+  totalValue: number;
+  nightMinutes: number;
+  nightPremiumValue: number;
+  bands: OvertimeBand[];
+  minutesByDate: Record<string, number>;
+}
+
+export interface OvertimeInput {
+  date: string;
+  startTime: string;
+  endTime: string;
+  lunchDiscount: boolean;
+  hourlyRate?: number;
+  isHoliday?: (date: string) => boolean;
+  timePolicy?: TimeAdjustmentPolicy;
+  otherMinutesOnDate?: number;
+}
+
+/**
+ * Converts an HH:MM (or HH:MM:SS) string to minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+}
+
+/**
+ * Formats signed minutes as hours and minutes, e.g. -90 → "-1h30"
+ */
+export function formatMinutes(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '';
+  const absolute = Math.abs(minutes);
+  return `${sign}${Math.floor(absolute / 60)}h${String(absolute % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Calendar day a shift ends on: the next day when the end time is before the start
+ */
+export function getShiftEndDate(date: string, startTime: string, endTime: string): string {
+  if (timeToMinutes(endTime) >= timeToMinutes(startTime)) return date;
+  return format(addDays(parseISO(date), 1), 'yyyy-MM-dd');
+}
+
+/**
+ * Tells whether a minute of the day falls within the legal night period
+ */
+export function isNightMinute(minuteOfDay: number): boolean {
+  return minuteOfDay >= NIGHT_START_MINUTES || minuteOfDay < NIGHT_END_MINUTES;
+}
+
+/**
+ * Human readable label of a premium band
+ */
+export function getBandLabel(band: Pick<OvertimeBand, 'kind' | 'night'>): string {
+  return band.night ? `${OVERTIME_BAND_LABELS[band.kind]} noturno` : OVERTIME_BAND_LABELS[band.kind];
+}
+
+function priceBand(
+  kind: OvertimeBandKind,
+  night: boolean,
+  minutes: number,
+  hourlyRate: number
+): OvertimeBand {
+  const premium = OVERTIME_PREMIUMS[kind];
+  const paidMinutes = night ? minutes * (60 / NIGHT_HOUR_MINUTES) : minutes;
+  const overtimeValue = (paidMinutes / 60) * hourlyRate * (1 + premium);
+  const nightPremium = night ? overtimeValue * NIGHT_PREMIUM : 0;
+  const valueCents = toCents(overtimeValue + nightPremium);
+  const nightPremiumCents = toCents(nightPremium);
+
+  return {
+    kind,
+    night,
+    minutes,
+    paidMinutes,
+    premium,
+    valueCents,
+    nightPremiumCents,
+    value: fromCents(valueCents),
+    nightPremiumValue: fromCents(nightPremiumCents),
+  };
+}
+
+/**
+ * Calculates an overtime entry, splitting the worked minutes into premium bands.
+ * Night minutes are paid as reduced hours plus the night premium on top of the
+ * overtime premium. The lunch break is deducted from the cheapest band first.
+ * Shifts may cross midnight; each minute is attributed to its own calendar day.
+ * The tolerance/rounding policy decides how many minutes count: minutes rounded
+ * away are dropped from the end of the shift, minutes rounded up are added after it.
+ * The stored values come from public.calculate_overtime_values(), which mirrors
+ * this function; here it only drives the preview.
+ */
+export function calculateOvertime({
+  date,
+  startTime,
+  endTime,
+  lunchDiscount,
+  hourlyRate = DEFAULT_HOURLY_RATE,
+  isHoliday = () => false,
+  timePolicy = 'exact',
+  otherMinutesOnDate = 0,
+}: OvertimeInput): OvertimeCalculation | null {
+  if (!date || !startTime || !endTime) return null;
+
+  const startMinutes = timeToMinutes(startTime);
+  const endMinutes = timeToMinutes(endTime);
+  if (isNaN(startMinutes) || isNaN(endMinutes)) return null;
+
+  const baseDate = parseISO(date);
+  if (isNaN(baseDate.getTime())) return null;
+
+  // Shifts ending before they start cross midnight into the next day
+  let rawMinutes = endMinutes - startMinutes;
+  if (rawMinutes < 0) rawMinutes += MINUTES_PER_DAY;
+  const totalMinutes = adjustWorkedMinutes(rawMinutes, timePolicy, otherMinutesOnDate);
+
+  // Classify every worked minute by calendar day and time of day
+  const minutesByBand = new Map<string, { kind: OvertimeBandKind; night: boolean; minutes: number }>();
+  const minutesByDate: Record<string, number> = {};
+  for (let offset = 0; offset < totalMinutes; offset++) {
+    const absoluteMinute = startMinutes + offset;
+    const calendarDay = addDays(baseDate, Math.floor(absoluteMinute / MINUTES_PER_DAY));
+    const day = format(calendarDay, 'yyyy-MM-dd');
+    const kind: OvertimeBandKind = isSunday(calendarDay) || isHoliday(day) ? 'rest_day' : 'regular';
+    const night = isNightMinute(absoluteMinute % MINUTES_PER_DAY);
+
+    const key = `${kind}-${night}`;
+    const entry = minutesByBand.get(key) ?? { kind, night, minutes: 0 };
+    entry.minutes++;
+    minutesByBand.set(key, entry);
+    minutesByDate[day] = (minutesByDate[day] ?? 0) + 1;
+  }
+
+  const candidates = [...minutesByBand.values()]
+    .map(({ kind, night, minutes }) => priceBand(kind, night, minutes, hourlyRate))
+    .sort((a, b) => a.value / a.minutes - b.value / b.minutes);
+
+  let lunchRemaining = lunchDiscount ? LUNCH_MINUTES : 0;
+  const bands: OvertimeBand[] = [];
+  for (const candidate of candidates) {
+    const deducted = Math.min(candidate.minutes, lunchRemaining);
+    lunchRemaining -= deducted;
+    const minutes = candidate.minutes - deducted;
+    if (minutes <= 0) continue;
+
+    bands.push(priceBand(candidate.kind, candidate.night, minutes, hourlyRate));
+  }
+
+  // For per-day totals the lunch break counts against the day the shift starts on
+  let dayLunchRemaining = lunchDiscount ? LUNCH_MINUTES : 0;
+  for (const day of Object.keys(minutesByDate).sort()) {
+    const deducted = Math.min(minutesByDate[day], dayLunchRemaining);
+    dayLunchRemaining -= deducted;
+    minutesByDate[day] -= deducted;
+  }
+
+  const endDate = getShiftEndDate(date, startTime, endTime);
+
+  return {
+    endDate,
+    overnight: endDate !== date,
+    timePolicy,
+    rawMinutes,
+    countedMinutes: totalMinutes,
+    totalHours: minutesToHours(totalMinutes),
+    lunchDiscount,
+    netHours: minutesToHours(lunchDiscount ? totalMinutes - LUNCH_MINUTES : totalMinutes),
+    hourlyRate,
+    // Band values are summed in centavos, exactly like the stored record total
+    totalValue: fromCents(bands.reduce((sum, band) => sum + band.valueCents, 0)),
+    nightMinutes: bands.reduce((sum, band) => sum + (band.night ? band.minutes : 0), 0),
+    nightPremiumValue: fromCents(bands.reduce((sum, band) => sum + band.nightPremiumCents, 0)),
+    bands,
+    minutesByDate,
+  };
+}
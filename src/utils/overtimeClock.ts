@@ -0,0 +1,43 @@
+// Overtime clock: sessions punched in and out on the server clock
+
+/**
+ * Payroll settings holding the reminder and auto-close times, in minutes
+ */
+export const OVERTIME_CLOCK_SETTINGS = {
+  reminder: 'overtime_clock_reminder_minutes',
+  autoClose: 'overtime_clock_auto_close_minutes',
+} as const;
+
+export const DEFAULT_CLOCK_REMINDER_MINUTES = 240;
+export const DEFAULT_CLOCK_AUTO_CLOSE_MINUTES = 720;
+
+export type OvertimeClockPhase = 'running' | 'reminder' | 'overdue';
+
+/**
+ * Milliseconds elapsed since a session started, never negative
+ */
+export function elapsedMs(startedAt: string, now: number = Date.now()): number {
+  return Math.max(0, now - new Date(startedAt).getTime());
+}
+
+/**
+ * Elapsed time as HH:MM:SS; hours keep growing past 24
+ */
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map((part) => String(part).padStart(2, '0')).join(':');
+}
+
+/**
+ * Whether an open session is still fine, due a reminder or past the
+ * auto-close time (mirrors public.close_stale_overtime_clock_sessions())
+ */
+export function clockPhase(ms: number, reminderMinutes: number, autoCloseMinutes: number): OvertimeClockPhase {
+  const minutes = ms / 60000;
+  if (minutes >= autoCloseMinutes) return 'overdue';
+  if (minutes >= reminderMinutes) return 'reminder';
+  return 'running';
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { describeLimitExcess, formatLimitPeriod } from '@/utils/overtimeLimits';
+
+describe('formatLimitPeriod', () => {
+  it('formats days, weeks and months', () => {
+    expect(formatLimitPeriod('day', '2025-10-20')).toBe('20/10/2025');
+    expect(formatLimitPeriod('week', '2025-10-20')).toBe('semana de 20/10/2025');
+    expect(formatLimitPeriod('month', '2025-10-01')).toBe('outubro/2025');
+  });
+});
+
+describe('describeLimitExcess', () => {
+  it('describes the limit, the excess and the period', () => {
+    expect(
+      describeLimitExcess({
+        period: 'day',
+        period_start: '2025-10-20',
+        minutes: 210,
+        limit_minutes: 120,
+        excess_minutes: 90,
+      })
+    ).toBe('Limite diário de 2h00 excedido em 1h30 (20/10/2025)');
+
+    expect(
+      describeLimitExcess({
+        period: 'month',
+        period_start: '2025-10-01',
+        minutes: 2700,
+        limit_minutes: 2400,
+        excess_minutes: 300,
+      })
+    ).toBe('Limite mensal de 40h00 excedido em 5h00 (outubro/2025)');
+  });
+});
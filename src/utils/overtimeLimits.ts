@@ -0,0 +1,62 @@
+// Daily, weekly and monthly overtime limits
+
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { formatMinutes } from '@/utils/overtime';
+
+export type OvertimeLimitPeriod = 'day' | 'week' | 'month';
+export type OvertimeLimitEnforcement = 'warn' | 'block';
+
+export const LIMIT_PERIOD_LABELS: Record<OvertimeLimitPeriod, string> = {
+  day: 'diário',
+  week: 'semanal',
+  month: 'mensal',
+};
+
+export const LIMIT_ENFORCEMENT_LABELS: Record<OvertimeLimitEnforcement, string> = {
+  warn: 'Apenas avisar',
+  block: 'Bloquear lançamento',
+};
+
+/**
+ * Payroll settings holding the global limits, in minutes (0 disables a limit)
+ */
+export const OVERTIME_LIMIT_SETTINGS = {
+  day: 'overtime_daily_limit_minutes',
+  week: 'overtime_weekly_limit_minutes',
+  month: 'overtime_monthly_limit_minutes',
+  enforcement: 'overtime_limit_enforcement',
+} as const;
+
+/**
+ * CLT art. 59: at most 2 overtime hours per day
+ */
+export const DEFAULT_DAILY_LIMIT_MINUTES = 120;
+
+export interface OvertimeLimitExcess {
+  period: string;
+  period_start: string;
+  minutes: number;
+  limit_minutes: number;
+  excess_minutes: number;
+}
+
+/**
+ * Human readable period of an excess, e.g. "20/10/2025", "semana de 20/10/2025" or "outubro/2025"
+ */
+export function formatLimitPeriod(period: string, periodStart: string): string {
+  const date = parseISO(periodStart);
+  if (period === 'week') return `semana de ${format(date, 'dd/MM/yyyy', { locale: ptBR })}`;
+  if (period === 'month') return format(date, 'MMMM/yyyy', { locale: ptBR });
+  return format(date, 'dd/MM/yyyy', { locale: ptBR });
+}
+
+/**
+ * One-line description of an excess, e.g. "Limite diário de 2h00 excedido em 1h30 (20/10/2025)"
+ */
+export function describeLimitExcess(excess: OvertimeLimitExcess): string {
+  const label = LIMIT_PERIOD_LABELS[excess.period as OvertimeLimitPeriod] ?? excess.period;
+  return `Limite ${label} de ${formatMinutes(excess.limit_minutes)} excedido em ${formatMinutes(
+    excess.excess_minutes
+  )} (${formatLimitPeriod(excess.period, excess.period_start)})`;
+}
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { findOverlappingRecord, isNetworkError } from '@/utils/overtimeOutbox';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('isNetworkError', () => {
+  it('treats every failure as a network error while offline', () => {
+    vi.stubGlobal('navigator', { onLine: false });
+
+    expect(isNetworkError({ code: '23514', message: 'violates check constraint' })).toBe(true);
+  });
+
+  it('recognizes fetch failures', () => {
+    vi.stubGlobal('navigator', { onLine: true });
+
+    expect(isNetworkError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isNetworkError({ message: 'TypeError: Load failed' })).toBe(true);
+    expect(isNetworkError({ message: 'NetworkError when attempting to fetch resource.' })).toBe(true);
+  });
+
+  it('leaves errors the server answered with to the caller', () => {
+    vi.stubGlobal('navigator', { onLine: true });
+
+    expect(isNetworkError({ code: 'P0001', message: 'Período da folha fechado' })).toBe(false);
+    expect(isNetworkError(new Error('Registro duplicado'))).toBe(false);
+    expect(isNetworkError(null)).toBe(false);
+  });
+});
+
+describe('findOverlappingRecord', () => {
+  const records = [
+    { id: 'evening', date: '2025-10-20', end_date: '2025-10-20', start_time: '18:00:00', end_time: '20:00:00' },
+    { id: 'night', date: '2025-10-21', end_date: '2025-10-22', start_time: '22:00:00', end_time: '02:00:00' },
+  ];
+
+  it('finds a record sharing part of the period', () => {
+    const entry = { id: 'new', date: '2025-10-20', end_date: '2025-10-20', start_time: '19:30', end_time: '21:00' };
+
+    expect(findOverlappingRecord(records, entry)?.id).toBe('evening');
+  });
+
+  it('compares shifts that cross midnight by their end date', () => {
+    const entry = { id: 'new', date: '2025-10-22', end_date: '2025-10-22', start_time: '01:00', end_time: '03:00' };
+
+    expect(findOverlappingRecord(records, entry)?.id).toBe('night');
+  });
+
+  it('allows back-to-back periods', () => {
+    const entry = { id: 'new', date: '2025-10-20', end_date: '2025-10-20', start_time: '20:00', end_time: '21:00' };
+
+    expect(findOverlappingRecord(records, entry)).toBeUndefined();
+  });
+
+  it('ignores the record being edited', () => {
+    expect(findOverlappingRecord(records, records[0])).toBeUndefined();
+  });
+});
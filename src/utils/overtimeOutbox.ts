@@ -0,0 +1,68 @@
+// Offline outbox: overtime entries saved on the device until they reach the server
+
+import type { TablesInsert } from '@/integrations/supabase/types';
+
+export type OutboxStatus = 'pending' | 'conflict';
+
+export type OutboxRecord = TablesInsert<'overtime_records'> & {
+  id: string;
+  date: string;
+  end_date: string;
+  start_time: string;
+  end_time: string;
+};
+
+export interface OutboxEntry {
+  // Also the id of the record on the server, so a retried sync cannot duplicate it
+  id: string;
+  userId: string;
+  createdAt: string;
+  record: OutboxRecord;
+  files: File[];
+  status: OutboxStatus;
+  // Why the server refused the entry; the employee retries or discards it
+  error: string | null;
+}
+
+export const OUTBOX_STATUS_LABELS: Record<OutboxStatus, string> = {
+  pending: 'Pendente de sincronização',
+  conflict: 'Conflito na sincronização',
+};
+
+/**
+ * Whether a failed request never reached the server (offline, DNS, timeout),
+ * as opposed to being refused by it
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+
+  const { code, message } = (error ?? {}) as { code?: string; message?: string };
+  return !code && /failed to fetch|networkerror|load failed|network request failed/i.test(message ?? '');
+}
+
+export interface ShiftPeriod {
+  id: string;
+  date: string;
+  end_date: string;
+  start_time: string;
+  end_time: string;
+}
+
+const periodBounds = (period: ShiftPeriod) => ({
+  start: `${period.date} ${period.start_time.substring(0, 5)}`,
+  end: `${period.end_date} ${period.end_time.substring(0, 5)}`,
+});
+
+/**
+ * First record whose period overlaps the entry's, ignoring the entry itself.
+ * Marks compare as text: yyyy-MM-dd HH:mm sorts chronologically.
+ */
+export function findOverlappingRecord<T extends ShiftPeriod>(records: T[], entry: ShiftPeriod): T | undefined {
+  const target = periodBounds(entry);
+  return records.find((record) => {
+    if (record.id === entry.id) return false;
+    const other = periodBounds(record);
+    return other.start < target.end && target.start < other.end;
+  });
+}
@@ -0,0 +1,40 @@
+// Why overtime was worked: reason codes plus a free-text justification
+
+import { summarizeByStatus, type ApprovalRecord, type ApprovalTotals } from '@/utils/approval';
+
+/**
+ * Value of the reason filter that shows every reason
+ */
+export const ALL_REASONS = 'all';
+
+/**
+ * Mirrors the overtime_records_justification_length constraint
+ */
+export const MAX_JUSTIFICATION_LENGTH = 500;
+
+export interface ReasonRecord extends ApprovalRecord {
+  reason_id: string;
+}
+
+export interface ReasonSummary extends ApprovalTotals {
+  reasonId: string;
+  recordCount: number;
+}
+
+/**
+ * Approved and pending totals per reason, sorted by approved hours
+ */
+export function summarizeByReason(records: ReasonRecord[]): ReasonSummary[] {
+  const byReason = new Map<string, ReasonRecord[]>();
+  for (const record of records) {
+    byReason.set(record.reason_id, [...(byReason.get(record.reason_id) ?? []), record]);
+  }
+
+  return [...byReason]
+    .map(([reasonId, reasonRecords]) => ({
+      reasonId,
+      ...summarizeByStatus(reasonRecords),
+      recordCount: reasonRecords.length,
+    }))
+    .sort((a, b) => b.approvedHours - a.approvedHours);
+}
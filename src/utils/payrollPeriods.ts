@@ -0,0 +1,58 @@
+// Payroll periods: closing locks the period's records and freezes per-employee totals
+
+import { format, parseISO } from 'date-fns';
+import { minutesToHours } from '@/utils/money';
+
+export type PayrollPeriodStatus = 'open' | 'closed';
+
+export const PAYROLL_PERIOD_STATUS_LABELS: Record<PayrollPeriodStatus, string> = {
+  open: 'Aberto',
+  closed: 'Fechado',
+};
+
+export const MAX_REOPEN_REASON_LENGTH = 500;
+
+export interface PeriodRange {
+  starts_on: string;
+  ends_on: string;
+}
+
+export interface PayrollSnapshot {
+  full_name: string;
+  record_count: number;
+  overtime_minutes: number;
+  night_minutes: number;
+  hour_bank_minutes: number;
+  night_premium_value: number | string;
+  total_value: number | string;
+}
+
+/**
+ * Period containing a yyyy-MM-dd date. Dates compare as strings, so no
+ * timezone conversion is involved.
+ */
+export function findPeriod<T extends PeriodRange>(periods: T[], date: string): T | undefined {
+  return periods.find((period) => period.starts_on <= date && date <= period.ends_on);
+}
+
+/**
+ * Whether a new period overlaps any existing one. Mirrors public.validate_payroll_period().
+ */
+export function overlapsPeriod(periods: PeriodRange[], range: PeriodRange): boolean {
+  return periods.some((period) => period.starts_on <= range.ends_on && range.starts_on <= period.ends_on);
+}
+
+export function formatPeriod(period: PeriodRange): string {
+  return `${format(parseISO(period.starts_on), 'dd/MM/yyyy')} a ${format(parseISO(period.ends_on), 'dd/MM/yyyy')}`;
+}
+
+/**
+ * Snapshot row as the decimal hours shown in tables and exports
+ */
+export function snapshotHours(snapshot: PayrollSnapshot) {
+  return {
+    overtimeHours: minutesToHours(snapshot.overtime_minutes),
+    nightHours: minutesToHours(snapshot.night_minutes),
+    hourBankHours: minutesToHours(snapshot.hour_bank_minutes),
+  };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { describeRestViolation, indexRestViolations } from '@/utils/restPeriod';
+
+const violation = {
+  user_id: 'user-1',
+  rest_start: '2025-10-20T23:00:00',
+  rest_end: '2025-10-21T08:00:00',
+  rest_minutes: 540,
+  overtime_record_ids: ['record-1', 'record-2'],
+};
+
+describe('describeRestViolation', () => {
+  it('describes the short rest against the 11-hour minimum', () => {
+    expect(describeRestViolation(violation)).toBe(
+      'Descanso de 9h00 entre 20/10 23:00 e 21/10 08:00 (mínimo 11h00)'
+    );
+  });
+});
+
+describe('indexRestViolations', () => {
+  it('indexes each violation by every record that caused it', () => {
+    const other = { ...violation, rest_minutes: 600, overtime_record_ids: ['record-3'] };
+    const index = indexRestViolations([violation, other]);
+
+    expect(index.get('record-1')).toBe(violation);
+    expect(index.get('record-2')).toBe(violation);
+    expect(index.get('record-3')).toBe(other);
+    expect(index.has('record-4')).toBe(false);
+  });
+});
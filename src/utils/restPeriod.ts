@@ -0,0 +1,62 @@
+// Interjornada rest between two workdays (CLT art. 66)
+
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { formatMinutes } from '@/utils/overtime';
+
+/**
+ * Minimum rest between the end of a workday and the start of the next one
+ */
+export const MIN_REST_MINUTES = 11 * 60;
+
+/**
+ * ISO weekdays (1 = Monday … 7 = Sunday) worked by default
+ */
+export const DEFAULT_WORK_DAYS = [1, 2, 3, 4, 5];
+
+export const WEEKDAY_LABELS: Record<number, string> = {
+  1: 'Seg',
+  2: 'Ter',
+  3: 'Qua',
+  4: 'Qui',
+  5: 'Sex',
+  6: 'Sáb',
+  7: 'Dom',
+};
+
+export interface RestViolation {
+  user_id: string;
+  rest_start: string;
+  rest_end: string;
+  rest_minutes: number;
+  overtime_record_ids: string[];
+}
+
+/**
+ * Formats a rest boundary timestamp, e.g. "20/10 23:00"
+ */
+export function formatRestBoundary(timestamp: string): string {
+  return format(parseISO(timestamp), 'dd/MM HH:mm', { locale: ptBR });
+}
+
+/**
+ * One-line description, e.g. "Descanso de 9h00 entre 20/10 23:00 e 21/10 08:00 (mínimo 11h00)"
+ */
+export function describeRestViolation(violation: RestViolation): string {
+  return `Descanso de ${formatMinutes(violation.rest_minutes)} entre ${formatRestBoundary(
+    violation.rest_start
+  )} e ${formatRestBoundary(violation.rest_end)} (mínimo ${formatMinutes(MIN_REST_MINUTES)})`;
+}
+
+/**
+ * Violations keyed by the overtime records that caused them
+ */
+export function indexRestViolations<T extends RestViolation>(violations: T[]): Map<string, T> {
+  const byRecordId = new Map<string, T>();
+  for (const violation of violations) {
+    for (const recordId of violation.overtime_record_ids) {
+      byRecordId.set(recordId, violation);
+    }
+  }
+  return byRecordId;
+}
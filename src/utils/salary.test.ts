@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { calculateHourlyBase, MINIMUM_WAGE_SETTING, minimumWageOn } from '@/utils/salary';
+
+const wage = (effective_from: string, setting_value: string) => ({
+  setting_name: MINIMUM_WAGE_SETTING,
+  setting_value,
+  effective_from,
+});
+
+const SETTINGS = [
+  wage('2025-01-01', '1518.00'),
+  wage('2024-01-01', '1412.00'),
+  { setting_name: 'hour_bank_payout_premium', setting_value: '0.5', effective_from: null },
+];
+
+describe('minimumWageOn', () => {
+  it('takes the latest entry in force on the date', () => {
+    expect(minimumWageOn(SETTINGS, '2024-12-31')).toBe(1412);
+    expect(minimumWageOn(SETTINGS, '2025-01-01')).toBe(1518);
+    expect(minimumWageOn(SETTINGS, '2025-10-21')).toBe(1518);
+  });
+
+  it('uses the earliest entry before the first one and 0 without entries', () => {
+    expect(minimumWageOn(SETTINGS, '2023-06-01')).toBe(1412);
+    expect(minimumWageOn([], '2025-10-21')).toBe(0);
+  });
+});
+
+describe('calculateHourlyBase', () => {
+  const components = {
+    baseSalary: 2000,
+    hasPericulosidade: false,
+    insalubridadeGrade: 'none' as const,
+    monthlyDivisor: 220,
+  };
+
+  it('divides the base salary by the monthly divisor', () => {
+    expect(calculateHourlyBase(components, 1518).hourlyRate).toBe(9.09);
+    expect(calculateHourlyBase({ ...components, monthlyDivisor: 180 }, 1518).hourlyRate).toBe(11.11);
+  });
+
+  it('adds 30% periculosidade over the base salary', () => {
+    const base = calculateHourlyBase({ ...components, hasPericulosidade: true }, 1518);
+
+    expect(base.periculosidadeValue).toBe(600);
+    expect(base.monthlyTotal).toBe(2600);
+    expect(base.hourlyRate).toBe(11.82);
+  });
+
+  it('applies insalubridade over the minimum wage it is given', () => {
+    const base = calculateHourlyBase({ ...components, insalubridadeGrade: 'maximum' }, 1518);
+
+    expect(base.insalubridadeValue).toBe(607.2);
+    expect(base.monthlyTotal).toBe(2607.2);
+    expect(calculateHourlyBase({ ...components, insalubridadeGrade: 'maximum' }, 1412).insalubridadeValue).toBe(564.8);
+  });
+
+  it('keeps only the more favourable of periculosidade and insalubridade', () => {
+    const periculosidade = calculateHourlyBase(
+      { ...components, hasPericulosidade: true, insalubridadeGrade: 'medium' },
+      1518
+    );
+    const insalubridade = calculateHourlyBase(
+      { ...components, baseSalary: 1600, hasPericulosidade: true, insalubridadeGrade: 'maximum' },
+      1518
+    );
+
+    expect([periculosidade.periculosidadeValue, periculosidade.insalubridadeValue]).toEqual([600, 0]);
+    expect([insalubridade.periculosidadeValue, insalubridade.insalubridadeValue]).toEqual([0, 607.2]);
+  });
+});
@@ -0,0 +1,96 @@
+// Hourly overtime base derived from the employee's salary components
+
+import { roundMoney } from '@/utils/money';
+
+export type InsalubridadeGrade = 'none' | 'minimum' | 'medium' | 'maximum';
+
+/**
+ * Insalubridade grades (CLT art. 192), applied over the minimum wage
+ */
+export const INSALUBRIDADE_RATES: Record<InsalubridadeGrade, number> = {
+  none: 0,
+  minimum: 0.1,
+  medium: 0.2,
+  maximum: 0.4,
+};
+
+export const INSALUBRIDADE_LABELS: Record<InsalubridadeGrade, string> = {
+  none: 'Nenhuma',
+  minimum: 'Grau mínimo (10%)',
+  medium: 'Grau médio (20%)',
+  maximum: 'Grau máximo (40%)',
+};
+
+/**
+ * Periculosidade (CLT art. 193 §1), applied over the base salary
+ */
+export const PERICULOSIDADE_RATE = 0.3;
+
+/**
+ * Payroll setting holding the national minimum wage (the insalubridade base),
+ * one row per effective date
+ */
+export const MINIMUM_WAGE_SETTING = 'minimum_wage';
+
+export interface EffectiveDatedSetting {
+  setting_name: string;
+  setting_value: string;
+  effective_from: string | null;
+}
+
+/**
+ * Minimum wage in force on a date (yyyy-MM-dd). Dates before the first entry
+ * use the earliest one, and 0 (no insalubridade) when none is configured,
+ * as public.minimum_wage_on does.
+ */
+export function minimumWageOn(settings: EffectiveDatedSetting[], date: string): number {
+  const wages = settings
+    .filter((setting) => setting.setting_name === MINIMUM_WAGE_SETTING && setting.effective_from !== null)
+    .sort((a, b) => (a.effective_from as string).localeCompare(b.effective_from as string));
+  const inForce = wages.filter((setting) => (setting.effective_from as string) <= date).pop() ?? wages[0];
+
+  return inForce ? Number(inForce.setting_value) : 0;
+}
+
+/**
+ * Monthly hour divisors: 220h for 44h weeks, 180h for 36h weeks
+ */
+export const MONTHLY_DIVISORS = [220, 180] as const;
+
+export interface SalaryComponents {
+  baseSalary: number;
+  hasPericulosidade: boolean;
+  insalubridadeGrade: InsalubridadeGrade;
+  monthlyDivisor: number;
+}
+
+export interface HourlyBaseComposition extends SalaryComponents {
+  periculosidadeValue: number;
+  insalubridadeValue: number;
+  monthlyTotal: number;
+  hourlyRate: number;
+}
+
+/**
+ * Builds the hourly overtime base from salary components and the minimum wage
+ * in force. Periculosidade and insalubridade are not cumulative (CLT art. 193
+ * §2), so only the more favourable one is included.
+ */
+export function calculateHourlyBase(components: SalaryComponents, minimumWage: number): HourlyBaseComposition {
+  const periculosidade = components.hasPericulosidade
+    ? roundMoney(components.baseSalary * PERICULOSIDADE_RATE)
+    : 0;
+  const insalubridade = roundMoney(minimumWage * INSALUBRIDADE_RATES[components.insalubridadeGrade]);
+
+  const periculosidadeValue = periculosidade >= insalubridade ? periculosidade : 0;
+  const insalubridadeValue = periculosidade >= insalubridade ? 0 : insalubridade;
+  const monthlyTotal = roundMoney(components.baseSalary + periculosidadeValue + insalubridadeValue);
+
+  return {
+    ...components,
+    periculosidadeValue,
+    insalubridadeValue,
+    monthlyTotal,
+    hourlyRate: roundMoney(monthlyTotal / components.monthlyDivisor),
+  };
+}
@@ -0,0 +1,15 @@
+// Installable app: registers the service worker that serves the shell offline
+
+/**
+ * Registers public/sw.js in production builds; in development the worker
+ * would cache the dev server's modules
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register('/sw.js')
+      .catch((error) => console.error('Error registering service worker:', error));
+  });
+}
@@ -0,0 +1,40 @@
+// Station kiosk: rotating QR codes that prove an employee was at the station
+
+/**
+ * Seconds each kiosk code stays on screen (mirrors public.station_kiosk_code())
+ */
+export const KIOSK_CODE_ROTATION_SECONDS = 30;
+
+/**
+ * Route opened on the employee's phone by the kiosk QR code
+ */
+export const CHECK_IN_PATH = '/checkin';
+
+export function buildCheckInUrl(origin: string, stationId: string, code: string): string {
+  const params = new URLSearchParams({ station: stationId, code });
+  return `${origin}${CHECK_IN_PATH}?${params.toString()}`;
+}
+
+/**
+ * Kiosk codes are 16 hex characters
+ */
+export function isValidKioskCode(code: string | null): code is string {
+  return !!code && /^[0-9a-f]{16}$/.test(code);
+}
+
+export type StationVerificationFilter = 'all' | 'verified' | 'unverified';
+
+/**
+ * Value of the verification filter that shows every record
+ */
+export const ALL_VERIFICATIONS: StationVerificationFilter = 'all';
+
+export const STATION_VERIFICATION_LABELS: Record<StationVerificationFilter, string> = {
+  all: 'Todas as marcações',
+  verified: 'Verificadas no posto',
+  unverified: 'Sem verificação',
+};
+
+export function isStationVerificationFilter(value: string): value is StationVerificationFilter {
+  return value in STATION_VERIFICATION_LABELS;
+}
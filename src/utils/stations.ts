@@ -0,0 +1,76 @@
+// Gas stations (postos) of the network and employee transfers between them
+
+import { summarizeByStatus, type ApprovalRecord, type ApprovalTotals } from '@/utils/approval';
+import { hoursToMinutes, minutesToHours } from '@/utils/money';
+
+export interface StationAssignment {
+  user_id: string;
+  station_id: string;
+  effective_from: string;
+}
+
+/**
+ * Value of the station filter that shows every station
+ */
+export const ALL_STATIONS = 'all';
+
+/**
+ * Station each employee is assigned to on a date (yyyy-MM-dd): the latest
+ * assignment already in effect. Mirrors public.get_station().
+ */
+export function stationsOnDate(assignments: StationAssignment[], date: string): Map<string, string> {
+  const latest = new Map<string, StationAssignment>();
+  for (const assignment of assignments) {
+    if (assignment.effective_from > date) continue;
+    const current = latest.get(assignment.user_id);
+    if (!current || assignment.effective_from > current.effective_from) {
+      latest.set(assignment.user_id, assignment);
+    }
+  }
+
+  return new Map([...latest].map(([userId, assignment]) => [userId, assignment.station_id]));
+}
+
+/**
+ * Whether a station id passes the station filter
+ */
+export function matchesStation(stationId: string | null | undefined, filter: string): boolean {
+  return filter === ALL_STATIONS || stationId === filter;
+}
+
+export interface StationRecord extends ApprovalRecord {
+  user_id: string;
+  station_id: string | null;
+}
+
+export interface StationSummary extends ApprovalTotals {
+  stationId: string | null;
+  employeeCount: number;
+  recordCount: number;
+  hoursPerEmployee: number;
+}
+
+/**
+ * Approved and pending totals per station where the overtime was worked,
+ * sorted by approved hours. Records without a station are grouped under null.
+ */
+export function summarizeByStation(records: StationRecord[]): StationSummary[] {
+  const byStation = new Map<string | null, StationRecord[]>();
+  for (const record of records) {
+    byStation.set(record.station_id, [...(byStation.get(record.station_id) ?? []), record]);
+  }
+
+  return [...byStation]
+    .map(([stationId, stationRecords]) => {
+      const totals = summarizeByStatus(stationRecords);
+      const employeeCount = new Set(stationRecords.map((record) => record.user_id)).size;
+      return {
+        stationId,
+        ...totals,
+        employeeCount,
+        recordCount: stationRecords.length,
+        hoursPerEmployee: minutesToHours(hoursToMinutes(totals.approvedHours) / employeeCount),
+      };
+    })
+    .sort((a, b) => b.approvedHours - a.approvedHours);
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { adjustWorkedMinutes } from '@/utils/timeAdjustment';
+
+describe('adjustWorkedMinutes', () => {
+  it('keeps the exact minutes', () => {
+    expect(adjustWorkedMinutes(67, 'exact')).toBe(67);
+  });
+
+  it('drops variations within the legal tolerance', () => {
+    expect(adjustWorkedMinutes(5, 'legal_tolerance')).toBe(0);
+    expect(adjustWorkedMinutes(4, 'legal_tolerance', 6)).toBe(0);
+    expect(adjustWorkedMinutes(6, 'legal_tolerance')).toBe(6);
+  });
+
+  it('counts every minute once the day goes past the daily tolerance', () => {
+    expect(adjustWorkedMinutes(5, 'legal_tolerance', 6)).toBe(5);
+  });
+
+  it('rounds to the nearest step, ties up', () => {
+    expect(adjustWorkedMinutes(62, 'round_5')).toBe(60);
+    expect(adjustWorkedMinutes(63, 'round_5')).toBe(65);
+    expect(adjustWorkedMinutes(65, 'round_10')).toBe(70);
+    expect(adjustWorkedMinutes(52, 'round_15')).toBe(45);
+    expect(adjustWorkedMinutes(53, 'round_15')).toBe(60);
+  });
+});
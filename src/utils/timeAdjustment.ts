@@ -0,0 +1,57 @@
+// Tolerance and rounding applied to clock marks before overtime is counted
+
+import { roundInteger } from '@/utils/money';
+
+export type TimeAdjustmentPolicy = 'exact' | 'legal_tolerance' | 'round_5' | 'round_10' | 'round_15';
+
+export const TIME_ADJUSTMENT_POLICY_LABELS: Record<TimeAdjustmentPolicy, string> = {
+  exact: 'Minuto exato',
+  legal_tolerance: 'Tolerância legal (5/10 min)',
+  round_5: 'Arredondar a 5 min',
+  round_10: 'Arredondar a 10 min',
+  round_15: 'Arredondar a 15 min',
+};
+
+/**
+ * Payroll setting holding the policy applied to new records
+ */
+export const TIME_ADJUSTMENT_POLICY_SETTING = 'time_adjustment_policy';
+export const DEFAULT_TIME_ADJUSTMENT_POLICY: TimeAdjustmentPolicy = 'legal_tolerance';
+
+/**
+ * CLT art. 58 §1º: variations of up to 5 minutes per mark, at most 10 per day, are not counted
+ */
+export const LEGAL_TOLERANCE_PER_MARK_MINUTES = 5;
+export const LEGAL_TOLERANCE_PER_DAY_MINUTES = 10;
+
+const ROUNDING_STEPS: Partial<Record<TimeAdjustmentPolicy, number>> = {
+  round_5: 5,
+  round_10: 10,
+  round_15: 15,
+};
+
+export function isTimeAdjustmentPolicy(value: string): value is TimeAdjustmentPolicy {
+  return value in TIME_ADJUSTMENT_POLICY_LABELS;
+}
+
+/**
+ * Minutes counted for a record of rawMinutes under a policy. otherMinutesOnDate
+ * are the raw minutes of the employee's other records on the same day: once the
+ * day goes past the daily tolerance every minute counts (TST Súmula 366).
+ * Mirrors public.adjust_overtime_minutes().
+ */
+export function adjustWorkedMinutes(
+  rawMinutes: number,
+  policy: TimeAdjustmentPolicy,
+  otherMinutesOnDate = 0
+): number {
+  if (policy === 'legal_tolerance') {
+    const tolerated =
+      rawMinutes <= LEGAL_TOLERANCE_PER_MARK_MINUTES &&
+      rawMinutes + otherMinutesOnDate <= LEGAL_TOLERANCE_PER_DAY_MINUTES;
+    return tolerated ? 0 : rawMinutes;
+  }
+
+  const step = ROUNDING_STEPS[policy];
+  return step ? roundInteger(rawMinutes / step) * step : rawMinutes;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeWorkSchedule,
+  formatShift,
+  shiftEndingOn,
+  summarizeAdherenceByStation,
+} from '@/utils/workSchedules';
+
+describe('formatShift', () => {
+  it('marks shifts that end the next day', () => {
+    expect(formatShift('08:00:00', '17:48:00')).toBe('08:00 - 17:48');
+    expect(formatShift('19:00:00', '07:00:00')).toBe('19:00 - 07:00 (+1 dia)');
+  });
+});
+
+describe('describeWorkSchedule', () => {
+  it('names fixed patterns and lists the days of custom ones', () => {
+    expect(
+      describeWorkSchedule({ pattern: '12x36', shift_start: '19:00', shift_end: '07:00', work_days: [] })
+    ).toBe('12x36 • 19:00 - 07:00 (+1 dia)');
+    expect(
+      describeWorkSchedule({ pattern: 'custom', shift_start: '08:00', shift_end: '12:00', work_days: [1, 3, 5] })
+    ).toBe('Seg, Qua, Sex • 08:00 - 12:00');
+  });
+});
+
+describe('shiftEndingOn', () => {
+  const shifts = [
+    { day: '2025-10-20', starts_at: '2025-10-20T07:00:00', ends_at: '2025-10-20T11:00:00', planned_minutes: 240 },
+    { day: '2025-10-20', starts_at: '2025-10-20T13:00:00', ends_at: '2025-10-20T17:00:00', planned_minutes: 240 },
+    { day: '2025-10-21', starts_at: '2025-10-21T19:00:00', ends_at: '2025-10-22T07:00:00', planned_minutes: 660 },
+  ];
+
+  it('picks the last shift ending on the date', () => {
+    expect(shiftEndingOn(shifts, '2025-10-20')).toBe(shifts[1]);
+  });
+
+  it('assigns a night shift to the day it ends', () => {
+    expect(shiftEndingOn(shifts, '2025-10-22')).toBe(shifts[2]);
+    expect(shiftEndingOn(shifts, '2025-10-21')).toBeUndefined();
+  });
+});
+
+describe('summarizeAdherenceByStation', () => {
+  const row = {
+    scheduled_days: 22,
+    planned_minutes: 10560,
+    overtime_minutes: 0,
+    day_off_overtime_minutes: 0,
+    overlapping_minutes: 0,
+  };
+
+  it('adds up employees per station, most overtime first', () => {
+    const summary = summarizeAdherenceByStation([
+      { ...row, user_id: 'a', station_id: 'station-1', overtime_minutes: 120 },
+      { ...row, user_id: 'b', station_id: 'station-2', overtime_minutes: 600, day_off_overtime_minutes: 240 },
+      { ...row, user_id: 'c', station_id: 'station-1', overtime_minutes: 60, overlapping_minutes: 30 },
+      { ...row, user_id: 'd', station_id: null, planned_minutes: 0, scheduled_days: 0, overtime_minutes: 90 },
+    ]);
+
+    expect(summary.map((station) => station.stationId)).toEqual(['station-2', 'station-1', null]);
+    expect(summary[1]).toEqual({
+      stationId: 'station-1',
+      employeeCount: 2,
+      scheduledDays: 44,
+      plannedMinutes: 21120,
+      overtimeMinutes: 180,
+      dayOffOvertimeMinutes: 0,
+      overlappingMinutes: 30,
+    });
+  });
+});
@@ -0,0 +1,157 @@
+// Work schedules (escalas): the shifts employees are expected to work
+
+import type { Database } from '@/integrations/supabase/types';
+import { WEEKDAY_LABELS } from '@/utils/restPeriod';
+
+export type WorkSchedulePattern = Database['public']['Enums']['work_schedule_pattern'];
+
+export const WORK_SCHEDULE_PATTERN_LABELS: Record<WorkSchedulePattern, string> = {
+  '6x1': '6x1',
+  '5x2': '5x2',
+  '12x36': '12x36',
+  custom: 'Personalizada',
+};
+
+export const WORK_SCHEDULE_PATTERN_DESCRIPTIONS: Record<WorkSchedulePattern, string> = {
+  '6x1': 'Seis dias de trabalho e um de folga, em revezamento',
+  '5x2': 'Cinco dias da semana de trabalho e dois de folga',
+  '12x36': 'Turnos de 12 horas seguidos de 36 horas de descanso',
+  custom: 'Dias da semana escolhidos',
+};
+
+/**
+ * Patterns whose cycle rotates through the week, counted from the first day
+ * of the assignment; the others repeat the same weekdays
+ */
+export function isRotatingPattern(pattern: WorkSchedulePattern): boolean {
+  return pattern === '6x1' || pattern === '12x36';
+}
+
+export interface WorkScheduleShape {
+  shiftStart: string;
+  shiftEnd: string;
+  breakMinutes: number;
+  workDays: number[];
+}
+
+/**
+ * Starting point of the form for each pattern (44 weekly hours where it applies)
+ */
+export const WORK_SCHEDULE_DEFAULTS: Record<WorkSchedulePattern, WorkScheduleShape> = {
+  '6x1': { shiftStart: '07:00', shiftEnd: '15:20', breakMinutes: 60, workDays: [1, 2, 3, 4, 5, 6] },
+  '5x2': { shiftStart: '08:00', shiftEnd: '17:48', breakMinutes: 60, workDays: [1, 2, 3, 4, 5] },
+  '12x36': { shiftStart: '07:00', shiftEnd: '19:00', breakMinutes: 60, workDays: [1, 2, 3, 4, 5, 6, 7] },
+  custom: { shiftStart: '08:00', shiftEnd: '17:00', breakMinutes: 60, workDays: [1, 2, 3, 4, 5] },
+};
+
+export interface WorkScheduleSummary {
+  pattern: WorkSchedulePattern;
+  shift_start: string;
+  shift_end: string;
+  work_days: number[];
+}
+
+/**
+ * Shift of a schedule, e.g. "19:00 - 07:00 (+1 dia)"
+ */
+export function formatShift(start: string, end: string): string {
+  const period = `${start.substring(0, 5)} - ${end.substring(0, 5)}`;
+  return end.substring(0, 5) < start.substring(0, 5) ? `${period} (+1 dia)` : period;
+}
+
+/**
+ * Short description of a schedule, e.g. "12x36 • 19:00 - 07:00 (+1 dia)" or
+ * "Seg, Qua, Sex • 08:00 - 12:00"
+ */
+export function describeWorkSchedule(schedule: WorkScheduleSummary): string {
+  const days = schedule.pattern === 'custom'
+    ? schedule.work_days.map((day) => WEEKDAY_LABELS[day]).join(', ')
+    : WORK_SCHEDULE_PATTERN_LABELS[schedule.pattern];
+  return `${days} • ${formatShift(schedule.shift_start, schedule.shift_end)}`;
+}
+
+export interface ScheduledShift {
+  day: string;
+  // Timestamps without time zone: yyyy-MM-ddTHH:mm:ss
+  starts_at: string;
+  ends_at: string;
+  planned_minutes: number;
+}
+
+/**
+ * The last scheduled shift ending on a date (yyyy-MM-dd), which the overtime
+ * of that date usually continues. A night shift ends the day after it starts.
+ */
+export function shiftEndingOn<T extends ScheduledShift>(shifts: T[], date: string): T | undefined {
+  return shifts
+    .filter((shift) => shift.ends_at.substring(0, 10) === date)
+    .sort((a, b) => a.ends_at.localeCompare(b.ends_at))
+    .pop();
+}
+
+/**
+ * HH:mm of a shift timestamp
+ */
+export function shiftTime(timestamp: string): string {
+  return timestamp.substring(11, 16);
+}
+
+export interface ScheduleAdherence {
+  user_id: string;
+  station_id: string | null;
+  scheduled_days: number;
+  planned_minutes: number;
+  overtime_minutes: number;
+  day_off_overtime_minutes: number;
+  overlapping_minutes: number;
+}
+
+export interface StationAdherence {
+  stationId: string | null;
+  employeeCount: number;
+  scheduledDays: number;
+  plannedMinutes: number;
+  overtimeMinutes: number;
+  dayOffOvertimeMinutes: number;
+  overlappingMinutes: number;
+}
+
+/**
+ * Overtime as a share of the planned hours, in percent (0 without a plan)
+ */
+export function overtimeShare(plannedMinutes: number, overtimeMinutes: number): number {
+  return plannedMinutes > 0 ? (overtimeMinutes / plannedMinutes) * 100 : 0;
+}
+
+/**
+ * Planned and actual totals per employee station, sorted by overtime share.
+ * Employees without a station are grouped under null.
+ */
+export function summarizeAdherenceByStation(rows: ScheduleAdherence[]): StationAdherence[] {
+  const byStation = new Map<string | null, StationAdherence>();
+  for (const row of rows) {
+    const current = byStation.get(row.station_id) ?? {
+      stationId: row.station_id,
+      employeeCount: 0,
+      scheduledDays: 0,
+      plannedMinutes: 0,
+      overtimeMinutes: 0,
+      dayOffOvertimeMinutes: 0,
+      overlappingMinutes: 0,
+    };
+
+    byStation.set(row.station_id, {
+      ...current,
+      employeeCount: current.employeeCount + 1,
+      scheduledDays: current.scheduledDays + row.scheduled_days,
+      plannedMinutes: current.plannedMinutes + row.planned_minutes,
+      overtimeMinutes: current.overtimeMinutes + row.overtime_minutes,
+      dayOffOvertimeMinutes: current.dayOffOvertimeMinutes + row.day_off_overtime_minutes,
+      overlappingMinutes: current.overlappingMinutes + row.overlapping_minutes,
+    });
+  }
+
+  return [...byStation.values()].sort(
+    (a, b) => overtimeShare(b.plannedMinutes, b.overtimeMinutes) - overtimeShare(a.plannedMinutes, a.overtimeMinutes)
+  );
+}
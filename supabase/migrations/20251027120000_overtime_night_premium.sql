@@ -0,0 +1,11 @@
+-- Night work (adicional noturno) on overtime records
+-- Minutes worked between 22:00 and 05:00 are paid as reduced 52m30s hours
+-- with a 20% premium on top of the overtime premium
+
+ALTER TABLE public.overtime_records
+ADD COLUMN night_minutes INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN night_premium_value NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.overtime_records
+ADD CONSTRAINT overtime_records_night_minutes_range CHECK (night_minutes >= 0 AND night_minutes <= 24 * 60),
+ADD CONSTRAINT overtime_records_night_premium_positive CHECK (night_premium_value >= 0);
@@ -0,0 +1,46 @@
+-- Holiday calendar used to apply the 100% overtime premium on holidays
+
+CREATE TYPE public.holiday_scope AS ENUM ('national', 'state', 'municipal');
+
+CREATE TABLE public.holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  date DATE NOT NULL,
+  name TEXT NOT NULL,
+  scope holiday_scope NOT NULL,
+  state_code TEXT,
+  city TEXT,
+  is_movable BOOLEAN NOT NULL DEFAULT false,
+  -- Optional days off (ponto facultativo) stay inactive until an admin confirms them
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(date, name)
+);
+
+ALTER TABLE public.holidays
+ADD CONSTRAINT holidays_name_length CHECK (length(name) >= 2 AND length(name) <= 100),
+ADD CONSTRAINT holidays_state_code_format CHECK (state_code IS NULL OR state_code ~ '^[A-Z]{2}$'),
+ADD CONSTRAINT holidays_scope_location CHECK (
+  (scope = 'national') OR
+  (scope = 'state' AND state_code IS NOT NULL) OR
+  (scope = 'municipal' AND state_code IS NOT NULL AND city IS NOT NULL)
+);
+
+-- Enable RLS
+ALTER TABLE public.holidays ENABLE ROW LEVEL SECURITY;
+
+-- Every signed-in user needs the calendar to calculate overtime
+CREATE POLICY "Authenticated users can view holidays"
+  ON public.holidays FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage holidays"
+  ON public.holidays FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_holidays_date ON public.holidays(date);
+
+CREATE TRIGGER update_holidays_updated_at
+  BEFORE UPDATE ON public.holidays
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
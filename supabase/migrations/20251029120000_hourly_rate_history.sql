@@ -0,0 +1,54 @@
+-- Effective-dated hourly rate history per employee
+-- Records keep the hourly_rate stored when they were created; new and edited
+-- records look up the rate in force on the record's date
+
+CREATE TABLE public.hourly_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  hourly_rate NUMERIC(10,2) NOT NULL,
+  effective_from DATE NOT NULL,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, effective_from)
+);
+
+ALTER TABLE public.hourly_rates
+ADD CONSTRAINT hourly_rates_rate_positive CHECK (hourly_rate > 0);
+
+-- Enable RLS
+ALTER TABLE public.hourly_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own hourly rates"
+  ON public.hourly_rates FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage hourly rates"
+  ON public.hourly_rates FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_hourly_rates_user_effective ON public.hourly_rates(user_id, effective_from DESC);
+
+-- Rate in force for an employee on a given date, falling back to the company default
+CREATE OR REPLACE FUNCTION public.get_hourly_rate(_user_id UUID, _date DATE)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT hourly_rate
+      FROM public.hourly_rates
+      WHERE user_id = _user_id AND effective_from <= _date
+      ORDER BY effective_from DESC
+      LIMIT 1
+    ),
+    15.57
+  )
+$$;
+
+CREATE TRIGGER audit_hourly_rates_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.hourly_rates
+  FOR EACH ROW EXECUTE FUNCTION public.audit_trigger_function();
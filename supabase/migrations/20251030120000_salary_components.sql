@@ -0,0 +1,235 @@
+-- Salary components used to derive the hourly overtime base
+-- hourly base = (base salary + periculosidade or insalubridade) / monthly divisor
+
+CREATE TYPE public.insalubridade_grade AS ENUM ('none', 'minimum', 'medium', 'maximum');
+
+ALTER TABLE public.profiles
+ADD COLUMN base_salary NUMERIC(10,2),
+ADD COLUMN has_periculosidade BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN insalubridade_grade insalubridade_grade NOT NULL DEFAULT 'none',
+ADD COLUMN monthly_divisor SMALLINT NOT NULL DEFAULT 220;
+
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_base_salary_positive CHECK (base_salary IS NULL OR base_salary > 0),
+ADD CONSTRAINT profiles_monthly_divisor_valid CHECK (monthly_divisor IN (180, 220));
+
+-- Rate history keeps a snapshot of the components each rate was derived from
+-- (NULL components mean the rate was entered manually)
+ALTER TABLE public.hourly_rates
+ADD COLUMN base_salary NUMERIC(10,2),
+ADD COLUMN has_periculosidade BOOLEAN,
+ADD COLUMN insalubridade_grade insalubridade_grade,
+ADD COLUMN monthly_divisor SMALLINT;
+
+-- Company-wide payroll parameters, managed by admins. Parameters that change
+-- over time, like the minimum wage, keep one row per effective date; the
+-- others have no date
+CREATE TABLE public.payroll_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  setting_name TEXT NOT NULL,
+  setting_value TEXT NOT NULL,
+  effective_from DATE,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT payroll_settings_name_effective_from_key UNIQUE NULLS NOT DISTINCT (setting_name, effective_from)
+);
+
+ALTER TABLE public.payroll_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view payroll settings"
+  ON public.payroll_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage payroll settings"
+  ON public.payroll_settings FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_payroll_settings_updated_at
+  BEFORE UPDATE ON public.payroll_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- National minimum wage, the insalubridade base, as set by each year's decree
+INSERT INTO public.payroll_settings (setting_name, setting_value, effective_from, description) VALUES
+  ('minimum_wage', '1412.00', '2024-01-01', 'National minimum wage'),
+  ('minimum_wage', '1518.00', '2025-01-01', 'National minimum wage'),
+  ('minimum_wage', '1621.00', '2026-01-01', 'National minimum wage');
+
+-- Minimum wage in force on a date; dates before the first entry use the
+-- earliest one, and 0 (no insalubridade) when none is configured
+CREATE OR REPLACE FUNCTION public.minimum_wage_on(_date DATE)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT s.setting_value::NUMERIC
+      FROM public.payroll_settings s
+      WHERE s.setting_name = 'minimum_wage' AND s.effective_from <= _date
+      ORDER BY s.effective_from DESC
+      LIMIT 1
+    ),
+    (
+      SELECT s.setting_value::NUMERIC
+      FROM public.payroll_settings s
+      WHERE s.setting_name = 'minimum_wage' AND s.effective_from IS NOT NULL
+      ORDER BY s.effective_from
+      LIMIT 1
+    ),
+    0
+  )
+$$;
+
+-- Admins maintain salary components
+CREATE POLICY "Admins can update all profiles"
+  ON public.profiles FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Employees can update their own profile, but never their pay components
+CREATE OR REPLACE FUNCTION public.protect_profile_salary_components()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') AND (
+    NEW.base_salary IS DISTINCT FROM OLD.base_salary OR
+    NEW.has_periculosidade IS DISTINCT FROM OLD.has_periculosidade OR
+    NEW.insalubridade_grade IS DISTINCT FROM OLD.insalubridade_grade OR
+    NEW.monthly_divisor IS DISTINCT FROM OLD.monthly_divisor
+  ) THEN
+    RAISE EXCEPTION 'Apenas administradores podem alterar a composição salarial';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profiles_salary_components
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_salary_components();
+
+-- Hourly base from salary components; periculosidade (30% of the base salary)
+-- and insalubridade (10/20/40% of the minimum wage in force on _date) are not
+-- cumulative
+CREATE OR REPLACE FUNCTION public.calculate_hourly_base(
+  _base_salary NUMERIC,
+  _has_periculosidade BOOLEAN,
+  _insalubridade_grade insalubridade_grade,
+  _monthly_divisor SMALLINT,
+  _date DATE
+)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT ROUND(
+    (
+      _base_salary + GREATEST(
+        CASE WHEN _has_periculosidade THEN ROUND(_base_salary * 0.30, 2) ELSE 0 END,
+        ROUND(public.minimum_wage_on(_date) * CASE _insalubridade_grade
+          WHEN 'minimum' THEN 0.10
+          WHEN 'medium' THEN 0.20
+          WHEN 'maximum' THEN 0.40
+          ELSE 0
+        END, 2)
+      )
+    ) / _monthly_divisor,
+    2
+  )
+$$;
+
+-- Hourly base in force for an employee on a given date: the rate history
+-- first, then the current salary components, then the company default
+CREATE OR REPLACE FUNCTION public.get_hourly_base(_user_id UUID, _date DATE)
+RETURNS TABLE (
+  hourly_rate NUMERIC,
+  base_salary NUMERIC,
+  has_periculosidade BOOLEAN,
+  insalubridade_grade insalubridade_grade,
+  monthly_divisor SMALLINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _user_id IS DISTINCT FROM auth.uid() AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.hourly_rate, r.base_salary, r.has_periculosidade, r.insalubridade_grade, r.monthly_divisor
+  FROM public.hourly_rates r
+  WHERE r.user_id = _user_id AND r.effective_from <= _date
+  ORDER BY r.effective_from DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    public.calculate_hourly_base(p.base_salary, p.has_periculosidade, p.insalubridade_grade, p.monthly_divisor, _date),
+    p.base_salary, p.has_periculosidade, p.insalubridade_grade, p.monthly_divisor
+  FROM public.profiles p
+  WHERE p.id = _user_id AND p.base_salary IS NOT NULL;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT 15.57::NUMERIC, NULL::NUMERIC, NULL::BOOLEAN, NULL::insalubridade_grade, NULL::SMALLINT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_hourly_rate(_user_id UUID, _date DATE)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT hourly_rate FROM public.get_hourly_base(_user_id, _date)
+$$;
+
+-- The audit trigger read NEW.user_id, which profiles does not have, so any
+-- profile update failed; profiles are owned by their own id
+CREATE OR REPLACE FUNCTION public.audit_trigger_function()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row JSONB;
+  v_owner UUID;
+BEGIN
+  v_row := CASE WHEN TG_OP = 'DELETE' THEN to_jsonb(OLD) ELSE to_jsonb(NEW) END;
+  v_owner := COALESCE(
+    v_row->>'user_id',
+    CASE WHEN TG_TABLE_NAME = 'profiles' THEN v_row->>'id' END
+  )::UUID;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.log_security_event(v_owner, 'INSERT', TG_TABLE_NAME, NEW.id, NULL, to_jsonb(NEW));
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    PERFORM public.log_security_event(v_owner, 'UPDATE', TG_TABLE_NAME, NEW.id, to_jsonb(OLD), to_jsonb(NEW));
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM public.log_security_event(v_owner, 'DELETE', TG_TABLE_NAME, OLD.id, to_jsonb(OLD), NULL);
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,180 @@
+-- Server-authoritative overtime values
+-- Every derived column is recomputed from date, start_time, end_time and
+-- lunch_discount on insert and whenever one of them changes; client-supplied
+-- values are ignored.
+-- Mirrors calculateOvertime() in src/utils/overtime.ts.
+
+-- Derived columns are filled by the trigger, so clients no longer send them
+ALTER TABLE public.overtime_records
+ALTER COLUMN total_hours SET DEFAULT 0,
+ALTER COLUMN net_hours SET DEFAULT 0,
+ALTER COLUMN total_value SET DEFAULT 0;
+
+-- Internal lookup without access checks, for triggers and jobs
+CREATE OR REPLACE FUNCTION public.hourly_base_for(_user_id UUID, _date DATE)
+RETURNS TABLE (
+  hourly_rate NUMERIC,
+  base_salary NUMERIC,
+  has_periculosidade BOOLEAN,
+  insalubridade_grade insalubridade_grade,
+  monthly_divisor SMALLINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT r.hourly_rate, r.base_salary, r.has_periculosidade, r.insalubridade_grade, r.monthly_divisor
+  FROM public.hourly_rates r
+  WHERE r.user_id = _user_id AND r.effective_from <= _date
+  ORDER BY r.effective_from DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    public.calculate_hourly_base(p.base_salary, p.has_periculosidade, p.insalubridade_grade, p.monthly_divisor, _date),
+    p.base_salary, p.has_periculosidade, p.insalubridade_grade, p.monthly_divisor
+  FROM public.profiles p
+  WHERE p.id = _user_id AND p.base_salary IS NOT NULL;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT 15.57::NUMERIC, NULL::NUMERIC, NULL::BOOLEAN, NULL::insalubridade_grade, NULL::SMALLINT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hourly_base_for(UUID, DATE) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_hourly_base(_user_id UUID, _date DATE)
+RETURNS TABLE (
+  hourly_rate NUMERIC,
+  base_salary NUMERIC,
+  has_periculosidade BOOLEAN,
+  insalubridade_grade insalubridade_grade,
+  monthly_divisor SMALLINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _user_id IS DISTINCT FROM auth.uid() AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.hourly_base_for(_user_id, _date);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.calculate_overtime_values()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_start INTEGER;
+  v_end INTEGER;
+  v_total INTEGER;
+  v_minute INTEGER;
+  v_rest_days BOOLEAN[];
+  v_bucket INTEGER;
+  -- Minutes per band, from the cheapest to the most expensive minute:
+  -- 1 regular day (150%), 2 rest day (200%), 3 regular night (~206%), 4 rest night (~274%)
+  v_minutes INTEGER[] := ARRAY[0, 0, 0, 0];
+  v_premiums NUMERIC[] := ARRAY[0.5, 1.0, 0.5, 1.0];
+  v_lunch INTEGER;
+  v_deducted INTEGER;
+  v_paid NUMERIC;
+  v_overtime NUMERIC;
+  v_night_premium NUMERIC;
+  v_total_value NUMERIC := 0;
+  v_night_value NUMERIC := 0;
+  v_night_minutes INTEGER := 0;
+  i INTEGER;
+BEGIN
+  -- Untouched records keep the rate and values they were created with, so
+  -- status changes never reprice them
+  IF TG_OP = 'UPDATE'
+    AND NEW.date IS NOT DISTINCT FROM OLD.date
+    AND NEW.start_time IS NOT DISTINCT FROM OLD.start_time
+    AND NEW.end_time IS NOT DISTINCT FROM OLD.end_time
+    AND NEW.lunch_discount IS NOT DISTINCT FROM OLD.lunch_discount THEN
+    NEW.hourly_rate := OLD.hourly_rate;
+    NEW.total_hours := OLD.total_hours;
+    NEW.net_hours := OLD.net_hours;
+    NEW.total_value := OLD.total_value;
+    NEW.night_minutes := OLD.night_minutes;
+    NEW.night_premium_value := OLD.night_premium_value;
+    RETURN NEW;
+  END IF;
+
+  SELECT b.hourly_rate INTO NEW.hourly_rate FROM public.hourly_base_for(NEW.user_id, NEW.date) b;
+
+  v_start := EXTRACT(HOUR FROM NEW.start_time)::INTEGER * 60 + EXTRACT(MINUTE FROM NEW.start_time)::INTEGER;
+  v_end := EXTRACT(HOUR FROM NEW.end_time)::INTEGER * 60 + EXTRACT(MINUTE FROM NEW.end_time)::INTEGER;
+  v_total := v_end - v_start;
+  IF v_total < 0 THEN
+    v_total := v_total + 24 * 60; -- Handle overnight shifts
+  END IF;
+
+  -- Sundays and holidays of the record's day and the following one
+  SELECT array_agg(
+    EXTRACT(DOW FROM d.day) = 0 OR EXISTS (SELECT 1 FROM public.holidays h WHERE h.date = d.day AND h.is_active)
+    ORDER BY d.day
+  )
+  INTO v_rest_days
+  FROM (SELECT NEW.date + n AS day FROM generate_series(0, 1) n) d;
+
+  FOR i IN 0 .. v_total - 1 LOOP
+    v_minute := v_start + i;
+    v_bucket := CASE WHEN (v_minute % 1440) >= 22 * 60 OR (v_minute % 1440) < 5 * 60 THEN 3 ELSE 1 END
+      + CASE WHEN v_rest_days[v_minute / 1440 + 1] THEN 1 ELSE 0 END;
+    v_minutes[v_bucket] := v_minutes[v_bucket] + 1;
+  END LOOP;
+
+  -- Lunch break comes out of the cheapest band first
+  v_lunch := CASE WHEN NEW.lunch_discount THEN 60 ELSE 0 END;
+  FOR i IN 1 .. 4 LOOP
+    v_deducted := LEAST(v_minutes[i], v_lunch);
+    v_minutes[i] := v_minutes[i] - v_deducted;
+    v_lunch := v_lunch - v_deducted;
+  END LOOP;
+
+  FOR i IN 1 .. 4 LOOP
+    CONTINUE WHEN v_minutes[i] = 0;
+
+    -- Night minutes are paid as reduced 52m30s hours plus the 20% night premium
+    v_paid := CASE WHEN i >= 3 THEN v_minutes[i] * 60 / 52.5 ELSE v_minutes[i] END;
+    v_overtime := v_paid / 60 * NEW.hourly_rate * (1 + v_premiums[i]);
+    v_night_premium := CASE WHEN i >= 3 THEN v_overtime * 0.2 ELSE 0 END;
+
+    v_total_value := v_total_value + ROUND(v_overtime + v_night_premium, 2);
+    v_night_value := v_night_value + ROUND(v_night_premium, 2);
+    IF i >= 3 THEN
+      v_night_minutes := v_night_minutes + v_minutes[i];
+    END IF;
+  END LOOP;
+
+  NEW.total_hours := ROUND(v_total / 60.0, 2);
+  NEW.net_hours := ROUND((v_total - CASE WHEN NEW.lunch_discount THEN 60 ELSE 0 END) / 60.0, 2);
+  NEW.total_value := v_total_value;
+  NEW.night_minutes := v_night_minutes;
+  NEW.night_premium_value := v_night_value;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER calculate_overtime_records_values
+  BEFORE INSERT OR UPDATE ON public.overtime_records
+  FOR EACH ROW EXECUTE FUNCTION public.calculate_overtime_values();
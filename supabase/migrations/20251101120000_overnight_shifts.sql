@@ -0,0 +1,169 @@
+-- Overnight shifts
+-- A record may end on the day after it starts (e.g. 22:00–06:00). end_date
+-- holds the calendar day of end_time; shifts are limited to less than 24h.
+
+ALTER TABLE public.overtime_records
+ADD COLUMN end_date DATE;
+
+-- Backfilled with the triggers off so existing records are not recalculated
+ALTER TABLE public.overtime_records DISABLE TRIGGER USER;
+
+UPDATE public.overtime_records SET end_date = date;
+
+ALTER TABLE public.overtime_records ENABLE TRIGGER USER;
+
+ALTER TABLE public.overtime_records
+ALTER COLUMN end_date SET NOT NULL;
+
+ALTER TABLE public.overtime_records
+DROP CONSTRAINT IF EXISTS overtime_records_time_order;
+
+ALTER TABLE public.overtime_records
+ADD CONSTRAINT overtime_records_time_order CHECK (
+  (end_date = date AND start_time < end_time)
+  OR (end_date = date + 1 AND end_time < start_time)
+);
+
+CREATE OR REPLACE FUNCTION public.calculate_overtime_values()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_start INTEGER;
+  v_total INTEGER;
+  v_minute INTEGER;
+  v_rest_days BOOLEAN[];
+  v_bucket INTEGER;
+  -- Minutes per band, from the cheapest to the most expensive minute:
+  -- 1 regular day (150%), 2 rest day (200%), 3 regular night (~206%), 4 rest night (~274%)
+  v_minutes INTEGER[] := ARRAY[0, 0, 0, 0];
+  v_premiums NUMERIC[] := ARRAY[0.5, 1.0, 0.5, 1.0];
+  v_lunch INTEGER;
+  v_deducted INTEGER;
+  v_paid NUMERIC;
+  v_overtime NUMERIC;
+  v_night_premium NUMERIC;
+  v_total_value NUMERIC := 0;
+  v_night_value NUMERIC := 0;
+  v_night_minutes INTEGER := 0;
+  i INTEGER;
+BEGIN
+  -- Clients that only send times get the end date inferred from them
+  IF NEW.end_date IS NULL THEN
+    NEW.end_date := CASE WHEN NEW.end_time < NEW.start_time THEN NEW.date + 1 ELSE NEW.date END;
+  END IF;
+
+  -- Untouched records keep the rate and values they were created with, so
+  -- status changes never reprice them
+  IF TG_OP = 'UPDATE'
+    AND NEW.date IS NOT DISTINCT FROM OLD.date
+    AND NEW.start_time IS NOT DISTINCT FROM OLD.start_time
+    AND NEW.end_date IS NOT DISTINCT FROM OLD.end_date
+    AND NEW.end_time IS NOT DISTINCT FROM OLD.end_time
+    AND NEW.lunch_discount IS NOT DISTINCT FROM OLD.lunch_discount THEN
+    NEW.hourly_rate := OLD.hourly_rate;
+    NEW.total_hours := OLD.total_hours;
+    NEW.net_hours := OLD.net_hours;
+    NEW.total_value := OLD.total_value;
+    NEW.night_minutes := OLD.night_minutes;
+    NEW.night_premium_value := OLD.night_premium_value;
+    RETURN NEW;
+  END IF;
+
+  SELECT b.hourly_rate INTO NEW.hourly_rate FROM public.hourly_base_for(NEW.user_id, NEW.date) b;
+
+  v_start := EXTRACT(HOUR FROM NEW.start_time)::INTEGER * 60 + EXTRACT(MINUTE FROM NEW.start_time)::INTEGER;
+  v_total := (EXTRACT(EPOCH FROM (NEW.end_date + NEW.end_time) - (NEW.date + NEW.start_time)) / 60)::INTEGER;
+
+  -- Sundays and holidays of every calendar day the shift touches
+  SELECT array_agg(
+    EXTRACT(DOW FROM d.day) = 0 OR EXISTS (SELECT 1 FROM public.holidays h WHERE h.date = d.day AND h.is_active)
+    ORDER BY d.day
+  )
+  INTO v_rest_days
+  FROM (SELECT NEW.date + n AS day FROM generate_series(0, NEW.end_date - NEW.date) n) d;
+
+  FOR i IN 0 .. v_total - 1 LOOP
+    v_minute := v_start + i;
+    v_bucket := CASE WHEN (v_minute % 1440) >= 22 * 60 OR (v_minute % 1440) < 5 * 60 THEN 3 ELSE 1 END
+      + CASE WHEN v_rest_days[v_minute / 1440 + 1] THEN 1 ELSE 0 END;
+    v_minutes[v_bucket] := v_minutes[v_bucket] + 1;
+  END LOOP;
+
+  -- Lunch break comes out of the cheapest band first
+  v_lunch := CASE WHEN NEW.lunch_discount THEN 60 ELSE 0 END;
+  FOR i IN 1 .. 4 LOOP
+    v_deducted := LEAST(v_minutes[i], v_lunch);
+    v_minutes[i] := v_minutes[i] - v_deducted;
+    v_lunch := v_lunch - v_deducted;
+  END LOOP;
+
+  FOR i IN 1 .. 4 LOOP
+    CONTINUE WHEN v_minutes[i] = 0;
+
+    -- Night minutes are paid as reduced 52m30s hours plus the 20% night premium
+    v_paid := CASE WHEN i >= 3 THEN v_minutes[i] * 60 / 52.5 ELSE v_minutes[i] END;
+    v_overtime := v_paid / 60 * NEW.hourly_rate * (1 + v_premiums[i]);
+    v_night_premium := CASE WHEN i >= 3 THEN v_overtime * 0.2 ELSE 0 END;
+
+    v_total_value := v_total_value + ROUND(v_overtime + v_night_premium, 2);
+    v_night_value := v_night_value + ROUND(v_night_premium, 2);
+    IF i >= 3 THEN
+      v_night_minutes := v_night_minutes + v_minutes[i];
+    END IF;
+  END LOOP;
+
+  NEW.total_hours := ROUND(v_total / 60.0, 2);
+  NEW.net_hours := ROUND((v_total - CASE WHEN NEW.lunch_discount THEN 60 ELSE 0 END) / 60.0, 2);
+  NEW.total_value := v_total_value;
+  NEW.night_minutes := v_night_minutes;
+  NEW.night_premium_value := v_night_value;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Worked minutes of a record per calendar day, with the lunch break counted
+-- against the day the shift starts on (same rule as minutesByDate in the app)
+CREATE OR REPLACE FUNCTION public.overtime_minutes_by_day(
+  _date DATE,
+  _start_time TIME,
+  _end_date DATE,
+  _end_time TIME,
+  _lunch_discount BOOLEAN
+)
+RETURNS TABLE (day DATE, minutes INTEGER)
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  WITH spans AS (
+    SELECT
+      d.day,
+      GREATEST(_date + _start_time, d.day::TIMESTAMP) AS span_start,
+      LEAST(_end_date + _end_time, d.day + 1 + TIME '00:00') AS span_end
+    FROM (SELECT _date + n AS day FROM generate_series(0, _end_date - _date) n) d
+  ),
+  worked AS (
+    SELECT
+      s.day,
+      (EXTRACT(EPOCH FROM s.span_end - s.span_start) / 60)::INTEGER AS minutes,
+      ROW_NUMBER() OVER (ORDER BY s.day) AS position
+    FROM spans s
+    WHERE s.span_end > s.span_start
+  )
+  SELECT
+    w.day,
+    w.minutes - LEAST(
+      w.minutes,
+      GREATEST(
+        0,
+        CASE WHEN _lunch_discount THEN 60 ELSE 0 END
+          - COALESCE((SELECT SUM(p.minutes) FROM worked p WHERE p.position < w.position), 0)
+      )
+    )::INTEGER
+  FROM worked w
+  ORDER BY w.day;
+$$;
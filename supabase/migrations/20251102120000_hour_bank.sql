@@ -0,0 +1,239 @@
+-- Hour bank (banco de horas)
+-- Employees in hour-bank mode have their overtime credited to a ledger
+-- instead of paid. Time off is debited; credits expire after the agreed
+-- 6- or 12-month window and unused balances are paid out by admins.
+
+CREATE TYPE public.compensation_mode AS ENUM ('payment', 'hour_bank');
+CREATE TYPE public.hour_bank_entry_type AS ENUM ('credit', 'debit', 'adjustment', 'payout');
+
+ALTER TABLE public.profiles
+ADD COLUMN compensation_mode compensation_mode NOT NULL DEFAULT 'payment',
+ADD COLUMN hour_bank_validity_months SMALLINT NOT NULL DEFAULT 6;
+
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_hour_bank_validity CHECK (hour_bank_validity_months IN (6, 12));
+
+-- Records keep the compensation mode in force when they were created
+ALTER TABLE public.overtime_records
+ADD COLUMN compensation compensation_mode NOT NULL DEFAULT 'payment';
+
+INSERT INTO public.payroll_settings (setting_name, setting_value, description) VALUES
+  ('hour_bank_payout_premium', '0.5', 'Premium applied when paying out hour bank balances (0.5 = +50%)');
+
+-- Ledger entries in minutes: credits and positive adjustments are positive,
+-- debits, payouts and negative adjustments are negative
+CREATE TABLE public.hour_bank_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  entry_type hour_bank_entry_type NOT NULL,
+  minutes INTEGER NOT NULL,
+  entry_date DATE NOT NULL,
+  expires_on DATE,
+  overtime_record_id UUID REFERENCES public.overtime_records(id) ON DELETE CASCADE UNIQUE,
+  payout_value NUMERIC(10,2),
+  description TEXT,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.hour_bank_entries
+ADD CONSTRAINT hour_bank_entries_minutes_nonzero CHECK (minutes <> 0),
+ADD CONSTRAINT hour_bank_entries_sign CHECK (
+  (entry_type = 'credit' AND minutes > 0)
+  OR (entry_type IN ('debit', 'payout') AND minutes < 0)
+  OR entry_type = 'adjustment'
+),
+ADD CONSTRAINT hour_bank_entries_expiry CHECK ((minutes > 0) = (expires_on IS NOT NULL)),
+ADD CONSTRAINT hour_bank_entries_payout_value CHECK ((entry_type = 'payout') = (payout_value IS NOT NULL)),
+ADD CONSTRAINT hour_bank_entries_description_length CHECK (description IS NULL OR length(description) <= 200);
+
+ALTER TABLE public.hour_bank_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own hour bank entries"
+  ON public.hour_bank_entries FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage hour bank entries"
+  ON public.hour_bank_entries FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_hour_bank_entries_user_date ON public.hour_bank_entries(user_id, entry_date);
+
+CREATE TRIGGER audit_hour_bank_entries_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.hour_bank_entries
+  FOR EACH ROW EXECUTE FUNCTION public.audit_trigger_function();
+
+-- Only admins may move an employee in or out of the hour bank
+CREATE OR REPLACE FUNCTION public.protect_profile_hour_bank_settings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') AND (
+    NEW.compensation_mode IS DISTINCT FROM OLD.compensation_mode OR
+    NEW.hour_bank_validity_months IS DISTINCT FROM OLD.hour_bank_validity_months
+  ) THEN
+    RAISE EXCEPTION 'Apenas administradores podem alterar o banco de horas';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profiles_hour_bank_settings
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_hour_bank_settings();
+
+-- Compensation mode is taken from the profile on insert and never changes
+CREATE OR REPLACE FUNCTION public.set_overtime_compensation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT p.compensation_mode INTO NEW.compensation FROM public.profiles p WHERE p.id = NEW.user_id;
+    NEW.compensation := COALESCE(NEW.compensation, 'payment');
+  ELSE
+    NEW.compensation := OLD.compensation;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_overtime_records_compensation
+  BEFORE INSERT OR UPDATE ON public.overtime_records
+  FOR EACH ROW EXECUTE FUNCTION public.set_overtime_compensation();
+
+-- Keeps the ledger credit of an hour-bank record in line with its net minutes
+CREATE OR REPLACE FUNCTION public.credit_hour_bank()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_minutes INTEGER;
+  v_validity SMALLINT;
+BEGIN
+  IF NEW.compensation <> 'hour_bank' THEN
+    RETURN NEW;
+  END IF;
+
+  v_minutes := (EXTRACT(EPOCH FROM (NEW.end_date + NEW.end_time) - (NEW.date + NEW.start_time)) / 60)::INTEGER
+    - CASE WHEN NEW.lunch_discount THEN 60 ELSE 0 END;
+
+  SELECT p.hour_bank_validity_months INTO v_validity FROM public.profiles p WHERE p.id = NEW.user_id;
+
+  INSERT INTO public.hour_bank_entries (user_id, entry_type, minutes, entry_date, expires_on, overtime_record_id)
+  VALUES (
+    NEW.user_id,
+    'credit',
+    v_minutes,
+    NEW.date,
+    (NEW.date + make_interval(months => COALESCE(v_validity, 6)))::DATE,
+    NEW.id
+  )
+  ON CONFLICT (overtime_record_id) DO UPDATE
+  SET minutes = EXCLUDED.minutes,
+      entry_date = EXCLUDED.entry_date,
+      expires_on = EXCLUDED.expires_on;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER credit_overtime_records_hour_bank
+  AFTER INSERT OR UPDATE ON public.overtime_records
+  FOR EACH ROW EXECUTE FUNCTION public.credit_hour_bank();
+
+-- Pays out hour bank minutes at the hourly base in force today plus the
+-- configured payout premium
+CREATE OR REPLACE FUNCTION public.pay_out_hour_bank(_user_id UUID, _minutes INTEGER, _description TEXT DEFAULT NULL)
+RETURNS public.hour_bank_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_hourly_rate NUMERIC;
+  v_premium NUMERIC;
+  v_entry public.hour_bank_entries;
+  v_lots INTEGER[] := '{}';
+  v_lot_expiries DATE[] := '{}';
+  v_movement RECORD;
+  v_to_consume INTEGER;
+  v_consumed INTEGER;
+  v_available INTEGER;
+  i INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  IF _minutes IS NULL OR _minutes <= 0 THEN
+    RAISE EXCEPTION 'Quantidade de horas inválida';
+  END IF;
+
+  -- One payout at a time per employee
+  PERFORM 1 FROM public.profiles WHERE id = _user_id FOR UPDATE;
+
+  -- Replays the ledger like summarizeHourBank() in the app: negative entries
+  -- consume the oldest open credits first, time off skipping the ones already
+  -- expired, and what is left is payable
+  FOR v_movement IN
+    SELECT e.entry_type, e.minutes, e.entry_date, e.expires_on
+    FROM public.hour_bank_entries e
+    WHERE e.user_id = _user_id
+    ORDER BY e.entry_date, e.created_at
+  LOOP
+    IF v_movement.minutes > 0 THEN
+      v_lots := array_append(v_lots, v_movement.minutes);
+      v_lot_expiries := array_append(v_lot_expiries, COALESCE(v_movement.expires_on, v_movement.entry_date));
+      CONTINUE;
+    END IF;
+
+    v_to_consume := -v_movement.minutes;
+    FOR i IN 1 .. COALESCE(array_length(v_lots, 1), 0) LOOP
+      EXIT WHEN v_to_consume = 0;
+      CONTINUE WHEN v_movement.entry_type <> 'payout' AND v_lot_expiries[i] <= v_movement.entry_date;
+      v_consumed := LEAST(v_lots[i], v_to_consume);
+      v_lots[i] := v_lots[i] - v_consumed;
+      v_to_consume := v_to_consume - v_consumed;
+    END LOOP;
+  END LOOP;
+
+  SELECT COALESCE(SUM(l), 0)::INTEGER INTO v_available FROM unnest(v_lots) l;
+
+  IF _minutes > v_available THEN
+    RAISE EXCEPTION 'Pagamento maior que o saldo do banco de horas (% minutos disponíveis)', v_available;
+  END IF;
+
+  SELECT b.hourly_rate INTO v_hourly_rate FROM public.hourly_base_for(_user_id, CURRENT_DATE) b;
+
+  SELECT COALESCE(
+    (SELECT setting_value::NUMERIC FROM public.payroll_settings WHERE setting_name = 'hour_bank_payout_premium'),
+    0.5
+  )
+  INTO v_premium;
+
+  INSERT INTO public.hour_bank_entries (user_id, entry_type, minutes, entry_date, payout_value, description, created_by)
+  VALUES (
+    _user_id,
+    'payout',
+    -_minutes,
+    CURRENT_DATE,
+    ROUND(_minutes / 60.0 * v_hourly_rate * (1 + v_premium), 2),
+    _description,
+    auth.uid()
+  )
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$;
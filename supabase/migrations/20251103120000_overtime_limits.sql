@@ -0,0 +1,281 @@
+-- Daily, weekly and monthly overtime limits
+-- Global limits live in payroll_settings and may be overridden per employee.
+-- Minutes are attributed to the calendar day they were worked on, weeks start
+-- on Monday. Limits set to 0 are disabled. In 'block' mode entries exceeding a
+-- limit are rejected; in 'warn' mode they are saved and show up in the report.
+
+CREATE TYPE public.overtime_limit_enforcement AS ENUM ('warn', 'block');
+
+INSERT INTO public.payroll_settings (setting_name, setting_value, description) VALUES
+  ('overtime_daily_limit_minutes', '120', 'Daily overtime limit in minutes (CLT art. 59), 0 disables it'),
+  ('overtime_weekly_limit_minutes', '0', 'Weekly overtime limit in minutes, 0 disables it'),
+  ('overtime_monthly_limit_minutes', '0', 'Monthly overtime limit in minutes, 0 disables it'),
+  ('overtime_limit_enforcement', 'warn', 'What happens when a limit is exceeded: warn or block')
+ON CONFLICT (setting_name, effective_from) DO NOTHING;
+
+-- Per-employee overrides; NULL columns fall back to the global settings
+CREATE TABLE public.overtime_limits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  daily_minutes INTEGER,
+  weekly_minutes INTEGER,
+  monthly_minutes INTEGER,
+  enforcement overtime_limit_enforcement,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.overtime_limits
+ADD CONSTRAINT overtime_limits_daily_range CHECK (daily_minutes IS NULL OR daily_minutes BETWEEN 0 AND 1440),
+ADD CONSTRAINT overtime_limits_weekly_range CHECK (weekly_minutes IS NULL OR weekly_minutes BETWEEN 0 AND 10080),
+ADD CONSTRAINT overtime_limits_monthly_range CHECK (monthly_minutes IS NULL OR monthly_minutes BETWEEN 0 AND 44640);
+
+ALTER TABLE public.overtime_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own overtime limits"
+  ON public.overtime_limits FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage overtime limits"
+  ON public.overtime_limits FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_overtime_limits_updated_at
+  BEFORE UPDATE ON public.overtime_limits
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_overtime_limits_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.overtime_limits
+  FOR EACH ROW EXECUTE FUNCTION public.audit_trigger_function();
+
+-- Limits in force for an employee: overrides first, then the global settings
+CREATE OR REPLACE FUNCTION public.effective_overtime_limits(_user_id UUID)
+RETURNS TABLE (
+  daily_minutes INTEGER,
+  weekly_minutes INTEGER,
+  monthly_minutes INTEGER,
+  enforcement overtime_limit_enforcement
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH settings AS (
+    SELECT
+      MAX(setting_value) FILTER (WHERE setting_name = 'overtime_daily_limit_minutes')::INTEGER AS daily_minutes,
+      MAX(setting_value) FILTER (WHERE setting_name = 'overtime_weekly_limit_minutes')::INTEGER AS weekly_minutes,
+      MAX(setting_value) FILTER (WHERE setting_name = 'overtime_monthly_limit_minutes')::INTEGER AS monthly_minutes,
+      MAX(setting_value) FILTER (WHERE setting_name = 'overtime_limit_enforcement')::overtime_limit_enforcement AS enforcement
+    FROM public.payroll_settings
+  )
+  SELECT
+    COALESCE(l.daily_minutes, s.daily_minutes, 120),
+    COALESCE(l.weekly_minutes, s.weekly_minutes, 0),
+    COALESCE(l.monthly_minutes, s.monthly_minutes, 0),
+    COALESCE(l.enforcement, s.enforcement, 'warn')
+  FROM settings s
+  LEFT JOIN public.overtime_limits l ON l.user_id = _user_id
+$$;
+
+-- Limits a record would exceed, counting the employee's other records.
+-- Internal: no access checks, used by the trigger and by check_overtime_limits
+CREATE OR REPLACE FUNCTION public.overtime_limit_excesses(
+  _user_id UUID,
+  _date DATE,
+  _start_time TIME,
+  _end_date DATE,
+  _end_time TIME,
+  _lunch_discount BOOLEAN,
+  _exclude_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  period TEXT,
+  period_start DATE,
+  minutes INTEGER,
+  limit_minutes INTEGER,
+  excess_minutes INTEGER,
+  enforcement overtime_limit_enforcement
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH candidate AS (
+    SELECT m.day, m.minutes
+    FROM public.overtime_minutes_by_day(_date, _start_time, _end_date, _end_time, _lunch_discount) m
+  ),
+  worked AS (
+    SELECT c.day, c.minutes FROM candidate c
+    UNION ALL
+    SELECT m.day, m.minutes
+    FROM public.overtime_records r
+    CROSS JOIN LATERAL public.overtime_minutes_by_day(r.date, r.start_time, r.end_date, r.end_time, r.lunch_discount) m
+    WHERE r.user_id = _user_id
+      AND (_exclude_id IS NULL OR r.id <> _exclude_id)
+      -- Every record that may touch the weeks and months of the candidate
+      AND r.date BETWEEN date_trunc('month', _date)::DATE - 8
+        AND (date_trunc('month', _end_date) + INTERVAL '1 month')::DATE + 7
+  ),
+  totals AS (
+    SELECT 'day' AS period, c.day AS period_start, l.daily_minutes AS limit_minutes,
+      (SELECT SUM(w.minutes) FROM worked w WHERE w.day = c.day) AS minutes
+    FROM candidate c, public.effective_overtime_limits(_user_id) l
+    UNION
+    SELECT 'week', date_trunc('week', c.day)::DATE, l.weekly_minutes,
+      (SELECT SUM(w.minutes) FROM worked w WHERE date_trunc('week', w.day) = date_trunc('week', c.day))
+    FROM candidate c, public.effective_overtime_limits(_user_id) l
+    UNION
+    SELECT 'month', date_trunc('month', c.day)::DATE, l.monthly_minutes,
+      (SELECT SUM(w.minutes) FROM worked w WHERE date_trunc('month', w.day) = date_trunc('month', c.day))
+    FROM candidate c, public.effective_overtime_limits(_user_id) l
+  )
+  SELECT t.period, t.period_start, t.minutes::INTEGER, t.limit_minutes, (t.minutes - t.limit_minutes)::INTEGER, l.enforcement
+  FROM totals t, public.effective_overtime_limits(_user_id) l
+  WHERE t.limit_minutes > 0 AND t.minutes > t.limit_minutes
+  ORDER BY t.period_start, t.period
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.overtime_limit_excesses(UUID, DATE, TIME, DATE, TIME, BOOLEAN, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Preview used by the add/edit dialogs before saving
+CREATE OR REPLACE FUNCTION public.check_overtime_limits(
+  _user_id UUID,
+  _date DATE,
+  _start_time TIME,
+  _end_date DATE,
+  _end_time TIME,
+  _lunch_discount BOOLEAN,
+  _exclude_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  period TEXT,
+  period_start DATE,
+  minutes INTEGER,
+  limit_minutes INTEGER,
+  excess_minutes INTEGER,
+  enforcement overtime_limit_enforcement
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _user_id IS DISTINCT FROM auth.uid() AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.overtime_limit_excesses(
+    _user_id, _date, _start_time, _end_date, _end_time, _lunch_discount, _exclude_id
+  );
+END;
+$$;
+
+-- Rejects entries that exceed a limit in 'block' mode
+CREATE OR REPLACE FUNCTION public.enforce_overtime_limits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_excess RECORD;
+BEGIN
+  SELECT * INTO v_excess
+  FROM public.overtime_limit_excesses(
+    NEW.user_id, NEW.date, NEW.start_time, NEW.end_date, NEW.end_time, NEW.lunch_discount,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.id END
+  ) e
+  WHERE e.enforcement = 'block'
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Limite % de horas extras excedido em % minutos (%)',
+      CASE v_excess.period WHEN 'day' THEN 'diário' WHEN 'week' THEN 'semanal' ELSE 'mensal' END,
+      v_excess.excess_minutes,
+      to_char(v_excess.period_start, 'DD/MM/YYYY');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs after calculate_overtime_records_values, which fills end_date
+CREATE TRIGGER enforce_overtime_records_limits
+  BEFORE INSERT OR UPDATE ON public.overtime_records
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_overtime_limits();
+
+-- Limit violations of every employee within a date range, for the admin report
+CREATE OR REPLACE FUNCTION public.overtime_limit_violations(_from DATE, _to DATE)
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT,
+  period TEXT,
+  period_start DATE,
+  minutes INTEGER,
+  limit_minutes INTEGER,
+  excess_minutes INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  RETURN QUERY
+  WITH worked AS (
+    SELECT r.user_id, m.day, m.minutes
+    FROM public.overtime_records r
+    CROSS JOIN LATERAL public.overtime_minutes_by_day(r.date, r.start_time, r.end_date, r.end_time, r.lunch_discount) m
+    WHERE r.date BETWEEN date_trunc('month', _from)::DATE - 8
+      AND (date_trunc('month', _to) + INTERVAL '1 month')::DATE + 7
+  ),
+  totals AS (
+    SELECT w.user_id, 'day' AS period, w.day AS period_start, SUM(w.minutes) AS minutes
+    FROM worked w GROUP BY w.user_id, w.day
+    UNION ALL
+    SELECT w.user_id, 'week', date_trunc('week', w.day)::DATE, SUM(w.minutes)
+    FROM worked w GROUP BY w.user_id, date_trunc('week', w.day)
+    UNION ALL
+    SELECT w.user_id, 'month', date_trunc('month', w.day)::DATE, SUM(w.minutes)
+    FROM worked w GROUP BY w.user_id, date_trunc('month', w.day)
+  ),
+  limited AS (
+    SELECT t.*, CASE t.period
+      WHEN 'day' THEN l.daily_minutes
+      WHEN 'week' THEN l.weekly_minutes
+      ELSE l.monthly_minutes
+    END AS limit_minutes
+    FROM totals t
+    CROSS JOIN LATERAL public.effective_overtime_limits(t.user_id) l
+  )
+  SELECT
+    li.user_id,
+    p.full_name,
+    li.period,
+    li.period_start,
+    li.minutes::INTEGER,
+    li.limit_minutes,
+    (li.minutes - li.limit_minutes)::INTEGER
+  FROM limited li
+  JOIN public.profiles p ON p.id = li.user_id
+  WHERE li.limit_minutes > 0
+    AND li.minutes > li.limit_minutes
+    -- Periods overlapping the requested range
+    AND li.period_start <= _to
+    AND CASE li.period
+      WHEN 'day' THEN li.period_start
+      WHEN 'week' THEN li.period_start + 6
+      ELSE (li.period_start + INTERVAL '1 month - 1 day')::DATE
+    END >= _from
+  ORDER BY li.period_start DESC, p.full_name, li.period;
+END;
+$$;
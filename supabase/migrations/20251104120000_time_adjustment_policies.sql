@@ -0,0 +1,220 @@
+-- Tolerance and rounding of clock marks
+-- CLT art. 58 §1º: variations of up to 5 minutes per mark, at most 10 per day,
+-- are not counted. Companies may instead round to 5/10/15 minutes or count
+-- the exact minute. Each record stores the policy it was calculated with and
+-- its raw clock duration; total_hours, net_hours and values use the adjusted
+-- minutes. Overtime limits keep measuring the raw time at work.
+
+CREATE TYPE public.time_adjustment_policy AS ENUM ('exact', 'legal_tolerance', 'round_5', 'round_10', 'round_15');
+
+ALTER TABLE public.overtime_records
+ADD COLUMN time_policy time_adjustment_policy NOT NULL DEFAULT 'exact',
+ADD COLUMN raw_minutes INTEGER;
+
+-- Existing records were calculated to the exact minute. Backfilled with the
+-- triggers off so they are not recalculated or checked against the limits.
+ALTER TABLE public.overtime_records DISABLE TRIGGER USER;
+
+UPDATE public.overtime_records
+SET raw_minutes = (EXTRACT(EPOCH FROM (end_date + end_time) - (date + start_time)) / 60)::INTEGER;
+
+ALTER TABLE public.overtime_records ENABLE TRIGGER USER;
+
+ALTER TABLE public.overtime_records
+ALTER COLUMN raw_minutes SET NOT NULL;
+
+ALTER TABLE public.overtime_records
+ADD CONSTRAINT overtime_records_raw_minutes_range CHECK (raw_minutes > 0 AND raw_minutes < 24 * 60);
+
+INSERT INTO public.payroll_settings (setting_name, setting_value, description) VALUES
+  ('time_adjustment_policy', 'legal_tolerance', 'Tolerance or rounding applied to the clock marks of new records')
+ON CONFLICT (setting_name, effective_from) DO NOTHING;
+
+-- Minutes counted for a record of _raw_minutes; _other_minutes are the raw
+-- minutes of the employee's other records that day. Past the daily tolerance
+-- every minute counts (TST Súmula 366). Mirrors adjustWorkedMinutes() in the app.
+CREATE OR REPLACE FUNCTION public.adjust_overtime_minutes(
+  _raw_minutes INTEGER,
+  _policy time_adjustment_policy,
+  _other_minutes INTEGER DEFAULT 0
+)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _policy
+    WHEN 'legal_tolerance' THEN
+      CASE WHEN _raw_minutes <= 5 AND _raw_minutes + COALESCE(_other_minutes, 0) <= 10 THEN 0 ELSE _raw_minutes END
+    WHEN 'round_5' THEN (ROUND(_raw_minutes / 5.0) * 5)::INTEGER
+    WHEN 'round_10' THEN (ROUND(_raw_minutes / 10.0) * 10)::INTEGER
+    WHEN 'round_15' THEN (ROUND(_raw_minutes / 15.0) * 15)::INTEGER
+    ELSE _raw_minutes
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.calculate_overtime_values()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_start INTEGER;
+  v_other INTEGER;
+  v_total INTEGER;
+  v_minute INTEGER;
+  v_rest_days BOOLEAN[];
+  v_bucket INTEGER;
+  -- Minutes per band, from the cheapest to the most expensive minute:
+  -- 1 regular day (150%), 2 rest day (200%), 3 regular night (~206%), 4 rest night (~274%)
+  v_minutes INTEGER[] := ARRAY[0, 0, 0, 0];
+  v_premiums NUMERIC[] := ARRAY[0.5, 1.0, 0.5, 1.0];
+  v_lunch INTEGER;
+  v_deducted INTEGER;
+  v_paid NUMERIC;
+  v_overtime NUMERIC;
+  v_night_premium NUMERIC;
+  v_total_value NUMERIC := 0;
+  v_night_value NUMERIC := 0;
+  v_night_minutes INTEGER := 0;
+  i INTEGER;
+BEGIN
+  -- Clients that only send times get the end date inferred from them
+  IF NEW.end_date IS NULL THEN
+    NEW.end_date := CASE WHEN NEW.end_time < NEW.start_time THEN NEW.date + 1 ELSE NEW.date END;
+  END IF;
+
+  -- Untouched records keep the rate and values they were created with, so
+  -- status changes never reprice them
+  IF TG_OP = 'UPDATE'
+    AND NEW.date IS NOT DISTINCT FROM OLD.date
+    AND NEW.start_time IS NOT DISTINCT FROM OLD.start_time
+    AND NEW.end_date IS NOT DISTINCT FROM OLD.end_date
+    AND NEW.end_time IS NOT DISTINCT FROM OLD.end_time
+    AND NEW.lunch_discount IS NOT DISTINCT FROM OLD.lunch_discount THEN
+    NEW.hourly_rate := OLD.hourly_rate;
+    NEW.time_policy := OLD.time_policy;
+    NEW.raw_minutes := OLD.raw_minutes;
+    NEW.total_hours := OLD.total_hours;
+    NEW.net_hours := OLD.net_hours;
+    NEW.total_value := OLD.total_value;
+    NEW.night_minutes := OLD.night_minutes;
+    NEW.night_premium_value := OLD.night_premium_value;
+    RETURN NEW;
+  END IF;
+
+  SELECT b.hourly_rate INTO NEW.hourly_rate FROM public.hourly_base_for(NEW.user_id, NEW.date) b;
+
+  -- New records take the policy in force; edits keep the one they were created with
+  IF TG_OP = 'INSERT' THEN
+    SELECT s.setting_value::time_adjustment_policy INTO NEW.time_policy
+    FROM public.payroll_settings s
+    WHERE s.setting_name = 'time_adjustment_policy';
+    NEW.time_policy := COALESCE(NEW.time_policy, 'legal_tolerance');
+  ELSE
+    NEW.time_policy := OLD.time_policy;
+  END IF;
+
+  v_start := EXTRACT(HOUR FROM NEW.start_time)::INTEGER * 60 + EXTRACT(MINUTE FROM NEW.start_time)::INTEGER;
+  NEW.raw_minutes := (EXTRACT(EPOCH FROM (NEW.end_date + NEW.end_time) - (NEW.date + NEW.start_time)) / 60)::INTEGER;
+
+  SELECT COALESCE(SUM(r.raw_minutes), 0)::INTEGER INTO v_other
+  FROM public.overtime_records r
+  WHERE r.user_id = NEW.user_id
+    AND r.date = NEW.date
+    AND r.id IS DISTINCT FROM NEW.id;
+
+  v_total := public.adjust_overtime_minutes(NEW.raw_minutes, NEW.time_policy, v_other);
+  v_lunch := CASE WHEN NEW.lunch_discount THEN 60 ELSE 0 END;
+
+  IF v_total = 0 AND NEW.time_policy = 'legal_tolerance' THEN
+    RAISE EXCEPTION 'Variação de % minutos dentro da tolerância legal (CLT art. 58 §1º): não há horas extras a lançar', NEW.raw_minutes;
+  ELSIF v_total <= v_lunch THEN
+    RAISE EXCEPTION 'Após o arredondamento não há horas extras a lançar';
+  END IF;
+
+  -- Sundays and holidays of every calendar day the shift touches; rounding up
+  -- may push the counted minutes into the day after end_date
+  SELECT array_agg(
+    EXTRACT(DOW FROM d.day) = 0 OR EXISTS (SELECT 1 FROM public.holidays h WHERE h.date = d.day AND h.is_active)
+    ORDER BY d.day
+  )
+  INTO v_rest_days
+  FROM (SELECT NEW.date + n AS day FROM generate_series(0, NEW.end_date - NEW.date + 1) n) d;
+
+  FOR i IN 0 .. v_total - 1 LOOP
+    v_minute := v_start + i;
+    v_bucket := CASE WHEN (v_minute % 1440) >= 22 * 60 OR (v_minute % 1440) < 5 * 60 THEN 3 ELSE 1 END
+      + CASE WHEN v_rest_days[v_minute / 1440 + 1] THEN 1 ELSE 0 END;
+    v_minutes[v_bucket] := v_minutes[v_bucket] + 1;
+  END LOOP;
+
+  -- Lunch break comes out of the cheapest band first
+  FOR i IN 1 .. 4 LOOP
+    v_deducted := LEAST(v_minutes[i], v_lunch);
+    v_minutes[i] := v_minutes[i] - v_deducted;
+    v_lunch := v_lunch - v_deducted;
+  END LOOP;
+
+  FOR i IN 1 .. 4 LOOP
+    CONTINUE WHEN v_minutes[i] = 0;
+
+    -- Night minutes are paid as reduced 52m30s hours plus the 20% night premium
+    v_paid := CASE WHEN i >= 3 THEN v_minutes[i] * 60 / 52.5 ELSE v_minutes[i] END;
+    v_overtime := v_paid / 60 * NEW.hourly_rate * (1 + v_premiums[i]);
+    v_night_premium := CASE WHEN i >= 3 THEN v_overtime * 0.2 ELSE 0 END;
+
+    v_total_value := v_total_value + ROUND(v_overtime + v_night_premium, 2);
+    v_night_value := v_night_value + ROUND(v_night_premium, 2);
+    IF i >= 3 THEN
+      v_night_minutes := v_night_minutes + v_minutes[i];
+    END IF;
+  END LOOP;
+
+  NEW.total_hours := ROUND(v_total / 60.0, 2);
+  NEW.net_hours := ROUND((v_total - CASE WHEN NEW.lunch_discount THEN 60 ELSE 0 END) / 60.0, 2);
+  NEW.total_value := v_total_value;
+  NEW.night_minutes := v_night_minutes;
+  NEW.night_premium_value := v_night_value;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Hour-bank credits follow the adjusted net minutes
+CREATE OR REPLACE FUNCTION public.credit_hour_bank()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_minutes INTEGER;
+  v_validity SMALLINT;
+BEGIN
+  IF NEW.compensation <> 'hour_bank' THEN
+    RETURN NEW;
+  END IF;
+
+  v_minutes := ROUND(NEW.net_hours * 60)::INTEGER;
+
+  SELECT p.hour_bank_validity_months INTO v_validity FROM public.profiles p WHERE p.id = NEW.user_id;
+
+  INSERT INTO public.hour_bank_entries (user_id, entry_type, minutes, entry_date, expires_on, overtime_record_id)
+  VALUES (
+    NEW.user_id,
+    'credit',
+    v_minutes,
+    NEW.date,
+    (NEW.date + make_interval(months => COALESCE(v_validity, 6)))::DATE,
+    NEW.id
+  )
+  ON CONFLICT (overtime_record_id) DO UPDATE
+  SET minutes = EXCLUDED.minutes,
+      entry_date = EXCLUDED.entry_date,
+      expires_on = EXCLUDED.expires_on;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,148 @@
+-- Interjornada rest (CLT art. 66)
+-- Employees need at least 11 consecutive hours of rest between two workdays.
+-- A workday (jornada) is the span covering the regular shift of that day and
+-- every overtime record that starts on it. Overtime entries that end a
+-- workday, or start the next one, less than 11h apart are flagged.
+
+ALTER TABLE public.profiles
+ADD COLUMN regular_shift_start TIME,
+ADD COLUMN regular_shift_end TIME,
+ADD COLUMN work_days SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5}';
+
+-- ISO weekdays: 1 = Monday … 7 = Sunday
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_work_days_range CHECK (work_days <@ ARRAY[1, 2, 3, 4, 5, 6, 7]::SMALLINT[]),
+ADD CONSTRAINT profiles_regular_shift_complete CHECK (
+  (regular_shift_start IS NULL) = (regular_shift_end IS NULL)
+  AND (regular_shift_start IS NULL OR regular_shift_start <> regular_shift_end)
+);
+
+-- Only admins may change the regular schedule
+CREATE OR REPLACE FUNCTION public.protect_profile_schedule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') AND (
+    NEW.regular_shift_start IS DISTINCT FROM OLD.regular_shift_start OR
+    NEW.regular_shift_end IS DISTINCT FROM OLD.regular_shift_end OR
+    NEW.work_days IS DISTINCT FROM OLD.work_days
+  ) THEN
+    RAISE EXCEPTION 'Apenas administradores podem alterar a jornada regular';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profiles_schedule
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_schedule();
+
+-- Rests shorter than 11h between consecutive workdays that involve an
+-- overtime record. Workdays are built one day around the period so rests
+-- crossing its edges are found too. _user_id NULL covers every employee.
+CREATE OR REPLACE FUNCTION public.rest_period_gaps(_user_id UUID, _from DATE, _to DATE)
+RETURNS TABLE (
+  user_id UUID,
+  rest_start TIMESTAMP,
+  rest_end TIMESTAMP,
+  rest_minutes INTEGER,
+  overtime_record_ids UUID[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH periods AS (
+    -- Regular shifts on work days that are not holidays
+    SELECT
+      p.id AS user_id,
+      d.day::DATE AS day,
+      d.day::DATE + p.regular_shift_start AS starts_at,
+      d.day::DATE + p.regular_shift_end
+        + CASE WHEN p.regular_shift_end < p.regular_shift_start THEN INTERVAL '1 day' ELSE INTERVAL '0' END AS ends_at,
+      NULL::UUID AS record_id
+    FROM public.profiles p
+    CROSS JOIN generate_series(_from - 1, _to + 1, INTERVAL '1 day') d(day)
+    WHERE (_user_id IS NULL OR p.id = _user_id)
+      AND p.regular_shift_start IS NOT NULL
+      AND EXTRACT(ISODOW FROM d.day)::SMALLINT = ANY (p.work_days)
+      AND NOT EXISTS (SELECT 1 FROM public.holidays h WHERE h.date = d.day::DATE AND h.is_active)
+    UNION ALL
+    SELECT r.user_id, r.date, r.date + r.start_time, r.end_date + r.end_time, r.id
+    FROM public.overtime_records r
+    WHERE (_user_id IS NULL OR r.user_id = _user_id)
+      AND r.date BETWEEN _from - 1 AND _to + 1
+  ),
+  workdays AS (
+    SELECT p.user_id, p.day, MIN(p.starts_at) AS starts_at, MAX(p.ends_at) AS ends_at
+    FROM periods p
+    GROUP BY p.user_id, p.day
+  ),
+  rests AS (
+    SELECT
+      w.user_id,
+      w.day,
+      w.ends_at AS rest_start,
+      LEAD(w.day) OVER (PARTITION BY w.user_id ORDER BY w.day) AS next_day,
+      LEAD(w.starts_at) OVER (PARTITION BY w.user_id ORDER BY w.day) AS rest_end
+    FROM workdays w
+  ),
+  violations AS (
+    SELECT
+      r.user_id,
+      r.rest_start,
+      r.rest_end,
+      GREATEST(0, EXTRACT(EPOCH FROM r.rest_end - r.rest_start) / 60)::INTEGER AS rest_minutes,
+      ARRAY(
+        SELECT p.record_id
+        FROM periods p
+        WHERE p.user_id = r.user_id
+          AND p.record_id IS NOT NULL
+          AND ((p.day = r.day AND p.ends_at = r.rest_start) OR (p.day = r.next_day AND p.starts_at = r.rest_end))
+        ORDER BY p.starts_at
+      ) AS overtime_record_ids
+    FROM rests r
+    WHERE r.rest_end IS NOT NULL
+      AND r.rest_end - r.rest_start < INTERVAL '11 hours'
+      AND (r.day BETWEEN _from AND _to OR r.next_day BETWEEN _from AND _to)
+  )
+  SELECT v.user_id, v.rest_start, v.rest_end, v.rest_minutes, v.overtime_record_ids
+  FROM violations v
+  WHERE cardinality(v.overtime_record_ids) > 0
+  ORDER BY v.rest_start, v.user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rest_period_gaps(UUID, DATE, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Rest violations of one employee (own data or admin) or of everyone (admin)
+CREATE OR REPLACE FUNCTION public.rest_period_violations(_from DATE, _to DATE, _user_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT,
+  rest_start TIMESTAMP,
+  rest_end TIMESTAMP,
+  rest_minutes INTEGER,
+  overtime_record_ids UUID[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') AND (_user_id IS NULL OR _user_id IS DISTINCT FROM auth.uid()) THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  RETURN QUERY
+  SELECT g.user_id, p.full_name, g.rest_start, g.rest_end, g.rest_minutes, g.overtime_record_ids
+  FROM public.rest_period_gaps(_user_id, _from, _to) g
+  JOIN public.profiles p ON p.id = g.user_id
+  ORDER BY g.rest_start, p.full_name;
+END;
+$$;
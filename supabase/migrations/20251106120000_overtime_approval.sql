@@ -0,0 +1,423 @@
+-- Approval workflow for overtime records
+-- Records start pending and only count as payable once an admin approves
+-- them. Rejections need a reason. Employees editing a record send it back to
+-- the queue; rejected records are ignored by limits and rest checks, and
+-- hour-bank credits exist only for approved records.
+
+CREATE TYPE public.overtime_status AS ENUM ('pending', 'approved', 'rejected');
+
+-- Records created before the workflow were already being paid
+ALTER TABLE public.overtime_records
+ADD COLUMN status overtime_status NOT NULL DEFAULT 'approved',
+ADD COLUMN reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+ADD COLUMN rejection_reason TEXT;
+
+ALTER TABLE public.overtime_records
+ALTER COLUMN status SET DEFAULT 'pending',
+ALTER COLUMN reviewed_at DROP DEFAULT;
+
+ALTER TABLE public.overtime_records
+ADD CONSTRAINT overtime_records_review CHECK (
+  (status = 'pending') = (reviewed_at IS NULL)
+  AND (status = 'rejected') = (rejection_reason IS NOT NULL)
+),
+ADD CONSTRAINT overtime_records_rejection_reason_length CHECK (length(rejection_reason) <= 500);
+
+CREATE INDEX IF NOT EXISTS idx_overtime_records_status ON public.overtime_records(status);
+
+-- Keeps the review columns consistent: new and edited records go to the
+-- queue, only admins change the status, and reviewer/timestamp are stamped
+CREATE OR REPLACE FUNCTION public.set_overtime_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'pending';
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.rejection_reason := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status OR NEW.rejection_reason IS DISTINCT FROM OLD.rejection_reason THEN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+      RAISE EXCEPTION 'Apenas administradores podem aprovar ou rejeitar lançamentos';
+    END IF;
+
+    IF NEW.status = 'pending' THEN
+      NEW.reviewed_by := NULL;
+      NEW.reviewed_at := NULL;
+    ELSE
+      NEW.reviewed_by := auth.uid();
+      NEW.reviewed_at := now();
+    END IF;
+
+    IF NEW.status <> 'rejected' THEN
+      NEW.rejection_reason := NULL;
+    END IF;
+  ELSIF NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.start_time IS DISTINCT FROM OLD.start_time
+    OR NEW.end_date IS DISTINCT FROM OLD.end_date
+    OR NEW.end_time IS DISTINCT FROM OLD.end_time
+    OR NEW.lunch_discount IS DISTINCT FROM OLD.lunch_discount THEN
+    NEW.status := 'pending';
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.rejection_reason := NULL;
+  ELSE
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.reviewed_at := OLD.reviewed_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_overtime_records_review
+  BEFORE INSERT OR UPDATE ON public.overtime_records
+  FOR EACH ROW EXECUTE FUNCTION public.set_overtime_review();
+
+-- Approved records can only be removed by admins
+CREATE OR REPLACE FUNCTION public.protect_approved_overtime()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'approved' AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Lançamentos aprovados não podem ser excluídos';
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER protect_overtime_records_approved
+  BEFORE DELETE ON public.overtime_records
+  FOR EACH ROW EXECUTE FUNCTION public.protect_approved_overtime();
+
+-- Approves or rejects several records at once; returns how many changed
+CREATE OR REPLACE FUNCTION public.review_overtime_records(
+  _ids UUID[],
+  _status overtime_status,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  IF _status = 'rejected' AND NULLIF(btrim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Informe o motivo da rejeição';
+  END IF;
+
+  UPDATE public.overtime_records
+  SET status = _status,
+      rejection_reason = CASE WHEN _status = 'rejected' THEN btrim(_reason) END
+  WHERE id = ANY (_ids)
+    AND (status IS DISTINCT FROM _status OR _status = 'rejected');
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Hour-bank credits follow the approval
+CREATE OR REPLACE FUNCTION public.credit_hour_bank()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_minutes INTEGER;
+  v_validity SMALLINT;
+BEGIN
+  IF NEW.compensation <> 'hour_bank' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Pending and rejected records hold no credit
+  IF NEW.status <> 'approved' THEN
+    DELETE FROM public.hour_bank_entries WHERE overtime_record_id = NEW.id;
+    RETURN NEW;
+  END IF;
+
+  v_minutes := ROUND(NEW.net_hours * 60)::INTEGER;
+
+  SELECT p.hour_bank_validity_months INTO v_validity FROM public.profiles p WHERE p.id = NEW.user_id;
+
+  INSERT INTO public.hour_bank_entries (user_id, entry_type, minutes, entry_date, expires_on, overtime_record_id)
+  VALUES (
+    NEW.user_id,
+    'credit',
+    v_minutes,
+    NEW.date,
+    (NEW.date + make_interval(months => COALESCE(v_validity, 6)))::DATE,
+    NEW.id
+  )
+  ON CONFLICT (overtime_record_id) DO UPDATE
+  SET minutes = EXCLUDED.minutes,
+      entry_date = EXCLUDED.entry_date,
+      expires_on = EXCLUDED.expires_on;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Rejected records no longer count towards the limits
+CREATE OR REPLACE FUNCTION public.overtime_limit_excesses(
+  _user_id UUID,
+  _date DATE,
+  _start_time TIME,
+  _end_date DATE,
+  _end_time TIME,
+  _lunch_discount BOOLEAN,
+  _exclude_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  period TEXT,
+  period_start DATE,
+  minutes INTEGER,
+  limit_minutes INTEGER,
+  excess_minutes INTEGER,
+  enforcement overtime_limit_enforcement
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH candidate AS (
+    SELECT m.day, m.minutes
+    FROM public.overtime_minutes_by_day(_date, _start_time, _end_date, _end_time, _lunch_discount) m
+  ),
+  worked AS (
+    SELECT c.day, c.minutes FROM candidate c
+    UNION ALL
+    SELECT m.day, m.minutes
+    FROM public.overtime_records r
+    CROSS JOIN LATERAL public.overtime_minutes_by_day(r.date, r.start_time, r.end_date, r.end_time, r.lunch_discount) m
+    WHERE r.user_id = _user_id
+      AND r.status <> 'rejected'
+      AND (_exclude_id IS NULL OR r.id <> _exclude_id)
+      -- Every record that may touch the weeks and months of the candidate
+      AND r.date BETWEEN date_trunc('month', _date)::DATE - 8
+        AND (date_trunc('month', _end_date) + INTERVAL '1 month')::DATE + 7
+  ),
+  totals AS (
+    SELECT 'day' AS period, c.day AS period_start, l.daily_minutes AS limit_minutes,
+      (SELECT SUM(w.minutes) FROM worked w WHERE w.day = c.day) AS minutes
+    FROM candidate c, public.effective_overtime_limits(_user_id) l
+    UNION
+    SELECT 'week', date_trunc('week', c.day)::DATE, l.weekly_minutes,
+      (SELECT SUM(w.minutes) FROM worked w WHERE date_trunc('week', w.day) = date_trunc('week', c.day))
+    FROM candidate c, public.effective_overtime_limits(_user_id) l
+    UNION
+    SELECT 'month', date_trunc('month', c.day)::DATE, l.monthly_minutes,
+      (SELECT SUM(w.minutes) FROM worked w WHERE date_trunc('month', w.day) = date_trunc('month', c.day))
+    FROM candidate c, public.effective_overtime_limits(_user_id) l
+  )
+  SELECT t.period, t.period_start, t.minutes::INTEGER, t.limit_minutes, (t.minutes - t.limit_minutes)::INTEGER, l.enforcement
+  FROM totals t, public.effective_overtime_limits(_user_id) l
+  WHERE t.limit_minutes > 0 AND t.minutes > t.limit_minutes
+  ORDER BY t.period_start, t.period
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_overtime_limits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_excess RECORD;
+BEGIN
+  -- Reviews and other changes that keep the period are not checked again
+  IF NEW.status = 'rejected' OR (
+    TG_OP = 'UPDATE'
+    AND NEW.date IS NOT DISTINCT FROM OLD.date
+    AND NEW.start_time IS NOT DISTINCT FROM OLD.start_time
+    AND NEW.end_date IS NOT DISTINCT FROM OLD.end_date
+    AND NEW.end_time IS NOT DISTINCT FROM OLD.end_time
+    AND NEW.lunch_discount IS NOT DISTINCT FROM OLD.lunch_discount
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_excess
+  FROM public.overtime_limit_excesses(
+    NEW.user_id, NEW.date, NEW.start_time, NEW.end_date, NEW.end_time, NEW.lunch_discount,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.id END
+  ) e
+  WHERE e.enforcement = 'block'
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Limite % de horas extras excedido em % minutos (%)',
+      CASE v_excess.period WHEN 'day' THEN 'diário' WHEN 'week' THEN 'semanal' ELSE 'mensal' END,
+      v_excess.excess_minutes,
+      to_char(v_excess.period_start, 'DD/MM/YYYY');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.overtime_limit_violations(_from DATE, _to DATE)
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT,
+  period TEXT,
+  period_start DATE,
+  minutes INTEGER,
+  limit_minutes INTEGER,
+  excess_minutes INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  RETURN QUERY
+  WITH worked AS (
+    SELECT r.user_id, m.day, m.minutes
+    FROM public.overtime_records r
+    CROSS JOIN LATERAL public.overtime_minutes_by_day(r.date, r.start_time, r.end_date, r.end_time, r.lunch_discount) m
+    WHERE r.status <> 'rejected'
+      AND r.date BETWEEN date_trunc('month', _from)::DATE - 8
+      AND (date_trunc('month', _to) + INTERVAL '1 month')::DATE + 7
+  ),
+  totals AS (
+    SELECT w.user_id, 'day' AS period, w.day AS period_start, SUM(w.minutes) AS minutes
+    FROM worked w GROUP BY w.user_id, w.day
+    UNION ALL
+    SELECT w.user_id, 'week', date_trunc('week', w.day)::DATE, SUM(w.minutes)
+    FROM worked w GROUP BY w.user_id, date_trunc('week', w.day)
+    UNION ALL
+    SELECT w.user_id, 'month', date_trunc('month', w.day)::DATE, SUM(w.minutes)
+    FROM worked w GROUP BY w.user_id, date_trunc('month', w.day)
+  ),
+  limited AS (
+    SELECT t.*, CASE t.period
+      WHEN 'day' THEN l.daily_minutes
+      WHEN 'week' THEN l.weekly_minutes
+      ELSE l.monthly_minutes
+    END AS limit_minutes
+    FROM totals t
+    CROSS JOIN LATERAL public.effective_overtime_limits(t.user_id) l
+  )
+  SELECT
+    li.user_id,
+    p.full_name,
+    li.period,
+    li.period_start,
+    li.minutes::INTEGER,
+    li.limit_minutes,
+    (li.minutes - li.limit_minutes)::INTEGER
+  FROM limited li
+  JOIN public.profiles p ON p.id = li.user_id
+  WHERE li.limit_minutes > 0
+    AND li.minutes > li.limit_minutes
+    -- Periods overlapping the requested range
+    AND li.period_start <= _to
+    AND CASE li.period
+      WHEN 'day' THEN li.period_start
+      WHEN 'week' THEN li.period_start + 6
+      ELSE (li.period_start + INTERVAL '1 month - 1 day')::DATE
+    END >= _from
+  ORDER BY li.period_start DESC, p.full_name, li.period;
+END;
+$$;
+
+-- Nor towards the interjornada rest
+CREATE OR REPLACE FUNCTION public.rest_period_gaps(_user_id UUID, _from DATE, _to DATE)
+RETURNS TABLE (
+  user_id UUID,
+  rest_start TIMESTAMP,
+  rest_end TIMESTAMP,
+  rest_minutes INTEGER,
+  overtime_record_ids UUID[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH periods AS (
+    -- Regular shifts on work days that are not holidays
+    SELECT
+      p.id AS user_id,
+      d.day::DATE AS day,
+      d.day::DATE + p.regular_shift_start AS starts_at,
+      d.day::DATE + p.regular_shift_end
+        + CASE WHEN p.regular_shift_end < p.regular_shift_start THEN INTERVAL '1 day' ELSE INTERVAL '0' END AS ends_at,
+      NULL::UUID AS record_id
+    FROM public.profiles p
+    CROSS JOIN generate_series(_from - 1, _to + 1, INTERVAL '1 day') d(day)
+    WHERE (_user_id IS NULL OR p.id = _user_id)
+      AND p.regular_shift_start IS NOT NULL
+      AND EXTRACT(ISODOW FROM d.day)::SMALLINT = ANY (p.work_days)
+      AND NOT EXISTS (SELECT 1 FROM public.holidays h WHERE h.date = d.day::DATE AND h.is_active)
+    UNION ALL
+    SELECT r.user_id, r.date, r.date + r.start_time, r.end_date + r.end_time, r.id
+    FROM public.overtime_records r
+    WHERE (_user_id IS NULL OR r.user_id = _user_id)
+      AND r.status <> 'rejected'
+      AND r.date BETWEEN _from - 1 AND _to + 1
+  ),
+  workdays AS (
+    SELECT p.user_id, p.day, MIN(p.starts_at) AS starts_at, MAX(p.ends_at) AS ends_at
+    FROM periods p
+    GROUP BY p.user_id, p.day
+  ),
+  rests AS (
+    SELECT
+      w.user_id,
+      w.day,
+      w.ends_at AS rest_start,
+      LEAD(w.day) OVER (PARTITION BY w.user_id ORDER BY w.day) AS next_day,
+      LEAD(w.starts_at) OVER (PARTITION BY w.user_id ORDER BY w.day) AS rest_end
+    FROM workdays w
+  ),
+  violations AS (
+    SELECT
+      r.user_id,
+      r.rest_start,
+      r.rest_end,
+      GREATEST(0, EXTRACT(EPOCH FROM r.rest_end - r.rest_start) / 60)::INTEGER AS rest_minutes,
+      ARRAY(
+        SELECT p.record_id
+        FROM periods p
+        WHERE p.user_id = r.user_id
+          AND p.record_id IS NOT NULL
+          AND ((p.day = r.day AND p.ends_at = r.rest_start) OR (p.day = r.next_day AND p.starts_at = r.rest_end))
+        ORDER BY p.starts_at
+      ) AS overtime_record_ids
+    FROM rests r
+    WHERE r.rest_end IS NOT NULL
+      AND r.rest_end - r.rest_start < INTERVAL '11 hours'
+      AND (r.day BETWEEN _from AND _to OR r.next_day BETWEEN _from AND _to)
+  )
+  SELECT v.user_id, v.rest_start, v.rest_end, v.rest_minutes, v.overtime_record_ids
+  FROM violations v
+  WHERE cardinality(v.overtime_record_ids) > 0
+  ORDER BY v.rest_start, v.user_id;
+$$;
@@ -0,0 +1,139 @@
+-- Gas stations (postos) of the network
+-- Employees are assigned to a station with effective-dated transfers, and each
+-- overtime record is tagged with the station where it was worked, defaulting
+-- to the employee's station on the record's date
+
+CREATE TABLE public.stations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  code TEXT UNIQUE,
+  city TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.stations
+ADD CONSTRAINT stations_name_length CHECK (length(name) >= 2 AND length(name) <= 100),
+ADD CONSTRAINT stations_code_format CHECK (code IS NULL OR code ~ '^[A-Z0-9-]{1,20}$'),
+ADD CONSTRAINT stations_city_length CHECK (city IS NULL OR length(city) <= 100);
+
+-- Enable RLS
+ALTER TABLE public.stations ENABLE ROW LEVEL SECURITY;
+
+-- Every signed-in user picks the station when registering overtime
+CREATE POLICY "Authenticated users can view stations"
+  ON public.stations FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage stations"
+  ON public.stations FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_stations_updated_at
+  BEFORE UPDATE ON public.stations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_stations_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.stations
+  FOR EACH ROW EXECUTE FUNCTION public.audit_trigger_function();
+
+-- Transfer history: an assignment holds until the next one takes effect
+CREATE TABLE public.station_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  station_id UUID REFERENCES public.stations(id) ON DELETE RESTRICT NOT NULL,
+  effective_from DATE NOT NULL,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, effective_from)
+);
+
+-- Enable RLS
+ALTER TABLE public.station_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own station assignments"
+  ON public.station_assignments FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage station assignments"
+  ON public.station_assignments FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_station_assignments_user_effective ON public.station_assignments(user_id, effective_from DESC);
+CREATE INDEX IF NOT EXISTS idx_station_assignments_station ON public.station_assignments(station_id);
+
+CREATE TRIGGER audit_station_assignments_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.station_assignments
+  FOR EACH ROW EXECUTE FUNCTION public.audit_trigger_function();
+
+-- Station an employee is assigned to on a given date (NULL when unassigned)
+CREATE OR REPLACE FUNCTION public.get_station(_user_id UUID, _date DATE)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT station_id
+  FROM public.station_assignments
+  WHERE user_id = _user_id AND effective_from <= _date
+  ORDER BY effective_from DESC
+  LIMIT 1
+$$;
+
+ALTER TABLE public.overtime_records
+ADD COLUMN station_id UUID REFERENCES public.stations(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_overtime_records_station_date ON public.overtime_records(station_id, date);
+
+-- Existing records belong to the station assigned on their date, if any.
+-- Backfilled with the triggers off so they are not recalculated or reviewed again.
+ALTER TABLE public.overtime_records DISABLE TRIGGER USER;
+
+UPDATE public.overtime_records
+SET station_id = public.get_station(user_id, date)
+WHERE station_id IS NULL;
+
+ALTER TABLE public.overtime_records ENABLE TRIGGER USER;
+
+-- Records without an explicit station take the assigned one. Employees can
+-- only tag the station they are assigned to on the record's date, records
+-- cannot move to an inactive station, and only admins move a tagged record.
+CREATE OR REPLACE FUNCTION public.set_overtime_station()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND OLD.station_id IS NOT NULL
+    AND NEW.station_id IS DISTINCT FROM OLD.station_id
+    AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Apenas administradores podem alterar o posto de um lançamento';
+  END IF;
+
+  IF NEW.station_id IS NULL THEN
+    NEW.station_id := public.get_station(NEW.user_id, NEW.date);
+  ELSIF (TG_OP = 'INSERT' OR NEW.station_id IS DISTINCT FROM OLD.station_id)
+    AND NOT public.has_role(auth.uid(), 'admin')
+    AND NEW.station_id IS DISTINCT FROM public.get_station(NEW.user_id, NEW.date) THEN
+    RAISE EXCEPTION 'Horas extras só podem ser lançadas no posto de lotação do funcionário';
+  END IF;
+
+  IF NEW.station_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.station_id IS DISTINCT FROM OLD.station_id)
+    AND NOT EXISTS (SELECT 1 FROM public.stations WHERE id = NEW.station_id AND is_active) THEN
+    RAISE EXCEPTION 'Posto inativo ou inexistente';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_overtime_records_station
+  BEFORE INSERT OR UPDATE ON public.overtime_records
+  FOR EACH ROW EXECUTE FUNCTION public.set_overtime_station();
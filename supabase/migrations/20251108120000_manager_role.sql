@@ -0,0 +1,5 @@
+-- Station manager role
+-- Kept in its own migration: a value added to an enum cannot be used in the
+-- same transaction, and the policies that rely on it follow in the next one
+
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'manager';
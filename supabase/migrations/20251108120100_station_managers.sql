@@ -0,0 +1,215 @@
+-- Station managers
+-- Managers are scoped to one or more stations: they see the overtime records
+-- worked at those stations and the profiles of the employees involved, and
+-- approve or reject those records. Pay settings, hour banks and the global
+-- reports stay admin-only.
+
+CREATE TABLE public.station_managers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  station_id UUID REFERENCES public.stations(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, station_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.station_managers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own managed stations"
+  ON public.station_managers FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage station managers"
+  ON public.station_managers FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_station_managers_station ON public.station_managers(station_id);
+
+CREATE TRIGGER audit_station_managers_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.station_managers
+  FOR EACH ROW EXECUTE FUNCTION public.audit_trigger_function();
+
+-- Whether a user holds the manager role for a station
+CREATE OR REPLACE FUNCTION public.manages_station(_user_id UUID, _station_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'manager') AND EXISTS (
+    SELECT 1
+    FROM public.station_managers
+    WHERE user_id = _user_id AND station_id = _station_id
+  )
+$$;
+
+-- Whether an employee belongs to a manager's team: currently assigned to one
+-- of the manager's stations or with overtime worked at one of them
+CREATE OR REPLACE FUNCTION public.manages_user(_manager_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_manager_id, 'manager') AND EXISTS (
+    SELECT 1
+    FROM public.station_managers sm
+    WHERE sm.user_id = _manager_id
+      AND (
+        sm.station_id = public.get_station(_user_id, CURRENT_DATE)
+        OR EXISTS (
+          SELECT 1
+          FROM public.overtime_records r
+          WHERE r.user_id = _user_id AND r.station_id = sm.station_id
+        )
+      )
+  )
+$$;
+
+-- Admins review every record; managers review their stations' records, but
+-- never their own
+CREATE OR REPLACE FUNCTION public.can_review_overtime(_reviewer_id UUID, _user_id UUID, _station_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_reviewer_id, 'admin')
+    OR (_reviewer_id <> _user_id AND public.manages_station(_reviewer_id, _station_id))
+$$;
+
+CREATE POLICY "Managers can view their stations' overtime records"
+  ON public.overtime_records FOR SELECT
+  USING (public.manages_station(auth.uid(), station_id));
+
+CREATE POLICY "Managers can view their team's profiles"
+  ON public.profiles FOR SELECT
+  USING (public.manages_user(auth.uid(), id));
+
+CREATE POLICY "Managers can view their stations' assignments"
+  ON public.station_assignments FOR SELECT
+  USING (public.manages_station(auth.uid(), station_id));
+
+-- Reviewers allowed by can_review_overtime() change the status
+CREATE OR REPLACE FUNCTION public.set_overtime_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'pending';
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.rejection_reason := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status OR NEW.rejection_reason IS DISTINCT FROM OLD.rejection_reason THEN
+    IF NOT public.can_review_overtime(auth.uid(), NEW.user_id, NEW.station_id) THEN
+      RAISE EXCEPTION 'Apenas administradores e gerentes do posto podem aprovar ou rejeitar lançamentos';
+    END IF;
+
+    IF NEW.status = 'pending' THEN
+      NEW.reviewed_by := NULL;
+      NEW.reviewed_at := NULL;
+    ELSE
+      NEW.reviewed_by := auth.uid();
+      NEW.reviewed_at := now();
+    END IF;
+
+    IF NEW.status <> 'rejected' THEN
+      NEW.rejection_reason := NULL;
+    END IF;
+  ELSIF NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.start_time IS DISTINCT FROM OLD.start_time
+    OR NEW.end_date IS DISTINCT FROM OLD.end_date
+    OR NEW.end_time IS DISTINCT FROM OLD.end_time
+    OR NEW.lunch_discount IS DISTINCT FROM OLD.lunch_discount THEN
+    NEW.status := 'pending';
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.rejection_reason := NULL;
+  ELSE
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.reviewed_at := OLD.reviewed_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Managers may only review records within their scope
+CREATE OR REPLACE FUNCTION public.review_overtime_records(
+  _ids UUID[],
+  _status overtime_status,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM public.overtime_records r
+    WHERE r.id = ANY (_ids)
+      AND NOT public.can_review_overtime(auth.uid(), r.user_id, r.station_id)
+  ) OR NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  IF _status = 'rejected' AND NULLIF(btrim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Informe o motivo da rejeição';
+  END IF;
+
+  UPDATE public.overtime_records
+  SET status = _status,
+      rejection_reason = CASE WHEN _status = 'rejected' THEN btrim(_reason) END
+  WHERE id = ANY (_ids)
+    AND (status IS DISTINCT FROM _status OR _status = 'rejected');
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Grants or revokes the manager role with its stations in one step
+CREATE OR REPLACE FUNCTION public.set_station_manager(_user_id UUID, _station_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  DELETE FROM public.station_managers
+  WHERE user_id = _user_id AND NOT (station_id = ANY (COALESCE(_station_ids, '{}')));
+
+  IF COALESCE(cardinality(_station_ids), 0) = 0 THEN
+    DELETE FROM public.user_roles WHERE user_id = _user_id AND role = 'manager';
+    RETURN;
+  END IF;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (_user_id, 'manager')
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  INSERT INTO public.station_managers (user_id, station_id)
+  SELECT _user_id, s.id
+  FROM public.stations s
+  WHERE s.id = ANY (_station_ids)
+  ON CONFLICT (user_id, station_id) DO NOTHING;
+END;
+$$;
@@ -0,0 +1,283 @@
+-- Payroll periods
+-- Closing a period locks its overtime records against insert, update and
+-- delete and stores a snapshot of each employee's totals. Reopening requires
+-- a reason; both actions are written to audit_logs.
+
+CREATE TYPE public.payroll_period_status AS ENUM ('open', 'closed');
+
+CREATE TABLE public.payroll_periods (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  status payroll_period_status NOT NULL DEFAULT 'open',
+  closed_at TIMESTAMP WITH TIME ZONE,
+  closed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reopened_at TIMESTAMP WITH TIME ZONE,
+  reopened_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reopen_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(starts_on)
+);
+
+ALTER TABLE public.payroll_periods
+ADD CONSTRAINT payroll_periods_range CHECK (ends_on >= starts_on),
+ADD CONSTRAINT payroll_periods_closed CHECK ((status = 'closed') = (closed_at IS NOT NULL)),
+ADD CONSTRAINT payroll_periods_reopen_reason_length CHECK (length(reopen_reason) <= 500);
+
+-- Enable RLS
+ALTER TABLE public.payroll_periods ENABLE ROW LEVEL SECURITY;
+
+-- Employees need the closed periods to know which records are locked
+CREATE POLICY "Authenticated users can view payroll periods"
+  ON public.payroll_periods FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage payroll periods"
+  ON public.payroll_periods FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_payroll_periods_range ON public.payroll_periods(starts_on, ends_on);
+
+CREATE TRIGGER update_payroll_periods_updated_at
+  BEFORE UPDATE ON public.payroll_periods
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Periods never overlap. Status changes go through close/reopen, and a
+-- closed period cannot be edited or deleted.
+CREATE OR REPLACE FUNCTION public.validate_payroll_period()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND OLD.status = 'closed' AND COALESCE(current_setting('app.payroll_period_action', true), '') <> 'reopen' THEN
+    RAISE EXCEPTION 'Período de folha fechado: reabra o período antes de alterá-lo';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  IF (TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status)
+    AND COALESCE(current_setting('app.payroll_period_action', true), '') = '' THEN
+    NEW.status := COALESCE(OLD.status, 'open');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.payroll_periods p
+    WHERE p.id <> NEW.id
+      AND daterange(p.starts_on, p.ends_on, '[]') && daterange(NEW.starts_on, NEW.ends_on, '[]')
+  ) THEN
+    RAISE EXCEPTION 'O período de % a % sobrepõe outro período de folha',
+      to_char(NEW.starts_on, 'DD/MM/YYYY'), to_char(NEW.ends_on, 'DD/MM/YYYY');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_payroll_periods
+  BEFORE INSERT OR UPDATE OR DELETE ON public.payroll_periods
+  FOR EACH ROW EXECUTE FUNCTION public.validate_payroll_period();
+
+-- Per-employee totals frozen when the period is closed
+CREATE TABLE public.payroll_period_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_id UUID REFERENCES public.payroll_periods(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  full_name TEXT NOT NULL,
+  record_count INTEGER NOT NULL,
+  overtime_minutes INTEGER NOT NULL,
+  night_minutes INTEGER NOT NULL,
+  hour_bank_minutes INTEGER NOT NULL,
+  night_premium_value NUMERIC(10,2) NOT NULL,
+  total_value NUMERIC(10,2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(period_id, user_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.payroll_period_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own payroll snapshots"
+  ON public.payroll_period_snapshots FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view payroll snapshots"
+  ON public.payroll_period_snapshots FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_payroll_period_snapshots_user ON public.payroll_period_snapshots(user_id);
+
+-- Whether a date falls in a closed payroll period
+CREATE OR REPLACE FUNCTION public.is_payroll_period_closed(_date DATE)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.payroll_periods
+    WHERE status = 'closed' AND _date BETWEEN starts_on AND ends_on
+  )
+$$;
+
+-- Records of closed periods cannot be created, changed or removed, not even
+-- by admins: the period must be reopened first
+CREATE OR REPLACE FUNCTION public.lock_closed_payroll_period()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND public.is_payroll_period_closed(OLD.date) THEN
+    RAISE EXCEPTION 'Período de folha fechado: lançamentos de % não podem ser alterados', to_char(OLD.date, 'DD/MM/YYYY');
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND public.is_payroll_period_closed(NEW.date) THEN
+    RAISE EXCEPTION 'Período de folha fechado: não é possível lançar horas em %', to_char(NEW.date, 'DD/MM/YYYY');
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER lock_overtime_records_payroll_period
+  BEFORE INSERT OR UPDATE OR DELETE ON public.overtime_records
+  FOR EACH ROW EXECUTE FUNCTION public.lock_closed_payroll_period();
+
+-- Closes a period: every record must be reviewed, approved ones are totalled
+-- per employee into the snapshot
+CREATE OR REPLACE FUNCTION public.close_payroll_period(_period_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period public.payroll_periods%ROWTYPE;
+  v_count INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  SELECT * INTO v_period FROM public.payroll_periods WHERE id = _period_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Período de folha não encontrado';
+  END IF;
+
+  IF v_period.status = 'closed' THEN
+    RAISE EXCEPTION 'Período de folha já está fechado';
+  END IF;
+
+  SELECT count(*) INTO v_count
+  FROM public.overtime_records
+  WHERE date BETWEEN v_period.starts_on AND v_period.ends_on AND status = 'pending';
+
+  IF v_count > 0 THEN
+    RAISE EXCEPTION 'Há % lançamento(s) pendentes de aprovação no período', v_count;
+  END IF;
+
+  DELETE FROM public.payroll_period_snapshots WHERE period_id = _period_id;
+
+  INSERT INTO public.payroll_period_snapshots (
+    period_id,
+    user_id,
+    full_name,
+    record_count,
+    overtime_minutes,
+    night_minutes,
+    hour_bank_minutes,
+    night_premium_value,
+    total_value
+  )
+  SELECT
+    _period_id,
+    r.user_id,
+    p.full_name,
+    count(*)::INTEGER,
+    SUM(ROUND(r.net_hours * 60))::INTEGER,
+    SUM(r.night_minutes)::INTEGER,
+    COALESCE(SUM(ROUND(r.net_hours * 60)) FILTER (WHERE r.compensation = 'hour_bank'), 0)::INTEGER,
+    COALESCE(SUM(r.night_premium_value) FILTER (WHERE r.compensation = 'payment'), 0),
+    COALESCE(SUM(r.total_value) FILTER (WHERE r.compensation = 'payment'), 0)
+  FROM public.overtime_records r
+  JOIN public.profiles p ON p.id = r.user_id
+  WHERE r.date BETWEEN v_period.starts_on AND v_period.ends_on
+    AND r.status = 'approved'
+  GROUP BY r.user_id, p.full_name;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  PERFORM set_config('app.payroll_period_action', 'close', true);
+  UPDATE public.payroll_periods
+  SET status = 'closed', closed_at = now(), closed_by = auth.uid()
+  WHERE id = _period_id;
+  PERFORM set_config('app.payroll_period_action', '', true);
+
+  PERFORM public.log_security_event(
+    auth.uid(),
+    'CLOSE_PAYROLL_PERIOD',
+    'payroll_periods',
+    _period_id,
+    to_jsonb(v_period),
+    jsonb_build_object('employees', v_count)
+  );
+
+  RETURN v_count;
+END;
+$$;
+
+-- Reopens a closed period; the snapshot is kept until the next closing
+CREATE OR REPLACE FUNCTION public.reopen_payroll_period(_period_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period public.payroll_periods%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  IF NULLIF(btrim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Informe o motivo da reabertura';
+  END IF;
+
+  SELECT * INTO v_period FROM public.payroll_periods WHERE id = _period_id FOR UPDATE;
+
+  IF NOT FOUND OR v_period.status <> 'closed' THEN
+    RAISE EXCEPTION 'Período de folha não está fechado';
+  END IF;
+
+  PERFORM set_config('app.payroll_period_action', 'reopen', true);
+  UPDATE public.payroll_periods
+  SET status = 'open',
+      closed_at = NULL,
+      reopened_at = now(),
+      reopened_by = auth.uid(),
+      reopen_reason = btrim(_reason)
+  WHERE id = _period_id;
+  PERFORM set_config('app.payroll_period_action', '', true);
+
+  PERFORM public.log_security_event(
+    auth.uid(),
+    'REOPEN_PAYROLL_PERIOD',
+    'payroll_periods',
+    _period_id,
+    to_jsonb(v_period),
+    jsonb_build_object('reason', btrim(_reason))
+  );
+END;
+$$;
@@ -0,0 +1,144 @@
+-- Overtime reasons
+-- Every record states why the extra hours were worked: a reason code from a
+-- list managed by admins plus a free-text justification. Records created
+-- before this change get the inactive "Não informado" reason.
+
+CREATE TABLE public.overtime_reasons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.overtime_reasons
+ADD CONSTRAINT overtime_reasons_name_length CHECK (length(name) >= 2 AND length(name) <= 100);
+
+-- Enable RLS
+ALTER TABLE public.overtime_reasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view overtime reasons"
+  ON public.overtime_reasons FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage overtime reasons"
+  ON public.overtime_reasons FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_overtime_reasons_updated_at
+  BEFORE UPDATE ON public.overtime_reasons
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_overtime_reasons_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.overtime_reasons
+  FOR EACH ROW EXECUTE FUNCTION public.audit_trigger_function();
+
+INSERT INTO public.overtime_reasons (id, name, is_active) VALUES
+  ('00000000-0000-4000-8000-000000000000', 'Não informado', false);
+
+INSERT INTO public.overtime_reasons (name) VALUES
+  ('Cobertura de folga'),
+  ('Inventário'),
+  ('Movimento alto'),
+  ('Treinamento');
+
+-- The default fills existing records without firing their triggers
+ALTER TABLE public.overtime_records
+ADD COLUMN reason_id UUID NOT NULL DEFAULT '00000000-0000-4000-8000-000000000000'
+  REFERENCES public.overtime_reasons(id) ON DELETE RESTRICT,
+ADD COLUMN justification TEXT;
+
+ALTER TABLE public.overtime_records ALTER COLUMN reason_id DROP DEFAULT;
+
+ALTER TABLE public.overtime_records
+ADD CONSTRAINT overtime_records_justification_length CHECK (length(justification) <= 500);
+
+CREATE INDEX IF NOT EXISTS idx_overtime_records_reason ON public.overtime_records(reason_id);
+
+-- New or changed reasons must be active, and a justification is required
+-- whenever the reason or the justification is written
+CREATE OR REPLACE FUNCTION public.validate_overtime_reason()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.justification := NULLIF(btrim(NEW.justification), '');
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.reason_id IS NOT DISTINCT FROM OLD.reason_id
+    AND NEW.justification IS NOT DISTINCT FROM OLD.justification THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.reason_id IS DISTINCT FROM OLD.reason_id THEN
+    IF NOT EXISTS (SELECT 1 FROM public.overtime_reasons WHERE id = NEW.reason_id AND is_active) THEN
+      RAISE EXCEPTION 'Motivo inativo ou inexistente';
+    END IF;
+  END IF;
+
+  IF NEW.justification IS NULL THEN
+    RAISE EXCEPTION 'Informe a justificativa das horas extras';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_overtime_records_reason
+  BEFORE INSERT OR UPDATE ON public.overtime_records
+  FOR EACH ROW EXECUTE FUNCTION public.validate_overtime_reason();
+
+-- Changing the reason or justification sends the record back for approval
+CREATE OR REPLACE FUNCTION public.set_overtime_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'pending';
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.rejection_reason := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status OR NEW.rejection_reason IS DISTINCT FROM OLD.rejection_reason THEN
+    IF NOT public.can_review_overtime(auth.uid(), NEW.user_id, NEW.station_id) THEN
+      RAISE EXCEPTION 'Apenas administradores e gerentes do posto podem aprovar ou rejeitar lançamentos';
+    END IF;
+
+    IF NEW.status = 'pending' THEN
+      NEW.reviewed_by := NULL;
+      NEW.reviewed_at := NULL;
+    ELSE
+      NEW.reviewed_by := auth.uid();
+      NEW.reviewed_at := now();
+    END IF;
+
+    IF NEW.status <> 'rejected' THEN
+      NEW.rejection_reason := NULL;
+    END IF;
+  ELSIF NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.start_time IS DISTINCT FROM OLD.start_time
+    OR NEW.end_date IS DISTINCT FROM OLD.end_date
+    OR NEW.end_time IS DISTINCT FROM OLD.end_time
+    OR NEW.lunch_discount IS DISTINCT FROM OLD.lunch_discount
+    OR NEW.reason_id IS DISTINCT FROM OLD.reason_id
+    OR NEW.justification IS DISTINCT FROM OLD.justification THEN
+    NEW.status := 'pending';
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.rejection_reason := NULL;
+  ELSE
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.reviewed_at := OLD.reviewed_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
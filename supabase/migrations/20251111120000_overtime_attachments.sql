@@ -0,0 +1,163 @@
+-- Overtime attachments
+-- Employees attach proof (photos of the shift log, receipts, PDFs) to their
+-- overtime records. Files live in the private overtime-attachments bucket
+-- under <user_id>/<record_id>/; this table keeps their metadata. Whoever can
+-- see a record can see its attachments.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'overtime-attachments',
+  'overtime-attachments',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE public.overtime_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  record_id UUID REFERENCES public.overtime_records(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.overtime_attachments
+ADD CONSTRAINT overtime_attachments_file_name_length CHECK (length(file_name) >= 1 AND length(file_name) <= 255),
+ADD CONSTRAINT overtime_attachments_mime_type CHECK (mime_type IN ('image/jpeg', 'image/png', 'image/webp', 'application/pdf')),
+ADD CONSTRAINT overtime_attachments_size CHECK (size_bytes > 0 AND size_bytes <= 10485760),
+ADD CONSTRAINT overtime_attachments_path CHECK (storage_path LIKE user_id::TEXT || '/' || record_id::TEXT || '/%');
+
+-- Enable RLS
+ALTER TABLE public.overtime_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Whether the caller may delete the attachment stored at a path. A registered
+-- file follows its record: it stays while the payroll period is closed, and
+-- employees cannot remove the proof of an approved record. Files without a
+-- row (an upload whose row was refused, or what a deleted record left behind)
+-- can be cleaned up by the folder owner and by admins.
+CREATE OR REPLACE FUNCTION public.can_delete_overtime_attachment(_storage_path TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_record public.overtime_records%ROWTYPE;
+BEGIN
+  SELECT r.* INTO v_record
+  FROM public.overtime_attachments a
+  JOIN public.overtime_records r ON r.id = a.record_id
+  WHERE a.storage_path = _storage_path;
+
+  IF NOT FOUND THEN
+    RETURN split_part(_storage_path, '/', 1) = auth.uid()::TEXT OR public.has_role(auth.uid(), 'admin');
+  END IF;
+
+  IF public.is_payroll_period_closed(v_record.date) THEN
+    RETURN false;
+  END IF;
+
+  RETURN public.has_role(auth.uid(), 'admin')
+    OR (v_record.user_id = auth.uid() AND v_record.status <> 'approved');
+END;
+$$;
+
+-- The subquery runs under the policies of overtime_records, so owners,
+-- admins and station managers see the attachments of the records they see
+CREATE POLICY "Users can view attachments of visible overtime records"
+  ON public.overtime_attachments FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.overtime_records r WHERE r.id = record_id));
+
+CREATE POLICY "Users can attach files to their own overtime records"
+  ON public.overtime_attachments FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.overtime_records r WHERE r.id = record_id AND r.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete attachments of their own overtime records"
+  ON public.overtime_attachments FOR DELETE
+  USING (auth.uid() = user_id AND public.can_delete_overtime_attachment(storage_path));
+
+CREATE INDEX IF NOT EXISTS idx_overtime_attachments_record ON public.overtime_attachments(record_id);
+
+CREATE TRIGGER audit_overtime_attachments_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.overtime_attachments
+  FOR EACH ROW EXECUTE FUNCTION public.audit_trigger_function();
+
+-- Attachments follow the record: at most five per record, and none added or
+-- removed once its payroll period is closed. Deletes cascading from a
+-- removed record are already checked by the record's own lock.
+CREATE OR REPLACE FUNCTION public.validate_overtime_attachment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_record public.overtime_records%ROWTYPE;
+BEGIN
+  SELECT * INTO v_record
+  FROM public.overtime_records
+  WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.record_id ELSE NEW.record_id END;
+
+  IF NOT FOUND THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+
+  IF public.is_payroll_period_closed(v_record.date) THEN
+    RAISE EXCEPTION 'Período de folha fechado: anexos de % não podem ser alterados', to_char(v_record.date, 'DD/MM/YYYY');
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  IF (SELECT count(*) FROM public.overtime_attachments WHERE record_id = NEW.record_id) >= 5 THEN
+    RAISE EXCEPTION 'Limite de 5 anexos por lançamento';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_overtime_attachments
+  BEFORE INSERT OR DELETE ON public.overtime_attachments
+  FOR EACH ROW EXECUTE FUNCTION public.validate_overtime_attachment();
+
+-- Storage objects: uploads only into the owner's folder of one of their own
+-- records; reads follow the metadata row and therefore the record, and so do
+-- deletes
+CREATE POLICY "Users can upload overtime attachments"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'overtime-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+    AND EXISTS (
+      SELECT 1
+      FROM public.overtime_records r
+      WHERE r.id::TEXT = (storage.foldername(name))[2] AND r.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view overtime attachments of visible records"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'overtime-attachments'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::TEXT
+      OR EXISTS (SELECT 1 FROM public.overtime_attachments a WHERE a.storage_path = name)
+    )
+  );
+
+CREATE POLICY "Users can delete overtime attachments they may remove"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'overtime-attachments'
+    AND public.can_delete_overtime_attachment(name)
+  );
@@ -0,0 +1,196 @@
+-- Admin corrections on behalf of employees
+-- Admins may create, edit and delete any overtime record. A change made by an
+-- admin to someone else's record is stamped on the record, approved on the
+-- spot and logged with the admin as the actor; employees can read those log
+-- entries about their own records.
+
+CREATE POLICY "Admins can insert overtime records"
+  ON public.overtime_records FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update overtime records"
+  ON public.overtime_records FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete overtime records"
+  ON public.overtime_records FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+ALTER TABLE public.overtime_records
+ADD COLUMN admin_changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+ADD COLUMN admin_changed_at TIMESTAMP WITH TIME ZONE;
+
+-- Whether the current user is an admin acting on another employee's data
+CREATE OR REPLACE FUNCTION public.is_admin_change(_owner_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS DISTINCT FROM _owner_id AND public.has_role(auth.uid(), 'admin')
+$$;
+
+-- Stamps admin-made inserts and data changes; the stamp cannot be set or
+-- cleared by hand. Reviews change only the status and are not stamped.
+CREATE OR REPLACE FUNCTION public.mark_overtime_admin_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.admin_changed_by := OLD.admin_changed_by;
+    NEW.admin_changed_at := OLD.admin_changed_at;
+  ELSE
+    NEW.admin_changed_by := NULL;
+    NEW.admin_changed_at := NULL;
+  END IF;
+
+  IF NOT public.is_admin_change(NEW.user_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+    OR NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.start_time IS DISTINCT FROM OLD.start_time
+    OR NEW.end_date IS DISTINCT FROM OLD.end_date
+    OR NEW.end_time IS DISTINCT FROM OLD.end_time
+    OR NEW.lunch_discount IS DISTINCT FROM OLD.lunch_discount
+    OR NEW.reason_id IS DISTINCT FROM OLD.reason_id
+    OR NEW.justification IS DISTINCT FROM OLD.justification
+    OR NEW.station_id IS DISTINCT FROM OLD.station_id THEN
+    NEW.admin_changed_by := auth.uid();
+    NEW.admin_changed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER mark_overtime_records_admin_change
+  BEFORE INSERT OR UPDATE ON public.overtime_records
+  FOR EACH ROW EXECUTE FUNCTION public.mark_overtime_admin_change();
+
+-- The generic audit trigger records the owner; admin changes are logged
+-- again with the admin as the actor
+CREATE OR REPLACE FUNCTION public.log_overtime_admin_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF public.is_admin_change(OLD.user_id) THEN
+      PERFORM public.log_security_event(auth.uid(), 'ADMIN_DELETE', 'overtime_records', OLD.id, to_jsonb(OLD), NULL);
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.admin_changed_at IS NOT NULL THEN
+    PERFORM public.log_security_event(auth.uid(), 'ADMIN_INSERT', 'overtime_records', NEW.id, NULL, to_jsonb(NEW));
+  ELSIF TG_OP = 'UPDATE' AND NEW.admin_changed_at IS DISTINCT FROM OLD.admin_changed_at THEN
+    PERFORM public.log_security_event(auth.uid(), 'ADMIN_UPDATE', 'overtime_records', NEW.id, to_jsonb(OLD), to_jsonb(NEW));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_overtime_records_admin_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.overtime_records
+  FOR EACH ROW EXECUTE FUNCTION public.log_overtime_admin_change();
+
+CREATE POLICY "Users can view admin changes to their overtime records"
+  ON public.audit_logs FOR SELECT
+  USING (
+    table_name = 'overtime_records'
+    AND action IN ('ADMIN_INSERT', 'ADMIN_UPDATE', 'ADMIN_DELETE')
+    AND COALESCE(new_values, old_values)->>'user_id' = auth.uid()::TEXT
+  );
+
+-- Records entered or corrected by an admin are approved by that admin
+CREATE OR REPLACE FUNCTION public.set_overtime_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := CASE WHEN public.is_admin_change(NEW.user_id) THEN 'approved' ELSE 'pending' END::overtime_status;
+    NEW.reviewed_by := CASE WHEN NEW.status = 'approved' THEN auth.uid() END;
+    NEW.reviewed_at := CASE WHEN NEW.status = 'approved' THEN now() END;
+    NEW.rejection_reason := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status OR NEW.rejection_reason IS DISTINCT FROM OLD.rejection_reason THEN
+    IF NOT public.can_review_overtime(auth.uid(), NEW.user_id, NEW.station_id) THEN
+      RAISE EXCEPTION 'Apenas administradores e gerentes do posto podem aprovar ou rejeitar lançamentos';
+    END IF;
+
+    IF NEW.status = 'pending' THEN
+      NEW.reviewed_by := NULL;
+      NEW.reviewed_at := NULL;
+    ELSE
+      NEW.reviewed_by := auth.uid();
+      NEW.reviewed_at := now();
+    END IF;
+
+    IF NEW.status <> 'rejected' THEN
+      NEW.rejection_reason := NULL;
+    END IF;
+  ELSIF NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.start_time IS DISTINCT FROM OLD.start_time
+    OR NEW.end_date IS DISTINCT FROM OLD.end_date
+    OR NEW.end_time IS DISTINCT FROM OLD.end_time
+    OR NEW.lunch_discount IS DISTINCT FROM OLD.lunch_discount
+    OR NEW.reason_id IS DISTINCT FROM OLD.reason_id
+    OR NEW.justification IS DISTINCT FROM OLD.justification THEN
+    IF public.is_admin_change(NEW.user_id) THEN
+      NEW.status := 'approved';
+      NEW.reviewed_by := auth.uid();
+      NEW.reviewed_at := now();
+    ELSE
+      NEW.status := 'pending';
+      NEW.reviewed_by := NULL;
+      NEW.reviewed_at := NULL;
+    END IF;
+    NEW.rejection_reason := NULL;
+  ELSE
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.reviewed_at := OLD.reviewed_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Admins may also attach and remove proof files for any record; files still
+-- go to the record owner's folder. Deleting the files themselves is covered
+-- by public.can_delete_overtime_attachment()
+CREATE POLICY "Admins can attach files to overtime records"
+  ON public.overtime_attachments FOR INSERT
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin')
+    AND EXISTS (SELECT 1 FROM public.overtime_records r WHERE r.id = record_id AND r.user_id = overtime_attachments.user_id)
+  );
+
+CREATE POLICY "Admins can delete overtime attachments"
+  ON public.overtime_attachments FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can upload overtime attachments"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'overtime-attachments'
+    AND public.has_role(auth.uid(), 'admin')
+    AND EXISTS (
+      SELECT 1
+      FROM public.overtime_records r
+      WHERE r.id::TEXT = (storage.foldername(name))[2] AND r.user_id::TEXT = (storage.foldername(name))[1]
+    )
+  );
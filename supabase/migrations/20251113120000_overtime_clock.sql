@@ -0,0 +1,302 @@
+-- Overtime clock (punch in / punch out)
+-- Employees start a clock session when overtime begins and stop it when it
+-- ends; both marks use the server time. Stopping turns the session into a
+-- regular overtime record, so the usual calculation, limits and approval
+-- apply. Sessions left open past the reminder time are flagged in the app and,
+-- past the auto-close time, closed into a record that awaits review.
+
+INSERT INTO public.payroll_settings (setting_name, setting_value, description) VALUES
+  ('overtime_clock_reminder_minutes', '240', 'Minutes after which an open overtime clock session triggers a reminder'),
+  ('overtime_clock_auto_close_minutes', '720', 'Minutes after which an open overtime clock session is closed for review')
+ON CONFLICT (setting_name, effective_from) DO NOTHING;
+
+CREATE TABLE public.overtime_clock_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  station_id UUID REFERENCES public.stations(id) ON DELETE SET NULL,
+  reason_id UUID REFERENCES public.overtime_reasons(id) ON DELETE RESTRICT NOT NULL,
+  justification TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ended_at TIMESTAMP WITH TIME ZONE,
+  auto_closed BOOLEAN NOT NULL DEFAULT false,
+  record_id UUID REFERENCES public.overtime_records(id) ON DELETE SET NULL UNIQUE,
+  close_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.overtime_clock_sessions
+ADD CONSTRAINT overtime_clock_sessions_justification_length CHECK (length(justification) <= 500),
+ADD CONSTRAINT overtime_clock_sessions_period CHECK (ended_at IS NULL OR ended_at > started_at);
+
+-- At most one open session per employee
+CREATE UNIQUE INDEX idx_overtime_clock_sessions_open
+  ON public.overtime_clock_sessions(user_id)
+  WHERE ended_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_overtime_clock_sessions_user ON public.overtime_clock_sessions(user_id, started_at DESC);
+
+-- Sessions are only written through the functions below
+ALTER TABLE public.overtime_clock_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own overtime clock sessions"
+  ON public.overtime_clock_sessions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all overtime clock sessions"
+  ON public.overtime_clock_sessions FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_overtime_clock_sessions_updated_at
+  BEFORE UPDATE ON public.overtime_clock_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_overtime_clock_sessions_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.overtime_clock_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.audit_trigger_function();
+
+-- Opens a session for the current user at the server time
+CREATE OR REPLACE FUNCTION public.start_overtime_clock(
+  _reason_id UUID,
+  _justification TEXT DEFAULT NULL,
+  _station_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.overtime_clock_sessions WHERE user_id = auth.uid() AND ended_at IS NULL) THEN
+    RAISE EXCEPTION 'Já existe uma hora extra em andamento';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.overtime_reasons WHERE id = _reason_id AND is_active) THEN
+    RAISE EXCEPTION 'Motivo inativo ou inexistente';
+  END IF;
+
+  IF _station_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.stations WHERE id = _station_id AND is_active) THEN
+    RAISE EXCEPTION 'Posto inativo ou inexistente';
+  END IF;
+
+  -- Sessions become records, which employees only tag with their own station
+  IF _station_id IS NOT NULL
+    AND _station_id IS DISTINCT FROM public.get_station(auth.uid(), (now() AT TIME ZONE 'America/Sao_Paulo')::DATE) THEN
+    RAISE EXCEPTION 'Horas extras só podem ser lançadas no posto de lotação do funcionário';
+  END IF;
+
+  INSERT INTO public.overtime_clock_sessions (user_id, station_id, reason_id, justification)
+  VALUES (auth.uid(), _station_id, _reason_id, NULLIF(trim(_justification), ''))
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Closes a session at _ended_at and creates its overtime record. Marks are
+-- taken in local time and truncated to the minute, like the ones typed in the
+-- app.
+CREATE OR REPLACE FUNCTION public.close_overtime_clock_session(
+  _session_id UUID,
+  _ended_at TIMESTAMP WITH TIME ZONE,
+  _lunch_discount BOOLEAN,
+  _reason_id UUID,
+  _justification TEXT,
+  _auto_closed BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.overtime_clock_sessions;
+  v_start TIMESTAMP;
+  v_end TIMESTAMP;
+  v_record_id UUID;
+BEGIN
+  SELECT * INTO v_session
+  FROM public.overtime_clock_sessions
+  WHERE id = _session_id AND ended_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Nenhuma hora extra em andamento';
+  END IF;
+
+  v_start := date_trunc('minute', v_session.started_at AT TIME ZONE 'America/Sao_Paulo');
+  v_end := date_trunc('minute', _ended_at AT TIME ZONE 'America/Sao_Paulo');
+
+  IF v_end <= v_start THEN
+    RAISE EXCEPTION 'A hora extra precisa durar pelo menos um minuto';
+  END IF;
+
+  INSERT INTO public.overtime_records (
+    user_id, date, start_time, end_date, end_time, lunch_discount, station_id, reason_id, justification
+  ) VALUES (
+    v_session.user_id,
+    v_start::DATE,
+    v_start::TIME,
+    v_end::DATE,
+    v_end::TIME,
+    _lunch_discount,
+    v_session.station_id,
+    COALESCE(_reason_id, v_session.reason_id),
+    COALESCE(NULLIF(trim(_justification), ''), v_session.justification)
+  )
+  RETURNING id INTO v_record_id;
+
+  UPDATE public.overtime_clock_sessions
+  SET ended_at = _ended_at, auto_closed = _auto_closed, record_id = v_record_id
+  WHERE id = _session_id;
+
+  RETURN v_record_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_overtime_clock_session(UUID, TIMESTAMP WITH TIME ZONE, BOOLEAN, UUID, TEXT, BOOLEAN)
+  FROM PUBLIC, anon, authenticated;
+
+-- Stops the current user's session now; returns the new record
+CREATE OR REPLACE FUNCTION public.stop_overtime_clock(
+  _lunch_discount BOOLEAN DEFAULT false,
+  _reason_id UUID DEFAULT NULL,
+  _justification TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session_id UUID;
+BEGIN
+  SELECT id INTO v_session_id
+  FROM public.overtime_clock_sessions
+  WHERE user_id = auth.uid() AND ended_at IS NULL;
+
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Nenhuma hora extra em andamento';
+  END IF;
+
+  RETURN public.close_overtime_clock_session(v_session_id, now(), _lunch_discount, _reason_id, _justification, false);
+END;
+$$;
+
+-- Discards the current user's session without creating a record
+CREATE OR REPLACE FUNCTION public.cancel_overtime_clock()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.overtime_clock_sessions
+  WHERE user_id = auth.uid() AND ended_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Nenhuma hora extra em andamento';
+  END IF;
+END;
+$$;
+
+-- Closes sessions open longer than the auto-close time into pending records
+-- ending at that limit: those of _user_id or, without a user, everyone's
+-- (scheduler only). Sessions whose record is refused (closed payroll period,
+-- limits) are closed with the error so the hours can be entered by hand.
+-- Returns how many sessions were closed.
+CREATE OR REPLACE FUNCTION public.close_stale_overtime_clock_sessions(_user_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INTEGER;
+  v_session RECORD;
+  v_ended_at TIMESTAMP WITH TIME ZONE;
+  v_record_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT s.setting_value::INTEGER INTO v_limit
+  FROM public.payroll_settings s
+  WHERE s.setting_name = 'overtime_clock_auto_close_minutes';
+  v_limit := COALESCE(v_limit, 720);
+
+  FOR v_session IN
+    SELECT *
+    FROM public.overtime_clock_sessions
+    WHERE ended_at IS NULL
+      AND started_at + make_interval(mins => v_limit) <= now()
+      AND (_user_id IS NULL OR user_id = _user_id)
+  LOOP
+    v_ended_at := v_session.started_at + make_interval(mins => v_limit);
+
+    BEGIN
+      v_record_id := public.close_overtime_clock_session(
+        v_session.id,
+        v_ended_at,
+        false,
+        NULL,
+        COALESCE(v_session.justification, 'Saída não registrada: encerrada automaticamente'),
+        true
+      );
+    EXCEPTION WHEN OTHERS THEN
+      v_record_id := NULL;
+      UPDATE public.overtime_clock_sessions
+      SET ended_at = v_ended_at, auto_closed = true, close_error = SQLERRM
+      WHERE id = v_session.id;
+    END;
+
+    PERFORM public.log_security_event(
+      v_session.user_id,
+      'AUTO_CLOSE_OVERTIME_CLOCK',
+      'overtime_clock_sessions',
+      v_session.id,
+      NULL,
+      jsonb_build_object('ended_at', v_ended_at, 'record_id', v_record_id)
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_stale_overtime_clock_sessions(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Closes the current user's session if it is past the auto-close time
+CREATE OR REPLACE FUNCTION public.close_stale_overtime_clock()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  RETURN public.close_stale_overtime_clock_sessions(auth.uid());
+END;
+$$;
+
+-- Schedule with pg_cron so sessions close even if nobody opens the app.
+-- Without the extension (local stacks), enable it and run this block again.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'close-stale-overtime-clock',
+      '*/15 * * * *',
+      'SELECT public.close_stale_overtime_clock_sessions();'
+    );
+  END IF;
+END;
+$$;
@@ -0,0 +1,238 @@
+-- Station kiosk check-in
+-- A tablet at each station shows a QR code that changes every 30 seconds.
+-- The code is derived from a per-station secret and the current time window,
+-- so only someone looking at the tablet can read a valid one. Clock sessions
+-- started with a valid code are marked as verified at the station, and so are
+-- the records they turn into while their marks are unchanged.
+
+CREATE TABLE public.station_kiosk_secrets (
+  station_id UUID PRIMARY KEY REFERENCES public.stations(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL DEFAULT replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', ''),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Read only by the functions below
+ALTER TABLE public.station_kiosk_secrets ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.overtime_clock_sessions
+ADD COLUMN verified_at_station BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.overtime_records
+ADD COLUMN verified_at_station BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_overtime_records_verified ON public.overtime_records(user_id, verified_at_station);
+
+-- Code of a station for a 30-second window
+CREATE OR REPLACE FUNCTION public.station_kiosk_code_for(_station_id UUID, _window BIGINT)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT substr(encode(sha256(convert_to(s.secret || ':' || _window, 'UTF8')), 'hex'), 1, 16)
+  FROM public.station_kiosk_secrets s
+  WHERE s.station_id = _station_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.station_kiosk_code_for(UUID, BIGINT) FROM PUBLIC, anon, authenticated;
+
+-- Current code of a station and when it expires, for admins and the
+-- station's managers running the kiosk
+CREATE OR REPLACE FUNCTION public.station_kiosk_code(_station_id UUID)
+RETURNS TABLE (code TEXT, expires_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_window BIGINT := floor(EXTRACT(EPOCH FROM now()) / 30)::BIGINT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') AND NOT public.manages_station(auth.uid(), _station_id) THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.stations WHERE id = _station_id AND is_active) THEN
+    RAISE EXCEPTION 'Posto inativo ou inexistente';
+  END IF;
+
+  INSERT INTO public.station_kiosk_secrets (station_id)
+  VALUES (_station_id)
+  ON CONFLICT (station_id) DO NOTHING;
+
+  RETURN QUERY
+  SELECT public.station_kiosk_code_for(_station_id, v_window), to_timestamp((v_window + 1) * 30);
+END;
+$$;
+
+-- A code stays valid for two minutes after it leaves the screen, time
+-- enough to pick the reason on the phone after scanning
+CREATE OR REPLACE FUNCTION public.is_valid_station_kiosk_code(_station_id UUID, _code TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(_code, '') <> '' AND EXISTS (
+    SELECT 1
+    FROM generate_series(0, 4) AS w(age)
+    WHERE public.station_kiosk_code_for(_station_id, floor(EXTRACT(EPOCH FROM now()) / 30)::BIGINT - w.age) = _code
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_valid_station_kiosk_code(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- The flag is only set when a verified session becomes a record, and is lost
+-- when the record's marks are edited
+CREATE OR REPLACE FUNCTION public.protect_overtime_station_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.verified_at_station := COALESCE(current_setting('app.overtime_clock_verified', true), '') = 'on';
+  ELSE
+    NEW.verified_at_station := OLD.verified_at_station
+      AND NEW.date IS NOT DISTINCT FROM OLD.date
+      AND NEW.start_time IS NOT DISTINCT FROM OLD.start_time
+      AND NEW.end_date IS NOT DISTINCT FROM OLD.end_date
+      AND NEW.end_time IS NOT DISTINCT FROM OLD.end_time;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_overtime_records_station_verification
+  BEFORE INSERT OR UPDATE ON public.overtime_records
+  FOR EACH ROW EXECUTE FUNCTION public.protect_overtime_station_verification();
+
+-- Records of verified sessions carry the flag
+CREATE OR REPLACE FUNCTION public.close_overtime_clock_session(
+  _session_id UUID,
+  _ended_at TIMESTAMP WITH TIME ZONE,
+  _lunch_discount BOOLEAN,
+  _reason_id UUID,
+  _justification TEXT,
+  _auto_closed BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.overtime_clock_sessions;
+  v_start TIMESTAMP;
+  v_end TIMESTAMP;
+  v_record_id UUID;
+BEGIN
+  SELECT * INTO v_session
+  FROM public.overtime_clock_sessions
+  WHERE id = _session_id AND ended_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Nenhuma hora extra em andamento';
+  END IF;
+
+  v_start := date_trunc('minute', v_session.started_at AT TIME ZONE 'America/Sao_Paulo');
+  v_end := date_trunc('minute', _ended_at AT TIME ZONE 'America/Sao_Paulo');
+
+  IF v_end <= v_start THEN
+    RAISE EXCEPTION 'A hora extra precisa durar pelo menos um minuto';
+  END IF;
+
+  PERFORM set_config('app.overtime_clock_verified', CASE WHEN v_session.verified_at_station THEN 'on' ELSE '' END, true);
+  INSERT INTO public.overtime_records (
+    user_id, date, start_time, end_date, end_time, lunch_discount, station_id, reason_id, justification
+  ) VALUES (
+    v_session.user_id,
+    v_start::DATE,
+    v_start::TIME,
+    v_end::DATE,
+    v_end::TIME,
+    _lunch_discount,
+    v_session.station_id,
+    COALESCE(_reason_id, v_session.reason_id),
+    COALESCE(NULLIF(trim(_justification), ''), v_session.justification)
+  )
+  RETURNING id INTO v_record_id;
+  PERFORM set_config('app.overtime_clock_verified', '', true);
+
+  UPDATE public.overtime_clock_sessions
+  SET ended_at = _ended_at, auto_closed = _auto_closed, record_id = v_record_id
+  WHERE id = _session_id;
+
+  RETURN v_record_id;
+END;
+$$;
+
+-- Starts a clock session from a scanned kiosk code
+CREATE OR REPLACE FUNCTION public.start_overtime_clock_at_station(
+  _station_id UUID,
+  _code TEXT,
+  _reason_id UUID,
+  _justification TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF NOT public.is_valid_station_kiosk_code(_station_id, _code) THEN
+    RAISE EXCEPTION 'Código do posto inválido ou expirado: leia o QR code novamente';
+  END IF;
+
+  v_id := public.start_overtime_clock(_reason_id, _justification, _station_id);
+
+  UPDATE public.overtime_clock_sessions
+  SET verified_at_station = true
+  WHERE id = v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Stops the current user's session from a scanned kiosk code of the station
+-- the session belongs to
+CREATE OR REPLACE FUNCTION public.stop_overtime_clock_at_station(
+  _station_id UUID,
+  _code TEXT,
+  _lunch_discount BOOLEAN DEFAULT false,
+  _reason_id UUID DEFAULT NULL,
+  _justification TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.overtime_clock_sessions;
+BEGIN
+  IF NOT public.is_valid_station_kiosk_code(_station_id, _code) THEN
+    RAISE EXCEPTION 'Código do posto inválido ou expirado: leia o QR code novamente';
+  END IF;
+
+  SELECT * INTO v_session
+  FROM public.overtime_clock_sessions
+  WHERE user_id = auth.uid() AND ended_at IS NULL;
+
+  -- Sessions without a station belong to the one assigned on their start day
+  IF FOUND AND _station_id IS DISTINCT FROM COALESCE(
+    v_session.station_id,
+    public.get_station(v_session.user_id, (v_session.started_at AT TIME ZONE 'America/Sao_Paulo')::DATE)
+  ) THEN
+    RAISE EXCEPTION 'A hora extra foi iniciada em outro posto: leia o QR code do posto onde ela começou';
+  END IF;
+
+  RETURN public.stop_overtime_clock(_lunch_discount, _reason_id, _justification);
+END;
+$$;
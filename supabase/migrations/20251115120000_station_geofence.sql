@@ -0,0 +1,317 @@
+-- Station geofence
+-- Each station may have a coordinate and a radius. Entries from the app carry
+-- the phone's location, taken with the employee's consent, and are checked
+-- against the fence of the station where the overtime was worked (the
+-- employee's station by default). Entries outside the fence or without a
+-- location stay flagged for the reviewer; entries at stations without a
+-- fence, and those typed by an admin, are not checked.
+
+CREATE TYPE public.geofence_status AS ENUM ('inside', 'outside', 'no_location');
+
+ALTER TABLE public.stations
+ADD COLUMN latitude NUMERIC(9, 6),
+ADD COLUMN longitude NUMERIC(9, 6),
+ADD COLUMN geofence_radius_m INTEGER NOT NULL DEFAULT 150;
+
+ALTER TABLE public.stations
+ADD CONSTRAINT stations_coordinates CHECK (
+  (latitude IS NULL) = (longitude IS NULL)
+  AND (latitude IS NULL OR latitude BETWEEN -90 AND 90)
+  AND (longitude IS NULL OR longitude BETWEEN -180 AND 180)
+),
+ADD CONSTRAINT stations_geofence_radius CHECK (geofence_radius_m BETWEEN 20 AND 5000);
+
+ALTER TABLE public.overtime_records
+ADD COLUMN latitude NUMERIC(9, 6),
+ADD COLUMN longitude NUMERIC(9, 6),
+ADD COLUMN location_accuracy_m INTEGER,
+ADD COLUMN geofence_status geofence_status,
+ADD COLUMN geofence_distance_m INTEGER;
+
+ALTER TABLE public.overtime_records
+ADD CONSTRAINT overtime_records_coordinates CHECK (
+  (latitude IS NULL) = (longitude IS NULL)
+  AND (latitude IS NULL OR latitude BETWEEN -90 AND 90)
+  AND (longitude IS NULL OR longitude BETWEEN -180 AND 180)
+  AND (location_accuracy_m IS NULL OR location_accuracy_m >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_overtime_records_geofence ON public.overtime_records(geofence_status);
+
+ALTER TABLE public.overtime_clock_sessions
+ADD COLUMN start_latitude NUMERIC(9, 6),
+ADD COLUMN start_longitude NUMERIC(9, 6),
+ADD COLUMN start_accuracy_m INTEGER,
+ADD COLUMN end_latitude NUMERIC(9, 6),
+ADD COLUMN end_longitude NUMERIC(9, 6),
+ADD COLUMN end_accuracy_m INTEGER;
+
+-- Great-circle distance in meters
+CREATE OR REPLACE FUNCTION public.distance_in_meters(
+  _lat1 NUMERIC,
+  _lng1 NUMERIC,
+  _lat2 NUMERIC,
+  _lng2 NUMERIC
+)
+RETURNS NUMERIC
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT 2 * 6371000 * asin(sqrt(
+    power(sin(radians(_lat2 - _lat1) / 2), 2)
+    + cos(radians(_lat1)) * cos(radians(_lat2)) * power(sin(radians(_lng2 - _lng1) / 2), 2)
+  ))::NUMERIC
+$$;
+
+-- Position against a station's fence; both outputs are null when the station
+-- has no fence. The reported accuracy is kept for the reviewer but does not
+-- widen the fence.
+CREATE OR REPLACE FUNCTION public.geofence_status_at(
+  _station_id UUID,
+  _latitude NUMERIC,
+  _longitude NUMERIC,
+  OUT status geofence_status,
+  OUT distance_m INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_station public.stations;
+BEGIN
+  SELECT * INTO v_station FROM public.stations WHERE id = _station_id;
+
+  IF v_station.latitude IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF _latitude IS NULL OR _longitude IS NULL THEN
+    status := 'no_location';
+    RETURN;
+  END IF;
+
+  distance_m := round(public.distance_in_meters(v_station.latitude, v_station.longitude, _latitude, _longitude));
+  status := CASE WHEN distance_m <= v_station.geofence_radius_m THEN 'inside' ELSE 'outside' END;
+END;
+$$;
+
+-- Computes the geofence columns; they cannot be set by hand and are kept
+-- while the station, the location and the kiosk verification are unchanged.
+-- The location is the one taken when the entry was made: only admins change it.
+CREATE OR REPLACE FUNCTION public.verify_overtime_geofence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NOT public.has_role(auth.uid(), 'admin')
+    AND (
+      NEW.latitude IS DISTINCT FROM OLD.latitude
+      OR NEW.longitude IS DISTINCT FROM OLD.longitude
+      OR NEW.location_accuracy_m IS DISTINCT FROM OLD.location_accuracy_m
+    ) THEN
+    RAISE EXCEPTION 'A localização do lançamento não pode ser alterada';
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.station_id IS NOT DISTINCT FROM OLD.station_id
+    AND NEW.latitude IS NOT DISTINCT FROM OLD.latitude
+    AND NEW.longitude IS NOT DISTINCT FROM OLD.longitude
+    AND NEW.verified_at_station = OLD.verified_at_station THEN
+    NEW.geofence_status := OLD.geofence_status;
+    NEW.geofence_distance_m := OLD.geofence_distance_m;
+    RETURN NEW;
+  END IF;
+
+  -- Entries typed by an admin on an employee's behalf carry no location
+  IF NEW.latitude IS NULL AND (
+    (TG_OP = 'INSERT' AND public.is_admin_change(NEW.user_id))
+    OR (TG_OP = 'UPDATE' AND OLD.latitude IS NULL AND OLD.geofence_status IS NULL)
+  ) THEN
+    NEW.geofence_status := NULL;
+    NEW.geofence_distance_m := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT g.status, g.distance_m INTO NEW.geofence_status, NEW.geofence_distance_m
+  FROM public.geofence_status_at(NEW.station_id, NEW.latitude, NEW.longitude) g;
+
+  -- The kiosk QR code already proves the employee was at the station
+  IF NEW.geofence_status = 'no_location' AND NEW.verified_at_station THEN
+    NEW.geofence_status := 'inside';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER verify_overtime_records_geofence
+  BEFORE INSERT OR UPDATE ON public.overtime_records
+  FOR EACH ROW EXECUTE FUNCTION public.verify_overtime_geofence();
+
+-- The clock keeps the location of both marks; the record takes the worse of
+-- the two, so stopping at the station does not clear a start made elsewhere
+CREATE OR REPLACE FUNCTION public.close_overtime_clock_session(
+  _session_id UUID,
+  _ended_at TIMESTAMP WITH TIME ZONE,
+  _lunch_discount BOOLEAN,
+  _reason_id UUID,
+  _justification TEXT,
+  _auto_closed BOOLEAN
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.overtime_clock_sessions;
+  v_start TIMESTAMP;
+  v_end TIMESTAMP;
+  v_station_id UUID;
+  v_severity CONSTANT geofence_status[] := ARRAY['inside', 'no_location', 'outside']::geofence_status[];
+  v_use_start BOOLEAN;
+  v_record_id UUID;
+BEGIN
+  SELECT * INTO v_session
+  FROM public.overtime_clock_sessions
+  WHERE id = _session_id AND ended_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Nenhuma hora extra em andamento';
+  END IF;
+
+  v_start := date_trunc('minute', v_session.started_at AT TIME ZONE 'America/Sao_Paulo');
+  v_end := date_trunc('minute', _ended_at AT TIME ZONE 'America/Sao_Paulo');
+
+  IF v_end <= v_start THEN
+    RAISE EXCEPTION 'A hora extra precisa durar pelo menos um minuto';
+  END IF;
+
+  v_station_id := COALESCE(v_session.station_id, public.get_station(v_session.user_id, v_start::DATE));
+  v_use_start :=
+    COALESCE(array_position(v_severity, (public.geofence_status_at(v_station_id, v_session.start_latitude, v_session.start_longitude)).status), 0)
+    >= COALESCE(array_position(v_severity, (public.geofence_status_at(v_station_id, v_session.end_latitude, v_session.end_longitude)).status), 0);
+
+  PERFORM set_config('app.overtime_clock_verified', CASE WHEN v_session.verified_at_station THEN 'on' ELSE '' END, true);
+  INSERT INTO public.overtime_records (
+    user_id, date, start_time, end_date, end_time, lunch_discount, station_id, reason_id, justification,
+    latitude, longitude, location_accuracy_m
+  ) VALUES (
+    v_session.user_id,
+    v_start::DATE,
+    v_start::TIME,
+    v_end::DATE,
+    v_end::TIME,
+    _lunch_discount,
+    v_session.station_id,
+    COALESCE(_reason_id, v_session.reason_id),
+    COALESCE(NULLIF(trim(_justification), ''), v_session.justification),
+    CASE WHEN v_use_start THEN v_session.start_latitude ELSE v_session.end_latitude END,
+    CASE WHEN v_use_start THEN v_session.start_longitude ELSE v_session.end_longitude END,
+    CASE WHEN v_use_start THEN v_session.start_accuracy_m ELSE v_session.end_accuracy_m END
+  )
+  RETURNING id INTO v_record_id;
+  PERFORM set_config('app.overtime_clock_verified', '', true);
+
+  UPDATE public.overtime_clock_sessions
+  SET ended_at = _ended_at, auto_closed = _auto_closed, record_id = v_record_id
+  WHERE id = _session_id;
+
+  RETURN v_record_id;
+END;
+$$;
+
+-- The clock functions gain the location of the mark
+DROP FUNCTION public.start_overtime_clock(UUID, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.start_overtime_clock(
+  _reason_id UUID,
+  _justification TEXT DEFAULT NULL,
+  _station_id UUID DEFAULT NULL,
+  _latitude NUMERIC DEFAULT NULL,
+  _longitude NUMERIC DEFAULT NULL,
+  _accuracy_m INTEGER DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.overtime_clock_sessions WHERE user_id = auth.uid() AND ended_at IS NULL) THEN
+    RAISE EXCEPTION 'Já existe uma hora extra em andamento';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.overtime_reasons WHERE id = _reason_id AND is_active) THEN
+    RAISE EXCEPTION 'Motivo inativo ou inexistente';
+  END IF;
+
+  IF _station_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.stations WHERE id = _station_id AND is_active) THEN
+    RAISE EXCEPTION 'Posto inativo ou inexistente';
+  END IF;
+
+  -- Sessions become records, which employees only tag with their own station
+  IF _station_id IS NOT NULL
+    AND _station_id IS DISTINCT FROM public.get_station(auth.uid(), (now() AT TIME ZONE 'America/Sao_Paulo')::DATE) THEN
+    RAISE EXCEPTION 'Horas extras só podem ser lançadas no posto de lotação do funcionário';
+  END IF;
+
+  INSERT INTO public.overtime_clock_sessions (
+    user_id, station_id, reason_id, justification, start_latitude, start_longitude, start_accuracy_m
+  )
+  VALUES (
+    auth.uid(), _station_id, _reason_id, NULLIF(trim(_justification), ''),
+    round(_latitude, 6), round(_longitude, 6), _accuracy_m
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+DROP FUNCTION public.stop_overtime_clock(BOOLEAN, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.stop_overtime_clock(
+  _lunch_discount BOOLEAN DEFAULT false,
+  _reason_id UUID DEFAULT NULL,
+  _justification TEXT DEFAULT NULL,
+  _latitude NUMERIC DEFAULT NULL,
+  _longitude NUMERIC DEFAULT NULL,
+  _accuracy_m INTEGER DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session_id UUID;
+BEGIN
+  SELECT id INTO v_session_id
+  FROM public.overtime_clock_sessions
+  WHERE user_id = auth.uid() AND ended_at IS NULL;
+
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Nenhuma hora extra em andamento';
+  END IF;
+
+  UPDATE public.overtime_clock_sessions
+  SET end_latitude = round(_latitude, 6), end_longitude = round(_longitude, 6), end_accuracy_m = _accuracy_m
+  WHERE id = v_session_id;
+
+  RETURN public.close_overtime_clock_session(v_session_id, now(), _lunch_discount, _reason_id, _justification, false);
+END;
+$$;
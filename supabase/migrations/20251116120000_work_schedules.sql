@@ -0,0 +1,390 @@
+-- Work schedules (escalas)
+-- Admins keep schedule templates (6x1, 5x2, 12x36 or a custom week) with the
+-- expected daily shift, and assign them to employees with effective-dated
+-- history, like station transfers. The database expands them into the shifts
+-- each employee was scheduled to work, so overtime can be compared with the
+-- plan. Employees without a schedule keep the regular shift of their profile.
+
+CREATE TYPE public.work_schedule_pattern AS ENUM ('6x1', '5x2', '12x36', 'custom');
+
+CREATE TABLE public.work_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  pattern public.work_schedule_pattern NOT NULL,
+  shift_start TIME NOT NULL,
+  shift_end TIME NOT NULL,
+  break_minutes SMALLINT NOT NULL DEFAULT 60,
+  -- ISO weekdays worked by weekly patterns (5x2, custom); rotating patterns ignore them
+  work_days SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.work_schedules
+ADD CONSTRAINT work_schedules_name_length CHECK (length(name) >= 2 AND length(name) <= 100),
+ADD CONSTRAINT work_schedules_shift_range CHECK (shift_start <> shift_end),
+ADD CONSTRAINT work_schedules_break_range CHECK (break_minutes >= 0 AND break_minutes <= 240),
+ADD CONSTRAINT work_schedules_work_days_range CHECK (work_days <@ ARRAY[1, 2, 3, 4, 5, 6, 7]::SMALLINT[]),
+ADD CONSTRAINT work_schedules_work_days_pattern CHECK (
+  CASE pattern
+    WHEN '5x2' THEN cardinality(work_days) = 5
+    WHEN 'custom' THEN cardinality(work_days) > 0
+    ELSE true
+  END
+);
+
+-- Enable RLS
+ALTER TABLE public.work_schedules ENABLE ROW LEVEL SECURITY;
+
+-- Employees see the schedule they were assigned
+CREATE POLICY "Authenticated users can view work schedules"
+  ON public.work_schedules FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage work schedules"
+  ON public.work_schedules FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_work_schedules_updated_at
+  BEFORE UPDATE ON public.work_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_work_schedules_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.work_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.audit_trigger_function();
+
+-- Schedule history: an assignment holds until the next one takes effect.
+-- Rotating patterns count their cycle from effective_from, a worked day.
+CREATE TABLE public.work_schedule_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  schedule_id UUID REFERENCES public.work_schedules(id) ON DELETE RESTRICT NOT NULL,
+  effective_from DATE NOT NULL,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, effective_from)
+);
+
+-- Enable RLS
+ALTER TABLE public.work_schedule_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own work schedule assignments"
+  ON public.work_schedule_assignments FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage work schedule assignments"
+  ON public.work_schedule_assignments FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_work_schedule_assignments_user_effective ON public.work_schedule_assignments(user_id, effective_from DESC);
+CREATE INDEX IF NOT EXISTS idx_work_schedule_assignments_schedule ON public.work_schedule_assignments(schedule_id);
+
+CREATE TRIGGER audit_work_schedule_assignments_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.work_schedule_assignments
+  FOR EACH ROW EXECUTE FUNCTION public.audit_trigger_function();
+
+-- New assignments must use an active schedule
+CREATE OR REPLACE FUNCTION public.validate_work_schedule_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' OR NEW.schedule_id IS DISTINCT FROM OLD.schedule_id)
+    AND NOT EXISTS (SELECT 1 FROM public.work_schedules WHERE id = NEW.schedule_id AND is_active) THEN
+    RAISE EXCEPTION 'Escala inativa ou inexistente';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_work_schedule_assignments
+  BEFORE INSERT OR UPDATE ON public.work_schedule_assignments
+  FOR EACH ROW EXECUTE FUNCTION public.validate_work_schedule_assignment();
+
+-- Shifts each employee was scheduled to work between two dates, by the day
+-- they start on. Weekly patterns and the profile's regular shift skip
+-- holidays; rotating ones (6x1, 12x36) run through them. _user_id NULL
+-- covers every employee.
+CREATE OR REPLACE FUNCTION public.scheduled_shift_periods(_user_id UUID, _from DATE, _to DATE)
+RETURNS TABLE (
+  user_id UUID,
+  day DATE,
+  starts_at TIMESTAMP,
+  ends_at TIMESTAMP,
+  planned_minutes INTEGER,
+  schedule_id UUID
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH days AS (
+    SELECT
+      p.id AS user_id,
+      d.day::DATE AS day,
+      s.id AS schedule_id,
+      s.pattern,
+      d.day::DATE - a.effective_from AS cycle_day,
+      COALESCE(s.work_days, p.work_days) AS work_days,
+      CASE WHEN s.id IS NULL THEN p.regular_shift_start ELSE s.shift_start END AS shift_start,
+      CASE WHEN s.id IS NULL THEN p.regular_shift_end ELSE s.shift_end END AS shift_end,
+      COALESCE(s.break_minutes, 0) AS break_minutes
+    FROM public.profiles p
+    CROSS JOIN generate_series(_from, _to, INTERVAL '1 day') d(day)
+    LEFT JOIN LATERAL (
+      SELECT a.schedule_id, a.effective_from
+      FROM public.work_schedule_assignments a
+      WHERE a.user_id = p.id AND a.effective_from <= d.day::DATE
+      ORDER BY a.effective_from DESC
+      LIMIT 1
+    ) a ON true
+    LEFT JOIN public.work_schedules s ON s.id = a.schedule_id
+    WHERE _user_id IS NULL OR p.id = _user_id
+  ),
+  shifts AS (
+    SELECT
+      d.user_id,
+      d.day,
+      d.day + d.shift_start AS starts_at,
+      d.day + d.shift_end
+        + CASE WHEN d.shift_end < d.shift_start THEN INTERVAL '1 day' ELSE INTERVAL '0' END AS ends_at,
+      d.break_minutes,
+      d.schedule_id
+    FROM days d
+    WHERE d.shift_start IS NOT NULL
+      AND CASE d.pattern
+        WHEN '6x1' THEN d.cycle_day % 7 < 6
+        WHEN '12x36' THEN d.cycle_day % 2 = 0
+        ELSE EXTRACT(ISODOW FROM d.day)::SMALLINT = ANY (d.work_days)
+          AND NOT EXISTS (SELECT 1 FROM public.holidays h WHERE h.date = d.day AND h.is_active)
+      END
+  )
+  SELECT
+    s.user_id,
+    s.day,
+    s.starts_at,
+    s.ends_at,
+    GREATEST(0, EXTRACT(EPOCH FROM s.ends_at - s.starts_at) / 60 - s.break_minutes)::INTEGER,
+    s.schedule_id
+  FROM shifts s
+  ORDER BY s.user_id, s.starts_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.scheduled_shift_periods(UUID, DATE, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Scheduled shifts of one employee (own data or admin)
+CREATE OR REPLACE FUNCTION public.work_schedule_shifts(_from DATE, _to DATE, _user_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  day DATE,
+  starts_at TIMESTAMP,
+  ends_at TIMESTAMP,
+  planned_minutes INTEGER,
+  schedule_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _target UUID := COALESCE(_user_id, auth.uid());
+BEGIN
+  IF _target IS DISTINCT FROM auth.uid() AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  IF _to - _from > 366 THEN
+    RAISE EXCEPTION 'O período deve ter no máximo um ano';
+  END IF;
+
+  RETURN QUERY
+  SELECT s.day, s.starts_at, s.ends_at, s.planned_minutes, s.schedule_id
+  FROM public.scheduled_shift_periods(_target, _from, _to) s
+  ORDER BY s.starts_at;
+END;
+$$;
+
+-- Planned vs actual per employee: scheduled shifts against the overtime
+-- registered on top of them. Overtime on a day without a scheduled shift is
+-- work on a day off; overtime overlapping the shift itself was already paid
+-- as regular hours and points to a wrong entry or schedule. Rejected records
+-- do not count.
+CREATE OR REPLACE FUNCTION public.schedule_adherence(_from DATE, _to DATE)
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT,
+  station_id UUID,
+  schedule_id UUID,
+  scheduled_days INTEGER,
+  planned_minutes INTEGER,
+  overtime_minutes INTEGER,
+  day_off_overtime_minutes INTEGER,
+  overlapping_minutes INTEGER,
+  record_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  IF _to - _from > 366 THEN
+    RAISE EXCEPTION 'O período deve ter no máximo um ano';
+  END IF;
+
+  RETURN QUERY
+  WITH shifts AS (
+    -- A day earlier, so night shifts reaching into the period are matched
+    SELECT * FROM public.scheduled_shift_periods(NULL, _from - 1, _to)
+  ),
+  records AS (
+    SELECT
+      r.user_id,
+      -- Overtime right after a night shift belongs to the day the shift started
+      COALESCE((
+        SELECT s.day
+        FROM shifts s
+        WHERE s.user_id = r.user_id AND s.day = r.date - 1 AND s.ends_at >= r.date + r.start_time
+      ), r.date) AS workday,
+      r.date + r.start_time AS starts_at,
+      r.end_date + r.end_time AS ends_at,
+      ROUND(r.net_hours * 60)::INTEGER AS net_minutes
+    FROM public.overtime_records r
+    WHERE r.status <> 'rejected'
+      AND r.date BETWEEN _from AND _to
+  ),
+  record_totals AS (
+    SELECT
+      r.user_id,
+      COUNT(*)::INTEGER AS record_count,
+      SUM(r.net_minutes)::INTEGER AS overtime_minutes,
+      COALESCE(SUM(r.net_minutes) FILTER (
+        WHERE NOT EXISTS (SELECT 1 FROM shifts s WHERE s.user_id = r.user_id AND s.day = r.workday)
+      ), 0)::INTEGER AS day_off_overtime_minutes,
+      COALESCE(SUM((
+        SELECT SUM(EXTRACT(EPOCH FROM LEAST(s.ends_at, r.ends_at) - GREATEST(s.starts_at, r.starts_at)) / 60)
+        FROM shifts s
+        WHERE s.user_id = r.user_id AND s.starts_at < r.ends_at AND r.starts_at < s.ends_at
+      )), 0)::INTEGER AS overlapping_minutes
+    FROM records r
+    GROUP BY r.user_id
+  ),
+  shift_totals AS (
+    SELECT s.user_id, COUNT(*)::INTEGER AS scheduled_days, SUM(s.planned_minutes)::INTEGER AS planned_minutes
+    FROM shifts s
+    WHERE s.day >= _from
+    GROUP BY s.user_id
+  )
+  SELECT
+    p.id,
+    p.full_name,
+    public.get_station(p.id, _to),
+    (
+      SELECT a.schedule_id
+      FROM public.work_schedule_assignments a
+      WHERE a.user_id = p.id AND a.effective_from <= _to
+      ORDER BY a.effective_from DESC
+      LIMIT 1
+    ),
+    COALESCE(st.scheduled_days, 0),
+    COALESCE(st.planned_minutes, 0),
+    COALESCE(rt.overtime_minutes, 0),
+    COALESCE(rt.day_off_overtime_minutes, 0),
+    COALESCE(rt.overlapping_minutes, 0),
+    COALESCE(rt.record_count, 0)
+  FROM public.profiles p
+  LEFT JOIN shift_totals st ON st.user_id = p.id
+  LEFT JOIN record_totals rt ON rt.user_id = p.id
+  WHERE st.user_id IS NOT NULL OR rt.user_id IS NOT NULL
+  ORDER BY p.full_name;
+END;
+$$;
+
+-- The interjornada check follows the assigned schedules, and overtime
+-- continuing a night shift no longer counts as a new workday
+CREATE OR REPLACE FUNCTION public.rest_period_gaps(_user_id UUID, _from DATE, _to DATE)
+RETURNS TABLE (
+  user_id UUID,
+  rest_start TIMESTAMP,
+  rest_end TIMESTAMP,
+  rest_minutes INTEGER,
+  overtime_record_ids UUID[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH shifts AS (
+    -- Scheduled shifts (or the regular one) of each day
+    SELECT * FROM public.scheduled_shift_periods(_user_id, _from - 1, _to + 1)
+  ),
+  periods AS (
+    SELECT s.user_id, s.day, s.starts_at, s.ends_at, NULL::UUID AS record_id
+    FROM shifts s
+    UNION ALL
+    -- Overtime right after a night shift extends that workday
+    SELECT
+      r.user_id,
+      COALESCE((
+        SELECT s.day
+        FROM shifts s
+        WHERE s.user_id = r.user_id AND s.day = r.date - 1 AND s.ends_at >= r.date + r.start_time
+      ), r.date),
+      r.date + r.start_time,
+      r.end_date + r.end_time,
+      r.id
+    FROM public.overtime_records r
+    WHERE (_user_id IS NULL OR r.user_id = _user_id)
+      AND r.status <> 'rejected'
+      AND r.date BETWEEN _from - 1 AND _to + 1
+  ),
+  workdays AS (
+    SELECT p.user_id, p.day, MIN(p.starts_at) AS starts_at, MAX(p.ends_at) AS ends_at
+    FROM periods p
+    GROUP BY p.user_id, p.day
+  ),
+  rests AS (
+    SELECT
+      w.user_id,
+      w.day,
+      w.ends_at AS rest_start,
+      LEAD(w.day) OVER (PARTITION BY w.user_id ORDER BY w.day) AS next_day,
+      LEAD(w.starts_at) OVER (PARTITION BY w.user_id ORDER BY w.day) AS rest_end
+    FROM workdays w
+  ),
+  violations AS (
+    SELECT
+      r.user_id,
+      r.rest_start,
+      r.rest_end,
+      GREATEST(0, EXTRACT(EPOCH FROM r.rest_end - r.rest_start) / 60)::INTEGER AS rest_minutes,
+      ARRAY(
+        SELECT p.record_id
+        FROM periods p
+        WHERE p.user_id = r.user_id
+          AND p.record_id IS NOT NULL
+          AND ((p.day = r.day AND p.ends_at = r.rest_start) OR (p.day = r.next_day AND p.starts_at = r.rest_end))
+        ORDER BY p.starts_at
+      ) AS overtime_record_ids
+    FROM rests r
+    WHERE r.rest_end IS NOT NULL
+      AND r.rest_end - r.rest_start < INTERVAL '11 hours'
+      AND (r.day BETWEEN _from AND _to OR r.next_day BETWEEN _from AND _to)
+  )
+  SELECT v.user_id, v.rest_start, v.rest_end, v.rest_minutes, v.overtime_record_ids
+  FROM violations v
+  WHERE cardinality(v.overtime_record_ids) > 0
+  ORDER BY v.rest_start, v.user_id;
+$$;
@@ -0,0 +1,125 @@
+-- Deleting overtime attachment files follows the attachment row and its
+-- record. Run against the local stack with `supabase test db`.
+BEGIN;
+SELECT plan(11);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-0000000000e1', 'employee@example.com', '{"full_name": "Funcionário Teste", "cpf": "52998224725"}'),
+  ('00000000-0000-0000-0000-0000000000e2', 'other@example.com', '{"full_name": "Outro Funcionário", "cpf": "11144477735"}'),
+  ('00000000-0000-0000-0000-0000000000a1', 'admin@example.com', '{"full_name": "Admin Teste", "cpf": "39053344705"}');
+
+INSERT INTO public.user_roles (user_id, role) VALUES ('00000000-0000-0000-0000-0000000000a1', 'admin');
+
+INSERT INTO public.overtime_records (id, user_id, date, start_time, end_time, lunch_discount, reason_id, justification)
+SELECT record_id::UUID, '00000000-0000-0000-0000-0000000000e1', '2025-10-21', '18:00', '20:00', false, r.id, 'Inventário do mês'
+FROM (VALUES ('10000000-0000-0000-0000-000000000001')) AS records(record_id)
+CROSS JOIN public.overtime_reasons r
+WHERE r.name = 'Inventário';
+
+INSERT INTO public.overtime_attachments (record_id, user_id, storage_path, file_name, mime_type, size_bytes) VALUES (
+  '10000000-0000-0000-0000-000000000001',
+  '00000000-0000-0000-0000-0000000000e1',
+  '00000000-0000-0000-0000-0000000000e1/10000000-0000-0000-0000-000000000001/proof.pdf',
+  'livro.pdf',
+  'application/pdf',
+  1024
+);
+
+-- Pending record: the owner may remove its files, other employees may not
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000e1", "role": "authenticated"}', true);
+
+SELECT ok(
+  public.can_delete_overtime_attachment('00000000-0000-0000-0000-0000000000e1/10000000-0000-0000-0000-000000000001/proof.pdf'),
+  'owner may delete the file of a pending record'
+);
+
+SELECT ok(
+  public.can_delete_overtime_attachment('00000000-0000-0000-0000-0000000000e1/10000000-0000-0000-0000-000000000001/leftover.pdf'),
+  'owner may clean up an unregistered file in their folder'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000e2", "role": "authenticated"}', true);
+
+SELECT ok(
+  NOT public.can_delete_overtime_attachment('00000000-0000-0000-0000-0000000000e1/10000000-0000-0000-0000-000000000001/proof.pdf'),
+  'another employee may not delete the file'
+);
+
+SELECT ok(
+  NOT public.can_delete_overtime_attachment('00000000-0000-0000-0000-0000000000e1/10000000-0000-0000-0000-000000000001/leftover.pdf'),
+  'another employee may not clean up files outside their folder'
+);
+
+-- Approved record: the proof stays for the employee, admins may still remove it
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+UPDATE public.overtime_records SET status = 'approved' WHERE id = '10000000-0000-0000-0000-000000000001';
+
+SELECT ok(
+  public.can_delete_overtime_attachment('00000000-0000-0000-0000-0000000000e1/10000000-0000-0000-0000-000000000001/proof.pdf'),
+  'admin may delete the file of an approved record in an open period'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000e1", "role": "authenticated"}', true);
+
+SELECT ok(
+  NOT public.can_delete_overtime_attachment('00000000-0000-0000-0000-0000000000e1/10000000-0000-0000-0000-000000000001/proof.pdf'),
+  'owner may not delete the file of an approved record'
+);
+
+SET LOCAL ROLE authenticated;
+DELETE FROM public.overtime_attachments WHERE record_id = '10000000-0000-0000-0000-000000000001';
+RESET ROLE;
+
+SELECT is(
+  (SELECT count(*) FROM public.overtime_attachments WHERE record_id = '10000000-0000-0000-0000-000000000001'),
+  1::BIGINT,
+  'owner may not unregister the attachment of an approved record'
+);
+
+-- Closed payroll period: nobody removes the file
+SELECT set_config('app.payroll_period_action', 'close', true);
+INSERT INTO public.payroll_periods (starts_on, ends_on, status, closed_at, closed_by)
+VALUES ('2025-10-01', '2025-10-31', 'closed', now(), '00000000-0000-0000-0000-0000000000a1');
+SELECT set_config('app.payroll_period_action', '', true);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+
+SELECT ok(
+  NOT public.can_delete_overtime_attachment('00000000-0000-0000-0000-0000000000e1/10000000-0000-0000-0000-000000000001/proof.pdf'),
+  'admin may not delete the file of a closed payroll period'
+);
+
+-- Storage and table policies go through the same check
+SELECT is(
+  (
+    SELECT count(*)
+    FROM pg_policies
+    WHERE schemaname = 'storage' AND tablename = 'objects' AND cmd = 'DELETE'
+      AND qual LIKE '%overtime-attachments%'
+  ),
+  1::BIGINT,
+  'one storage delete policy covers the bucket'
+);
+
+SELECT ok(
+  EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE schemaname = 'storage' AND tablename = 'objects' AND cmd = 'DELETE'
+      AND qual LIKE '%can_delete_overtime_attachment(name)%'
+  ),
+  'storage delete policy checks the attachment row and its record'
+);
+
+SELECT ok(
+  EXISTS (
+    SELECT 1
+    FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'overtime_attachments' AND cmd = 'DELETE'
+      AND qual LIKE '%can_delete_overtime_attachment(storage_path)%'
+  ),
+  'attachment delete policy applies the same check'
+);
+
+SELECT * FROM finish();
+ROLLBACK;